@@ -0,0 +1,968 @@
+/**
+ * LockTrip API - E2E Integration Test
+ *
+ * Complete hotel booking flow test over either API. The flow runs through
+ * HotelBookingClient, so the GraphQL API and the MCP Server take the same
+ * steps - --graphql (the default) or --mcp picks the transport.
+ *
+ * =============================================================================
+ * AUTHENTICATION
+ * =============================================================================
+ *
+ * 1. Get your Bearer token by logging into https://locktrip.com
+ *    OR use the login API:
+ *
+ *    curl -X POST https://users.locktrip.com/api/auth/login \
+ *      -H "Content-Type: application/json" \
+ *      -d '{"email": "your-email@example.com", "password": "your-password"}'
+ *
+ *    OR let the script log in - the token is cached in ~/.locktrip/tokens.json
+ *    and renewed before it expires:
+ *
+ *    LOCKTRIP_EMAIL="your-email@example.com" LOCKTRIP_PASSWORD="..." npx tsx e2e-test.ts
+ *
+ * 2. Your account MUST be B2B with credit line:
+ *    - isB2B: true
+ *    - hasCL: true (has credit line)
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * # Install dependencies (if not already installed)
+ * npm install
+ *
+ * # Search only (no booking - safe to run):
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts
+ *
+ * # Full flow with booking (CHARGES CREDIT LINE, then cancels):
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --book
+ *
+ * # Same flow over the MCP Server (or TRANSPORT=mcp):
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --mcp --book
+ *
+ * # MCP over JSON-RPC 2.0 (/rpc) or an SSE session (/sse) - the path Claude Desktop uses:
+ * BEARER_TOKEN="eyJ..." MCP_PROTOCOL=sse npx tsx e2e-test.ts --mcp --book
+ *
+ * # Confirm even if the prepared price rose past PRICE_TOLERANCE:
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --book --accept-price-change
+ *
+ * # List the interrupted bookings in the journal, then continue one of them -
+ * # a flow that stopped before confirm is only confirmed with --confirm:
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --resume
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --resume <flowId>
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --resume <flowId> --confirm
+ *
+ * # Search somewhere else - settings come from defaults, locktrip.config.yaml,
+ * # the environment and flags (see README "Configuration"):
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --destination "paris, france" --currency USD --adults 1
+ *
+ * # Synthetic monitor - per-step timings, polls and request counts as JSON and JUnit XML:
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --report reports/e2e-graphql.json --junit reports/e2e-graphql.xml
+ *
+ * # Every request and response as redacted JSON lines, for a log pipeline:
+ * BEARER_TOKEN="eyJ..." npx tsx e2e-test.ts --book --log-level debug --log-format json --log-file logs/e2e.jsonl
+ *
+ * # Every flag - an unknown or incomplete one exits with 2 and points here:
+ * npx tsx e2e-test.ts --help
+ *
+ * =============================================================================
+ * FLOW
+ * =============================================================================
+ *
+ * | Step | GraphQL                   | MCP                       | Result                                 |
+ * |------|---------------------------|---------------------------|----------------------------------------|
+ * | 1    | locationSearch            | search_location           | Get regionId                           |
+ * | 2    | hotelSearch               | hotel_search              | Get searchKey (async)                  |
+ * | 3    | hotelSearchResults        | get_search_results        | Poll until the search completes        |
+ * | 4    | getHotelRooms             | get_hotel_rooms           | Get quoteId for selected room          |
+ * | 5    | hotelCancellationPolicies | check_cancellation_policy | Check refund terms                     |
+ * | 6    | hotelBookingPrepare       | prepare_booking           | Get preparedBookingId                  |
+ * | 7    | confirmB2bBooking         | confirm_booking           | Complete booking (CHARGES CREDIT LINE) |
+ * | 8    | cancelBookingRequest      | cancel_booking            | Cancel and refund                      |
+ *
+ * Date formats, page numbering, hotelId types and the guest structure differ
+ * between the APIs - src/booking-client.ts translates them.
+ */
+
+import { createAuthProvider } from './src/auth';
+import { createBookingClient, Hotel, HotelBookingClient, RoomPackage, Transport } from './src/booking-client';
+import { BookingJournal, cancelOnce, confirmOnce, FINISHED, wasConfirmed } from './src/booking-journal';
+import { CancellationPolicy } from './src/cancellation-policy';
+import { CleanupRegistry } from './src/cleanup-registry';
+import { CliArgs, parseArgs, UsageError } from './src/cli/args';
+import { money, printTable } from './src/cli/output';
+import { CONFIG_FLAGS, createRunLogger, loadConfigOrExit } from './src/config/load';
+import { LockTripConfig, searchOccupancy } from './src/config/schema';
+import { parseStayDate, toIsoDate } from './src/dates';
+import { assertValidGuestList } from './src/guest-manifest';
+import { HotelFilter } from './src/hotel-filter';
+import { newCorrelationId } from './src/logger';
+import { isPriceChanged, PriceGuard } from './src/price-guard';
+import { RunRecorder, RunReport, writeRunReport } from './src/run-report';
+import { RecoverableSearch } from './src/session-recovery';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+// Flags that take no value - everything else consumes the next argument
+const BOOLEAN_FLAGS = ['book', 'resume', 'confirm', 'accept-price-change', 'graphql', 'mcp', 'help'];
+
+// Ties this run's log records to its report
+const runId = newCorrelationId();
+
+/**
+ * Settings as the flow uses them - defaults < locktrip.config.{yaml,json} <
+ * environment < flags, validated before the first request
+ */
+function configure(settings: LockTripConfig) {
+  return {
+    // graphql (default) or mcp - --graphql / --mcp, TRANSPORT or `transport` in the config file
+    TRANSPORT: settings.transport,
+
+    // Production endpoints (override with GRAPHQL_URL / MCP_BASE_URL, e.g. the mock server)
+    GRAPHQL_URL: settings.graphqlUrl,
+    MCP_BASE_URL: settings.mcpUrl,
+
+    // rest: /tools/:name, rpc: JSON-RPC 2.0 at /rpc, sse: MCP session at /sse
+    // (MCP_PROTOCOL or --mcp-protocol)
+    MCP_PROTOCOL: settings.mcpProtocol,
+
+    // Bearer token (BEARER_TOKEN), or log in with LOCKTRIP_EMAIL + LOCKTRIP_PASSWORD
+    // or a credential file (--credentials) - login tokens are cached and renewed
+    AUTH: createAuthProvider({ token: settings.token, ...settings.auth }),
+
+    // Structured log - --log-level, --log-format, --log-file. Token, contact details
+    // and guest names are redacted; every record carries this run's correlationId
+    LOGGER: createRunLogger(settings, runId),
+
+    // Run report - --report <json>, --junit <xml>; nothing is written without a path
+    REPORT: settings.report,
+
+    // Search parameters - --destination, --currency, --adults, --children, --rooms, --occupancy, --nationality, --max-price
+    DESTINATION: settings.search.destination,
+    CURRENCY: settings.search.currency,
+    OCCUPANCY: searchOccupancy(settings.search),  // Guests in booking MUST match this exactly, room by room
+    NATIONALITY: settings.search.nationality,
+    MAX_PRICE_FILTER: settings.search.maxPrice,
+
+    // Polling configuration - interval grows ×backoff per poll up to the max
+    POLL_INITIAL_WAIT_MS: settings.polling.initialWaitMs,
+    POLL_INTERVAL_MS: settings.polling.intervalMs,
+    POLL_BACKOFF: settings.polling.backoff,
+    POLL_MAX_INTERVAL_MS: settings.polling.maxIntervalMs,
+    POLL_DEADLINE_MS: settings.polling.deadlineMs,
+
+    // Max increase from room quote to prepared price before confirm is blocked
+    PRICE_TOLERANCE: settings.booking.priceTolerance,
+
+    // Paging - every page is fetched, PAGE_CONCURRENCY at a time
+    PAGE_SIZE: settings.paging.pageSize,
+    PAGE_CONCURRENCY: settings.paging.concurrency,
+
+    // Pause between confirm and the cleanup cancellation
+    CANCEL_DELAY_MS: settings.booking.cancelDelayMs,
+
+    // Booking journal - every confirm/cancel is recorded here before and after
+    JOURNAL_PATH: settings.journalPath,
+
+    // Test guest data - set booking.guests / booking.contact in the config file for production
+    GUESTS: settings.booking.guests,
+    CHILDREN: settings.booking.children,
+    CONTACT: settings.booking.contact,
+  };
+}
+
+// Parsed in main() - a bad flag is reported as usage, not as a stack trace
+let args!: CliArgs;
+let CONFIG!: ReturnType<typeof configure>;
+
+// Operation behind each step, as the transport names it
+const OPERATIONS: Record<Transport, string[]> = {
+  graphql: [
+    'locationSearch',
+    'hotelSearch',
+    'hotelSearchResults (polling)',
+    'getHotelRooms',
+    'hotelCancellationPolicies',
+    'hotelBookingPrepare',
+    'confirmB2bBooking',
+    'cancelBookingRequest',
+  ],
+  mcp: [
+    'search_location',
+    'hotel_search',
+    'get_search_results (polling)',
+    'get_hotel_rooms',
+    'check_cancellation_policy',
+    'prepare_booking',
+    'confirm_booking',
+    'cancel_booking',
+  ],
+};
+
+// =============================================================================
+// STATE
+// =============================================================================
+interface TestState {
+  flowId: string;
+  regionId: string;
+  searchKey: string;
+  hotelId: string;
+  hotelName: string;
+  quoteId: string;
+  packageId: string;
+  preparedBookingId: string;
+  roomDetails: RoomPackage;
+  checkIn: Date;
+  checkOut: Date;
+  price: number;
+}
+
+const state: Partial<TestState> = {};
+
+// The search behind steps 4-6 - re-run once per step if its session expires
+let search: RecoverableSearch | undefined;
+
+// Search, quote and prepared prices - confirm is blocked if they drift
+let priceGuard!: PriceGuard;
+
+// Durable record of the booking flow - read back by --resume
+let journal!: BookingJournal;
+
+// Bookings created in this run - always cancelled, even on errors and Ctrl+C
+const cleanup = new CleanupRegistry();
+
+// Per-step timings, request counts, HTTP statuses and retries - see finishRun()
+let run!: RunRecorder;
+
+let client!: HotelBookingClient;
+
+/**
+ * Parse the flags, load the settings and create the run's client, journal and
+ * report - throws UsageError for a bad flag; a bad setting exits via loadConfigOrExit
+ */
+function setup(): void {
+  args = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  args.assertKnown([...BOOLEAN_FLAGS, ...Object.keys(CONFIG_FLAGS), 'config']);
+  if (args.positionals.length > (args.has('resume') ? 1 : 0)) {
+    throw new UsageError(`Unexpected argument: ${args.positionals[args.positionals.length - 1]}`);
+  }
+
+  CONFIG = configure(loadConfigOrExit({ args, booking: args.has('book') || args.has('resume') }));
+  priceGuard = new PriceGuard(CONFIG.PRICE_TOLERANCE);
+  journal = new BookingJournal(CONFIG.JOURNAL_PATH);
+
+  run = new RunRecorder({
+    name: `e2e-${CONFIG.TRANSPORT}`,
+    transport: CONFIG.TRANSPORT,
+    runId,
+    labels: CONFIG.TRANSPORT === 'mcp'
+      ? { url: CONFIG.MCP_BASE_URL, protocol: CONFIG.MCP_PROTOCOL, destination: CONFIG.DESTINATION, occupancy: CONFIG.OCCUPANCY.describe() }
+      : { url: CONFIG.GRAPHQL_URL, destination: CONFIG.DESTINATION, occupancy: CONFIG.OCCUPANCY.describe() },
+    redactor: CONFIG.LOGGER.redactor,
+  });
+
+  client = createBookingClient({
+    transport: CONFIG.TRANSPORT,
+    graphqlUrl: CONFIG.GRAPHQL_URL,
+    mcpUrl: CONFIG.MCP_BASE_URL,
+    mcpProtocol: CONFIG.MCP_PROTOCOL,
+    auth: CONFIG.AUTH,
+    logger: CONFIG.LOGGER,
+    onResponse: run.onResponse,
+    retry: { onRetry: run.onRetry },
+  });
+}
+
+function printUsage() {
+  console.log('Usage: npx tsx e2e-test.ts [--graphql | --mcp [--mcp-protocol rest|rpc|sse]] [--book [--accept-price-change]]');
+  console.log('       npx tsx e2e-test.ts --resume [<flowId> [--confirm]]');
+  console.log(`\nSettings: ${Object.keys(CONFIG_FLAGS).map(flag => `--${flag}`).join(' ')} --config <file>`);
+  console.log('          - see README "Configuration"');
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Generate test dates (6 months in future) - the client formats them per transport
+ */
+function getTestDates(): { checkIn: Date; checkOut: Date; display: string } {
+  const checkIn = new Date();
+  checkIn.setMonth(checkIn.getMonth() + 6);
+  checkIn.setDate(checkIn.getDate() + Math.floor(Math.random() * 30));
+
+  const checkOut = new Date(checkIn);
+  checkOut.setDate(checkOut.getDate() + 1);
+
+  return {
+    checkIn,
+    checkOut,
+    display: `${checkIn.toDateString()} - ${checkOut.toDateString()}`,
+  };
+}
+
+/**
+ * Endpoint of the selected transport, as printed in the banner and summary
+ */
+function endpoint(): string {
+  return CONFIG.TRANSPORT === 'mcp'
+    ? `${CONFIG.MCP_BASE_URL} (${CONFIG.MCP_PROTOCOL})`
+    : `${CONFIG.GRAPHQL_URL}/graphql`;
+}
+
+function printStep(step: number) {
+  const title = OPERATIONS[CONFIG.TRANSPORT][step - 1];
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(`STEP ${step}: ${title}`);
+  console.log('='.repeat(70));
+  CONFIG.LOGGER.info(`STEP ${step}: ${title}`, { step });
+  run.startStep(step, title);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Configured guests handed out per room - children get the searched ages.
+ * Throws GuestManifestError listing every problem before anything is sent.
+ */
+function bookingRooms() {
+  const { rooms } = assertValidGuestList({
+    guests: CONFIG.GUESTS.slice(0, CONFIG.OCCUPANCY.adults),
+    children: CONFIG.CHILDREN.slice(0, CONFIG.OCCUPANCY.children),
+    contact: CONFIG.CONTACT,
+  }, CONFIG.OCCUPANCY);
+  return rooms;
+}
+
+/**
+ * Current status of the prepared booking - checked before re-sending confirm/cancel
+ */
+async function bookingStatus(): Promise<string | null> {
+  const details = await client.getBookingDetails(state.preparedBookingId!);
+  return details?.status ?? null;
+}
+
+// =============================================================================
+// STEP 1: Location Search
+// =============================================================================
+async function step1_searchLocation(): Promise<string> {
+  printStep(1);
+
+  console.log(`Searching for: "${CONFIG.DESTINATION}"`);
+
+  const locations = await client.searchLocations(CONFIG.DESTINATION);
+
+  if (locations.length === 0) {
+    throw new Error(`No locations found for: ${CONFIG.DESTINATION}`);
+  }
+
+  const location = locations[0];
+  state.regionId = location.id;
+
+  console.log(`Found: ${location.name} (${location.type})`);
+  console.log(`Region ID: ${state.regionId}`);
+
+  return state.regionId;
+}
+
+// =============================================================================
+// STEP 2: Hotel Search
+// =============================================================================
+async function step2_hotelSearch(): Promise<string> {
+  printStep(2);
+
+  const dates = getTestDates();
+  state.checkIn = dates.checkIn;
+  state.checkOut = dates.checkOut;
+
+  console.log(`Dates: ${dates.display}`);
+  console.log(`Occupancy: ${CONFIG.OCCUPANCY.describe()}`);
+  console.log(`Currency: ${CONFIG.CURRENCY}`);
+
+  // Search sessions last ~30 min - rooms, policies and prepare re-run an expired
+  // one with the same stay and re-match the chosen package
+  search = new RecoverableSearch(client, {
+    regionId: state.regionId,
+    checkIn: state.checkIn,
+    checkOut: state.checkOut,
+    currency: CONFIG.CURRENCY,
+    rooms: CONFIG.OCCUPANCY.rooms,
+    nationality: CONFIG.NATIONALITY,
+  }, {
+    poll: {
+      initialDelayMs: CONFIG.POLL_INITIAL_WAIT_MS,
+      intervalMs: CONFIG.POLL_INTERVAL_MS,
+      multiplier: CONFIG.POLL_BACKOFF,
+      maxIntervalMs: CONFIG.POLL_MAX_INTERVAL_MS,
+      deadlineMs: CONFIG.POLL_DEADLINE_MS,
+    },
+    onRecovered: searchKey => {
+      state.searchKey = searchKey;
+      console.log(`\n⚠️  SESSION EXPIRED - re-ran ${OPERATIONS[CONFIG.TRANSPORT][1]} for ${state.hotelName}`);
+      console.log(`  New searchKey: ${searchKey}`);
+    },
+    // A higher price stops the run unless --accept-price-change is given
+    onPriceChange: ({ previous, current }) => {
+      console.log(`  PRICE CHANGED: ${money(previous.price, CONFIG.CURRENCY)} → ${money(current.price, CONFIG.CURRENCY)}`);
+      return current.price <= previous.price || args.has('accept-price-change');
+    },
+    onRematch: (hotelId, previous, current) => {
+      state.quoteId = current.quoteId;
+      state.packageId = current.packageId;
+      state.roomDetails = current;
+      state.price = current.price;
+      priceGuard.record('quote', current.price, CONFIG.CURRENCY);
+      console.log(`  Re-matched: ${current.roomName} / ${current.mealType} - Quote ID: ${state.quoteId}`);
+    },
+  });
+
+  const result = await search.search();
+  state.searchKey = result.searchKey;
+
+  console.log(`Search Key: ${state.searchKey}`);
+  console.log(`Session ID: ${result.sessionId}`);
+
+  return state.searchKey;
+}
+
+// =============================================================================
+// STEP 3: Get Search Results (Poll until complete)
+// =============================================================================
+async function step3_getSearchResults(): Promise<number> {
+  printStep(3);
+
+  console.log(`(Empty results at start is NORMAL - search is async)`);
+
+  // Cheapest hotel under MAX_PRICE_FILTER - the price sort also runs server-side
+  const filter = new HotelFilter()
+    .maxPrice(CONFIG.MAX_PRICE_FILTER)
+    .sortBy('price');
+  filter.describe(CONFIG.TRANSPORT).forEach(line => console.log(line));
+  const sort = filter.serverSort(CONFIG.TRANSPORT) ?? 'PRICE_ASC';
+
+  // Since polling began, initial wait included
+  let firstResultMs: number | undefined;
+  const outcome = await search!.poll({
+    initialDelayMs: CONFIG.POLL_INITIAL_WAIT_MS,
+    intervalMs: CONFIG.POLL_INTERVAL_MS,
+    multiplier: CONFIG.POLL_BACKOFF,
+    maxIntervalMs: CONFIG.POLL_MAX_INTERVAL_MS,
+    deadlineMs: CONFIG.POLL_DEADLINE_MS,
+    onProgress: p => {
+      if (p.count > 0 && firstResultMs === undefined) {
+        firstResultMs = p.elapsedMs;
+      }
+      console.log(
+        `Poll ${p.attempt} (${(p.elapsedMs / 1000).toFixed(1)}s): ` +
+        `completed=${p.completed}, results=${p.count}, total=${p.total}`
+      );
+    },
+  });
+  run.metric('polls', outcome.attempts);
+  run.metric('pollMs', outcome.elapsedMs);
+  run.metric('completed', outcome.completed ? 1 : 0);
+  if (firstResultMs !== undefined) {
+    run.metric('timeToFirstResultMs', firstResultMs);
+  }
+
+  // Walk every page - one page only holds PAGE_SIZE hotels
+  const hotels: Hotel[] = [];
+  for await (const hotel of client.iterateResults(state.searchKey!, { pageSize: CONFIG.PAGE_SIZE, concurrency: CONFIG.PAGE_CONCURRENCY, sort })) {
+    hotels.push(hotel);
+  }
+
+  run.metric('hotels', hotels.length);
+
+  if (outcome.completed) {
+    console.log(`\nSearch complete: ${hotels.length} hotels found`);
+  } else {
+    console.log(`\n⚠️  Deadline reached - using PARTIAL results: ${hotels.length} hotels`);
+  }
+
+  // Falls back to the cheapest overall
+  const selection = filter.select(hotels);
+  selection.explanation.forEach(line => console.log(line));
+
+  const selected = selection.hotel || new HotelFilter().sortBy('price').select(hotels).hotel;
+  if (!selected) {
+    throw new Error('No hotels found');
+  }
+
+  state.hotelId = selected.hotelId;
+  state.hotelName = selected.name;
+  state.price = selected.price;
+  priceGuard.record('search', selected.price, CONFIG.CURRENCY);
+  console.log(`\n${selection.hotel ? 'Selected' : 'Using cheapest available'}: ${selected.name}`);
+  console.log(`  Hotel ID: ${state.hotelId}`);
+  console.log(`  Price: ${money(selected.price, CONFIG.CURRENCY)}`);
+  console.log(`  Stars: ${selected.stars}`);
+
+  return hotels.length;
+}
+
+// =============================================================================
+// STEP 4: Get Hotel Rooms
+// =============================================================================
+async function step4_getHotelRooms(): Promise<RoomPackage[]> {
+  printStep(4);
+
+  console.log(`Hotel: ${state.hotelName}`);
+
+  const result = await search!.getRooms(state.hotelId!);
+
+  // The searchKey may be updated - always use the returned value
+  if (result.searchKey !== state.searchKey) {
+    state.searchKey = result.searchKey;
+    console.log(`Updated searchKey: ${state.searchKey}`);
+  }
+
+  const packages = result.packages;
+  console.log(`Found ${packages.length} room packages`);
+  run.metric('packages', packages.length);
+
+  // Prefer refundable rooms
+  const refundable = packages.filter(p => p.refundable);
+  console.log(`Refundable: ${refundable.length}`);
+
+  const selected = refundable.length > 0 ? refundable[0] : packages[0];
+
+  if (!selected) {
+    throw new Error('No room packages available');
+  }
+
+  state.quoteId = selected.quoteId;
+  state.packageId = selected.packageId;
+  state.roomDetails = selected;
+  state.price = selected.price;
+  priceGuard.record('quote', selected.price, CONFIG.CURRENCY);
+
+  console.log(`\nSelected Room:`);
+  console.log(`  Quote ID: ${state.quoteId}`);
+  console.log(`  Package ID: ${state.packageId}`);
+  console.log(`  Room: ${selected.roomName}`);
+  console.log(`  Meal: ${selected.mealType}`);
+  console.log(`  Price: ${money(selected.price, CONFIG.CURRENCY)}`);
+  console.log(`  Refundable: ${selected.refundable}`);
+
+  return packages;
+}
+
+// =============================================================================
+// STEP 5: Check Cancellation Policy
+// =============================================================================
+async function step5_checkCancellationPolicy(): Promise<CancellationPolicy | undefined> {
+  printStep(5);
+
+  console.log(`Package ID: ${state.packageId}`);
+  console.log(`(Extracted from quoteId.split('_')[0])`);
+
+  // Asks by packageId, NOT the full quoteId
+  const [policy] = await search!.getCancellationPolicies(state.hotelId!, [state.roomDetails!]);
+
+  if (!policy) {
+    return undefined;
+  }
+
+  // Fee dates are absolute instants on both transports - rendered in UTC, in the searched currency
+  const terms = CancellationPolicy.fromPackagePolicy(policy, { price: state.price, currency: CONFIG.CURRENCY });
+  const deadline = terms.freeCancellationDeadline();
+  const penalty = terms.penaltyAt();
+
+  console.log(`Refundable: ${policy.refundable}`);
+  console.log(`Free cancellation until: ${deadline ? deadline.toISOString() : 'N/A'}`);
+  console.log(`Penalty if cancelled now: ${penalty !== null ? money(penalty, terms.currency) : 'unknown'}`);
+  console.log(`Timeline:`);
+  terms.renderTimeline().forEach(line => console.log(`  ${line}`));
+
+  return terms;
+}
+
+// =============================================================================
+// STEP 6: Prepare Booking
+// =============================================================================
+async function step6_prepareBooking(): Promise<string> {
+  printStep(6);
+
+  const rooms = bookingRooms();
+  rooms.forEach((r, i) => {
+    const children = r.children.map(c => `${c.firstName} ${c.lastName} (${c.age})`);
+    console.log(`Room ${i + 1}: ${[...r.adults.map(g => `${g.firstName} ${g.lastName}`), ...children].join(', ')}`);
+  });
+  console.log(`Contact: ${CONFIG.CONTACT.email}`);
+  console.log(`Quote ID: ${state.quoteId}`);
+
+  const result = await search!.prepareBooking(state.hotelId!, state.roomDetails!, rooms, CONFIG.CONTACT);
+  state.searchKey = search!.searchKey;
+
+  state.preparedBookingId = result.bookingId;
+  priceGuard.record('prepared', result.price, result.currency);
+
+  state.flowId = journal.newFlowId();
+  journal.append(state.flowId, 'prepared', {
+    transport: CONFIG.TRANSPORT,
+    searchKey: state.searchKey,
+    hotelId: state.hotelId,
+    hotelName: state.hotelName,
+    quoteId: state.quoteId,
+    packageId: state.packageId,
+    preparedBookingId: state.preparedBookingId,
+    quotedPrice: priceGuard.get('quote')?.amount,
+    price: result.price,
+    currency: result.currency,
+    startDate: toIsoDate(state.checkIn!),
+    endDate: toIsoDate(state.checkOut!),
+  });
+  registerCleanup();
+  CONFIG.LOGGER.info('booking prepared', { flowId: state.flowId, preparedBookingId: state.preparedBookingId });
+
+  console.log(`\n✅ Booking Prepared!`);
+  console.log(`  Booking ID: ${state.preparedBookingId}`);
+  console.log(`  Price: ${money(result.price, result.currency)}`);
+  console.log(`  Payment: ${result.payment}`);
+
+  return state.preparedBookingId;
+}
+
+// =============================================================================
+// STEP 7: Confirm B2B Booking
+// =============================================================================
+async function step7_confirmBooking(): Promise<boolean> {
+  printStep(7);
+
+  if (!state.preparedBookingId) {
+    console.log('SKIPPED: No prepared booking');
+    run.skipStep('No prepared booking');
+    return false;
+  }
+
+  console.log(`Booking ID: ${state.preparedBookingId}`);
+  console.log(`Payment: CREDIT_LINE`);
+  console.log(`\n⚠️  THIS WILL CHARGE YOUR CREDIT LINE`);
+
+  // Journaled, and never re-sent without a status check if a confirm already started
+  const confirm = () => confirmOnce(journal, state.flowId!, {
+    status: bookingStatus,
+    send: () => client.confirmBooking(state.preparedBookingId!, state.quoteId!),
+  });
+
+  let result = await priceGuard.confirm(confirm);
+
+  if (isPriceChanged(result)) {
+    console.log(`\n⚠️  PRICE CHANGED: ${result.reason}`);
+    if (!args.has('accept-price-change')) {
+      console.log(`  Not confirming - re-run with --accept-price-change to book anyway`);
+      return false;
+    }
+    console.log(`  Accepted (--accept-price-change)`);
+    priceGuard.accept(result);
+    result = await confirm();
+  }
+
+  if (result.accepted) {
+    console.log(`\n🎉 BOOKING CONFIRMED!`);
+    console.log(`  Booking ID: ${state.preparedBookingId}`);
+    if (result.alreadyDone) {
+      console.log(`  ${result.message} - confirm NOT re-sent`);
+    }
+  } else {
+    console.log(`\n❌ BOOKING FAILED`);
+    console.log(`  Message: ${result.message}`);
+  }
+
+  return result.accepted;
+}
+
+// =============================================================================
+// STEP 8: Cancel Booking
+// =============================================================================
+async function step8_cancelBooking(): Promise<boolean> {
+  printStep(8);
+
+  if (!state.preparedBookingId) {
+    console.log('SKIPPED: No booking');
+    run.skipStep('No booking');
+    return false;
+  }
+
+  // Prepared-only bookings (e.g. stopped by the price guard) charge nothing - leave them be
+  if (!(await wasConfirmed(journal, state.flowId!, bookingStatus))) {
+    console.log(`SKIPPED: ${state.preparedBookingId} was never confirmed - nothing to cancel`);
+    // No confirm was ever sent - close the flow so --resume stops offering it.
+    // An unresolved confirm stays open: it may still go through.
+    if (journal.flow(state.flowId!)?.stage === 'prepared') {
+      journal.append(state.flowId!, 'released', { message: 'Never confirmed - nothing to cancel' });
+      console.log(`  Flow ${state.flowId} released`);
+    }
+    run.skipStep('Not confirmed');
+    return true;
+  }
+
+  console.log(`Cancelling: ${state.preparedBookingId}`);
+
+  const result = await cancelOnce(journal, state.flowId!, {
+    status: bookingStatus,
+    send: async () => {
+      const response = await client.cancelBooking(state.preparedBookingId!);
+      return { accepted: response.cancelled, message: response.message };
+    },
+  });
+
+  if (result.accepted) {
+    console.log(`\n✅ BOOKING CANCELLED!`);
+    if (result.message) {
+      console.log(`  Message: ${result.message}${result.alreadyDone ? ' - cancel NOT re-sent' : ''}`);
+    }
+  } else {
+    console.log(`\n❌ CANCELLATION FAILED`);
+    console.log(`  Message: ${result.message}`);
+  }
+
+  return result.accepted;
+}
+
+// =============================================================================
+// CLEANUP
+// =============================================================================
+
+/**
+ * Cancel the booking when the run ends, whatever happens before - step 8
+ * only sends the cancel if the journal shows it was confirmed
+ */
+function registerCleanup() {
+  cleanup.register(state.preparedBookingId!, state.hotelName || 'booking', async () => {
+    if (!(await step8_cancelBooking())) {
+      throw new Error('Cancellation not accepted');
+    }
+  });
+}
+
+/**
+ * Cancel every booking created in this run - false if any was left behind
+ */
+async function runCleanup(): Promise<boolean> {
+  const failed = (await cleanup.run()).filter(r => !r.ok);
+  failed.forEach(r => {
+    console.error(`\n❌ LEFT BEHIND: ${r.id} (${r.label}): ${r.error}`);
+  });
+  if (failed.length > 0) {
+    console.error('   Run sweep-test-bookings.ts --cancel to clean up');
+  }
+  return failed.length === 0;
+}
+
+// =============================================================================
+// RESUME: Continue an interrupted booking from the journal
+// =============================================================================
+async function resumeBooking(flowId?: string): Promise<void> {
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('RESUME: booking journal');
+  console.log('='.repeat(70));
+  run.startStep(0, 'resume');
+
+  console.log(`Journal: ${CONFIG.JOURNAL_PATH}`);
+
+  // Which flow to continue is the caller's choice - list them instead of guessing
+  if (!flowId) {
+    const candidates = journal.unfinished(CONFIG.TRANSPORT);
+    run.skipStep('No flowId given');
+    if (candidates.length === 0) {
+      console.log(`Nothing to resume - no unfinished ${CONFIG.TRANSPORT} bookings`);
+      return;
+    }
+    console.log(`\nUnfinished ${CONFIG.TRANSPORT} flows, oldest first:\n`);
+    printTable(
+      ['Flow', 'Stage', 'Updated', 'Booking ID', 'Hotel'],
+      candidates.map(f => [f.flowId, f.stage, f.updatedAt, f.preparedBookingId, f.hotelName])
+    );
+    console.log(`\nRe-run with --resume <flowId> to cancel it if confirmed (or release it if not),`);
+    console.log(`or --resume <flowId> --confirm to confirm it first (charges, then cancels)`);
+    return;
+  }
+
+  const flow = journal.flow(flowId);
+  if (!flow) {
+    throw new Error(`No journal entries for flow: ${flowId}`);
+  }
+
+  console.log(`Flow: ${flow.flowId}`);
+  console.log(`Last stage: ${flow.stage} (${flow.updatedAt})`);
+  console.log(`Booking ID: ${flow.preparedBookingId}`);
+
+  Object.assign(state, {
+    flowId: flow.flowId,
+    searchKey: flow.searchKey,
+    hotelId: flow.hotelId,
+    hotelName: flow.hotelName,
+    quoteId: flow.quoteId,
+    packageId: flow.packageId,
+    preparedBookingId: flow.preparedBookingId,
+    // Journals written before the scripts were merged hold DD/MM/YYYY for GraphQL
+    checkIn: flow.startDate ? parseStayDate(flow.startDate) : undefined,
+    checkOut: flow.endDate ? parseStayDate(flow.endDate) : undefined,
+    price: flow.price,
+  });
+  if (flow.quotedPrice !== undefined) {
+    priceGuard.record('quote', flow.quotedPrice, flow.currency ?? CONFIG.CURRENCY);
+  }
+  if (flow.price !== undefined && flow.currency) {
+    priceGuard.record('prepared', flow.price, flow.currency);
+  }
+
+  if (FINISHED.includes(flow.stage)) {
+    console.log(`\nNothing left to do - flow already finished (${flow.stage})`);
+    return;
+  }
+
+  registerCleanup();
+
+  if (['confirmed', 'cancel-started', 'cancel-failed'].includes(flow.stage)) {
+    return;
+  }
+  if (!args.has('confirm')) {
+    // Cleanup settles an unresolved confirm by a status check, and releases a flow that never sent one
+    console.log(`\nStopped at "${flow.stage}" - not confirming (add --confirm to confirm it, then cancel)`);
+    return;
+  }
+  await step7_confirmBooking();
+}
+
+// =============================================================================
+// SUMMARY
+// =============================================================================
+/**
+ * End the run report and write it to --report / --junit
+ */
+function finishRun(error?: unknown): RunReport {
+  const report = run.finish(error);
+  for (const file of writeRunReport(report, CONFIG.REPORT)) {
+    console.log(`Report: ${file}`);
+  }
+  return report;
+}
+
+function printSummary(report: RunReport) {
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(`${CONFIG.TRANSPORT.toUpperCase()} E2E TEST SUMMARY`);
+  console.log('='.repeat(70));
+  console.log(`API URL:              ${endpoint()}`);
+  console.log(`Region ID:            ${state.regionId || 'N/A'}`);
+  console.log(`Search Key:           ${state.searchKey || 'N/A'}`);
+  console.log(`Hotel:                ${state.hotelName || 'N/A'} (${state.hotelId || 'N/A'})`);
+  console.log(`Quote ID:             ${state.quoteId || 'N/A'}`);
+  console.log(`Package ID:           ${state.packageId || 'N/A'}`);
+  console.log(`Booking ID:           ${state.preparedBookingId || 'N/A'}`);
+  console.log(`Check-in:             ${state.checkIn ? toIsoDate(state.checkIn) : 'N/A'}`);
+  console.log(`Check-out:            ${state.checkOut ? toIsoDate(state.checkOut) : 'N/A'}`);
+  console.log(`Price:                ${state.price !== undefined ? money(state.price, priceGuard.get('prepared')?.currency ?? CONFIG.CURRENCY) : 'N/A'}`);
+  priceGuard.history().forEach(p => {
+    console.log(`  ${p.stage.padEnd(20)}${money(p.amount, p.currency)}`);
+  });
+  if (state.flowId) {
+    console.log(`Journal:              ${CONFIG.JOURNAL_PATH} (flow ${state.flowId})`);
+  }
+  console.log(`Requests:             ${report.totals.requests} in ${report.durationMs}ms, ${report.totals.retries} retried`);
+  report.steps.forEach(s => {
+    const metrics = Object.entries(s.metrics).map(([name, value]) => ` ${name}=${value}`).join('');
+    console.log(`  ${`${s.step} ${s.name}`.padEnd(34)}${`${s.durationMs}ms`.padStart(8)}  ${s.status === 'passed' ? `${s.requests} req` : s.status}${metrics}`);
+  });
+  console.log('='.repeat(70));
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+async function main() {
+  setup();
+  if (args.has('help')) {
+    printUsage();
+    return;
+  }
+
+  console.log('╔══════════════════════════════════════════════════════════════════════╗');
+  console.log('║               LOCKTRIP API - E2E INTEGRATION TEST                    ║');
+  console.log('╚══════════════════════════════════════════════════════════════════════╝\n');
+
+  console.log(`Transport: ${CONFIG.TRANSPORT}`);
+  console.log(`API URL:   ${endpoint()}`);
+  console.log(`Auth:      ${CONFIG.AUTH.name}`);
+
+  const doBooking = args.has('book');
+  const resume = args.has('resume');
+
+  if (resume) {
+    console.log(args.has('confirm')
+      ? '\n🔁 RESUME MODE: Continues an interrupted booking (may charge, then cancels)'
+      : '\n🔁 RESUME MODE: Cancels an interrupted booking if it was confirmed (add --confirm to confirm it)');
+  } else if (doBooking) {
+    console.log('\n⚠️  BOOKING MODE: Will charge credit line (then cancel)');
+  } else {
+    console.log('\n📋 SEARCH MODE: Safe to run (no charges)');
+    console.log('   Add --book flag to test full booking flow');
+  }
+
+  cleanup.installSignalHandlers();
+
+  try {
+    // Pre-flight: a bad guest manifest fails here, not after search and rooms
+    if (doBooking && !resume) {
+      bookingRooms();
+      console.log('\n✓ Guest manifest matches the occupancy');
+    }
+
+    if (resume) {
+      await resumeBooking(args.positionals[0]);
+      if (!(await runCleanup())) {
+        throw new Error('Cleanup failed - booking left behind');
+      }
+      printSummary(finishRun());
+      console.log('\n✅ RESUME COMPLETED!\n');
+      return;
+    }
+
+    await step1_searchLocation();
+    await step2_hotelSearch();
+    await step3_getSearchResults();
+    await step4_getHotelRooms();
+    await step5_checkCancellationPolicy();
+
+    if (doBooking) {
+      await step6_prepareBooking();
+      const confirmed = await step7_confirmBooking();
+
+      run.endStep();  // The pause below is not confirm latency
+      if (confirmed) {
+        console.log(`\n⏳ Waiting ${CONFIG.CANCEL_DELAY_MS / 1000}s before cancellation...`);
+        await sleep(CONFIG.CANCEL_DELAY_MS);
+      }
+
+      // Cancels the booking if confirm went through
+      if (!(await runCleanup())) {
+        throw new Error('Cleanup failed - booking left behind');
+      }
+    }
+
+    printSummary(finishRun());
+    console.log('\n✅ TEST COMPLETED SUCCESSFULLY!\n');
+
+  } catch (error) {
+    console.error('\n❌ TEST FAILED:', (error as Error).message);
+    CONFIG.LOGGER.error('test failed', { error: (error as Error).message });
+    await runCleanup();
+    printSummary(finishRun(error));
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  if (error instanceof UsageError) {
+    console.error(`❌ ${error.message}`);
+    console.error('   Run with --help for usage');
+    process.exit(2);
+  }
+  console.error('\n❌ TEST FAILED:', (error as Error).message);
+  process.exit(1);
+});
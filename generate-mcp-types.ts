@@ -0,0 +1,70 @@
+/**
+ * LockTrip MCP Server - Tool Type Generator
+ *
+ * Writes src/mcp-tool-types.ts from the input and output schemas that
+ * GET /mcp/tools publishes for each tool. mcpTool() is typed by that file,
+ * so when the server changes a schema the hand-written types in
+ * src/mcp-types.ts stop compiling instead of failing at runtime.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * npx tsx generate-mcp-types.ts
+ *
+ * # Against the mock server:
+ * MCP_BASE_URL=http://127.0.0.1:4000/mcp npx tsx generate-mcp-types.ts
+ *
+ * # CI - exits with 1 if the committed file is out of date, writes nothing:
+ * npx tsx generate-mcp-types.ts --check
+ *
+ * Tools without an outputSchema get `unknown` results - every typed method
+ * using them stops compiling until the server publishes one.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from './src/cli/args';
+import { DEFAULT_MCP_BASE_URL, LockTripMcpClient, MCP_TOOL_NAMES } from './src/mcp-client';
+import { generateToolTypes } from './src/mcp-schema';
+
+// GET /tools is public - no token needed
+const args = parseArgs(process.argv.slice(2), ['check']);
+const OUTPUT = path.join(__dirname, 'src', 'mcp-tool-types.ts');
+
+async function main() {
+  const client = new LockTripMcpClient({ baseUrl: process.env.MCP_BASE_URL || DEFAULT_MCP_BASE_URL });
+  const tools = await client.listTools();
+  console.log(`MCP URL: ${client.baseUrl} - ${tools.length} tool(s)`);
+
+  const listed = new Set(tools.map(t => t.name));
+  const missing = MCP_TOOL_NAMES.filter(name => !listed.has(name));
+  if (missing.length > 0) {
+    console.warn(`⚠️  Not listed: ${missing.join(', ')} - their client methods will not compile`);
+  }
+  for (const tool of tools) {
+    if (!tool.inputSchema || !tool.outputSchema) {
+      console.warn(`⚠️  ${tool.name}: no ${[!tool.inputSchema && 'inputSchema', !tool.outputSchema && 'outputSchema'].filter(Boolean).join(' or ')}`);
+    }
+  }
+
+  const source = generateToolTypes(tools, client.baseUrl);
+  const current = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf8') : '';
+
+  if (args.has('check')) {
+    if (source !== current) {
+      console.error(`\n❌ ${path.relative(process.cwd(), OUTPUT)} is out of date - run: npx tsx generate-mcp-types.ts`);
+      process.exit(1);
+    }
+    console.log(`\n✅ ${path.relative(process.cwd(), OUTPUT)} is up to date`);
+    return;
+  }
+
+  writeFileSync(OUTPUT, source);
+  console.log(`\n✅ ${source === current ? 'Unchanged' : 'Wrote'} ${path.relative(process.cwd(), OUTPUT)} - run tsc to see what the changes break`);
+}
+
+main().catch(error => {
+  console.error('❌ GENERATION FAILED:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * LockTrip GraphQL API - Schema Snapshot, Validation and Codegen
+ *
+ * Keeps the query documents in src/graphql-client.ts honest against the
+ * /graphql schema. src/graphql-schema.graphql is the checked-in snapshot;
+ * the live schema comes from introspection:
+ *
+ * | Command            | Does                                                  |
+ * |--------------------|-------------------------------------------------------|
+ * | check [--live]     | Validate every shipped operation (against the server) |
+ * | generate [--check] | Write src/graphql-operation-types.ts from the snapshot|
+ * | diff [old] [new]   | Classify changes - default: snapshot vs live server   |
+ * | pull               | Show the drift, then overwrite the snapshot           |
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * # Before a release - fails on any breaking upstream change:
+ * BEARER_TOKEN="eyJ..." npx tsx graphql-schema.ts diff
+ *
+ * # After editing a query document:
+ * npx tsx graphql-schema.ts check && npx tsx graphql-schema.ts generate
+ *
+ * # CI - exits with 1 if the generated file is out of date, writes nothing:
+ * npx tsx graphql-schema.ts generate --check
+ *
+ * # Against the mock server, serving a drifted schema:
+ * MOCK_GRAPHQL_SCHEMA=/tmp/drifted.graphql npx tsx mock-server.ts &
+ * GRAPHQL_URL=http://127.0.0.1:4000 BEARER_TOKEN=test npx tsx graphql-schema.ts diff
+ *
+ * diff and check exit with 1 on breaking changes or invalid operations.
+ * Dangerous changes (new enum values, deprecations) are reported only.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createAuthProvider } from './src/auth';
+import { parseArgs, UsageError } from './src/cli/args';
+import { DEFAULT_GRAPHQL_URL, GRAPHQL_OPERATIONS } from './src/graphql-client';
+import { generateOperationTypes, OperationDefinition, OperationIssue, parseOperation, validateOperation } from './src/graphql-operations';
+import {
+  diffSchemas,
+  GRAPHQL_SCHEMA_SNAPSHOT,
+  GraphQLSchemaModel,
+  introspectSchema,
+  parseSdl,
+  printSchema,
+  SchemaChange,
+} from './src/graphql-schema';
+
+const args = parseArgs(process.argv.slice(2), ['live', 'check']);
+const GRAPHQL_URL = process.env.GRAPHQL_URL || process.env.LOCKTRIP_URL || DEFAULT_GRAPHQL_URL;
+const OUTPUT = path.join(__dirname, 'src', 'graphql-operation-types.ts');
+const relative = (file: string) => path.relative(process.cwd(), file);
+
+const ICONS: Record<SchemaChange['severity'], string> = { breaking: '✗', dangerous: '⚠️ ', safe: '·' };
+
+function loadSnapshot(file = GRAPHQL_SCHEMA_SNAPSHOT): GraphQLSchemaModel {
+  return parseSdl(readFileSync(file, 'utf8'));
+}
+
+async function loadLive(): Promise<GraphQLSchemaModel> {
+  console.log(`Introspecting ${GRAPHQL_URL}/graphql`);
+  return introspectSchema({ url: GRAPHQL_URL, auth: createAuthProvider({ loginUrl: process.env.LOCKTRIP_LOGIN_URL || undefined }) });
+}
+
+/**
+ * Every shipped operation with its issues against `schema`
+ */
+function validateAll(schema: GraphQLSchemaModel): Array<{ operation: OperationDefinition; issues: OperationIssue[] }> {
+  return GRAPHQL_OPERATIONS.map(source => {
+    const operation = parseOperation(source);
+    return { operation, issues: validateOperation(schema, operation) };
+  });
+}
+
+/**
+ * Print the validation - returns the number of invalid operations
+ */
+function reportOperations(schema: GraphQLSchemaModel, quietIfValid = false): number {
+  const results = validateAll(schema);
+  let invalid = 0;
+  for (const { operation, issues } of results) {
+    const errors = issues.filter(i => i.severity === 'error');
+    invalid += errors.length > 0 ? 1 : 0;
+    if (quietIfValid && issues.length === 0) {
+      continue;
+    }
+    console.log(`${errors.length > 0 ? '✗' : '✓'} ${operation.kind} ${operation.name}`);
+    for (const issue of issues) {
+      console.log(`    ${issue.severity === 'error' ? '✗' : '⚠️ '} ${issue.path}: ${issue.message}`);
+    }
+  }
+  return invalid;
+}
+
+function reportChanges(changes: SchemaChange[]): number {
+  for (const change of changes) {
+    console.log(`${ICONS[change.severity]} ${change.severity.padEnd(9)} ${change.path}: ${change.message}`);
+  }
+  const count = (severity: SchemaChange['severity']) => changes.filter(c => c.severity === severity).length;
+  console.log(`${changes.length > 0 ? '\n' : ''}${count('breaking')} breaking, ${count('dangerous')} dangerous, ${count('safe')} safe change(s)`);
+  return count('breaking');
+}
+
+async function check() {
+  const schema = args.has('live') ? await loadLive() : loadSnapshot();
+  const invalid = reportOperations(schema);
+  if (invalid > 0) {
+    console.error(`\n❌ ${invalid} of ${GRAPHQL_OPERATIONS.length} operation(s) do not validate`);
+    process.exit(1);
+  }
+  console.log(`\n✅ All ${GRAPHQL_OPERATIONS.length} operations validate against ${args.has('live') ? GRAPHQL_URL : relative(GRAPHQL_SCHEMA_SNAPSHOT)}`);
+}
+
+function generate() {
+  const schema = loadSnapshot();
+  if (reportOperations(schema, true) > 0) {
+    console.error('\n❌ Fix the operations above before generating types');
+    process.exit(1);
+  }
+
+  const source = generateOperationTypes(schema, GRAPHQL_OPERATIONS.map(parseOperation), relative(GRAPHQL_SCHEMA_SNAPSHOT));
+  const current = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf8') : '';
+
+  if (args.has('check')) {
+    if (source !== current) {
+      console.error(`❌ ${relative(OUTPUT)} is out of date - run: npx tsx graphql-schema.ts generate`);
+      process.exit(1);
+    }
+    console.log(`✅ ${relative(OUTPUT)} is up to date`);
+    return;
+  }
+
+  writeFileSync(OUTPUT, source);
+  console.log(`✅ ${source === current ? 'Unchanged' : 'Wrote'} ${relative(OUTPUT)} - run tsc to see what the changes break`);
+}
+
+async function diff() {
+  const [, oldFile, newFile] = args.positionals;
+  if (oldFile && !newFile) {
+    throw new UsageError('diff takes two SDL files, or none to compare the snapshot with the server');
+  }
+  const before = loadSnapshot(oldFile);
+  const after = newFile ? loadSnapshot(newFile) : await loadLive();
+  console.log(`Comparing ${oldFile || relative(GRAPHQL_SCHEMA_SNAPSHOT)} → ${newFile || GRAPHQL_URL}\n`);
+
+  const breaking = reportChanges(diffSchemas(before, after));
+  console.log('\nShipped operations against the new schema:');
+  const invalid = reportOperations(after, true);
+  if (invalid === 0) {
+    console.log('✓ all valid');
+  }
+
+  if (breaking > 0 || invalid > 0) {
+    console.error(`\n❌ ${breaking} breaking change(s), ${invalid} operation(s) broken`);
+    process.exit(1);
+  }
+  console.log('\n✅ No breaking changes');
+}
+
+async function pull() {
+  const live = await loadLive();
+  const changes = existsSync(GRAPHQL_SCHEMA_SNAPSHOT) ? diffSchemas(loadSnapshot(), live) : [];
+  if (changes.length > 0) {
+    console.log('');
+    reportChanges(changes);
+  }
+
+  writeFileSync(GRAPHQL_SCHEMA_SNAPSHOT, `# Pulled from ${GRAPHQL_URL}/graphql - refresh with: npx tsx graphql-schema.ts pull\n\n${printSchema(live)}`);
+  console.log(`\n✅ ${changes.length > 0 ? 'Updated' : 'Unchanged'} ${relative(GRAPHQL_SCHEMA_SNAPSHOT)} - run check and generate next`);
+}
+
+const COMMANDS: Record<string, () => void | Promise<void>> = { check, generate, diff, pull };
+
+async function main() {
+  const [command] = args.positionals;
+  if (!command || !COMMANDS[command]) {
+    throw new UsageError(`Usage: npx tsx graphql-schema.ts <${Object.keys(COMMANDS).join('|')}>`);
+  }
+  await COMMANDS[command]();
+}
+
+main().catch(error => {
+  if (error instanceof UsageError) {
+    console.error(error.message);
+    process.exit(2);
+  }
+  console.error('❌ SCHEMA CHECK FAILED:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+/**
+ * LockTrip - Command-Line Tool
+ *
+ * Every step of the booking flow as a subcommand, over either transport.
+ * Unlike the e2e script nothing is hard-coded: destination, dates,
+ * occupancy, currency, guests and contact are flags.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * npx tsx locktrip.ts <command> [arguments] [flags]
+ *
+ * # Or log in once - the token is cached in ~/.locktrip/tokens.json and renewed:
+ * LOCKTRIP_EMAIL=b2b@company.com LOCKTRIP_PASSWORD="..." npx tsx locktrip.ts login
+ *
+ * # Check token, B2B status, credit line and both endpoints before booking:
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts doctor
+ *
+ * # Find a region, search it and pick a room:
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts locations "bali, indonesia"
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts search --destination "bali, indonesia" --check-in 2026-08-23 --nights 2 --max-price 50
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts rooms <searchKey> <hotelId> --region <id> --check-in 2026-08-23 --nights 2
+ *
+ * # Book (confirm CHARGES THE CREDIT LINE and needs --yes), then cancel:
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts prepare <quoteId> --guest "John Doe" --guest "Jane Doe" --email john@example.com --phone +1234567890
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts confirm <bookingId> <quoteId> --yes
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts cancel <bookingId>
+ *
+ * # Two rooms, a child of 5 in the first - prepare takes the same --occupancy:
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts rooms <searchKey> <hotelId> --region <id> --check-in 2026-08-23 --occupancy "2:5;1"
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts prepare <quoteId> --occupancy "2:5;1" --guest "John Doe" --guest "Jane Doe" --guest "Bob Roe" --child "Amy Doe" \
+ *   --email john@example.com --phone +1234567890
+ *
+ * # Same over MCP, as JSON for scripting:
+ * BEARER_TOKEN="eyJ..." npx tsx locktrip.ts --mcp --json bookings list --type upcoming | jq '.[].bookingId'
+ *
+ * =============================================================================
+ * FLAGS
+ * =============================================================================
+ *
+ * | Flag                        | Default  | Description                         |
+ * |-----------------------------|----------|-------------------------------------|
+ * | --graphql / --mcp           | graphql  | Transport (or TRANSPORT env)        |
+ * | --mcp-protocol <name>       | rest     | MCP over rest, rpc or sse           |
+ * | --json                      |          | Machine-readable output on stdout   |
+ * | --url <site>                | locktrip | Site root (or LOCKTRIP_URL env)     |
+ * | --config <file>             |          | YAML/JSON config file               |
+ * | --credentials <file>        |          | JSON {token} or {email, password}   |
+ * | --check-in <date>           |          | YYYY-MM-DD or DD/MM/YYYY            |
+ * | --check-out / --nights <n>  | 1 night  | Stay end                            |
+ * | --adults <n>                | 2        | Adults per room                     |
+ * | --children <ages>           |          | Child ages per room, e.g. 5,9       |
+ * | --rooms <n>                 | 1        | Rooms with the same occupancy       |
+ * | --occupancy <rooms>         |          | Per-room, e.g. "2:5,9;1" (wins)     |
+ * | --currency <code>           | EUR      | Price currency                      |
+ * | --nationality <code>        | US       | Guest nationality                   |
+ *
+ * Defaults come from locktrip.config.{yaml,json} and LOCKTRIP_* variables
+ * (see src/config/load.ts); flags win. Run `npx tsx locktrip.ts --help` for
+ * every command and its flags.
+ */
+
+import { createAuthProvider } from './src/auth';
+import { createBookingClient } from './src/booking-client';
+import { parseArgs, UsageError } from './src/cli/args';
+import { BOOLEAN_FLAGS, COMMANDS, findCommand, GLOBAL_FLAGS } from './src/cli/commands';
+import { createRunLogger, loadConfig } from './src/config/load';
+import { ConfigError } from './src/config/schema';
+import { LockTripError } from './src/errors';
+
+function printUsage() {
+  console.log('Usage: locktrip [--graphql | --mcp [--mcp-protocol rest|rpc|sse]] [--json] <command> [arguments] [flags]\n');
+  console.log('Commands:');
+  COMMANDS.forEach(c => console.log(`  ${c.name.padEnd(16)}${c.summary}`));
+  console.log('\nArguments and flags:');
+  COMMANDS.forEach(c => console.log(`  locktrip ${c.usage}`));
+  console.log('\nStay flags: --check-in <date> [--check-out <date> | --nights <n>] [--adults <n>] [--children <ages>]');
+  console.log('            [--rooms <n> | --occupancy "2:5,9;1"] [--currency <code>] [--nationality <code>]');
+  console.log('Filters:    [--max-price <n>] [--min-stars <n>] [--limit <n>]');
+  console.log('Logging:    [--log-level debug|info|warn|error|silent] [--log-format pretty|json] [--log-file <path>] - stderr by default');
+  console.log('\nEnvironment: BEARER_TOKEN (or LOCKTRIP_EMAIL + LOCKTRIP_PASSWORD), TRANSPORT, LOCKTRIP_URL, LOCKTRIP_CONFIG');
+  console.log('             - see README "Configuration" and "Authentication"');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  if (args.has('help') || args.positionals.length === 0) {
+    printUsage();
+    return;
+  }
+
+  const command = findCommand(args.positionals);
+  if (!command) {
+    throw new UsageError(`Unknown command: ${args.positionals.slice(0, 2).join(' ')}`);
+  }
+
+  args.assertKnown([...GLOBAL_FLAGS, ...command.flags]);
+
+  // Defaults < locktrip.config.{yaml,json} < environment < flags
+  const config = loadConfig({ args });
+
+  const auth = createAuthProvider({ token: config.token, ...config.auth });
+  const client = createBookingClient({
+    transport: config.transport,
+    mcpProtocol: config.mcpProtocol,
+    baseUrl: config.baseUrl,
+    graphqlUrl: config.graphqlUrl,
+    mcpUrl: config.mcpUrl,
+    auth,
+    logger: createRunLogger(config),
+  });
+
+  await command.run({
+    client,
+    auth,
+    config,
+    args: args.drop(command.name.split(' ').length),
+    json: args.has('json'),
+  });
+}
+
+main().catch(error => {
+  if (error instanceof UsageError) {
+    console.error(`❌ ${error.message}`);
+    console.error('   Run with --help for usage');
+    process.exit(2);
+  }
+  if (error instanceof ConfigError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const where = error instanceof LockTripError ? [error.transport, error.operation].filter(Boolean).join(' ') : '';
+  const detail = where ? ` (${where})` : '';
+  console.error(`❌ FAILED: ${(error as Error).message}${detail}`);
+  process.exit(1);
+});
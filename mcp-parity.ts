@@ -0,0 +1,82 @@
+/**
+ * LockTrip MCP Server - Protocol Parity Check
+ *
+ * Runs the same read-only tool calls over REST (/tools/:name), JSON-RPC
+ * (/rpc) and an SSE session (/sse, what Claude Desktop uses) and reports any
+ * call whose output differs from REST. Nothing is booked.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * BEARER_TOKEN="eyJ..." npx tsx mcp-parity.ts
+ *
+ * # Against the mock server:
+ * MCP_BASE_URL=http://127.0.0.1:4000/mcp BEARER_TOKEN=test npx tsx mcp-parity.ts
+ *
+ * # Another destination or occupancy - the usual config layers apply:
+ * BEARER_TOKEN="eyJ..." npx tsx mcp-parity.ts --destination "paris, france" --occupancy "2:5"
+ *
+ * Exits with 1 if any call differs. Production prices may move between the
+ * three calls of a pair; run again before reporting a price difference.
+ */
+
+import { createAuthProvider } from './src/auth';
+import { parseArgs } from './src/cli/args';
+import { createRunLogger, loadConfigOrExit } from './src/config/load';
+import { searchOccupancy } from './src/config/schema';
+import { toIsoDate } from './src/dates';
+import { checkParity, PARITY_PROTOCOLS, ParityResult } from './src/mcp-parity';
+
+const settings = loadConfigOrExit({ args: parseArgs(process.argv.slice(2), []) });
+
+function printResult(result: ParityResult) {
+  console.log(`${result.matches ? '✓' : '✗'} ${result.tool.padEnd(26)} ${
+    PARITY_PROTOCOLS.map(p => `${p} ${result.outcomes[p].durationMs}ms`).join('  ')
+  }`);
+  for (const protocol of PARITY_PROTOCOLS) {
+    const { error, difference } = result.outcomes[protocol];
+    if (difference) {
+      console.log(`    ${protocol}: ${difference}`);
+    } else if (error) {
+      console.log(`    ${protocol}: ${error}`);
+    }
+  }
+}
+
+async function main() {
+  const checkIn = new Date();
+  checkIn.setMonth(checkIn.getMonth() + 6);
+  const checkOut = new Date(checkIn);
+  checkOut.setDate(checkOut.getDate() + 1);
+
+  console.log(`MCP URL:     ${settings.mcpUrl}`);
+  console.log(`Destination: ${settings.search.destination}, ${toIsoDate(checkIn)}, ${searchOccupancy(settings.search).describe()}`);
+  console.log(`Protocols:   ${PARITY_PROTOCOLS.join(', ')} (compared with rest)\n`);
+
+  const results = await checkParity({
+    mcpUrl: settings.mcpUrl,
+    auth: createAuthProvider({ token: settings.token, ...settings.auth }),
+    search: {
+      destination: settings.search.destination,
+      startDate: toIsoDate(checkIn),
+      endDate: toIsoDate(checkOut),
+      rooms: searchOccupancy(settings.search).rooms.map(r => ({ adults: r.adults, childrenAges: r.childrenAges })),
+      currency: settings.search.currency,
+      nationality: settings.search.nationality,
+    },
+    logger: createRunLogger(settings),
+  }, printResult);
+
+  const differing = results.filter(r => !r.matches);
+  if (differing.length > 0) {
+    console.error(`\n❌ ${differing.length} of ${results.length} call(s) differ: ${differing.map(r => r.tool).join(', ')}`);
+    process.exit(1);
+  }
+  console.log(`\n✅ All ${results.length} calls match over ${PARITY_PROTOCOLS.join(', ')}`);
+}
+
+main().catch(error => {
+  console.error('❌ PARITY CHECK FAILED:', (error as Error).message);
+  process.exit(1);
+});
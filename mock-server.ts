@@ -0,0 +1,82 @@
+/**
+ * LockTrip Mock Server - Offline Stand-In
+ *
+ * Local replacement for https://locktrip.com/graphql and /mcp so the e2e
+ * flow can run in CI over both transports without a real B2B token or credit line.
+ *
+ * Seeded from the sample responses in INTEGRATION.md and MCP_INTEGRATION.md.
+ * Searches complete after a few polls, bookings draw on a fake credit line
+ * and cancellations refund it.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * # Start the server (default port 4000):
+ * npx tsx mock-server.ts
+ *
+ * # Run the full booking flow against it:
+ * GRAPHQL_URL=http://127.0.0.1:4000 BEARER_TOKEN=test npx tsx e2e-test.ts --book
+ * MCP_BASE_URL=http://127.0.0.1:4000/mcp BEARER_TOKEN=test npx tsx e2e-test.ts --mcp --book
+ *
+ * # Or log in through the stand-in login endpoint instead of pasting a token:
+ * LOCKTRIP_URL=http://127.0.0.1:4000 LOCKTRIP_LOGIN_URL=http://127.0.0.1:4000 \
+ *   LOCKTRIP_EMAIL=test@example.com LOCKTRIP_PASSWORD=test npx tsx e2e-test.ts --mcp --book
+ *
+ * =============================================================================
+ * ENVIRONMENT
+ * =============================================================================
+ *
+ * | Variable                  | Default | Description                        |
+ * |---------------------------|---------|------------------------------------|
+ * | MOCK_PORT                 | 4000    | Listen port                        |
+ * | MOCK_TOKEN                | (any)   | Required bearer token              |
+ * | MOCK_LOGIN_EMAIL          | (any)   | Email accepted by /api/auth/login  |
+ * | MOCK_LOGIN_PASSWORD       | (any)   | Password accepted by login         |
+ * | MOCK_TOKEN_TTL_S          | 86400   | Lifetime of login tokens           |
+ * | MOCK_POLLS_UNTIL_COMPLETE | 3       | Polls before search completes      |
+ * | MOCK_HOTEL_COUNT          | 250     | Hotels per search                  |
+ * | MOCK_CREDIT_LINE          | 10000   | Credit line available              |
+ * | MOCK_SESSION_TTL_MS       | 1800000 | Search session lifetime            |
+ * | MOCK_NOT_B2B              | (unset) | Set to make confirm fail (not B2B) |
+ * | MOCK_SSE_DROP_AFTER       | (unset) | Close SSE streams after N messages |
+ * | MOCK_GRAPHQL_SCHEMA       | (unset) | SDL file to serve instead of       |
+ * |                           |         | src/graphql-schema.graphql         |
+ */
+
+import { readFileSync } from 'fs';
+import { startMockServer } from './src/mock-server/server';
+
+const num = (value: string | undefined) => (value ? Number(value) : undefined);
+
+async function main() {
+  const running = await startMockServer(num(process.env.MOCK_PORT) ?? 4000, {
+    token: process.env.MOCK_TOKEN || undefined,
+    pollsUntilComplete: num(process.env.MOCK_POLLS_UNTIL_COMPLETE),
+    hotelCount: num(process.env.MOCK_HOTEL_COUNT),
+    creditLine: num(process.env.MOCK_CREDIT_LINE),
+    sessionTtlMs: num(process.env.MOCK_SESSION_TTL_MS),
+    isB2B: !process.env.MOCK_NOT_B2B,
+    sseDropAfter: num(process.env.MOCK_SSE_DROP_AFTER),
+    graphqlSchema: process.env.MOCK_GRAPHQL_SCHEMA ? readFileSync(process.env.MOCK_GRAPHQL_SCHEMA, 'utf8') : undefined,
+    login: {
+      email: process.env.MOCK_LOGIN_EMAIL || undefined,
+      password: process.env.MOCK_LOGIN_PASSWORD || undefined,
+      tokenTtlSeconds: num(process.env.MOCK_TOKEN_TTL_S),
+    },
+  });
+
+  console.log(`LockTrip mock server listening on ${running.url}`);
+  console.log(`  GraphQL: ${running.url}/graphql`);
+  console.log(`  MCP:     ${running.url}/mcp (REST, /rpc and /sse)`);
+  console.log(`  Login:   ${running.url}/api/auth/login`);
+  console.log(`  Credit:  €${running.backend.creditAvailable}`);
+
+  const shutdown = () => {
+    running.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
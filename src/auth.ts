@@ -0,0 +1,452 @@
+/**
+ * LockTrip API - Authentication
+ *
+ * Where the bearer token comes from, behind one AuthProvider interface that
+ * graphql() and mcpTool() ask before every request:
+ *
+ * | Provider                | Token from                        | On 401          |
+ * |-------------------------|-----------------------------------|-----------------|
+ * | StaticTokenProvider     | A token you pass in               | Fails           |
+ * | EnvTokenProvider        | BEARER_TOKEN, read on every call  | Fails           |
+ * | LoginProvider           | POST /api/auth/login, cached      | Logs in again   |
+ * | CredentialFileProvider  | JSON file: { token } or           | As the token or |
+ * |                         | { email, password }               | login provider  |
+ *
+ * Tokens are JWTs - their `exp` claim is read so an expiring token is
+ * replaced before a request fails with it. Login tokens are cached in
+ * ~/.locktrip/tokens.json (mode 600, never the password) so repeated runs
+ * do not log in every time.
+ *
+ * Usage:
+ *
+ *   const auth = createAuthProvider({ email: 'b2b@company.com', password: process.env.LOCKTRIP_PASSWORD });
+ *   const client = new LockTripGraphQLClient({ auth });
+ *
+ *   // Or any other source:
+ *   const vault: AuthProvider = { name: 'vault', token: () => readFromVault(), reauthenticate: async () => null };
+ */
+
+import axios, { AxiosError } from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthenticationError, fromHttpError } from './errors';
+import { resolveRetryPolicy, withRetry } from './retry';
+
+export interface AuthProvider {
+  // Shown in logs and errors, e.g. "login b2b@company.com" - never the token
+  readonly name: string;
+
+  // Token for the next request - logs in or refreshes first when needed
+  token(): Promise<string>;
+
+  // Called after a 401 - a new token, or null when this provider cannot get one
+  reauthenticate(): Promise<string | null>;
+}
+
+export const DEFAULT_LOGIN_URL = 'https://users.locktrip.com';
+
+export const DEFAULT_TOKEN_CACHE_PATH = path.join(os.homedir(), '.locktrip', 'tokens.json');
+
+// Replace tokens this long before they expire - a confirm can take 120s
+export const DEFAULT_EXPIRY_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Normalize a token into an Authorization header value
+ */
+export function bearer(token: string): string {
+  return token.startsWith('Bearer ') ? token : `Bearer ${token}`;
+}
+
+// =============================================================================
+// JWT
+// =============================================================================
+
+/**
+ * Claims of a JWT, without verifying the signature - null if it is not a JWT
+ */
+export function decodeJwt(token: string): Record<string, unknown> | null {
+  const parts = token.replace(/^Bearer\s+/, '').split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the token stops working - null when it has no `exp` claim
+ */
+export function tokenExpiry(token: string): Date | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? new Date(exp * 1000) : null;
+}
+
+function isExpiring(expiresAt: Date | null, skewMs: number): boolean {
+  return expiresAt !== null && expiresAt.getTime() - skewMs <= Date.now();
+}
+
+// =============================================================================
+// LOGIN
+// =============================================================================
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * POST {loginUrl}/api/auth/login - expiry from the JWT, else from expiresIn
+ */
+export async function login(
+  credentials: Credentials,
+  options: { loginUrl?: string; timeoutMs?: number } = {}
+): Promise<LoginResult> {
+  const context = { operation: 'login' };
+
+  const send = async (): Promise<LoginResult> => {
+    let response;
+    try {
+      response = await axios.post(`${options.loginUrl || DEFAULT_LOGIN_URL}/api/auth/login`, credentials, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: options.timeoutMs ?? 30000,
+      });
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 400 || status === 401 || status === 403) {
+        const data = (error as AxiosError<{ error?: string; message?: string }>).response!.data;
+        const reason = data?.error || data?.message || `HTTP ${status}`;
+        throw new AuthenticationError(`Login failed for ${credentials.email}: ${reason}`, { ...context, status, cause: error });
+      }
+      throw fromHttpError(error, context);
+    }
+
+    const token = response.data?.token;
+    if (typeof token !== 'string' || token === '') {
+      throw new AuthenticationError(`Login for ${credentials.email} returned no token`, context);
+    }
+    const expiresIn = response.data.expiresIn;
+    return {
+      token,
+      expiresAt: tokenExpiry(token) ?? (typeof expiresIn === 'number' ? new Date(Date.now() + expiresIn * 1000) : null),
+    };
+  };
+
+  // Logging in has no side effects - transient failures are retried
+  return withRetry(send, resolveRetryPolicy(), true);
+}
+
+// =============================================================================
+// TOKEN CACHE
+// =============================================================================
+interface CachedToken {
+  token: string;
+  expiresAt: string | null;  // ISO timestamp
+}
+
+/**
+ * Login tokens on disk, one per login URL and email. The file and its
+ * directory are only readable by the current user.
+ */
+export class TokenCache {
+  constructor(readonly path: string = DEFAULT_TOKEN_CACHE_PATH) {}
+
+  get(key: string): LoginResult | null {
+    const entry = this.read()[key];
+    return entry ? { token: entry.token, expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : null } : null;
+  }
+
+  set(key: string, result: LoginResult): void {
+    const entries = this.read();
+    entries[key] = { token: result.token, expiresAt: result.expiresAt?.toISOString() ?? null };
+    this.write(entries);
+  }
+
+  delete(key: string): void {
+    const entries = this.read();
+    if (key in entries) {
+      delete entries[key];
+      this.write(entries);
+    }
+  }
+
+  private read(): Record<string, CachedToken> {
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf8'));
+    } catch {
+      // Missing or corrupt - logging in again rebuilds it
+      return {};
+    }
+  }
+
+  private write(entries: Record<string, CachedToken>): void {
+    fs.mkdirSync(path.dirname(this.path), { recursive: true, mode: 0o700 });
+    // Write then rename, so a crash never leaves half a file
+    const temp = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    fs.renameSync(temp, this.path);
+  }
+}
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+/**
+ * A fixed token - fails early once its JWT has expired, since nothing can renew it
+ */
+export class StaticTokenProvider implements AuthProvider {
+  constructor(private readonly value: string, readonly name = 'static token') {}
+
+  async token(): Promise<string> {
+    const expiresAt = tokenExpiry(this.value);
+    if (isExpiring(expiresAt, 0)) {
+      throw new AuthenticationError(`The ${this.name} expired at ${expiresAt!.toISOString()} - get a new one`);
+    }
+    return this.value;
+  }
+
+  async reauthenticate(): Promise<string | null> {
+    return null;
+  }
+}
+
+/**
+ * Token from an environment variable, read on every request so it can be rotated
+ */
+export class EnvTokenProvider implements AuthProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly variable = 'BEARER_TOKEN',
+    private readonly env: Record<string, string | undefined> = process.env
+  ) {
+    this.name = `env ${variable}`;
+  }
+
+  async token(): Promise<string> {
+    const value = this.env[this.variable];
+    if (!value) {
+      throw new AuthenticationError(`${this.variable} is not set`);
+    }
+    return new StaticTokenProvider(value, this.name).token();
+  }
+
+  async reauthenticate(): Promise<string | null> {
+    return null;
+  }
+}
+
+export interface LoginProviderOptions {
+  // Where /api/auth/login lives (default: https://users.locktrip.com)
+  loginUrl?: string;
+
+  // Token cache - null keeps tokens in memory only (default: ~/.locktrip/tokens.json)
+  cache?: TokenCache | null;
+
+  // How long before expiry a token is replaced (default: 5 min)
+  expirySkewMs?: number;
+
+  timeoutMs?: number;
+}
+
+/**
+ * Logs in with email/password, reuses the cached token until it is about to
+ * expire and logs in again on 401. Concurrent requests share one login.
+ */
+export class LoginProvider implements AuthProvider {
+  readonly name: string;
+  private readonly cache: TokenCache | null;
+  private current: LoginResult | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(
+    private readonly email: string,
+    private readonly password: string | undefined,
+    private readonly options: LoginProviderOptions = {}
+  ) {
+    this.name = `login ${email}`;
+    this.cache = options.cache === undefined ? new TokenCache() : options.cache;
+  }
+
+  private get cacheKey(): string {
+    return `${this.options.loginUrl || DEFAULT_LOGIN_URL}|${this.email}`;
+  }
+
+  private usable(result: LoginResult | null): result is LoginResult {
+    return result !== null && !isExpiring(result.expiresAt, this.options.expirySkewMs ?? DEFAULT_EXPIRY_SKEW_MS);
+  }
+
+  async token(): Promise<string> {
+    if (!this.usable(this.current)) {
+      this.current = this.cache?.get(this.cacheKey) ?? null;
+    }
+    return this.usable(this.current) ? this.current.token : this.login();
+  }
+
+  async reauthenticate(): Promise<string> {
+    this.current = null;
+    this.cache?.delete(this.cacheKey);
+    return this.login();
+  }
+
+  private login(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.send().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async send(): Promise<string> {
+    if (!this.password) {
+      throw new AuthenticationError(`No password for ${this.email} - set LOCKTRIP_PASSWORD or use a credential file`);
+    }
+    const result = await login({ email: this.email, password: this.password }, this.options);
+    this.current = result;
+    this.cache?.set(this.cacheKey, result);
+    return result.token;
+  }
+}
+
+/**
+ * Token or email/password from a JSON file that only its owner can read:
+ *
+ *   { "token": "eyJ..." }  or  { "email": "...", "password": "...", "loginUrl": "..." }
+ */
+export class CredentialFileProvider implements AuthProvider {
+  readonly name: string;
+  private inner: AuthProvider | null = null;
+
+  constructor(readonly file: string, private readonly options: LoginProviderOptions = {}) {
+    this.name = `credential file ${file}`;
+  }
+
+  async token(): Promise<string> {
+    return this.load().token();
+  }
+
+  async reauthenticate(): Promise<string | null> {
+    return this.load().reauthenticate();
+  }
+
+  private load(): AuthProvider {
+    if (this.inner) {
+      return this.inner;
+    }
+
+    let text: string;
+    try {
+      // Passwords must not be readable by other users
+      if (process.platform !== 'win32' && (fs.statSync(this.file).mode & 0o077) !== 0) {
+        throw new AuthenticationError(`${this.file} is readable by other users - run: chmod 600 ${this.file}`);
+      }
+      text = fs.readFileSync(this.file, 'utf8');
+    } catch (error) {
+      if (error instanceof AuthenticationError) throw error;
+      throw new AuthenticationError(`Cannot read ${this.file} (${(error as NodeJS.ErrnoException).code || (error as Error).message})`);
+    }
+
+    let file: Record<string, unknown>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new AuthenticationError(`${this.file} is not valid JSON`);
+    }
+
+    if (typeof file.token === 'string' && file.token !== '') {
+      this.inner = new StaticTokenProvider(file.token, this.name);
+    } else if (typeof file.email === 'string' && typeof file.password === 'string') {
+      const loginUrl = typeof file.loginUrl === 'string' ? file.loginUrl : this.options.loginUrl;
+      this.inner = new LoginProvider(file.email, file.password, { ...this.options, loginUrl });
+    } else {
+      throw new AuthenticationError(`${this.file} needs "token", or "email" and "password"`);
+    }
+    return this.inner;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+export interface AuthOptions extends LoginProviderOptions {
+  token?: string;
+  email?: string;
+  password?: string;  // default: LOCKTRIP_PASSWORD
+  credentialsFile?: string;
+  tokenCache?: string;  // Cache file path (default: ~/.locktrip/tokens.json)
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * "~/x" → home directory path - config files are not expanded by a shell
+ */
+function expandHome(file: string): string {
+  return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+/**
+ * The first source that is set: token, credential file, email/password,
+ * else BEARER_TOKEN or LOCKTRIP_EMAIL + LOCKTRIP_PASSWORD from the environment
+ */
+export function createAuthProvider(options: AuthOptions = {}): AuthProvider {
+  const env = options.env || process.env;
+  const loginOptions: LoginProviderOptions = {
+    loginUrl: options.loginUrl,
+    cache: options.cache !== undefined ? options.cache : new TokenCache(options.tokenCache && expandHome(options.tokenCache)),
+    expirySkewMs: options.expirySkewMs,
+    timeoutMs: options.timeoutMs,
+  };
+
+  if (options.token) {
+    return new StaticTokenProvider(options.token);
+  }
+  if (options.credentialsFile) {
+    return new CredentialFileProvider(expandHome(options.credentialsFile), loginOptions);
+  }
+
+  const email = options.email || (env.BEARER_TOKEN ? undefined : env.LOCKTRIP_EMAIL);
+  if (email) {
+    return new LoginProvider(email, options.password ?? env.LOCKTRIP_PASSWORD, loginOptions);
+  }
+  return new EnvTokenProvider('BEARER_TOKEN', env);
+}
+
+// =============================================================================
+// TRANSPORTS
+// =============================================================================
+
+/**
+ * Send with the current token; after a 401, ask the provider for a new
+ * token and send once more. A 401 is rejected before anything is processed,
+ * so resending is safe even for prepare, confirm and cancel.
+ */
+export async function withAuth<T>(
+  options: { token?: string; auth?: AuthProvider },
+  send: (authorization: string | undefined) => Promise<T>
+): Promise<T> {
+  const { auth } = options;
+  const token = auth ? await auth.token() : options.token;
+
+  try {
+    return await send(token ? bearer(token) : undefined);
+  } catch (error) {
+    if (!auth || !(error instanceof AuthenticationError)) {
+      throw error;
+    }
+    const fresh = await auth.reauthenticate();
+    if (!fresh) {
+      throw error;
+    }
+    return send(bearer(fresh));
+  }
+}
@@ -0,0 +1,719 @@
+/**
+ * LockTrip Hotel Booking Client - Transport Agnostic
+ *
+ * One HotelBookingClient interface over both APIs. Callers use native Dates,
+ * 0-based pages and one guest model; the adapters translate:
+ *
+ * | Aspect           | Canonical        | GraphQL          | MCP              |
+ * |------------------|------------------|------------------|------------------|
+ * | Dates            | Date             | DD/MM/YYYY       | YYYY-MM-DD (ISO) |
+ * | Page numbers     | 0-based          | 1-based          | 0-indexed        |
+ * | hotelId          | string           | NUMBER (rooms)   | String           |
+ * | Booking guests   | rooms[].adults[] | rooms[].adults[] | rooms[].guests[] |
+ *
+ * Usage:
+ *
+ *   const client = createBookingClient({ transport: 'mcp', token: process.env.BEARER_TOKEN });
+ *   const [region] = await client.searchLocations('bali, indonesia');
+ */
+
+import type { AuthProvider } from './auth';
+import { mergeCanxFees } from './cancellation-policy';
+import { toGraphQLDate, toIsoDate } from './dates';
+import { LockTripGraphQLClient } from './graphql-client';
+import type { BookingDetails, GuestTitle, HotelRoomPackage, HotelSearchResult } from './graphql-types';
+import type { TransportHooks } from './logger';
+import { LockTripMcpClient, McpProtocol } from './mcp-client';
+import type { McpHotel, McpRoomPackage } from './mcp-types';
+import { iterateResults, ResultsIterateOptions } from './result-iterator';
+import type { RetryPolicy } from './retry';
+
+// =============================================================================
+// CANONICAL MODEL
+// =============================================================================
+export type Transport = 'graphql' | 'mcp';
+
+export interface Location {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface RoomOccupancy {
+  adults: number;
+  childrenAges: number[];
+}
+
+/**
+ * Either regionId OR latitude+longitude must be provided
+ */
+export interface SearchParams {
+  regionId?: string;
+  latitude?: number;
+  longitude?: number;
+  radiusInMeters?: number;
+  checkIn: Date;
+  checkOut: Date;
+  currency: string;
+  rooms: RoomOccupancy[];
+  nationality?: string;  // ISO-3166 alpha-2 (default: DEFAULT_NATIONALITY)
+}
+
+export interface SearchSession {
+  searchKey: string;
+  sessionId: string;
+}
+
+export interface Hotel {
+  hotelId: string;
+  name: string;
+  stars: number;
+  address: string;
+  latitude: number;
+  longitude: number;
+  price: number;
+  originalPrice: number | null;
+  discountScore: number;
+  distance: number;
+  boardType: string | null;
+  payment: string;
+  reviewScore: number | null;
+  reviewCount: number | null;
+  hasFreeCancellation: boolean;
+  refundable: boolean;
+  refundableUntil: Date | null;
+  boards: string[];
+  features: string[];
+  imageUrl: string | null;
+}
+
+export interface ResultsPage {
+  hotels: Hotel[];
+  page: number;  // 0-based
+  size: number;
+  total: number;
+  hasNextPage: boolean;
+  completed: boolean;
+}
+
+/**
+ * Server-side sort orders - see SERVER_SORTS for what each transport documents
+ */
+export type ResultsSort = 'PRICE_ASC' | 'PRICE_DESC' | 'RATING_DESC' | 'DISTANCE';
+
+export interface ResultsQuery {
+  page?: number;  // 0-based (default: 0)
+  size?: number;  // default: 100
+  sort?: ResultsSort;  // default: PRICE_ASC
+}
+
+export interface RoomsRequest {
+  searchKey: string;
+  hotelId: string;
+  regionId: string;
+  checkIn: Date;
+  checkOut: Date;
+  currency: string;
+  rooms: RoomOccupancy[];
+  nationality?: string;  // ISO-3166 alpha-2 (default: DEFAULT_NATIONALITY)
+}
+
+export interface RoomPackage {
+  quoteId: string;
+  packageId: string;  // quoteId.split('_')[0]
+  roomName: string;
+  mealType: string;
+  price: number;
+  refundable: boolean;
+}
+
+export interface RoomsResult {
+  searchKey: string;  // May be updated - always use the returned value
+  packages: RoomPackage[];
+}
+
+export interface PolicyFee {
+  from: Date;
+  amount: number;
+}
+
+export interface PackagePolicy {
+  packageId: string;
+  refundable: boolean;
+  freeCancellationUntil: Date | null;
+  fees: PolicyFee[];  // Penalty from each date onwards
+}
+
+export interface Guest {
+  title?: GuestTitle;  // Defaults to Mr
+  firstName: string;
+  lastName: string;
+  isLeadGuest?: boolean;  // Defaults to the first adult of the first room
+}
+
+export interface ChildGuest {
+  firstName: string;
+  lastName: string;
+  age: number;
+}
+
+export interface BookingRoom {
+  adults: Guest[];
+  children: ChildGuest[];
+}
+
+export interface ContactPerson {
+  title?: GuestTitle;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+}
+
+export interface PrepareRequest {
+  quoteId: string;
+  rooms: BookingRoom[];
+  contact: ContactPerson;
+}
+
+export interface PreparedBooking {
+  bookingId: string;
+  price: number;
+  currency: string;
+  payment: string;
+}
+
+export interface ConfirmResult {
+  accepted: boolean;
+  message: string | null;
+  voucherUrl: string | null;
+}
+
+export interface CancelResult {
+  cancelled: boolean;
+  message: string | null;
+}
+
+export type BookingListType = 'UPCOMING' | 'COMPLETED' | 'CANCELLED' | 'PENDING';
+
+export interface BookingSummary {
+  bookingId: string;
+  referenceId: string;
+  hotelName: string;
+  checkIn: string;  // YYYY-MM-DD
+  status: string;
+  createdAt: string;
+}
+
+export type { BookingDetails };
+
+export interface HotelBookingClient {
+  readonly transport: Transport;
+
+  searchLocations(query: string): Promise<Location[]>;
+  searchHotels(params: SearchParams): Promise<SearchSession>;
+  getResults(searchKey: string, query?: ResultsQuery): Promise<ResultsPage>;
+  iterateResults(searchKey: string, options?: ResultsIterateOptions): AsyncIterable<Hotel>;
+  getRooms(request: RoomsRequest): Promise<RoomsResult>;
+  getCancellationPolicies(searchKey: string, hotelId: string, packageIds: string[]): Promise<PackagePolicy[]>;
+  prepareBooking(request: PrepareRequest): Promise<PreparedBooking>;
+  confirmBooking(bookingId: string, quoteId: string): Promise<ConfirmResult>;
+  cancelBooking(bookingId: string, dryRun?: boolean): Promise<CancelResult>;
+  listBookings(type: BookingListType): Promise<BookingSummary[]>;
+  getBookingDetails(bookingId: string): Promise<BookingDetails | null>;
+}
+
+// logger, onRequest and onResponse are handed to the transport client (see ./logger)
+export interface BookingClientConfig extends TransportHooks {
+  transport: Transport;
+
+  // Site root - GraphQL at {baseUrl}/graphql, MCP at {baseUrl}/mcp (default: https://locktrip.com)
+  baseUrl?: string;
+
+  // Per-transport overrides of baseUrl, e.g. a local mock server
+  graphqlUrl?: string;
+  mcpUrl?: string;
+
+  // REST tool endpoints, JSON-RPC 2.0 or an SSE session - same results (default: rest)
+  mcpProtocol?: McpProtocol;
+
+  token?: string;
+
+  // Token source with expiry handling and re-login on 401 - wins over token
+  auth?: AuthProvider;
+
+  timeoutMs?: number;
+
+  // Retry policy for retry-safe operations - false disables retries
+  retry?: Partial<RetryPolicy> | false;
+}
+
+export const DEFAULT_BASE_URL = 'https://locktrip.com';
+export const DEFAULT_PAGE_SIZE = 100;
+
+// Both APIs document nat / nationality as a country code, "US" in every example
+export const DEFAULT_NATIONALITY = 'US';
+
+/**
+ * Sort orders each transport documents - anything else must be sorted locally.
+ * GraphQL only documents sortParams ["price", "asc" | "desc"].
+ */
+export const SERVER_SORTS: Record<Transport, ResultsSort[]> = {
+  graphql: ['PRICE_ASC', 'PRICE_DESC'],
+  mcp: ['PRICE_ASC', 'PRICE_DESC', 'RATING_DESC', 'DISTANCE'],
+};
+
+/**
+ * GraphQL sortParams for a server sort - price ascending unless PRICE_DESC
+ */
+export function graphqlSortParams(sort?: ResultsSort | null): string[] {
+  return ['price', sort === 'PRICE_DESC' ? 'desc' : 'asc'];
+}
+
+/**
+ * Extract packageId from quoteId ({packageId}_{hotelId})
+ */
+export function packageIdOf(quoteId: string): string {
+  return quoteId.split('_')[0];
+}
+
+/**
+ * Resolve the lead guest - explicit isLeadGuest wins, else first adult of first room
+ */
+function isLead(rooms: BookingRoom[], roomIndex: number, guestIndex: number): boolean {
+  const anyExplicit = rooms.some(r => r.adults.some(g => g.isLeadGuest));
+  if (anyExplicit) {
+    return rooms[roomIndex].adults[guestIndex].isLeadGuest === true;
+  }
+  return roomIndex === 0 && guestIndex === 0;
+}
+
+/**
+ * Convert a GraphQL hotelSearchResults entry to the canonical Hotel
+ */
+export function hotelFromGraphQL(h: HotelSearchResult): Hotel {
+  return {
+    hotelId: String(h.externalId),
+    name: h.name,
+    stars: h.star,
+    address: h.address,
+    latitude: h.latitude,
+    longitude: h.longitude,
+    price: h.price,
+    originalPrice: h.lastBestPrice ?? null,
+    discountScore: h.discountScore,
+    distance: h.distance,
+    boardType: h.boardType,
+    payment: h.payment,
+    reviewScore: h.reviewsScore ?? null,
+    reviewCount: h.reviews?.reviewsCount ?? null,
+    hasFreeCancellation: h.hasFreeCancellationOption,
+    refundable: h.refundability,
+    refundableUntil: h.refundableUntil ? new Date(h.refundableUntil) : null,
+    boards: h.availableBoards || [],
+    features: h.features || [],
+    imageUrl: h.hotelPhoto?.url || null,
+  };
+}
+
+/**
+ * Convert an MCP get_search_results entry to the canonical Hotel
+ */
+export function hotelFromMcp(h: McpHotel): Hotel {
+  return {
+    hotelId: String(h.hotelId),
+    name: h.name,
+    stars: h.starRating,
+    address: h.address,
+    latitude: h.latitude,
+    longitude: h.longitude,
+    price: h.minPrice,
+    originalPrice: h.originalPrice ?? null,
+    discountScore: h.discountScore,
+    distance: h.distance,
+    boardType: h.boardType,
+    payment: h.payment,
+    reviewScore: h.reviewScore ?? null,
+    reviewCount: h.reviewCount ?? null,
+    hasFreeCancellation: h.hasFreeCancellation,
+    refundable: h.isRefundable,
+    refundableUntil: h.refundableUntil ? new Date(h.refundableUntil) : null,
+    boards: h.availableMealTypes || [],
+    features: h.amenities || [],
+    imageUrl: h.images?.[0] || null,
+  };
+}
+
+/**
+ * Convert a GraphQL getHotelRooms package to the canonical RoomPackage
+ */
+export function packageFromGraphQL(p: HotelRoomPackage): RoomPackage {
+  return {
+    quoteId: p.quoteId,
+    packageId: packageIdOf(p.quoteId),
+    roomName: p.originalName || p.roomType,  // MCP roomName is the provider name, GraphQL originalName
+    mealType: p.mealType,
+    price: p.finalPrice,
+    refundable: p.refundable,
+  };
+}
+
+/**
+ * Convert an MCP get_hotel_rooms package to the canonical RoomPackage
+ */
+export function packageFromMcp(p: McpRoomPackage): RoomPackage {
+  return {
+    quoteId: p.quoteId,
+    packageId: packageIdOf(p.quoteId),
+    roomName: p.roomName,
+    mealType: p.mealType,
+    price: p.price,
+    refundable: p.isRefundable,
+  };
+}
+
+// =============================================================================
+// GRAPHQL ADAPTER
+// =============================================================================
+export class GraphQLBookingClient implements HotelBookingClient {
+  readonly transport = 'graphql' as const;
+
+  constructor(private readonly api: LockTripGraphQLClient) {}
+
+  async searchLocations(query: string): Promise<Location[]> {
+    const result = await this.api.locationSearch(query);
+    return (result.locationData || []).map(l => ({
+      id: l.id,
+      name: l.displayName || l.name || l.query,
+      type: l.type,
+    }));
+  }
+
+  async searchHotels(params: SearchParams): Promise<SearchSession> {
+    return this.api.hotelSearch({
+      regionId: params.regionId,
+      latitude: params.latitude,
+      longitude: params.longitude,
+      radiusInMeters: params.radiusInMeters,
+      startDate: toGraphQLDate(params.checkIn),
+      endDate: toGraphQLDate(params.checkOut),
+      currency: params.currency,
+      rooms: params.rooms.map(r => ({ adults: r.adults, children: r.childrenAges })),
+      uuid: `search-${Date.now()}`,
+      nat: params.nationality || DEFAULT_NATIONALITY,
+    });
+  }
+
+  async getResults(searchKey: string, query: ResultsQuery = {}): Promise<ResultsPage> {
+    const page = query.page ?? 0;
+    const size = query.size ?? DEFAULT_PAGE_SIZE;
+
+    const result = await this.api.hotelSearchResults({
+      searchKey,
+      page: page + 1,  // GraphQL uses 1-based pagination
+      size,
+      filters: {},
+      sortParams: graphqlSortParams(query.sort),
+      singleHotelId: 0,
+    });
+
+    return {
+      hotels: (result.results || []).map(hotelFromGraphQL),
+      page,
+      size,
+      total: result.totalResults,
+      hasNextPage: result.hasNextPage,
+      completed: result.isResultCompleted,
+    };
+  }
+
+  /**
+   * Every hotel across all pages - follows hasNextPage
+   */
+  iterateResults(searchKey: string, options: ResultsIterateOptions = {}): AsyncIterable<Hotel> {
+    return iterateResults(this, searchKey, options);
+  }
+
+  async getRooms(request: RoomsRequest): Promise<RoomsResult> {
+    const result = await this.api.getHotelRooms({
+      searchKey: request.searchKey,
+      hotelId: parseInt(request.hotelId, 10),  // MUST be number for GraphQL
+      startDate: toGraphQLDate(request.checkIn),
+      endDate: toGraphQLDate(request.checkOut),
+      regionId: request.regionId,
+      rooms: request.rooms.map(r => ({ adults: r.adults, children: r.childrenAges })),
+      currency: request.currency,
+      nat: request.nationality || DEFAULT_NATIONALITY,
+    });
+
+    return {
+      searchKey: result.searchKey || request.searchKey,
+      packages: (result.hotelRoomsResponse || []).map(packageFromGraphQL),
+    };
+  }
+
+  async getCancellationPolicies(searchKey: string, hotelId: string, packageIds: string[]): Promise<PackagePolicy[]> {
+    const policies = await this.api.hotelCancellationPolicies({ searchKey, hotelId, packageIds });
+
+    return policies.map(p => {
+      // One cancellations[] entry per room - merged into one schedule, like MCP's fees[]
+      const terms = p.cancellations || [];
+      const fees = mergeCanxFees(terms);
+
+      // A leading amt=0 entry means free cancellation until the first real penalty
+      const firstPenalty = fees.find(f => f.amount > 0);
+      const freeCancellationUntil = fees.length > 0 && fees[0].amount === 0 && firstPenalty
+        ? firstPenalty.from
+        : null;
+
+      return {
+        packageId: p.packageId,
+        refundable: terms.length > 0 && terms.every(t => !t.nonRefundable),
+        freeCancellationUntil,
+        fees,
+      };
+    });
+  }
+
+  async prepareBooking(request: PrepareRequest): Promise<PreparedBooking> {
+    // GraphQL uses rooms[].adults[] structure (NOT rooms[].guests[])
+    const result = await this.api.hotelBookingPrepare({
+      quoteId: request.quoteId,
+      rooms: request.rooms.map(r => ({
+        adults: r.adults.map(g => ({
+          title: g.title || 'Mr',
+          firstName: g.firstName,
+          lastName: g.lastName,
+        })),
+        children: r.children,
+      })),
+      contactPerson: {
+        title: request.contact.title || 'Mr',
+        firstName: request.contact.firstName,
+        lastName: request.contact.lastName,
+        email: request.contact.email,
+        phone: request.contact.phone,
+      },
+    });
+
+    return {
+      bookingId: result.preparedBookingId,
+      price: result.fiatPrice,
+      currency: result.currency,
+      payment: result.payment,
+    };
+  }
+
+  async confirmBooking(bookingId: string, quoteId: string): Promise<ConfirmResult> {
+    const result = await this.api.confirmB2bBooking({
+      bookingInternalId: bookingId,
+      quoteId,
+      paymentMethod: 'CREDIT_LINE',
+    });
+    return { accepted: result.accepted, message: result.message, voucherUrl: null };
+  }
+
+  async cancelBooking(bookingId: string, dryRun = false): Promise<CancelResult> {
+    const result = await this.api.cancelBookingRequest({ bookingId, confirmed: !dryRun });
+    return { cancelled: result.isCancellationRequested, message: null };
+  }
+
+  async listBookings(type: BookingListType): Promise<BookingSummary[]> {
+    const result = await this.api.getUserBookings({ type });
+    return (result.bookings || []).map(b => ({
+      bookingId: b.id,
+      referenceId: b.booking_id,
+      hotelName: b.hotel_name,
+      checkIn: b.arrival_date,
+      status: b.status,
+      createdAt: b.created_on,
+    }));
+  }
+
+  async getBookingDetails(bookingId: string): Promise<BookingDetails | null> {
+    const result = await this.api.getBookingDetails(bookingId);
+    return result.success ? result.data : null;
+  }
+}
+
+// =============================================================================
+// MCP ADAPTER
+// =============================================================================
+export class McpBookingClient implements HotelBookingClient {
+  readonly transport = 'mcp' as const;
+
+  constructor(private readonly api: LockTripMcpClient) {}
+
+  async searchLocations(query: string): Promise<Location[]> {
+    const result = await this.api.searchLocation({ query });
+    return (result.locations || []).map(l => ({ id: l.id, name: l.name, type: l.type }));
+  }
+
+  async searchHotels(params: SearchParams): Promise<SearchSession> {
+    const result = await this.api.hotelSearch({
+      regionId: params.regionId,
+      latitude: params.latitude,
+      longitude: params.longitude,
+      radiusInMeters: params.radiusInMeters,
+      startDate: toIsoDate(params.checkIn),
+      endDate: toIsoDate(params.checkOut),
+      rooms: params.rooms.map(r => ({ adults: r.adults, childrenAges: r.childrenAges })),
+      currency: params.currency,
+      nationality: params.nationality || DEFAULT_NATIONALITY,
+    });
+    return { searchKey: result.searchKey, sessionId: result.sessionId };
+  }
+
+  async getResults(searchKey: string, query: ResultsQuery = {}): Promise<ResultsPage> {
+    const page = query.page ?? 0;
+    const size = query.size ?? DEFAULT_PAGE_SIZE;
+
+    const result = await this.api.getSearchResults({
+      searchKey,
+      page,  // MCP uses 0-indexed pagination
+      size,
+      sortBy: query.sort || 'PRICE_ASC',
+      filters: {},
+    });
+
+    return {
+      hotels: (result.hotels || []).map(hotelFromMcp),
+      page,
+      size,
+      total: result.totalCount,
+      hasNextPage: result.hasMore,
+      completed: result.searchStatus === 'COMPLETED',
+    };
+  }
+
+  /**
+   * Every hotel across all pages - follows hasNextPage
+   */
+  iterateResults(searchKey: string, options: ResultsIterateOptions = {}): AsyncIterable<Hotel> {
+    return iterateResults(this, searchKey, options);
+  }
+
+  async getRooms(request: RoomsRequest): Promise<RoomsResult> {
+    const result = await this.api.getHotelRooms({
+      hotelId: request.hotelId,  // MCP accepts string
+      searchKey: request.searchKey,
+      startDate: toIsoDate(request.checkIn),
+      endDate: toIsoDate(request.checkOut),
+      rooms: request.rooms.map(r => ({ adults: r.adults, childrenAges: r.childrenAges })),
+      nationality: request.nationality || DEFAULT_NATIONALITY,
+      regionId: request.regionId,
+      currency: request.currency,
+    });
+
+    return {
+      searchKey: result.searchKey || request.searchKey,
+      packages: (result.packages || []).map(packageFromMcp),
+    };
+  }
+
+  async getCancellationPolicies(searchKey: string, hotelId: string, packageIds: string[]): Promise<PackagePolicy[]> {
+    const result = await this.api.checkCancellationPolicy({ searchKey, hotelId, packageIds });
+
+    return (result.policies || []).map(p => ({
+      packageId: p.packageId,
+      refundable: p.isRefundable,
+      freeCancellationUntil: p.freeCancellationUntil ? new Date(p.freeCancellationUntil) : null,
+      fees: (p.fees || []).map(f => ({ from: new Date(f.fromDate), amount: f.amount })),
+    }));
+  }
+
+  async prepareBooking(request: PrepareRequest): Promise<PreparedBooking> {
+    // MCP uses rooms[].guests[] structure (NOT rooms[].adults[])
+    const result = await this.api.prepareBooking({
+      quoteId: request.quoteId,
+      rooms: request.rooms.map((r, roomIndex) => ({
+        roomIndex,
+        guests: r.adults.map((g, i) => ({
+          firstName: g.firstName,
+          lastName: g.lastName,
+          title: g.title,
+          isLeadGuest: isLead(request.rooms, roomIndex, i),
+        })),
+        children: r.children,
+      })),
+      contactPerson: request.contact,
+    });
+
+    return {
+      bookingId: result.bookingInternalId || result.preparedBookingId,
+      price: result.price,
+      currency: result.currency,
+      payment: result.payment,
+    };
+  }
+
+  async confirmBooking(bookingId: string, quoteId: string): Promise<ConfirmResult> {
+    const result = await this.api.confirmBooking({
+      bookingInternalId: bookingId,
+      quoteId,
+      paymentMethod: 'CREDIT_LINE',
+    });
+    return {
+      accepted: result.accepted,
+      message: result.message ?? null,
+      voucherUrl: result.voucherUrl ?? null,
+    };
+  }
+
+  async cancelBooking(bookingId: string, dryRun = false): Promise<CancelResult> {
+    const result = await this.api.cancelBooking({ bookingId, confirmed: !dryRun });
+    return { cancelled: result.success, message: result.message ?? null };
+  }
+
+  async listBookings(type: BookingListType): Promise<BookingSummary[]> {
+    const result = await this.api.listBookings({ type });
+    return (result.bookings || []).map(b => ({
+      bookingId: b.bookingId,
+      referenceId: b.bookingReferenceId,
+      hotelName: b.hotelName,
+      checkIn: b.checkIn,
+      status: b.status,
+      createdAt: b.createdAt,
+    }));
+  }
+
+  async getBookingDetails(bookingId: string): Promise<BookingDetails | null> {
+    return this.api.getBookingDetails({ bookingId });
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Build a client for the configured transport - switching is a config change
+ */
+export function createBookingClient(config: BookingClientConfig): HotelBookingClient {
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+
+  if (config.transport === 'graphql') {
+    return new GraphQLBookingClient(new LockTripGraphQLClient({
+      url: config.graphqlUrl || baseUrl,
+      token: config.token,
+      auth: config.auth,
+      timeoutMs: config.timeoutMs,
+      retry: config.retry,
+      logger: config.logger,
+      onRequest: config.onRequest,
+      onResponse: config.onResponse,
+    }));
+  }
+
+  return new McpBookingClient(new LockTripMcpClient({
+    baseUrl: config.mcpUrl || `${baseUrl}/mcp`,
+    protocol: config.mcpProtocol,
+    token: config.token,
+    auth: config.auth,
+    timeoutMs: config.timeoutMs,
+    retry: config.retry,
+    logger: config.logger,
+    onRequest: config.onRequest,
+    onResponse: config.onResponse,
+  }));
+}
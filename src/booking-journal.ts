@@ -0,0 +1,293 @@
+/**
+ * LockTrip API - Booking Journal
+ *
+ * Append-only JSONL log of every charge-affecting step, written (and fsynced)
+ * BEFORE and AFTER each confirm/cancel call. If the process dies mid-flow -
+ * e.g. during confirm's 120s timeout - the journal shows exactly where it
+ * stopped and which preparedBookingId/quoteId to check.
+ *
+ * | Stage            | Written                                     |
+ * |------------------|---------------------------------------------|
+ * | prepared         | After prepare returns a preparedBookingId   |
+ * | confirm-started  | Immediately before confirm is sent          |
+ * | confirmed        | Confirm accepted (or status shows CONFIRMED)|
+ * | confirm-failed   | Confirm rejected - nothing charged          |
+ * | confirm-unknown  | Confirm errored/timed out - MAY be charged  |
+ * | cancel-started   | Immediately before cancel is sent           |
+ * | cancelled        | Cancel accepted (or status shows CANCELLED) |
+ * | cancel-failed    | Cancel rejected or errored                  |
+ * | released         | Cleanup found no confirm was ever sent      |
+ *
+ * confirmOnce() never re-sends a confirm for a flow that already started
+ * one without first asking the API for the booking's status.
+ *
+ * Usage:
+ *
+ *   const journal = new BookingJournal();
+ *   const flowId = journal.newFlowId();
+ *   journal.append(flowId, 'prepared', { transport: 'mcp', quoteId, preparedBookingId });
+ *
+ *   const result = await confirmOnce(journal, flowId, {
+ *     status: async () => (await client.getBookingDetails({ bookingId })).status,
+ *     send: () => client.confirmBooking(input),
+ *   });
+ *
+ *   if (await wasConfirmed(journal, flowId, status)) {
+ *     await cancelOnce(journal, flowId, { status, send: () => client.cancelBooking(input) });
+ *   }
+ *
+ *   journal.unfinished('mcp');   // Flows to pick up with --resume
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const DEFAULT_JOURNAL_PATH = '.locktrip/journal.jsonl';
+
+export type JournalStage =
+  | 'prepared'
+  | 'confirm-started'
+  | 'confirmed'
+  | 'confirm-failed'
+  | 'confirm-unknown'
+  | 'cancel-started'
+  | 'cancelled'
+  | 'cancel-failed'
+  | 'released';
+
+/**
+ * Flow context - every field is optional, later entries add to earlier ones
+ */
+export interface JournalData {
+  transport?: string;
+  searchKey?: string;
+  hotelId?: string;
+  hotelName?: string;
+  quoteId?: string;
+  packageId?: string;
+  preparedBookingId?: string;
+  quotedPrice?: number;
+  price?: number;
+  currency?: string;
+  startDate?: string;
+  endDate?: string;
+  message?: string;
+}
+
+export interface JournalEntry extends JournalData {
+  flowId: string;
+  stage: JournalStage;
+  at: string;  // ISO timestamp
+}
+
+export interface FlowState extends JournalData {
+  flowId: string;
+  stage: JournalStage;
+  startedAt: string;
+  updatedAt: string;
+  entries: JournalEntry[];
+}
+
+// Booking statuses that mean confirm went through
+export const CONFIRMED_STATUSES = ['CONFIRMED', 'COMPLETED', 'DONE'];
+
+// Stages after which nothing is left to do
+export const FINISHED: JournalStage[] = ['confirm-failed', 'cancelled', 'released'];
+
+export class BookingJournal {
+  constructor(readonly file: string = DEFAULT_JOURNAL_PATH) {}
+
+  newFlowId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * Append one entry and fsync before returning
+   */
+  append(flowId: string, stage: JournalStage, data: JournalData = {}): JournalEntry {
+    const entry: JournalEntry = { flowId, stage, at: new Date().toISOString(), ...data };
+
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+    const fd = fs.openSync(this.file, 'a+');
+    try {
+      const size = fs.fstatSync(fd).size;
+      const last = Buffer.alloc(1);
+      if (size > 0) {
+        fs.readSync(fd, last, 0, 1, size - 1);
+      }
+      // Start on a fresh line if a crash left the previous write torn
+      const prefix = size > 0 && last.toString() !== '\n' ? '\n' : '';
+      fs.writeSync(fd, prefix + JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    return entry;
+  }
+
+  /**
+   * All entries in write order - a torn last line (crash mid-write) is skipped
+   */
+  read(): JournalEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of fs.readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Partial write - ignore
+      }
+    }
+    return entries;
+  }
+
+  flows(): FlowState[] {
+    const flows = new Map<string, FlowState>();
+
+    for (const entry of this.read()) {
+      const { flowId, stage, at, ...data } = entry;
+      const flow = flows.get(flowId) || { flowId, stage, startedAt: at, updatedAt: at, entries: [] };
+      Object.assign(flow, data, { stage, updatedAt: at });
+      flow.entries.push(entry);
+      flows.set(flowId, flow);
+    }
+
+    return [...flows.values()];
+  }
+
+  flow(flowId: string): FlowState | undefined {
+    return this.flows().find(f => f.flowId === flowId);
+  }
+
+  /**
+   * Flows that stopped before reaching a finished stage, oldest first
+   */
+  unfinished(transport?: string): FlowState[] {
+    return this.flows().filter(f =>
+      !FINISHED.includes(f.stage) && (!transport || f.transport === transport)
+    );
+  }
+}
+
+// =============================================================================
+// IDEMPOTENT CONFIRM / CANCEL
+// =============================================================================
+export interface ConfirmOutcome {
+  accepted: boolean;
+  message: string | null;
+  alreadyDone: boolean;  // true = status check showed it happened, nothing was sent
+}
+
+export interface GuardedCall {
+  // Current booking status from the API (getBookingDetails) - null if unknown
+  status: () => Promise<string | null>;
+
+  // The charge-affecting call itself
+  send: () => Promise<{ accepted: boolean; message?: string | null }>;
+}
+
+/**
+ * Confirm a prepared booking at most once per flow
+ *
+ * If a previous confirm was started (and may have charged), the booking's
+ * status is checked first; the confirm is only re-sent if it is not confirmed.
+ */
+export async function confirmOnce(
+  journal: BookingJournal,
+  flowId: string,
+  call: GuardedCall
+): Promise<ConfirmOutcome> {
+  const flow = journal.flow(flowId);
+
+  if (flow?.stage === 'confirmed') {
+    return { accepted: true, message: 'Already confirmed (journal)', alreadyDone: true };
+  }
+
+  if (flow && flow.entries.some(e => e.stage === 'confirm-started')) {
+    const status = (await call.status())?.toUpperCase() ?? null;
+    if (status && CONFIRMED_STATUSES.includes(status)) {
+      journal.append(flowId, 'confirmed', { message: `Status check: ${status}` });
+      return { accepted: true, message: `Already confirmed (status ${status})`, alreadyDone: true };
+    }
+    if (status === 'CANCELLED') {
+      journal.append(flowId, 'cancelled', { message: 'Status check: CANCELLED' });
+      return { accepted: false, message: 'Booking is already cancelled', alreadyDone: true };
+    }
+  }
+
+  return guardedSend(journal, flowId, call.send, 'confirm-started', 'confirmed', 'confirm-failed', 'confirm-unknown');
+}
+
+/**
+ * Whether the flow's booking was confirmed, i.e. there is a charge to cancel.
+ * A confirm that started without a recorded outcome is settled with a status
+ * check, and a confirmed status is journaled.
+ */
+export async function wasConfirmed(
+  journal: BookingJournal,
+  flowId: string,
+  status: GuardedCall['status']
+): Promise<boolean> {
+  const stages = journal.flow(flowId)?.entries.map(e => e.stage) ?? [];
+  const lastConfirm = stages.filter(stage => stage.startsWith('confirm')).pop();
+
+  if (stages.includes('confirmed')) {
+    return true;
+  }
+  if (lastConfirm !== 'confirm-started' && lastConfirm !== 'confirm-unknown') {
+    return false;
+  }
+
+  const current = (await status())?.toUpperCase() ?? null;
+  if (current && CONFIRMED_STATUSES.includes(current)) {
+    journal.append(flowId, 'confirmed', { message: `Status check: ${current}` });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Cancel a booking, skipping the call if its status is already CANCELLED
+ */
+export async function cancelOnce(
+  journal: BookingJournal,
+  flowId: string,
+  call: GuardedCall
+): Promise<ConfirmOutcome> {
+  const status = (await call.status())?.toUpperCase() ?? null;
+  if (status === 'CANCELLED') {
+    journal.append(flowId, 'cancelled', { message: 'Status check: CANCELLED' });
+    return { accepted: true, message: 'Already cancelled (status CANCELLED)', alreadyDone: true };
+  }
+
+  return guardedSend(journal, flowId, call.send, 'cancel-started', 'cancelled', 'cancel-failed', 'cancel-failed');
+}
+
+async function guardedSend(
+  journal: BookingJournal,
+  flowId: string,
+  send: GuardedCall['send'],
+  started: JournalStage,
+  succeeded: JournalStage,
+  failed: JournalStage,
+  unknown: JournalStage
+): Promise<ConfirmOutcome> {
+  journal.append(flowId, started);
+
+  let result;
+  try {
+    result = await send();
+  } catch (error) {
+    journal.append(flowId, unknown, { message: (error as Error).message });
+    throw error;
+  }
+
+  journal.append(flowId, result.accepted ? succeeded : failed, { message: result.message ?? undefined });
+  return { accepted: result.accepted, message: result.message ?? null, alreadyDone: false };
+}
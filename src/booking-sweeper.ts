@@ -0,0 +1,147 @@
+/**
+ * LockTrip API - Orphan Booking Sweeper
+ *
+ * Finds bookings left behind by earlier test runs (killed mid-flow, cancel
+ * failed, ...) and cancels them. Neither booking list carries the search
+ * uuid, so the run marker is the booking journal the e2e script writes at
+ * prepare time (see ./booking-journal):
+ *
+ * | Match   | Marker                                     | Cancelled                     |
+ * |---------|--------------------------------------------|-------------------------------|
+ * | journal | bookingId is a journaled preparedBookingId | Yes - recorded in the journal |
+ * | email   | Only the contact email matches (opt-in)    | Only with cancelEmailMatches  |
+ *
+ * Email matches are looked up with getBookingDetails / get_booking_details.
+ * On a shared B2B account other people may book with the same contact, so
+ * they are reported but left alone unless explicitly confirmed.
+ *
+ * Dry-run by default - nothing is cancelled unless dryRun is false.
+ *
+ * Usage:
+ *
+ *   const client = createBookingClient({ transport: 'mcp', token });
+ *   const swept = await sweepTestBookings(client, { journal: new BookingJournal(), dryRun: false });
+ */
+
+import type { BookingListType, BookingSummary, HotelBookingClient } from './booking-client';
+import { BookingJournal, cancelOnce } from './booking-journal';
+
+export type SweepMatch = 'journal' | 'email';
+
+export interface SweepOptions {
+  // Flows recorded by the e2e script - the run marker
+  journal: BookingJournal;
+
+  // Also match bookings the journal does not know by this contact email
+  contactEmail?: string;
+
+  // Cancel email-only matches too (default: false - they are only reported)
+  cancelEmailMatches?: boolean;
+
+  // Lists to scan (default: UPCOMING - confirmed, i.e. charged)
+  types?: BookingListType[];
+
+  // Only bookings created before this (default: now) - spares a run in progress
+  createdBefore?: Date;
+
+  // Report without cancelling (default: true)
+  dryRun?: boolean;
+}
+
+export interface TestBooking extends BookingSummary {
+  matchedBy: SweepMatch;
+  flowId: string | null;  // Journal flow, for journal matches
+}
+
+export interface SweptBooking extends TestBooking {
+  cancelled: boolean;
+  message: string | null;
+}
+
+/**
+ * Bookings prepared by a journaled flow (or with the contact email) that are not cancelled yet
+ */
+export async function findTestBookings(
+  client: HotelBookingClient,
+  options: SweepOptions
+): Promise<TestBooking[]> {
+  const email = options.contactEmail?.toLowerCase();
+  const createdBefore = options.createdBefore ?? new Date();
+
+  const flows = new Map<string, string>();
+  for (const flow of options.journal.flows()) {
+    if (flow.preparedBookingId) {
+      flows.set(flow.preparedBookingId, flow.flowId);
+    }
+  }
+
+  const seen = new Map<string, BookingSummary>();
+  for (const type of options.types || ['UPCOMING']) {
+    for (const booking of await client.listBookings(type)) {
+      seen.set(booking.bookingId, booking);
+    }
+  }
+
+  const found: TestBooking[] = [];
+  for (const booking of seen.values()) {
+    if (booking.status.toUpperCase() === 'CANCELLED') continue;
+
+    const created = new Date(booking.createdAt);
+    if (!Number.isNaN(created.getTime()) && created.getTime() >= createdBefore.getTime()) continue;
+
+    const flowId = flows.get(booking.bookingId);
+    if (flowId) {
+      found.push({ ...booking, matchedBy: 'journal', flowId });
+      continue;
+    }
+
+    if (email) {
+      const details = await client.getBookingDetails(booking.bookingId);
+      if (details?.contactPerson?.email?.toLowerCase() === email) {
+        found.push({ ...booking, matchedBy: 'email', flowId: null });
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Cancel every leftover test booking - one failure does not stop the sweep
+ */
+export async function sweepTestBookings(
+  client: HotelBookingClient,
+  options: SweepOptions
+): Promise<SweptBooking[]> {
+  const dryRun = options.dryRun ?? true;
+  const swept: SweptBooking[] = [];
+
+  for (const booking of await findTestBookings(client, options)) {
+    if (dryRun) {
+      swept.push({ ...booking, cancelled: false, message: 'Dry-run: not cancelled' });
+      continue;
+    }
+    if (booking.matchedBy === 'email' && !options.cancelEmailMatches) {
+      swept.push({ ...booking, cancelled: false, message: 'Matched by contact email only: not cancelled' });
+      continue;
+    }
+
+    try {
+      const send = async () => {
+        const result = await client.cancelBooking(booking.bookingId);
+        return { accepted: result.cancelled, message: result.message };
+      };
+      const result = booking.flowId
+        ? await cancelOnce(options.journal, booking.flowId, {
+          status: async () => (await client.getBookingDetails(booking.bookingId))?.status ?? null,
+          send,
+        })
+        : await send();
+      swept.push({ ...booking, cancelled: result.accepted, message: result.message });
+    } catch (error) {
+      swept.push({ ...booking, cancelled: false, message: (error as Error).message });
+    }
+  }
+
+  return swept;
+}
@@ -0,0 +1,261 @@
+/**
+ * LockTrip API - Cancellation Policy
+ *
+ * One model for both policy shapes:
+ *
+ * | Transport | Shape                                              | Dates                |
+ * |-----------|----------------------------------------------------|----------------------|
+ * | GraphQL   | cancellations[].canxFees[{ amount.amt, from }]     | Unix ms (UTC)        |
+ * | MCP       | fees[{ fromDate, amount }] + freeCancellationUntil | ISO string or day    |
+ *
+ * Each fee is the penalty charged from its date onwards; a leading amt=0 entry
+ * (GraphQL) or freeCancellationUntil (MCP) marks the free window. GraphQL
+ * lists one cancellations[] entry per room; their fees add up. All dates
+ * are absolute instants - a bare "YYYY-MM-DD" or an ISO string without an
+ * offset is read as UTC, never as the machine's local time.
+ *
+ * Usage:
+ *
+ *   const policy = CancellationPolicy.fromGraphQL(policies[0], { price: 255, currency: 'EUR' });
+ *   policy.penaltyAt(new Date('2024-08-24T12:00:00Z'));   // 127.5
+ *   policy.renderTimeline({ timeZone: 'Asia/Makassar' }).forEach(line => console.log(line));
+ */
+
+import type { PackagePolicy } from './booking-client';
+import type { CancellationTerms, HotelCancellationPolicy } from './graphql-types';
+import type { McpCancellationPolicy } from './mcp-types';
+
+export interface PenaltyStep {
+  from: Date;
+  amount: number;  // Penalty from `from` onwards
+}
+
+export interface PolicyOptions {
+  // Total booking price - needed for refunds and non-refundable penalties
+  price?: number;
+
+  // Currency for rendering (default: EUR)
+  currency?: string;
+}
+
+export interface TimelineEntry {
+  from: Date | null;   // null = from booking time
+  until: Date | null;  // null = until check-in
+  penalty: number | null;  // null = unknown (non-refundable without a price)
+  refund: number | null;
+}
+
+export interface RenderOptions {
+  // IANA zone for displayed dates (default: UTC)
+  timeZone?: string;
+  locale?: string;
+}
+
+/**
+ * Parse a policy date - epoch seconds/ms or ISO, always as an absolute instant
+ */
+export function parsePolicyDate(value: number | string): Date {
+  if (typeof value === 'number' || /^\d+$/.test(value)) {
+    const n = Number(value);
+    return new Date(n < 1e12 ? n * 1000 : n);  // Seconds if it's too small to be ms
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00Z`);
+  }
+  if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)) {
+    return new Date(`${value}Z`);  // No offset - the API means UTC
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid policy date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * GraphQL cancellations[] as one schedule - from each date, the fees every
+ * entry charges at that moment are added up
+ */
+export function mergeCanxFees(terms: CancellationTerms[]): PenaltyStep[] {
+  const schedules = terms.map(t =>
+    (t.canxFees || [])
+      .map(f => ({ from: parsePolicyDate(f.from), amount: f.amount?.amt || 0 }))
+      .sort((a, b) => a.from.getTime() - b.from.getTime())
+  );
+  const dates = [...new Set(schedules.flat().map(s => s.from.getTime()))].sort((a, b) => a - b);
+
+  return dates.map(time => ({
+    from: new Date(time),
+    amount: schedules.reduce((sum, steps) => sum + (steps.filter(s => s.from.getTime() <= time).pop()?.amount ?? 0), 0),
+  }));
+}
+
+export class CancellationPolicy {
+  readonly steps: PenaltyStep[];
+
+  private constructor(
+    readonly packageId: string,
+    readonly refundable: boolean,
+    steps: PenaltyStep[],
+    private readonly freeUntil: Date | null,
+    readonly price: number | null,
+    readonly currency: string
+  ) {
+    this.steps = [...steps].sort((a, b) => a.from.getTime() - b.from.getTime());
+  }
+
+  static fromGraphQL(policy: HotelCancellationPolicy, options: PolicyOptions = {}): CancellationPolicy {
+    const terms = policy.cancellations || [];
+    return new CancellationPolicy(
+      policy.packageId,
+      terms.length > 0 && terms.every(t => !t.nonRefundable),
+      mergeCanxFees(terms),
+      null,
+      options.price ?? null,
+      options.currency || 'EUR'
+    );
+  }
+
+  static fromMcp(policy: McpCancellationPolicy, options: PolicyOptions = {}): CancellationPolicy {
+    return new CancellationPolicy(
+      policy.packageId,
+      policy.isRefundable,
+      (policy.fees || []).map(f => ({ from: parsePolicyDate(f.fromDate), amount: f.amount })),
+      policy.freeCancellationUntil ? parsePolicyDate(policy.freeCancellationUntil) : null,
+      options.price ?? null,
+      options.currency || policy.fees?.[0]?.currency || 'EUR'
+    );
+  }
+
+  static fromPackagePolicy(policy: PackagePolicy, options: PolicyOptions = {}): CancellationPolicy {
+    return new CancellationPolicy(
+      policy.packageId,
+      policy.refundable,
+      policy.fees,
+      policy.freeCancellationUntil,
+      options.price ?? null,
+      options.currency || 'EUR'
+    );
+  }
+
+  /**
+   * Last moment to cancel for free - null if there is no free window
+   */
+  freeCancellationDeadline(): Date | null {
+    if (!this.refundable) {
+      return null;
+    }
+    if (this.freeUntil) {
+      return this.freeUntil;
+    }
+    return this.steps.find(s => s.amount > 0)?.from ?? null;
+  }
+
+  /**
+   * Penalty for cancelling at `date` - null if unknown (non-refundable, no price)
+   */
+  penaltyAt(date: Date = new Date()): number | null {
+    if (!this.refundable) {
+      return this.price ?? this.maxFee();
+    }
+    if (this.freeUntil && date.getTime() < this.freeUntil.getTime()) {
+      return 0;
+    }
+    const step = this.steps.filter(s => s.from.getTime() <= date.getTime()).pop();
+    return step ? step.amount : 0;
+  }
+
+  /**
+   * Amount returned for cancelling at `date` - null without a price
+   */
+  refundAt(date: Date = new Date()): number | null {
+    const penalty = this.penaltyAt(date);
+    if (this.price === null || penalty === null) {
+      return null;
+    }
+    return Math.max(0, Math.round((this.price - penalty) * 100) / 100);
+  }
+
+  /**
+   * True when cancelling from `now` on never returns anything
+   */
+  isFullyNonRefundable(now: Date = new Date()): boolean {
+    if (!this.refundable) {
+      return true;
+    }
+    const penalty = this.penaltyAt(now);
+    const full = this.price ?? this.maxFee();
+    return penalty !== null && full !== null && penalty > 0 && penalty >= full;
+  }
+
+  /**
+   * Consecutive periods with a constant penalty, from booking time to check-in
+   */
+  timeline(): TimelineEntry[] {
+    const entry = (from: Date | null, until: Date | null, penalty: number | null): TimelineEntry => ({
+      from,
+      until,
+      penalty,
+      refund: this.price !== null && penalty !== null ? Math.max(0, Math.round((this.price - penalty) * 100) / 100) : null,
+    });
+
+    if (!this.refundable) {
+      return [entry(null, null, this.penaltyAt())];
+    }
+
+    const points = [...this.steps.map(s => s.from), ...(this.freeUntil ? [this.freeUntil] : [])]
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    const entries: TimelineEntry[] = [];
+    let from: Date | null = null;
+    let penalty = 0;
+    for (const point of points) {
+      const next = this.penaltyAt(point) ?? 0;
+      if (next === penalty) continue;
+      entries.push(entry(from, point, penalty));
+      from = point;
+      penalty = next;
+    }
+    entries.push(entry(from, null, penalty));
+    return entries;
+  }
+
+  /**
+   * Human-readable timeline, one line per period
+   */
+  renderTimeline(options: RenderOptions = {}): string[] {
+    const timeZone = options.timeZone || 'UTC';
+    const format = new Intl.DateTimeFormat(options.locale || 'en-GB', {
+      timeZone,
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+    const money = (amount: number) => `${this.currency} ${amount.toFixed(2)}`;
+
+    return this.timeline().map(e => {
+      const period = e.from && e.until
+        ? `${format.format(e.from)} → ${format.format(e.until)}`
+        : e.from
+          ? `From ${format.format(e.from)}`
+          : e.until
+            ? `Until ${format.format(e.until)}`
+            : 'Any time';
+
+      if (e.penalty === null) {
+        return `${period}: non-refundable`;
+      }
+      if (e.penalty === 0) {
+        return `${period}: free cancellation`;
+      }
+      return `${period}: penalty ${money(e.penalty)}${e.refund !== null ? `, refund ${money(e.refund)}` : ''}`;
+    });
+  }
+
+  private maxFee(): number | null {
+    return this.steps.length > 0 ? Math.max(...this.steps.map(s => s.amount)) : null;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * LockTrip API - Cleanup Registry
+ *
+ * Tracks bookings created during a run and guarantees a cancellation attempt
+ * for each one - on normal exit, on a thrown error, on SIGINT/SIGTERM and on
+ * uncaught exceptions or rejections. A booking is registered as soon as
+ * prepare returns, so a confirm that times out is still cleaned up.
+ *
+ * Each task runs at most once per run() and is removed only when it
+ * succeeds; failed tasks stay pending and are reported, so nothing is
+ * silently left behind (sweep-test-bookings.ts picks those up later).
+ *
+ * Usage:
+ *
+ *   const cleanup = new CleanupRegistry();
+ *   cleanup.installSignalHandlers();
+ *
+ *   cleanup.register(bookingId, hotelName, () => client.cancelBooking(bookingId));
+ *   ...
+ *   const results = await cleanup.run();
+ */
+
+export interface CleanupTask {
+  id: string;
+  label: string;
+  run: () => Promise<unknown>;
+}
+
+export interface CleanupResult {
+  id: string;
+  label: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface SignalHandlerOptions {
+  // Where progress is written (default: console.error)
+  log?: (line: string) => void;
+
+  // Exit after cleanup (default: true) - false is for callers that exit themselves
+  exit?: boolean;
+}
+
+export class CleanupRegistry {
+  private readonly tasks = new Map<string, CleanupTask>();
+  private running: Promise<CleanupResult[]> | null = null;
+
+  /**
+   * Register a cleanup action - re-registering an id replaces it
+   */
+  register(id: string, label: string, run: () => Promise<unknown>): void {
+    this.tasks.set(id, { id, label, run });
+  }
+
+  /**
+   * Drop a task that no longer needs cleaning up
+   */
+  complete(id: string): void {
+    this.tasks.delete(id);
+  }
+
+  get pending(): CleanupTask[] {
+    return [...this.tasks.values()];
+  }
+
+  /**
+   * Run every pending task, newest first - concurrent calls share one run
+   */
+  run(): Promise<CleanupResult[]> {
+    if (!this.running) {
+      this.running = this.runTasks().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Run cleanup on SIGINT, SIGTERM, uncaughtException and unhandledRejection.
+   * A second signal while cleanup runs exits at once, listing what is left.
+   * Returns a function that removes the handlers.
+   */
+  installSignalHandlers(options: SignalHandlerOptions = {}): () => void {
+    const log = options.log || ((line: string) => console.error(line));
+    const exit = options.exit ?? true;
+    let triggered = false;
+
+    const handle = (reason: string, code: number) => {
+      if (triggered) {
+        log(`\n⚠️  ${reason} again - exiting without cleanup`);
+        this.pending.forEach(t => log(`  LEFT BEHIND: ${t.id} (${t.label})`));
+        process.exit(code);
+      }
+      triggered = true;
+
+      const count = this.tasks.size;
+      log(`\n⚠️  ${reason} - cleaning up ${count} booking(s) created in this run`);
+      this.run().then(results => {
+        results.forEach(r => log(r.ok ? `  ✓ ${r.id} (${r.label})` : `  ✗ ${r.id} (${r.label}): ${r.error}`));
+        if (exit) {
+          process.exit(code);
+        }
+      });
+    };
+
+    const onSigint = () => handle('SIGINT', 130);
+    const onSigterm = () => handle('SIGTERM', 143);
+    const onError = (error: unknown) => {
+      log(`\n❌ Uncaught: ${error instanceof Error ? error.message : String(error)}`);
+      handle('Uncaught error', 1);
+    };
+
+    process.on('SIGINT', onSigint);
+    process.on('SIGTERM', onSigterm);
+    process.on('uncaughtException', onError);
+    process.on('unhandledRejection', onError);
+
+    return () => {
+      process.off('SIGINT', onSigint);
+      process.off('SIGTERM', onSigterm);
+      process.off('uncaughtException', onError);
+      process.off('unhandledRejection', onError);
+    };
+  }
+
+  private async runTasks(): Promise<CleanupResult[]> {
+    const results: CleanupResult[] = [];
+
+    for (const task of this.pending.reverse()) {
+      try {
+        await task.run();
+        this.tasks.delete(task.id);
+        results.push({ id: task.id, label: task.label, ok: true });
+      } catch (error) {
+        results.push({ id: task.id, label: task.label, ok: false, error: (error as Error).message });
+      }
+    }
+
+    return results;
+  }
+}
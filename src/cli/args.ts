@@ -0,0 +1,188 @@
+/**
+ * LockTrip CLI - Argument Parsing
+ *
+ * Small GNU-style parser for the locktrip command line - no dependencies:
+ *
+ * | Form              | Meaning                                        |
+ * |-------------------|------------------------------------------------|
+ * | --flag value      | Value flag (repeatable: --guest A --guest B)   |
+ * | --flag=value      | Same, for values that start with "-"           |
+ * | --flag            | Boolean flag (only names listed as boolean)    |
+ * | --                | Everything after is positional                 |
+ *
+ * Usage:
+ *
+ *   const args = parseArgs(process.argv.slice(2), ['json', 'mcp', 'graphql']);
+ *   const adults = args.number('adults', 2);
+ */
+
+import { parseStayDate } from '../dates';
+
+/**
+ * Bad command line - main() prints usage and exits with code 2
+ */
+export class UsageError extends Error {}
+
+export class CliArgs {
+  constructor(
+    readonly positionals: string[],
+    private readonly values: Map<string, string[]>,
+    private readonly booleans: Set<string>
+  ) {}
+
+  /**
+   * Flag names that were given - for rejecting unknown flags
+   */
+  get names(): string[] {
+    return [...this.values.keys(), ...this.booleans];
+  }
+
+  /**
+   * Same flags without the first `count` positionals - strips the command name
+   */
+  drop(count: number): CliArgs {
+    return new CliArgs(this.positionals.slice(count), this.values, this.booleans);
+  }
+
+  has(name: string): boolean {
+    return this.booleans.has(name) || this.values.has(name);
+  }
+
+  /**
+   * Positional argument at `index` - throws naming the missing argument
+   */
+  positional(index: number, name: string): string {
+    const value = this.positionals[index];
+    if (value === undefined) {
+      throw new UsageError(`Missing argument: <${name}>`);
+    }
+    return value;
+  }
+
+  /**
+   * Last value of a flag (a repeated flag overrides earlier ones)
+   */
+  string(name: string): string | undefined;
+  string(name: string, fallback: string): string;
+  string(name: string, fallback?: string): string | undefined {
+    const values = this.values.get(name);
+    return values ? values[values.length - 1] : fallback;
+  }
+
+  required(name: string): string {
+    const value = this.string(name);
+    if (value === undefined) {
+      throw new UsageError(`Missing flag: --${name}`);
+    }
+    return value;
+  }
+
+  /**
+   * Every value of a repeatable flag, in order
+   */
+  all(name: string): string[] {
+    return this.values.get(name) || [];
+  }
+
+  number(name: string): number | undefined;
+  number(name: string, fallback: number): number;
+  number(name: string, fallback?: number): number | undefined {
+    const value = this.string(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const n = Number(value);
+    if (value.trim() === '' || Number.isNaN(n)) {
+      throw new UsageError(`--${name} must be a number, got: ${value}`);
+    }
+    return n;
+  }
+
+  /**
+   * Comma-separated numbers, e.g. --children 5,9
+   */
+  numbers(name: string): number[] {
+    const value = this.string(name);
+    if (!value) {
+      return [];
+    }
+    return value.split(',').map(part => {
+      const n = Number(part);
+      if (part.trim() === '' || Number.isNaN(n)) {
+        throw new UsageError(`--${name} must be comma-separated numbers, got: ${value}`);
+      }
+      return n;
+    });
+  }
+
+  /**
+   * Stay date in YYYY-MM-DD or DD/MM/YYYY - either works for both transports
+   */
+  date(name: string): Date | undefined {
+    const value = this.string(name);
+    if (value === undefined) {
+      return undefined;
+    }
+    try {
+      return parseStayDate(value);
+    } catch (error) {
+      throw new UsageError(`--${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Throw on flags the command does not know - a typo must not be ignored
+   */
+  assertKnown(known: string[]): void {
+    const unknown = this.names.filter(name => !known.includes(name));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown flag: --${unknown[0]}`);
+    }
+  }
+}
+
+/**
+ * Split argv into positionals and flags - `booleans` names the flags that take no value
+ */
+export function parseArgs(argv: string[], booleans: string[]): CliArgs {
+  const positionals: string[] = [];
+  const values = new Map<string, string[]>();
+  const flags = new Set<string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+
+    if (booleans.includes(name)) {
+      if (eq !== -1) {
+        throw new UsageError(`--${name} takes no value`);
+      }
+      flags.add(name);
+      continue;
+    }
+
+    let value: string;
+    if (eq !== -1) {
+      value = arg.slice(eq + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      value = argv[++i];
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+
+    values.set(name, [...(values.get(name) || []), value]);
+  }
+
+  return new CliArgs(positionals, values, flags);
+}
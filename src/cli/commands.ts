@@ -0,0 +1,703 @@
+/**
+ * LockTrip CLI - Commands
+ *
+ * Every subcommand of locktrip.ts, written against HotelBookingClient so the
+ * same command line works over --graphql and --mcp. Each step of the e2e
+ * flow is one command; the output of one is the input of the next:
+ *
+ *   [login →] locations → search → results → rooms → policy → prepare → confirm → cancel
+ *
+ * `doctor` checks the account and both endpoints before any of them.
+ *
+ * Stay flags (search, rooms) take dates as YYYY-MM-DD or DD/MM/YYYY - the
+ * client converts them to the transport's format.
+ */
+
+import type {
+  BookingListType,
+  ContactPerson,
+  Guest,
+  Hotel,
+  HotelBookingClient,
+  RoomOccupancy,
+} from '../booking-client';
+import { AuthProvider, decodeJwt, tokenExpiry } from '../auth';
+import { packageIdOf } from '../booking-client';
+import { BookingJournal, CONFIRMED_STATUSES, ConfirmOutcome, confirmOnce } from '../booking-journal';
+import { CancellationPolicy } from '../cancellation-policy';
+import { LockTripConfig, placeholderContactFields, searchOccupancy } from '../config/schema';
+import { toIsoDate } from '../dates';
+import { CheckStatus, runDoctor } from '../doctor';
+import { assertValidGuestList } from '../guest-manifest';
+import { HotelFilter, SortDirection, SortField } from '../hotel-filter';
+import type { ChildName } from '../occupancy';
+import { isPriceChanged, PriceGuard } from '../price-guard';
+import { pollResults } from '../search-poller';
+import { CliArgs, UsageError } from './args';
+import { money, printJson, printStep, printSummary, printTable, progress } from './output';
+
+export interface CommandContext {
+  client: HotelBookingClient;
+  auth: AuthProvider;  // The token source the client uses
+  config: LockTripConfig;  // Defaults for stay, polling and contact - see src/config
+  args: CliArgs;  // Positionals start after the command name
+  json: boolean;
+}
+
+export interface Command {
+  name: string;  // One or two words, e.g. 'bookings list'
+  usage: string;
+  summary: string;
+  flags: string[];  // Accepted on top of GLOBAL_FLAGS
+  run(context: CommandContext): Promise<void>;
+}
+
+export const GLOBAL_FLAGS = [
+  'graphql', 'mcp', 'mcp-protocol', 'json', 'url', 'config', 'credentials', 'login-url', 'help', 'log-level', 'log-format', 'log-file',
+];
+
+// Flags that take no value - everything else consumes the next argument
+export const BOOLEAN_FLAGS = ['graphql', 'mcp', 'json', 'help', 'all', 'no-wait', 'refundable', 'yes', 'dry-run', 'force', 'accept-price-change'];
+
+const STAY_FLAGS = ['check-in', 'check-out', 'nights', 'adults', 'children', 'rooms', 'occupancy', 'currency', 'nationality'];
+const FILTER_FLAGS = ['max-price', 'min-stars', 'limit'];
+
+// --sort values - the filter sends the server whichever of these the transport supports
+const SORTS: Record<string, [SortField, SortDirection]> = {
+  price: ['price', 'asc'],
+  '-price': ['price', 'desc'],
+  rating: ['reviewScore', 'desc'],
+  distance: ['distance', 'asc'],
+};
+
+const BOOKING_TYPES: BookingListType[] = ['UPCOMING', 'COMPLETED', 'CANCELLED', 'PENDING'];
+
+// =============================================================================
+// FLAG HELPERS
+// =============================================================================
+interface Stay {
+  checkIn: Date;
+  checkOut: Date;
+  rooms: RoomOccupancy[];
+  currency: string;
+  nationality: string;
+}
+
+/**
+ * Dates, occupancy, currency and nationality - identical for search and rooms.
+ * --adults, --children, --rooms, --occupancy, --currency and --nationality are
+ * already in config.search.
+ */
+function stayFrom(args: CliArgs, config: LockTripConfig): Stay {
+  const checkIn = args.date('check-in');
+  if (!checkIn) {
+    throw new UsageError('Missing flag: --check-in');
+  }
+
+  let checkOut = args.date('check-out');
+  if (!checkOut) {
+    checkOut = new Date(checkIn);
+    checkOut.setDate(checkOut.getDate() + args.number('nights', 1));
+  }
+  if (checkOut <= checkIn) {
+    throw new UsageError('--check-out must be after --check-in');
+  }
+
+  const { currency, nationality } = config.search;
+  return {
+    checkIn,
+    checkOut,
+    rooms: searchOccupancy(config.search).rooms,
+    currency,
+    nationality,
+  };
+}
+
+/**
+ * --max-price / --min-stars as a HotelFilter, in --sort order (cheapest first)
+ */
+function filterFrom(args: CliArgs, sortName = 'price'): HotelFilter {
+  const sort = SORTS[sortName];
+  if (!sort) {
+    throw new UsageError(`--sort must be one of ${Object.keys(SORTS).join(', ')}, got: ${sortName}`);
+  }
+  const filter = new HotelFilter().sortBy(...sort);
+  const maxPrice = args.number('max-price');
+  if (maxPrice !== undefined) {
+    filter.maxPrice(maxPrice);
+  }
+  const minStars = args.number('min-stars');
+  if (minStars !== undefined) {
+    filter.minStars(minStars);
+  }
+  return filter;
+}
+
+/**
+ * "First Last" → first/last name - everything before the last word is the first name
+ */
+function nameOf(value: string, flag: string): { firstName: string; lastName: string } {
+  const parts = value.trim().split(/\s+/);
+  if (parts.length < 2) {
+    throw new UsageError(`--${flag} needs a first and last name, got: ${value}`);
+  }
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+}
+
+function printHotels(hotels: Hotel[]): void {
+  printTable(
+    ['HOTEL ID', 'PRICE', 'STARS', 'REVIEW', 'FREE CXL', 'NAME'],
+    hotels.map(h => [h.hotelId, h.price, h.stars, h.reviewScore, h.hasFreeCancellation ? 'yes' : 'no', h.name])
+  );
+}
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+const login: Command = {
+  name: 'login',
+  usage: 'login [--force]',
+  summary: 'Log in (or reuse the cached token) and show when the token expires',
+  flags: ['force'],
+  async run({ auth, args, json }) {
+    const token = args.has('force') ? await auth.reauthenticate() : await auth.token();
+    if (!token) {
+      throw new UsageError(`--force needs credentials to log in with, not a ${auth.name} - set LOCKTRIP_EMAIL or --credentials`);
+    }
+
+    const subject = decodeJwt(token)?.sub;
+    const expiresAt = tokenExpiry(token);
+    if (json) {
+      printJson({ provider: auth.name, subject: subject ?? null, expiresAt: expiresAt?.toISOString() ?? null });
+      return;
+    }
+
+    printSummary('AUTHENTICATED', {
+      'Via': auth.name,
+      'Subject': typeof subject === 'string' ? subject : null,
+      'Expires': expiresAt ? expiresAt.toISOString() : 'unknown (not a JWT)',
+    });
+  },
+};
+
+const CHECK_ICONS: Record<CheckStatus, string> = { pass: '✓', warn: '⚠', fail: '✗', skip: '-' };
+
+const doctor: Command = {
+  name: 'doctor',
+  usage: 'doctor',
+  summary: 'Check endpoints, token, B2B status and credit line - books nothing',
+  flags: [],
+  async run({ auth, config, json }) {
+    if (!json) {
+      printStep('DOCTOR');
+    }
+    const report = await runDoctor(
+      {
+        graphqlUrl: config.graphqlUrl,
+        mcpUrl: config.mcpUrl,
+        mcpProtocol: config.mcpProtocol,
+        auth,
+        destination: config.search.destination,
+      },
+      check => {
+        if (json) {
+          return;
+        }
+        console.log(`${CHECK_ICONS[check.status]} ${check.name.padEnd(24)} ${check.detail} (${check.durationMs}ms)`);
+        if (check.hint) {
+          console.log(`  → ${check.hint}`);
+        }
+      }
+    );
+    if (!report.ok) {
+      process.exitCode = 1;
+    }
+
+    if (json) {
+      printJson(report);
+      return;
+    }
+
+    const count = (status: CheckStatus) => report.checks.filter(c => c.status === status).length;
+    console.log(`\n${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed, ${count('skip')} skipped`);
+  },
+};
+
+const locations: Command = {
+  name: 'locations',
+  usage: 'locations <query>',
+  summary: 'Find region IDs for a destination',
+  flags: [],
+  async run({ client, args, json }) {
+    const query = args.positionals.join(' ');
+    if (!query) {
+      throw new UsageError('Missing argument: <query>');
+    }
+
+    const found = await client.searchLocations(query);
+    if (json) {
+      printJson(found);
+      return;
+    }
+
+    printStep(`LOCATIONS: "${query}"`);
+    if (found.length === 0) {
+      console.log('No locations found');
+      return;
+    }
+    printTable(['REGION ID', 'TYPE', 'NAME'], found.map(l => [l.id, l.type, l.name]));
+  },
+};
+
+const search: Command = {
+  name: 'search',
+  usage: 'search [--destination <query> | --region <id>] --check-in <date> [stay flags] [filters] [--deadline <s>] [--no-wait]',
+  summary: 'Start a hotel search and wait for the results',
+  flags: ['destination', 'region', 'deadline', 'no-wait', ...STAY_FLAGS, ...FILTER_FLAGS],
+  async run({ client, config, args, json }) {
+    const stay = stayFrom(args, config);
+
+    let regionId = args.string('region');
+    if (!regionId) {
+      const destination = config.search.destination;
+      const [location] = await client.searchLocations(destination);
+      if (!location) {
+        throw new Error(`No locations found for: ${destination}`);
+      }
+      regionId = location.id;
+      progress(`Destination: ${location.name} (${location.type}, region ${regionId})`);
+    }
+
+    const session = await client.searchHotels({ regionId, ...stay });
+    const summary = {
+      searchKey: session.searchKey,
+      sessionId: session.sessionId,
+      regionId,
+      checkIn: toIsoDate(stay.checkIn),
+      checkOut: toIsoDate(stay.checkOut),
+      currency: stay.currency,
+    };
+
+    if (args.has('no-wait')) {
+      if (json) {
+        printJson(summary);
+      } else {
+        printSummary('SEARCH STARTED', { 'Search Key': summary.searchKey, 'Session ID': summary.sessionId, 'Region ID': regionId });
+      }
+      return;
+    }
+
+    const outcome = await pollResults(client, session.searchKey, {
+      initialDelayMs: config.polling.initialWaitMs,
+      intervalMs: config.polling.intervalMs,
+      multiplier: config.polling.backoff,
+      maxIntervalMs: config.polling.maxIntervalMs,
+      deadlineMs: args.has('deadline') ? args.number('deadline', 60) * 1000 : config.polling.deadlineMs,
+      onProgress: p => progress(`Poll ${p.attempt} (${(p.elapsedMs / 1000).toFixed(1)}s): results=${p.count}, total=${p.total}`),
+    });
+
+    const filter = filterFrom(args);
+    const hotels: Hotel[] = [];
+    const pages = {
+      pageSize: config.paging.pageSize,
+      concurrency: config.paging.concurrency,
+      sort: filter.serverSort(client.transport) ?? undefined,
+    };
+    for await (const hotel of client.iterateResults(session.searchKey, pages)) {
+      hotels.push(hotel);
+    }
+    const shown = filter.apply(hotels).slice(0, args.number('limit', 10));
+
+    if (json) {
+      printJson({ ...summary, completed: outcome.completed, total: hotels.length, hotels: shown });
+      return;
+    }
+
+    printSummary('SEARCH', {
+      'Search Key': summary.searchKey,
+      'Session ID': summary.sessionId,
+      'Region ID': regionId,
+      'Check-in': summary.checkIn,
+      'Check-out': summary.checkOut,
+      'Status': outcome.completed ? 'COMPLETED' : 'PARTIAL (deadline reached)',
+      'Hotels': hotels.length,
+    });
+    printHotels(shown);
+  },
+};
+
+const results: Command = {
+  name: 'results',
+  usage: 'results <searchKey> [--page <n>] [--size <n>] [--sort price|-price|rating|distance] [--all] [filters]',
+  summary: 'Show one page (or --all pages) of search results',
+  flags: ['page', 'size', 'sort', 'all', ...FILTER_FLAGS],
+  async run({ client, args, json }) {
+    const searchKey = args.positional(0, 'searchKey');
+    const filter = filterFrom(args, args.string('sort', 'price'));
+    const sort = filter.serverSort(client.transport) ?? undefined;
+
+    let hotels: Hotel[] = [];
+    let page = null;
+    if (args.has('all')) {
+      for await (const hotel of client.iterateResults(searchKey, { sort, pageSize: args.number('size') })) {
+        hotels.push(hotel);
+      }
+    } else {
+      page = await client.getResults(searchKey, { page: args.number('page', 0), size: args.number('size'), sort });
+      hotels = page.hotels;
+    }
+
+    // Sorts the server lacks (e.g. rating over GraphQL) are applied locally - within the page without --all
+    const filtered = filter.apply(hotels);
+    const shown = args.has('limit') ? filtered.slice(0, args.number('limit', 10)) : filtered;
+
+    if (json) {
+      printJson(page ? { ...page, hotels: shown } : { searchKey, total: hotels.length, hotels: shown });
+      return;
+    }
+
+    printSummary('RESULTS', {
+      'Search Key': searchKey,
+      'Page': page ? `${page.page} (0-based)` : 'all',
+      'Total': page ? page.total : hotels.length,
+      'Status': page ? (page.completed ? 'COMPLETED' : 'IN_PROGRESS') : undefined,
+      'Has Next Page': page ? page.hasNextPage : undefined,
+    });
+    printHotels(shown);
+  },
+};
+
+const rooms: Command = {
+  name: 'rooms',
+  usage: 'rooms <searchKey> <hotelId> --region <id> --check-in <date> [stay flags] [--refundable]',
+  summary: 'List room packages (quote IDs) for a hotel',
+  flags: ['region', 'refundable', ...STAY_FLAGS],
+  async run({ client, config, args, json }) {
+    const result = await client.getRooms({
+      searchKey: args.positional(0, 'searchKey'),
+      hotelId: args.positional(1, 'hotelId'),
+      regionId: args.required('region'),
+      ...stayFrom(args, config),
+    });
+    const packages = args.has('refundable') ? result.packages.filter(p => p.refundable) : result.packages;
+
+    if (json) {
+      printJson({ ...result, packages });
+      return;
+    }
+
+    // The searchKey may change here - later commands must use the returned one
+    printSummary('ROOMS', { 'Search Key': result.searchKey, 'Packages': packages.length });
+    printTable(
+      ['QUOTE ID', 'PRICE', 'REFUNDABLE', 'MEAL', 'ROOM'],
+      packages.map(p => [p.quoteId, p.price, p.refundable ? 'yes' : 'no', p.mealType, p.roomName])
+    );
+  },
+};
+
+const policy: Command = {
+  name: 'policy',
+  usage: 'policy <searchKey> <hotelId> <quoteId|packageId>... [--price <total>] [--currency <code>]',
+  summary: 'Show cancellation terms and penalty timeline',
+  flags: ['price', 'currency'],
+  async run({ client, args, json }) {
+    const searchKey = args.positional(0, 'searchKey');
+    const hotelId = args.positional(1, 'hotelId');
+    args.positional(2, 'quoteId');
+
+    // Accept full quoteIds too - the API only takes the packageId part
+    const packageIds = args.positionals.slice(2).map(packageIdOf);
+    const policies = await client.getCancellationPolicies(searchKey, hotelId, packageIds);
+    const terms = policies.map(p => CancellationPolicy.fromPackagePolicy(p, {
+      price: args.number('price'),
+      currency: args.string('currency'),
+    }));
+
+    if (json) {
+      printJson(terms.map((t, i) => ({
+        ...policies[i],
+        freeCancellationDeadline: t.freeCancellationDeadline(),
+        penaltyNow: t.penaltyAt(),
+        timeline: t.timeline(),
+      })));
+      return;
+    }
+
+    terms.forEach(t => {
+      const deadline = t.freeCancellationDeadline();
+      const penalty = t.penaltyAt();
+      printSummary(`POLICY: ${t.packageId}`, {
+        'Refundable': t.refundable,
+        'Free cancel until': deadline ? deadline.toISOString() : null,
+        'Penalty now': penalty !== null ? money(penalty, t.currency) : 'unknown (pass --price)',
+      });
+      t.renderTimeline().forEach(line => console.log(`  ${line}`));
+    });
+  },
+};
+
+const prepare: Command = {
+  name: 'prepare',
+  usage: 'prepare <quoteId> --guest "First Last"... [--child "First Last"]... [--adults <n> | --occupancy <rooms>] --email <email> --phone <phone> [--contact "First Last"] [--price <quoted total>]',
+  summary: 'Prepare a booking (no charge) - returns the booking ID',
+  flags: ['guest', 'child', 'adults', 'children', 'rooms', 'occupancy', 'contact', 'email', 'phone', 'price'],
+  async run({ client, config, args, json }) {
+    const quoteId = args.positional(0, 'quoteId');
+    const guests: Guest[] = args.all('guest').map(g => nameOf(g, 'guest'));
+    if (guests.length === 0) {
+      throw new UsageError('At least one --guest is required');
+    }
+
+    // Guests and children fill the searched rooms in order - pass the same
+    // stay flags as search, or the counts will not match
+    const occupancy = searchOccupancy(config.search);
+    const children: ChildName[] = args.all('child').map(c => nameOf(c, 'child'));
+
+    // --email / --phone are read into booking.contact with the rest of the config
+    const contactName = args.string('contact');
+    const contact: ContactPerson = {
+      ...(contactName ? nameOf(contactName, 'contact') : guests[0]),
+      email: config.booking.contact.email,
+      phone: config.booking.contact.phone,
+    };
+
+    // Without --email / --phone (or booking.contact set in a config file or env)
+    // the contact is the built-in test one - a real booking must not get it
+    const placeholders = placeholderContactFields(contact);
+    if (placeholders.length > 0) {
+      throw new UsageError(
+        `Contact ${placeholders.join(' and ')} not set - pass ${placeholders.map(f => `--${f}`).join(' and ')}, ` +
+        'or set booking.contact in locktrip.config.yaml or LOCKTRIP_CONTACT_EMAIL / LOCKTRIP_CONTACT_PHONE'
+      );
+    }
+
+    // Every manifest problem at once - counts included - before the prepare request
+    const { rooms } = assertValidGuestList({ guests, children, contact }, occupancy);
+
+    const prepared = await client.prepareBooking({ quoteId, rooms, contact });
+
+    // confirm finds the flow by booking ID and checks the price against the quote
+    const journal = new BookingJournal(config.journalPath);
+    const flowId = journal.newFlowId();
+    journal.append(flowId, 'prepared', {
+      transport: client.transport,
+      quoteId,
+      packageId: packageIdOf(quoteId),
+      preparedBookingId: prepared.bookingId,
+      quotedPrice: args.number('price'),
+      price: prepared.price,
+      currency: prepared.currency,
+    });
+
+    if (json) {
+      printJson({ ...prepared, quoteId, flowId });
+      return;
+    }
+
+    printSummary('BOOKING PREPARED', {
+      'Booking ID': prepared.bookingId,
+      'Quote ID': quoteId,
+      'Price': money(prepared.price, prepared.currency),
+      'Payment': prepared.payment,
+      'Journal flow': flowId,
+    });
+    const priceFlag = args.has('price') ? '' : ' --price <total from rooms>';
+    console.log(`\nConfirm (CHARGES CREDIT LINE): locktrip confirm ${prepared.bookingId} ${quoteId} --yes${priceFlag}`);
+  },
+};
+
+const confirm: Command = {
+  name: 'confirm',
+  usage: 'confirm <bookingId> <quoteId> --yes [--price <quoted total>] [--accept-price-change]',
+  summary: 'Confirm a prepared booking - CHARGES THE CREDIT LINE',
+  flags: ['yes', 'price', 'accept-price-change'],
+  async run({ client, config, args, json }) {
+    const bookingId = args.positional(0, 'bookingId');
+    const quoteId = args.positional(1, 'quoteId');
+    if (!args.has('yes')) {
+      throw new UsageError('confirm charges the credit line - add --yes to proceed');
+    }
+
+    const details = await client.getBookingDetails(bookingId);
+    if (details && CONFIRMED_STATUSES.includes(details.status.toUpperCase())) {
+      throw new Error(`Booking ${bookingId} is already ${details.status} - not confirming it again`);
+    }
+
+    // The flow `prepare` journaled - one is started for a booking prepared elsewhere
+    const journal = new BookingJournal(config.journalPath);
+    let flow = journal.flows().filter(f => f.preparedBookingId === bookingId).pop();
+    const quoted = args.number('price') ?? flow?.quotedPrice;
+    if (quoted === undefined) {
+      throw new UsageError(`No quoted price for ${bookingId} - pass --price <total> from \`rooms\``);
+    }
+    const price = flow?.price ?? details?.totalPrice;
+    const currency = flow?.currency ?? details?.currency;
+    if (price === undefined || !currency) {
+      throw new Error(`Prepared price of ${bookingId} unknown - check it with \`bookings show\``);
+    }
+    if (!flow) {
+      const id = journal.newFlowId();
+      journal.append(id, 'prepared', {
+        transport: client.transport,
+        quoteId,
+        packageId: packageIdOf(quoteId),
+        preparedBookingId: bookingId,
+        price,
+        currency,
+      });
+      flow = journal.flow(id)!;
+    }
+    const flowId = flow.flowId;
+
+    // The quote comes from the same search, so it is in the prepared currency
+    const guard = new PriceGuard(config.booking.priceTolerance);
+    guard.record('quote', quoted, currency);
+    guard.record('prepared', price, currency);
+
+    // Never retried - a re-run after a timeout checks the status before sending again
+    let voucherUrl: string | null = null;
+    const send = () => confirmOnce(journal, flowId, {
+      status: async () => (await client.getBookingDetails(bookingId))?.status ?? null,
+      send: async () => {
+        const result = await client.confirmBooking(bookingId, quoteId);
+        voucherUrl = result.voucherUrl;
+        return result;
+      },
+    });
+
+    let result = await guard.confirm(send);
+    if (isPriceChanged(result)) {
+      if (!args.has('accept-price-change')) {
+        throw new Error(`Price changed: ${result.reason} - re-run with --accept-price-change to confirm anyway`);
+      }
+      guard.accept(result);
+      result = await send();
+    }
+    const outcome = result as ConfirmOutcome;
+
+    if (json) {
+      printJson({ bookingId, flowId, ...outcome, voucherUrl });
+    } else {
+      printSummary(outcome.accepted ? 'BOOKING CONFIRMED' : 'BOOKING NOT CONFIRMED', {
+        'Booking ID': bookingId,
+        'Accepted': outcome.accepted,
+        'Message': outcome.message,
+        'Voucher': voucherUrl,
+        'Journal flow': flowId,
+      });
+    }
+    if (!outcome.accepted) {
+      process.exitCode = 1;
+    }
+  },
+};
+
+const cancel: Command = {
+  name: 'cancel',
+  usage: 'cancel <bookingId> [--dry-run]',
+  summary: 'Cancel a booking (--dry-run only checks it could be)',
+  flags: ['dry-run'],
+  async run({ client, args, json }) {
+    const bookingId = args.positional(0, 'bookingId');
+    const result = await client.cancelBooking(bookingId, args.has('dry-run'));
+
+    if (json) {
+      printJson({ bookingId, ...result });
+    } else {
+      printSummary(args.has('dry-run') ? 'CANCELLATION (DRY-RUN)' : 'CANCELLATION', {
+        'Booking ID': bookingId,
+        'Cancelled': result.cancelled,
+        'Message': result.message,
+      });
+    }
+    if (!result.cancelled && !args.has('dry-run')) {
+      process.exitCode = 1;
+    }
+  },
+};
+
+const bookingsList: Command = {
+  name: 'bookings list',
+  usage: 'bookings list [--type upcoming|completed|cancelled|pending]',
+  summary: 'List bookings on the account',
+  flags: ['type'],
+  async run({ client, args, json }) {
+    const type = args.string('type', 'upcoming').toUpperCase() as BookingListType;
+    if (!BOOKING_TYPES.includes(type)) {
+      throw new UsageError(`--type must be one of ${BOOKING_TYPES.join(', ').toLowerCase()}, got: ${args.string('type')}`);
+    }
+
+    const bookings = await client.listBookings(type);
+    if (json) {
+      printJson(bookings);
+      return;
+    }
+
+    printStep(`BOOKINGS: ${type}`);
+    if (bookings.length === 0) {
+      console.log('No bookings');
+      return;
+    }
+    printTable(
+      ['BOOKING ID', 'REFERENCE', 'STATUS', 'CHECK-IN', 'HOTEL'],
+      bookings.map(b => [b.bookingId, b.referenceId, b.status, b.checkIn, b.hotelName])
+    );
+  },
+};
+
+const bookingsShow: Command = {
+  name: 'bookings show',
+  usage: 'bookings show <bookingId>',
+  summary: 'Show one booking with guests and cancellation terms',
+  flags: [],
+  async run({ client, args, json }) {
+    const bookingId = args.positional(0, 'bookingId');
+    const details = await client.getBookingDetails(bookingId);
+    if (!details) {
+      throw new Error(`Booking not found: ${bookingId}`);
+    }
+
+    if (json) {
+      printJson(details);
+      return;
+    }
+
+    printSummary(`BOOKING: ${details.bookingId}`, {
+      'Reference': details.bookingReferenceId,
+      'Status': details.status,
+      'Hotel': `${details.hotel.name} (${details.hotel.city}, ${details.hotel.country})`,
+      'Check-in': details.checkIn,
+      'Check-out': details.checkOut,
+      'Total': money(details.totalPrice, details.currency),
+      'Payment': details.paymentStatus,
+      'Contact': `${details.contactPerson.firstName} ${details.contactPerson.lastName} <${details.contactPerson.email}>`,
+      'Free cancel until': details.cancellationPolicy?.freeCancellationUntil,
+    });
+    details.rooms.forEach((r, i) => {
+      console.log(`Room ${i + 1}: ${r.roomName} (${r.mealType}) - ${r.guests.map(g => `${g.firstName} ${g.lastName}`).join(', ')}`);
+    });
+  },
+};
+
+export const COMMANDS: Command[] = [
+  login,
+  doctor,
+  locations,
+  search,
+  results,
+  rooms,
+  policy,
+  prepare,
+  confirm,
+  cancel,
+  bookingsList,
+  bookingsShow,
+];
+
+/**
+ * Command named by the leading positionals - two-word names win over one-word ones
+ */
+export function findCommand(positionals: string[]): Command | undefined {
+  return COMMANDS.find(c => c.name === positionals.slice(0, 2).join(' ')) ||
+    COMMANDS.find(c => c.name === positionals[0]);
+}
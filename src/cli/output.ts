@@ -0,0 +1,63 @@
+/**
+ * LockTrip CLI - Output
+ *
+ * Human-readable output in the e2e script's style (printStep banners,
+ * printSummary key/value blocks) by default; --json writes exactly one JSON
+ * document to stdout so commands can be piped into jq or another command.
+ * Progress lines go to stderr in both modes.
+ */
+
+export type SummaryValue = string | number | boolean | null | undefined;
+
+/**
+ * Write the command result as JSON - Dates serialize as ISO strings
+ */
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+export function printStep(title: string): void {
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(title);
+  console.log('='.repeat(70));
+}
+
+/**
+ * Amount with its currency code - the format of the policy timeline
+ */
+export function money(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+/**
+ * Aligned key/value block - missing values print as N/A
+ */
+export function printSummary(title: string, fields: Record<string, SummaryValue>): void {
+  printStep(title);
+  for (const [key, value] of Object.entries(fields)) {
+    console.log(`${`${key}:`.padEnd(22)}${value === null || value === undefined || value === '' ? 'N/A' : value}`);
+  }
+  console.log('='.repeat(70));
+}
+
+/**
+ * Fixed-width table - the last column is never padded
+ */
+export function printTable(headers: string[], rows: SummaryValue[][]): void {
+  const cells = [headers, ...rows.map(row => row.map(v => (v === null || v === undefined ? '-' : String(v))))];
+  const widths = headers.map((_, col) => Math.max(...cells.map(row => row[col].length)));
+
+  cells.forEach((row, index) => {
+    console.log(row.map((cell, col) => (col === row.length - 1 ? cell : cell.padEnd(widths[col]))).join('  '));
+    if (index === 0) {
+      console.log(widths.map(w => '-'.repeat(w)).join('  '));
+    }
+  });
+}
+
+/**
+ * Progress line on stderr - keeps stdout clean for --json
+ */
+export function progress(line: string): void {
+  console.error(line);
+}
@@ -0,0 +1,291 @@
+/**
+ * LockTrip Config - Layered Loading
+ *
+ * Merges four layers, later ones winning, then validates the result once:
+ *
+ * | Layer    | Source                                                   |
+ * |----------|----------------------------------------------------------|
+ * | defaults | DEFAULT_CONFIG                                           |
+ * | file     | --config <path>, else LOCKTRIP_CONFIG, else the first of |
+ * |          | locktrip.config.{yaml,yml,json} in the working directory |
+ * | env      | ENV_VARS (BEARER_TOKEN, LOCKTRIP_CURRENCY, ...)          |
+ * | flags    | CONFIG_FLAGS (--currency, --adults, ...)                 |
+ *
+ * Every value remembers the layer it came from, so an error says which file
+ * key, variable or flag to fix.
+ *
+ * Usage:
+ *
+ *   const config = loadConfigOrExit({ args: parseArgs(process.argv.slice(2), ['book']), booking: true });
+ *   config.search.currency;  // 'EUR'
+ *   const logger = createRunLogger(config);
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CliArgs } from '../cli/args';
+import { createLogger, Logger, newCorrelationId } from '../logger';
+import { ConfigError, ConfigIssue, configSecrets, DEFAULT_CONFIG, getPath, LockTripConfig, SCHEMA, validateConfig } from './schema';
+import { parseYaml } from './yaml';
+
+export interface LoadOptions {
+  // Flags layer - also where --config, --graphql and --mcp are read
+  args?: CliArgs;
+
+  // Environment layer (default: process.env)
+  env?: Record<string, string | undefined>;
+
+  // Where locktrip.config.* is looked for (default: process.cwd())
+  cwd?: string;
+
+  // Validate the guest list too (default: false)
+  booking?: boolean;
+}
+
+export const CONFIG_FILE_NAMES = ['locktrip.config.yaml', 'locktrip.config.yml', 'locktrip.config.json'];
+
+export const ENV_VARS: Record<string, string> = {
+  BEARER_TOKEN: 'token',
+  LOCKTRIP_EMAIL: 'auth.email',
+  LOCKTRIP_CREDENTIALS: 'auth.credentialsFile',
+  LOCKTRIP_LOGIN_URL: 'auth.loginUrl',
+  LOCKTRIP_TOKEN_CACHE: 'auth.tokenCache',
+  TRANSPORT: 'transport',
+  MCP_PROTOCOL: 'mcpProtocol',
+  LOCKTRIP_URL: 'baseUrl',
+  GRAPHQL_URL: 'graphqlUrl',
+  MCP_BASE_URL: 'mcpUrl',
+  JOURNAL_PATH: 'journalPath',
+  LOCKTRIP_DESTINATION: 'search.destination',
+  LOCKTRIP_CURRENCY: 'search.currency',
+  LOCKTRIP_ADULTS: 'search.adults',
+  LOCKTRIP_CHILDREN: 'search.childrenAges',
+  LOCKTRIP_ROOMS: 'search.rooms',
+  LOCKTRIP_OCCUPANCY: 'search.occupancy',
+  LOCKTRIP_NATIONALITY: 'search.nationality',
+  LOCKTRIP_MAX_PRICE: 'search.maxPrice',
+  LOCKTRIP_CONTACT_EMAIL: 'booking.contact.email',
+  LOCKTRIP_CONTACT_PHONE: 'booking.contact.phone',
+  LOG_LEVEL: 'logging.level',
+  LOG_FORMAT: 'logging.format',
+  LOG_FILE: 'logging.file',
+  REPORT_JSON: 'report.json',
+  REPORT_JUNIT: 'report.junit',
+};
+
+export const CONFIG_FLAGS: Record<string, string> = {
+  'url': 'baseUrl',
+  'mcp-protocol': 'mcpProtocol',
+  'credentials': 'auth.credentialsFile',
+  'login-url': 'auth.loginUrl',
+  'graphql-url': 'graphqlUrl',
+  'mcp-url': 'mcpUrl',
+  'journal': 'journalPath',
+  'destination': 'search.destination',
+  'currency': 'search.currency',
+  'adults': 'search.adults',
+  'children': 'search.childrenAges',
+  'rooms': 'search.rooms',
+  'occupancy': 'search.occupancy',
+  'nationality': 'search.nationality',
+  'max-price': 'search.maxPrice',
+  'email': 'booking.contact.email',
+  'phone': 'booking.contact.phone',
+  'sample-hotels': 'parity.sampleHotels',
+  'log-level': 'logging.level',
+  'log-format': 'logging.format',
+  'log-file': 'logging.file',
+  'report': 'report.json',
+  'junit': 'report.junit',
+};
+
+interface Setting {
+  path: string;
+  value: unknown;
+  source: string;
+}
+
+/**
+ * Leaf settings of a nested object - arrays are leaves
+ */
+function flatten(value: unknown, source: string, prefix = ''): Setting[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ path: prefix, value, source }];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    flatten(child, source, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+function setPath(target: Record<string, unknown>, dotted: string, value: unknown): void {
+  const keys = dotted.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!node[key] || typeof node[key] !== 'object') {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Env vars and flags are strings - convert them to the type the schema expects.
+ * Values that do not convert are kept as-is so validation reports them.
+ */
+function fromString(dotted: string, raw: string): unknown {
+  switch (SCHEMA[dotted]?.type) {
+    case 'number':
+    case 'integer':
+      return raw.trim() === '' || Number.isNaN(Number(raw)) ? raw : Number(raw);
+    case 'numbers': {
+      const parts = raw.split(',').map(p => p.trim()).filter(p => p !== '');
+      return parts.every(p => !Number.isNaN(Number(p))) ? parts.map(Number) : raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * The config file to read - an explicitly named file must exist
+ */
+function findConfigFile(options: LoadOptions, env: Record<string, string | undefined>): { file: string; source: string } | null {
+  const cwd = options.cwd || process.cwd();
+
+  const flag = options.args?.string('config');
+  if (flag) return { file: path.resolve(cwd, flag), source: '--config' };
+  if (env.LOCKTRIP_CONFIG) return { file: path.resolve(cwd, env.LOCKTRIP_CONFIG), source: 'LOCKTRIP_CONFIG' };
+
+  const found = CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).find(file => fs.existsSync(file));
+  return found ? { file: found, source: 'default location' } : null;
+}
+
+function readConfigFile(file: string, via: string): Setting[] {
+  const label = `file ${path.basename(file)}`;
+
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError([{
+      path: 'config',
+      message: `cannot read ${file} (${(error as NodeJS.ErrnoException).code || (error as Error).message})`,
+      source: via,
+    }]);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError([{ path: 'config', message: (error as Error).message, source: label }]);
+  }
+
+  if (parsed === null) {
+    return [];
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError([{ path: 'config', message: 'must be a mapping of settings', source: label }]);
+  }
+
+  // `key: null` in a file means "use the default"
+  return flatten(parsed, label).filter(s => s.value !== null);
+}
+
+/**
+ * Merge defaults, file, env and flags and validate - throws ConfigError listing every issue
+ */
+export function loadConfig(options: LoadOptions = {}): LockTripConfig {
+  const env = options.env || process.env;
+  const settings: Setting[] = flatten(DEFAULT_CONFIG, 'default');
+  const issues: ConfigIssue[] = [];
+
+  const configFile = findConfigFile(options, env);
+  if (configFile) {
+    for (const setting of readConfigFile(configFile.file, configFile.source)) {
+      if (SCHEMA[setting.path]) {
+        settings.push(setting);
+      } else {
+        const section = setting.path.includes('.') ? setting.path.split('.')[0] : '';
+        const known = Object.keys(SCHEMA).filter(p => (section ? p.startsWith(`${section}.`) : !p.includes('.')));
+        issues.push({
+          path: setting.path,
+          message: 'unknown setting',
+          source: setting.source,
+          hint: known.length > 0 ? `Known${section ? ` in ${section}` : ''}: ${known.join(', ')}` : undefined,
+        });
+      }
+    }
+  }
+
+  for (const [name, dotted] of Object.entries(ENV_VARS)) {
+    const raw = env[name];
+    if (raw !== undefined && raw !== '') {
+      settings.push({ path: dotted, value: fromString(dotted, raw), source: `env ${name}` });
+    }
+  }
+
+  const args = options.args;
+  if (args) {
+    for (const [flag, dotted] of Object.entries(CONFIG_FLAGS)) {
+      const raw = args.string(flag);
+      if (raw !== undefined) {
+        settings.push({ path: dotted, value: fromString(dotted, raw), source: `--${flag}` });
+      }
+    }
+    if (args.has('graphql') && args.has('mcp')) {
+      issues.push({ path: 'transport', message: 'use either --graphql or --mcp, not both', source: 'flags' });
+    } else if (args.has('graphql') || args.has('mcp')) {
+      settings.push({ path: 'transport', value: args.has('mcp') ? 'mcp' : 'graphql', source: `--${args.has('mcp') ? 'mcp' : 'graphql'}` });
+    }
+  }
+
+  const merged: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+  for (const setting of settings) {
+    setPath(merged, setting.path, setting.value);
+    sources[setting.path] = setting.source;
+  }
+
+  // Endpoint URLs follow baseUrl unless set themselves
+  if (getPath(merged, 'graphqlUrl') === undefined) {
+    merged.graphqlUrl = merged.baseUrl;
+    sources.graphqlUrl = sources.baseUrl;
+  }
+  if (getPath(merged, 'mcpUrl') === undefined) {
+    merged.mcpUrl = `${merged.baseUrl}/mcp`;
+    sources.mcpUrl = sources.baseUrl;
+  }
+
+  const config = merged as unknown as LockTripConfig;
+  issues.push(...validateConfig(config, { booking: options.booking, sources }));
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return config;
+}
+
+/**
+ * loadConfig for scripts - prints every issue and exits 1 instead of throwing
+ */
+export function loadConfigOrExit(options: LoadOptions = {}): LockTripConfig {
+  try {
+    return loadConfig(options);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(`\n❌ ${error.message}`);
+    console.error('\nSettings come from (later wins): defaults, locktrip.config.{yaml,json}, environment, flags');
+    process.exit(1);
+  }
+}
+
+/**
+ * Logger for one script run - the configured level, format and file, the
+ * config's secrets redacted, and the run's correlation id on every record
+ */
+export function createRunLogger(config: LockTripConfig, correlationId = newCorrelationId()): Logger {
+  return createLogger({ ...config.logging, secrets: configSecrets(config) }).child({ correlationId });
+}
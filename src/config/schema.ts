@@ -0,0 +1,488 @@
+/**
+ * LockTrip Config - Schema
+ *
+ * The settings the e2e script and the CLI run with, their defaults, and
+ * the rules they are checked against before anything is sent to the server.
+ * Every setting has a dotted path (e.g. `search.currency`) - the same path
+ * is used as the key in a config file and in error messages.
+ *
+ * Usage:
+ *
+ *   const issues = validateConfig(config, { booking: true });
+ *   if (issues.length > 0) throw new ConfigError(issues);
+ */
+
+import { DEFAULT_LOGIN_URL, DEFAULT_TOKEN_CACHE_PATH } from '../auth';
+import type { ContactPerson, Guest, Transport } from '../booking-client';
+import { DEFAULT_JOURNAL_PATH } from '../booking-journal';
+import type { GuestTitle } from '../graphql-types';
+import { GUEST_TITLES, isE164Phone, isEmail } from '../guest-manifest';
+import { LOG_LEVELS, LogFormat, LogLevel } from '../logger';
+import type { McpProtocol } from '../mcp-client';
+import { ChildName, Occupancy } from '../occupancy';
+
+export interface SearchConfig {
+  destination: string;
+  currency: string;  // ISO-4217
+  adults: number;  // Per room - guest count in booking MUST match this exactly
+  childrenAges: number[];  // Per room
+  rooms: number;  // Identical rooms of adults + childrenAges
+  occupancy?: string;  // Mixed rooms, e.g. "2:5,9;1" - overrides the three above
+  nationality: string;  // ISO-3166 alpha-2
+  maxPrice: number;  // Preferred price cap when picking a hotel
+}
+
+export interface PollingConfig {
+  initialWaitMs: number;
+  intervalMs: number;
+  backoff: number;  // Interval multiplier per poll
+  maxIntervalMs: number;
+  deadlineMs: number;
+}
+
+export interface PagingConfig {
+  pageSize: number;
+  concurrency: number;
+}
+
+export interface BookingConfig {
+  // Max increase from room quote to prepared price before confirm is blocked
+  priceTolerance: { absolute: number; percent: number };
+
+  // Pause between confirm and the cleanup cancellation
+  cancelDelayMs: number;
+
+  guests: Guest[];  // Adults, handed out in room order
+  children: ChildName[];  // Ages come from the searched occupancy
+  contact: ContactPerson;
+}
+
+export interface ParityConfig {
+  // Hotels whose rooms and cancellation policies are compared, cheapest first
+  sampleHotels: number;
+
+  // Allowed difference in hotel totals, as % of the larger total
+  countTolerancePercent: number;
+
+  // Allowed difference in minimum, package and fee prices - with both set, both must hold
+  priceTolerance: { absolute: number; percent: number };
+
+  // Allowed difference in cancellation deadlines and fee dates
+  dateToleranceMinutes: number;
+}
+
+export interface LoggingConfig {
+  level: LogLevel | 'silent';
+  format: LogFormat;  // json: one record per line, for a log pipeline
+  file?: string;  // Append here instead of stderr
+}
+
+export interface ReportConfig {
+  json?: string;  // Run report with per-step timings, requests and metrics
+  junit?: string;  // The same as JUnit XML, one testcase per step
+}
+
+export interface AuthConfig {
+  loginUrl: string;  // POST {loginUrl}/api/auth/login
+  email?: string;  // Log in as - the password comes from LOCKTRIP_PASSWORD
+  credentialsFile?: string;  // JSON { token } or { email, password }, chmod 600
+  tokenCache: string;  // Where login tokens are kept between runs
+}
+
+export interface LockTripConfig {
+  transport: Transport;
+  mcpProtocol: McpProtocol;  // rest: /tools/:name, rpc: JSON-RPC 2.0 at /rpc, sse: MCP session at /sse
+  token?: string;  // Or log in - see auth
+  auth: AuthConfig;
+
+  // Site root - GraphQL at {graphqlUrl}/graphql, MCP tools at {mcpUrl}/tools
+  baseUrl: string;
+  graphqlUrl: string;  // default: baseUrl
+  mcpUrl: string;  // default: {baseUrl}/mcp
+
+  journalPath: string;
+  search: SearchConfig;
+  polling: PollingConfig;
+  paging: PagingConfig;
+  booking: BookingConfig;
+  parity: ParityConfig;
+  logging: LoggingConfig;
+  report: ReportConfig;
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+  source?: string;  // Layer the value came from, e.g. "env LOCKTRIP_CURRENCY"
+  hint?: string;
+}
+
+export interface ValidateOptions {
+  // Also check the guest lists against the searched occupancy (default: false)
+  booking?: boolean;
+
+  // Where each value came from, for error messages
+  sources?: Record<string, string>;
+}
+
+/**
+ * Invalid configuration - the message lists every issue, not just the first
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(`Invalid configuration:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const source = issue.source ? ` (from ${issue.source})` : '';
+  const hint = issue.hint ? `\n      → ${issue.hint}` : '';
+  return `  ✗ ${issue.path}${source}: ${issue.message}${hint}`;
+}
+
+export const DEFAULT_CONFIG: Omit<LockTripConfig, 'graphqlUrl' | 'mcpUrl'> = {
+  transport: 'graphql',
+  mcpProtocol: 'rest',
+  auth: {
+    loginUrl: DEFAULT_LOGIN_URL,
+    tokenCache: DEFAULT_TOKEN_CACHE_PATH,
+  },
+  baseUrl: 'https://locktrip.com',
+  journalPath: DEFAULT_JOURNAL_PATH,
+
+  search: {
+    destination: 'bali, indonesia',
+    currency: 'EUR',
+    adults: 2,
+    childrenAges: [],
+    rooms: 1,
+    nationality: 'US',
+    maxPrice: 50,
+  },
+
+  // Interval grows ×1.5 per poll up to 5s
+  polling: {
+    initialWaitMs: 2000,
+    intervalMs: 1000,
+    backoff: 1.5,
+    maxIntervalMs: 5000,
+    deadlineMs: 60000,
+  },
+
+  // Every page is fetched, `concurrency` at a time
+  paging: {
+    pageSize: 100,
+    concurrency: 4,
+  },
+
+  // Test guest data - replace with real data for production
+  booking: {
+    priceTolerance: { absolute: 1, percent: 2 },
+    cancelDelayMs: 3000,
+    guests: [
+      { title: 'Mr', firstName: 'John', lastName: 'Doe' },
+      { title: 'Mrs', firstName: 'Jane', lastName: 'Doe' },
+    ],
+    children: [],
+    contact: {
+      title: 'Mr',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      phone: '+1234567890',
+    },
+  },
+
+  // GraphQL vs MCP comparison - exact by default, cents aside
+  parity: {
+    sampleHotels: 5,
+    countTolerancePercent: 0,
+    priceTolerance: { absolute: 0.01, percent: 100 },
+    dateToleranceMinutes: 0,
+  },
+
+  // Request failures only - debug adds every request and response
+  logging: {
+    level: 'warn',
+    format: 'pretty',
+  },
+
+  // Nothing written unless a path is set
+  report: { json: undefined, junit: undefined },
+};
+
+// =============================================================================
+// FIELD RULES
+// =============================================================================
+export type FieldType = 'string' | 'number' | 'integer' | 'numbers' | 'guests';
+
+interface FieldRule {
+  type: FieldType;
+  min?: number;
+  max?: number;
+  oneOf?: string[];
+  optional?: boolean;
+
+  // Returns a problem description, or null when the value is fine
+  check?: (value: never) => string | null;
+  hint?: string;
+}
+
+function currencyCodes(): Set<string> | null {
+  return typeof Intl.supportedValuesOf === 'function' ? new Set(Intl.supportedValuesOf('currency')) : null;
+}
+
+const checkCurrency = (value: string) => {
+  if (!/^[A-Z]{3}$/.test(value)) return 'must be a 3-letter uppercase ISO-4217 code';
+  const known = currencyCodes();
+  return known && !known.has(value) ? 'is not an ISO-4217 currency code' : null;
+};
+
+const checkUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'is not a valid URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'must be an http(s) URL';
+  if (value.endsWith('/')) return 'must not end with "/"';
+  if (url.search || url.hash) return 'must not have a query string or fragment';
+  return null;
+};
+
+const checkEmail = (value: string) => (isEmail(value) ? null : 'is not a valid email address');
+
+const checkPhone = (value: string) => (isE164Phone(value) ? null : 'must be in international format without spaces, e.g. +1234567890');
+
+const checkName = (value: string) => (value.trim() === '' ? 'must not be empty' : null);
+
+const checkTitle = (value: string) => (GUEST_TITLES.includes(value as GuestTitle) ? null : `must be one of ${GUEST_TITLES.join(', ')}`);
+
+const checkGuests = (guests: unknown[]) => {
+  for (const [index, guest] of guests.entries()) {
+    const g = guest as Partial<Guest> | null;
+    if (!g || typeof g !== 'object') return `[${index}] must be { firstName, lastName }`;
+    if (typeof g.firstName !== 'string' || checkName(g.firstName)) return `[${index}].firstName is missing`;
+    if (typeof g.lastName !== 'string' || checkName(g.lastName)) return `[${index}].lastName is missing`;
+    if (g.title !== undefined && checkTitle(g.title)) return `[${index}].title ${checkTitle(g.title)}`;
+  }
+  return null;
+};
+
+const checkOccupancy = (value: string) => {
+  try {
+    Occupancy.parse(value);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+/**
+ * One rule per settable path - also the list of keys a config file may use
+ */
+export const SCHEMA: Record<string, FieldRule> = {
+  'transport': { type: 'string', oneOf: ['graphql', 'mcp'] },
+  'mcpProtocol': { type: 'string', oneOf: ['rest', 'rpc', 'sse'] },
+  'token': { type: 'string', optional: true, check: checkName },
+  'auth.loginUrl': { type: 'string', check: checkUrl, hint: 'Login site root, e.g. https://users.locktrip.com' },
+  'auth.email': { type: 'string', optional: true, check: checkEmail },
+  'auth.credentialsFile': { type: 'string', optional: true, check: checkName },
+  'auth.tokenCache': { type: 'string', check: checkName },
+  'baseUrl': { type: 'string', check: checkUrl, hint: 'Site root, e.g. https://locktrip.com' },
+  'graphqlUrl': { type: 'string', check: checkUrl, hint: 'Site root without /graphql - the client appends it' },
+  'mcpUrl': { type: 'string', check: checkUrl, hint: 'MCP root, e.g. https://locktrip.com/mcp' },
+  'journalPath': { type: 'string', check: checkName },
+
+  'search.destination': { type: 'string', check: checkName },
+  'search.currency': { type: 'string', check: checkCurrency, hint: 'e.g. EUR, USD, GBP' },
+  'search.adults': { type: 'integer', min: 1, max: 9 },
+  'search.childrenAges': { type: 'numbers', min: 0, max: 17, hint: 'Comma-separated ages, e.g. 5,9' },
+  'search.rooms': { type: 'integer', min: 1, max: 9 },
+  'search.occupancy': {
+    type: 'string',
+    optional: true,
+    check: checkOccupancy,
+    hint: 'Rooms separated by ";", each "adults[:age,age]", e.g. "2:5,9;1"',
+  },
+  'search.nationality': {
+    type: 'string',
+    check: (value: string) => (/^[A-Z]{2}$/.test(value) ? null : 'must be a 2-letter uppercase country code'),
+    hint: 'ISO-3166 alpha-2, e.g. US, GB, DE',
+  },
+  'search.maxPrice': { type: 'number', min: 0 },
+
+  'polling.initialWaitMs': { type: 'integer', min: 0 },
+  'polling.intervalMs': { type: 'integer', min: 1 },
+  'polling.backoff': { type: 'number', min: 1 },
+  'polling.maxIntervalMs': { type: 'integer', min: 1 },
+  'polling.deadlineMs': { type: 'integer', min: 1 },
+
+  'paging.pageSize': { type: 'integer', min: 1, max: 500 },
+  'paging.concurrency': { type: 'integer', min: 1, max: 16 },
+
+  'booking.priceTolerance.absolute': { type: 'number', min: 0 },
+  'booking.priceTolerance.percent': { type: 'number', min: 0 },
+  'booking.cancelDelayMs': { type: 'integer', min: 0 },
+  'booking.guests': { type: 'guests', check: checkGuests },
+  'booking.children': { type: 'guests', check: checkGuests },
+  'booking.contact.title': { type: 'string', optional: true, check: checkTitle },  // Defaults to Mr
+  'booking.contact.firstName': { type: 'string', check: checkName },
+  'booking.contact.lastName': { type: 'string', check: checkName },
+  'booking.contact.email': { type: 'string', check: checkEmail },
+  'booking.contact.phone': {
+    type: 'string',
+    check: checkPhone,
+    hint: 'In YAML, quote it: phone: "+1234567890"',
+  },
+
+  'parity.sampleHotels': { type: 'integer', min: 1, max: 50 },
+  'parity.countTolerancePercent': { type: 'number', min: 0, max: 100 },
+  'parity.priceTolerance.absolute': { type: 'number', min: 0 },
+  'parity.priceTolerance.percent': { type: 'number', min: 0 },
+  'parity.dateToleranceMinutes': { type: 'integer', min: 0 },
+
+  'logging.level': { type: 'string', oneOf: [...LOG_LEVELS, 'silent'] },
+  'logging.format': { type: 'string', oneOf: ['json', 'pretty'] },
+  'logging.file': { type: 'string', optional: true, check: checkName },
+
+  'report.json': { type: 'string', optional: true, check: checkName },
+  'report.junit': { type: 'string', optional: true, check: checkName },
+};
+
+/**
+ * Rooms to search and book - search.occupancy, else search.rooms × (adults + childrenAges)
+ */
+export function searchOccupancy(search: SearchConfig): Occupancy {
+  return search.occupancy
+    ? Occupancy.parse(search.occupancy)
+    : Occupancy.uniform(search.rooms, search.adults, search.childrenAges);
+}
+
+/**
+ * Values redacted from logs wherever they appear - the token, contact details and every guest name
+ */
+export function configSecrets(config: LockTripConfig): string[] {
+  const { contact, guests, children } = config.booking;
+  const names = [contact, ...guests, ...children].flatMap(person => [person.firstName, person.lastName]);
+  return [config.token, contact.email, contact.phone, ...names].filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Contact fields still holding the built-in test values - never sent from the CLI
+ */
+export function placeholderContactFields(contact: ContactPerson): Array<'email' | 'phone'> {
+  const placeholder = DEFAULT_CONFIG.booking.contact;
+  const fields: Array<'email' | 'phone'> = [];
+  if (contact.email.trim().toLowerCase() === placeholder.email) fields.push('email');
+  if (contact.phone.trim() === placeholder.phone) fields.push('phone');
+  return fields;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Value at a dotted path
+ */
+export function getPath(target: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    target
+  );
+}
+
+function checkType(value: unknown, rule: FieldRule): string | null {
+  switch (rule.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `must be a string, got ${JSON.stringify(value)}`;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return `must be a number, got ${JSON.stringify(value)}`;
+      if (rule.type === 'integer' && !Number.isInteger(value)) return `must be a whole number, got ${value}`;
+      return null;
+    case 'numbers':
+      return Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isInteger(v))
+        ? null
+        : 'must be a list of whole numbers';
+    case 'guests':
+      return Array.isArray(value) ? null : 'must be a list of { firstName, lastName }';
+  }
+}
+
+function checkField(value: unknown, rule: FieldRule): string | null {
+  const typeError = checkType(value, rule);
+  if (typeError) return typeError;
+
+  const numbers = typeof value === 'number' ? [value] : rule.type === 'numbers' ? (value as number[]) : [];
+  for (const n of numbers) {
+    if (rule.min !== undefined && n < rule.min) return `must be at least ${rule.min}, got ${n}`;
+    if (rule.max !== undefined && n > rule.max) return `must be at most ${rule.max}, got ${n}`;
+  }
+
+  if (rule.oneOf && !rule.oneOf.includes(value as string)) {
+    return `must be one of ${rule.oneOf.join(', ')}, got ${JSON.stringify(value)}`;
+  }
+  return rule.check ? rule.check(value as never) : null;
+}
+
+/**
+ * Every problem with the config - empty when it is valid
+ */
+export function validateConfig(config: LockTripConfig, options: ValidateOptions = {}): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const issue = (path: string, message: string, hint?: string) =>
+    issues.push({ path, message, source: options.sources?.[path], hint });
+
+  for (const [path, rule] of Object.entries(SCHEMA)) {
+    // The guest lists only matter once a booking is made
+    if (!options.booking && (path === 'booking.guests' || path === 'booking.children')) {
+      continue;
+    }
+
+    const value = getPath(config, path);
+    if (value === undefined && rule.optional) {
+      continue;
+    }
+
+    const message = value === undefined ? 'is required' : checkField(value, rule);
+    if (message) {
+      issue(path, message, rule.hint);
+    }
+  }
+
+  if (!config.token && !config.auth?.email && !config.auth?.credentialsFile) {
+    issue(
+      'token',
+      'is required - or set auth.email (with LOCKTRIP_PASSWORD) or auth.credentialsFile to log in',
+      'Set BEARER_TOKEN - log in at https://locktrip.com, or set LOCKTRIP_EMAIL and LOCKTRIP_PASSWORD'
+    );
+  }
+
+  // Only meaningful once the search and guest fields are valid - the occupancy parses by now
+  const blocked = issues.some(i => i.path.startsWith('search.') || i.path === 'booking.guests' || i.path === 'booking.children');
+  if (!options.booking || blocked) {
+    return issues;
+  }
+
+  const occupancy = searchOccupancy(config.search);
+  if (config.booking.guests.length < occupancy.adults) {
+    issue(
+      'booking.guests',
+      `has ${config.booking.guests.length} guest(s) but ${occupancy.describe()} needs ${occupancy.adults} adult(s)`,
+      'The booking must name exactly as many adults as were searched - add guests or lower adults'
+    );
+  }
+  if (config.booking.children.length < occupancy.children) {
+    issue(
+      'booking.children',
+      `has ${config.booking.children.length} child(ren) but ${occupancy.describe()} needs ${occupancy.children}`,
+      'Add { firstName, lastName } per searched child - ages come from the occupancy'
+    );
+  }
+
+  return issues;
+}
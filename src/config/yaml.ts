@@ -0,0 +1,184 @@
+/**
+ * LockTrip Config - YAML Subset Reader
+ *
+ * Reads the part of YAML a config file needs, without a dependency:
+ *
+ * | Supported                           | Not supported                  |
+ * |-------------------------------------|--------------------------------|
+ * | key: value, nested by indentation   | Anchors, aliases, tags         |
+ * | - item sequences (scalars, maps)    | Flow mappings { a: 1 }         |
+ * | [a, b] flow sequences of scalars    | Multi-line strings (| and >)   |
+ * | "double" / 'single' quoted strings  | Multiple documents (---)       |
+ * | true/false, null/~, numbers         | Tabs for indentation           |
+ * | # comments                          |                                |
+ *
+ * Like YAML itself, +1234567890 reads as a number - quote phone numbers.
+ */
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;  // 1-based, for error messages
+}
+
+function lineError(line: Line, message: string): Error {
+  return new Error(`YAML line ${line.number}: ${message}`);
+}
+
+/**
+ * Drop a trailing # comment - a # inside quotes or glued to a word is kept
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function tokenize(source: string): Line[] {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const number = index + 1;
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '') return;
+    if (/^\s*\t/.test(text)) {
+      throw lineError({ indent: 0, text, number }, 'tabs are not allowed for indentation');
+    }
+    if (text.trim() === '---') return;
+    const indent = text.length - text.trimStart().length;
+    lines.push({ indent, text: text.trimStart(), number });
+  });
+  return lines;
+}
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+const MAPPING_LINE = /^("[^"]*"|'[^']*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/;
+
+function parseScalar(text: string, line: Line): unknown {
+  if (text.startsWith('"')) {
+    if (text.length < 2 || !text.endsWith('"')) throw lineError(line, 'unterminated "string"');
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw lineError(line, `invalid "string": ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) throw lineError(line, "unterminated 'string'");
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw lineError(line, 'unterminated [sequence]');
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : inner.split(',').map(part => parseScalar(part.trim(), line));
+  }
+  if (text === '{}') return {};
+  if (text.startsWith('{')) throw lineError(line, 'flow mappings { ... } are not supported - use one key per line');
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === 'null' || text === '~') return null;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function parseBlock(lines: Line[], start: number, indent: number): [unknown, number] {
+  return isSequenceItem(lines[start].text)
+    ? parseSequence(lines, start, indent)
+    : parseMapping(lines, start, indent);
+}
+
+function parseSequence(lines: Line[], start: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].text)) {
+    const line = lines[i];
+    const rest = line.text.slice(1).trimStart();
+
+    if (rest === '') {
+      i++;
+      if (i < lines.length && lines[i].indent > indent) {
+        const [value, next] = parseBlock(lines, i, lines[i].indent);
+        items.push(value);
+        i = next;
+      } else {
+        items.push(null);
+      }
+    } else if (MAPPING_LINE.test(rest)) {
+      // "- key: value" opens a mapping whose keys line up with "key"
+      const itemIndent = indent + (line.text.length - rest.length);
+      lines[i] = { ...line, indent: itemIndent, text: rest };
+      const [value, next] = parseMapping(lines, i, itemIndent);
+      items.push(value);
+      i = next;
+    } else {
+      items.push(parseScalar(rest, line));
+      i++;
+    }
+  }
+
+  if (i < lines.length && lines[i].indent > indent) {
+    throw lineError(lines[i], 'unexpected indentation');
+  }
+  return [items, i];
+}
+
+function parseMapping(lines: Line[], start: number, indent: number): [Record<string, unknown>, number] {
+  const map: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const line = lines[i];
+    const match = isSequenceItem(line.text) ? null : MAPPING_LINE.exec(line.text);
+    if (!match) {
+      throw lineError(line, `expected "key: value", got: ${line.text}`);
+    }
+
+    const key = /^["']/.test(match[1]) ? match[1].slice(1, -1) : match[1];
+    if (key in map) {
+      throw lineError(line, `duplicate key: ${key}`);
+    }
+    const rest = (match[2] ?? '').trim();
+    i++;
+
+    if (rest !== '') {
+      map[key] = parseScalar(rest, line);
+    } else if (i < lines.length && lines[i].indent > indent) {
+      [map[key], i] = parseBlock(lines, i, lines[i].indent);
+    } else if (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].text)) {
+      // A sequence may sit at the same indentation as its key
+      [map[key], i] = parseSequence(lines, i, indent);
+    } else {
+      map[key] = null;
+    }
+  }
+
+  if (i < lines.length && lines[i].indent > indent) {
+    throw lineError(lines[i], 'unexpected indentation');
+  }
+  return [map, i];
+}
+
+/**
+ * Parse a YAML document - an empty document is null
+ */
+export function parseYaml(source: string): unknown {
+  const lines = tokenize(source);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw lineError(lines[next], 'unexpected indentation');
+  }
+  return value;
+}
@@ -0,0 +1,39 @@
+/**
+ * Date helpers for the two APIs
+ *
+ * CRITICAL: GraphQL uses DD/MM/YYYY, MCP uses YYYY-MM-DD (ISO).
+ * Stay dates are calendar days, so local date components are used throughout.
+ */
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Format as DD/MM/YYYY for GraphQL
+ */
+export function toGraphQLDate(d: Date): string {
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()}`;
+}
+
+/**
+ * Format as YYYY-MM-DD for MCP
+ */
+export function toIsoDate(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Parse DD/MM/YYYY (GraphQL) or YYYY-MM-DD (MCP) into a local Date
+ */
+export function parseStayDate(value: string): Date {
+  let match = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  }
+
+  match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  throw new Error(`Invalid date format: "${value}" (expected DD/MM/YYYY or YYYY-MM-DD)`);
+}
@@ -0,0 +1,187 @@
+/**
+ * LockTrip API - Doctor
+ *
+ * Pre-flight diagnosis for "why did my run fail?" - each check names the
+ * likely cause and the remedy from the error tables in INTEGRATION.md and
+ * MCP_INTEGRATION.md, instead of leaving you to guess:
+ *
+ * | Check                   | Fails when                                     |
+ * |-------------------------|------------------------------------------------|
+ * | MCP health              | GET /mcp/health is down or not "ok"            |
+ * | MCP tools               | GET /mcp/tools lacks one of the 12 tools       |
+ * | Token                   | No token, expired, or login failed             |
+ * | GraphQL locationSearch  | Token rejected or GraphQL endpoint unreachable |
+ * | MCP search_location     | Token rejected or MCP tools unreachable        |
+ * | Account                 | getUserBookings rejects the account            |
+ * | B2B status              | isB2B is false ("User is not b2b user")        |
+ * | Credit line             | hasCL is false                                 |
+ *
+ * Nothing is booked. B2B status and credit line come from the token's claims
+ * or past bookings - when neither says, the check warns instead of passing.
+ *
+ * Usage:
+ *
+ *   const report = await runDoctor({ graphqlUrl, mcpUrl, auth }, check => console.log(check.name, check.status));
+ *   if (!report.ok) process.exitCode = 1;
+ */
+
+import { AuthProvider, decodeJwt, tokenExpiry } from './auth';
+import { NotB2BUserError, remedyFor } from './errors';
+import { DEFAULT_GRAPHQL_URL, LockTripGraphQLClient } from './graphql-client';
+import type { UserBooking } from './graphql-types';
+import { DEFAULT_MCP_BASE_URL, LockTripMcpClient, MCP_TOOL_NAMES, McpProtocol } from './mcp-client';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  hint?: string;
+  durationMs: number;
+}
+
+export interface DoctorReport {
+  checks: CheckResult[];
+  ok: boolean;  // No check failed - warnings are allowed
+}
+
+export interface DoctorOptions {
+  graphqlUrl?: string;  // Without /graphql (default: https://locktrip.com)
+  mcpUrl?: string;  // With /mcp (default: https://locktrip.com/mcp)
+  mcpProtocol?: McpProtocol;  // How search_location is called (default: rest)
+  auth: AuthProvider;
+
+  // Searched by the location checks (default: bali, indonesia)
+  destination?: string;
+
+  // Per request - checks fail fast instead of retrying (default: 15000)
+  timeoutMs?: number;
+}
+
+// Tokens expiring sooner than this get a warning - a booking run needs a few minutes
+const EXPIRY_WARNING_MS = 60 * 60 * 1000;
+
+type Outcome = Omit<CheckResult, 'name' | 'durationMs'>;
+
+const pass = (detail: string): Outcome => ({ status: 'pass', detail });
+const warn = (detail: string, hint?: string): Outcome => ({ status: 'warn', detail, hint });
+const fail = (detail: string, hint?: string): Outcome => ({ status: 'fail', detail, hint });
+
+function inHours(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+}
+
+/**
+ * Run every check in order - onCheck sees each result as soon as it is known
+ */
+export async function runDoctor(options: DoctorOptions, onCheck?: (result: CheckResult) => void): Promise<DoctorReport> {
+  const connection = { auth: options.auth, timeoutMs: options.timeoutMs ?? 15000, retry: false as const };
+  const graphql = new LockTripGraphQLClient({ ...connection, url: options.graphqlUrl || DEFAULT_GRAPHQL_URL });
+  const mcp = new LockTripMcpClient({ ...connection, baseUrl: options.mcpUrl || DEFAULT_MCP_BASE_URL, protocol: options.mcpProtocol });
+  const destination = options.destination || 'bali, indonesia';
+  const checks: CheckResult[] = [];
+
+  const check = async (name: string, run: () => Promise<Outcome>): Promise<CheckResult> => {
+    const started = Date.now();
+    let outcome: Outcome;
+    try {
+      outcome = await run();
+    } catch (error) {
+      outcome = fail((error as Error).message, remedyFor(error));
+    }
+    const result = { name, ...outcome, durationMs: Date.now() - started };
+    checks.push(result);
+    onCheck?.(result);
+    return result;
+  };
+
+  const skip = (name: string, detail: string) => check(name, async () => ({ status: 'skip', detail }));
+
+  // --- Public MCP endpoints - no token needed
+  await check('MCP health', async () => {
+    const health = await mcp.health();
+    return health.status === 'ok'
+      ? pass(`ok${health.server ? ` (${health.server})` : ''}`)
+      : warn(`status: ${JSON.stringify(health.status)}`, 'The MCP server reports a problem - GraphQL may still work');
+  });
+
+  await check('MCP tools', async () => {
+    const tools = await mcp.listTools();
+    const names = new Set(tools.map(t => t.name));
+    const missing = MCP_TOOL_NAMES.filter(name => !names.has(name));
+    const withSchema = tools.filter(t => t.inputSchema).length;
+    return missing.length === 0
+      ? pass(`all ${MCP_TOOL_NAMES.length} tools listed, ${withSchema} with an input schema`)
+      : fail(`missing: ${missing.join(', ')}`, 'The MCP server is outdated or misconfigured - use GraphQL meanwhile');
+  });
+
+  // --- Token
+  let claims: Record<string, unknown> | null = null;
+  const token = await check('Token', async () => {
+    const value = await options.auth.token();
+    claims = decodeJwt(value);
+    const expiresAt = tokenExpiry(value);
+    if (!expiresAt) {
+      return warn(`${options.auth.name} - not a JWT, expiry unknown`);
+    }
+    const left = expiresAt.getTime() - Date.now();
+    return left < EXPIRY_WARNING_MS
+      ? warn(`${options.auth.name} - expires in ${inHours(left)}`, 'Log in again before a booking run')
+      : pass(`${options.auth.name} - expires in ${inHours(left)}`);
+  });
+
+  if (token.status === 'fail') {
+    for (const name of ['GraphQL locationSearch', 'MCP search_location', 'Account', 'B2B status', 'Credit line']) {
+      await skip(name, 'no token');
+    }
+    return { checks, ok: false };
+  }
+
+  // --- Authenticated calls - cheap, nothing is booked
+  await check('GraphQL locationSearch', async () => {
+    const { locationData } = await graphql.locationSearch(destination);
+    return locationData.length > 0
+      ? pass(`${locationData.length} region(s) for "${destination}"`)
+      : warn(`no regions for "${destination}"`, 'Try a broader destination, e.g. "bali, indonesia"');
+  });
+
+  await check('MCP search_location', async () => {
+    const { locations } = await mcp.searchLocation({ query: destination });
+    return locations.length > 0
+      ? pass(`${locations.length} region(s) for "${destination}"`)
+      : warn(`no regions for "${destination}"`, 'Try a broader destination, e.g. "bali, indonesia"');
+  });
+
+  let bookings: UserBooking[] = [];
+  const account = await check('Account', async () => {
+    bookings = (await graphql.getUserBookings({ type: 'UPCOMING' })).bookings;
+    return pass(`token accepted - ${bookings.length} upcoming booking(s)`);
+  });
+
+  // --- B2B status and credit line: token claims first, then past bookings
+  // (assigned inside a callback, so TypeScript still narrows it to null)
+  const found = claims as Record<string, unknown> | null;
+  await check('B2B status', async () => {
+    if (typeof found?.isB2B === 'boolean') {
+      return found.isB2B ? pass('isB2B: true (token)') : fail('isB2B: false (token)', remedyFor(new NotB2BUserError('')));
+    }
+    if (account.status === 'pass' && bookings.length > 0) {
+      const b2b = bookings.filter(b => b.isB2B).length;
+      return b2b > 0
+        ? pass(`${b2b} of ${bookings.length} upcoming booking(s) are B2B`)
+        : warn('no upcoming B2B bookings', 'If confirm fails with "User is not b2b user", contact LockTrip for a B2B upgrade');
+    }
+    return warn('unknown - not in the token and no bookings to check', 'confirm fails with "User is not b2b user" if the account is not B2B');
+  });
+
+  await check('Credit line', async () => {
+    if (typeof found?.hasCL === 'boolean') {
+      return found.hasCL ? pass('hasCL: true (token)') : fail('hasCL: false (token)', 'Ask LockTrip to enable a credit line - B2B confirm pays from it');
+    }
+    return warn('unknown - not in the token', 'confirm fails if the account has no credit line (hasCL)');
+  });
+
+  return { checks, ok: checks.every(c => c.status !== 'fail') };
+}
@@ -0,0 +1,262 @@
+/**
+ * LockTrip API - Typed Errors
+ *
+ * Maps the error tables in INTEGRATION.md and MCP_INTEGRATION.md onto
+ * classes, so callers can tell "Session expired" from "Guest count mismatch"
+ * from a network timeout with instanceof instead of string matching.
+ *
+ * | Error                  | Class                  | Retryable | Remedy                          |
+ * |------------------------|------------------------|-----------|---------------------------------|
+ * | Session expired        | SessionExpiredError    | No        | Restart from hotelSearch        |
+ * | Guest count mismatch   | GuestCountMismatchError| No        | Match searched adults exactly   |
+ * | User is not b2b user   | NotB2BUserError        | No        | Contact LockTrip for B2B        |
+ * | Invalid date format    | InvalidDateFormatError | No        | DD/MM/YYYY (GQL) / ISO (MCP)    |
+ * | 401 / token expired    | AuthenticationError    | No        | Log in again (see ./auth)       |
+ * | Invalid packageId      | InvalidPackageIdError  | No        | quoteId.split('_')[0]           |
+ * | Network / 5xx / timeout| TransportError         | Yes       | Retry with backoff              |
+ * | HTTP 429               | RateLimitedError       | Yes       | Retry after the given delay     |
+ * | JSON-RPC error object  | JsonRpcError           | No        | See code, e.g. -32601 method    |
+ * | Input breaks schema    | ToolInputError         | No        | Fix the listed arguments        |
+ */
+
+import axios from 'axios';
+import type { ManifestViolation } from './guest-manifest';
+import type { SchemaViolation } from './mcp-schema';
+import type { JsonRpcErrorObject } from './mcp-types';
+
+export type TransportName = 'graphql' | 'mcp';
+
+export interface ErrorContext {
+  transport?: TransportName;
+  operation?: string;  // GraphQL root field or MCP tool name
+  status?: number;     // HTTP status, when there was a response
+  cause?: unknown;
+}
+
+// =============================================================================
+// CLASSES
+// =============================================================================
+export class LockTripError extends Error {
+  readonly transport?: TransportName;
+  readonly operation?: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.transport = context.transport;
+    this.operation = context.operation;
+    this.status = context.status;
+    this.cause = context.cause;
+  }
+
+  /**
+   * Whether the same request may succeed if sent again unchanged
+   */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class SessionExpiredError extends LockTripError {}
+
+export class GuestCountMismatchError extends LockTripError {}
+
+export class NotB2BUserError extends LockTripError {}
+
+export class InvalidDateFormatError extends LockTripError {}
+
+export class InvalidPackageIdError extends LockTripError {}
+
+export class AuthenticationError extends LockTripError {}
+
+export class TransportError extends LockTripError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class RateLimitedError extends LockTripError {
+  constructor(message: string, context: ErrorContext = {}, readonly retryAfterMs?: number) {
+    super(message, context);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Error object from /mcp/rpc whose message names no known API error -
+ * code is the JSON-RPC error code, e.g. -32602 for invalid params
+ */
+export class JsonRpcError extends LockTripError {
+  constructor(message: string, context: ErrorContext, readonly code: number, readonly data?: unknown) {
+    super(message, context);
+  }
+}
+
+/**
+ * Raised client-side when a previously chosen package cannot be found again
+ * after a new search (sold out, or the room/meal/refundability changed)
+ */
+export class PackageUnavailableError extends LockTripError {}
+
+/**
+ * Raised client-side when the caller declines a changed price
+ */
+export class PriceChangeRejectedError extends LockTripError {}
+
+/**
+ * Raised client-side when the guest manifest fails pre-flight validation -
+ * the message lists every violation, not just the first
+ */
+export class GuestManifestError extends LockTripError {
+  constructor(readonly violations: ManifestViolation[]) {
+    super(`Invalid guest manifest:\n${violations.map(v => `  ✗ ${v.path}: ${v.message}`).join('\n')}`);
+  }
+}
+
+/**
+ * Raised client-side when tool arguments break the tool's inputSchema from
+ * GET /mcp/tools - nothing was sent; the message lists every violation
+ */
+export class ToolInputError extends LockTripError {
+  constructor(readonly violations: SchemaViolation[], context: ErrorContext = {}) {
+    super(`Invalid ${context.operation ?? 'tool'} input:\n${violations.map(v => `  ✗ ${v.path}: ${v.message}`).join('\n')}`, context);
+  }
+}
+
+// =============================================================================
+// REMEDIES
+// =============================================================================
+const REMEDIES: Array<[new (...args: any[]) => LockTripError, string]> = [
+  [SessionExpiredError, 'Restart from hotelSearch - search sessions last ~30 min'],
+  [GuestCountMismatchError, 'Name exactly the adults that were searched, room by room'],
+  [NotB2BUserError, 'Contact LockTrip for a B2B account upgrade (isB2B and hasCL)'],
+  [InvalidDateFormatError, 'Use DD/MM/YYYY for GraphQL and YYYY-MM-DD for MCP'],
+  [InvalidPackageIdError, "Pass the packageId - quoteId.split('_')[0] - not the full quoteId"],
+  [AuthenticationError, 'Log in again (POST https://users.locktrip.com/api/auth/login) or set LOCKTRIP_EMAIL + LOCKTRIP_PASSWORD'],
+  [RateLimitedError, 'Wait and retry - honour Retry-After'],
+  [ToolInputError, "Fix the listed arguments - each tool's inputSchema is in GET /mcp/tools"],
+  [TransportError, 'Check the URL and network; on 5xx the server is having trouble - retry later'],
+];
+
+/**
+ * What to do about an error - the Remedy column of the table above
+ */
+export function remedyFor(error: unknown): string | undefined {
+  return REMEDIES.find(([type]) => error instanceof type)?.[1];
+}
+
+// =============================================================================
+// CLASSIFICATION
+// =============================================================================
+const MESSAGE_PATTERNS: Array<[RegExp, new (message: string, context: ErrorContext) => LockTripError]> = [
+  [/session expired/i, SessionExpiredError],
+  [/guest count mismatch/i, GuestCountMismatchError],
+  [/not b2b user/i, NotB2BUserError],
+  [/invalid date format/i, InvalidDateFormatError],
+  [/invalid packageid/i, InvalidPackageIdError],
+  [/unauthori[sz]ed|jwt expired|invalid token/i, AuthenticationError],
+];
+
+/**
+ * Map an API error message onto the matching class (LockTripError if unknown)
+ */
+export function classifyApiError(message: string, context: ErrorContext = {}): LockTripError {
+  for (const [pattern, ErrorClass] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) {
+      return new ErrorClass(message, context);
+    }
+  }
+  return new LockTripError(message, context);
+}
+
+/**
+ * Convert a JSON-RPC error object into a typed error - known API messages map
+ * as in classifyApiError, anything else becomes a JsonRpcError with its code
+ */
+export function fromRpcError(error: JsonRpcErrorObject, context: ErrorContext = {}): LockTripError {
+  const where = context.operation ? ` [${context.operation}]` : '';
+  const message = `JSON-RPC error ${error.code}${where}: ${error.message}`;
+  const known = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(error.message));
+  return known ? new known[1](message, context) : new JsonRpcError(message, context, error.code, error.data);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function retryAfterMs(header: unknown): number | undefined {
+  if (typeof header !== 'string' || !header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Pull a human-readable message out of an error response body
+ */
+function bodyMessage(data: unknown): string | undefined {
+  if (typeof data === 'string') {
+    return data || undefined;
+  }
+  if (data && typeof data === 'object') {
+    const body = data as Record<string, any>;
+    if (typeof body.error === 'string') return body.error;
+    if (typeof body.message === 'string') return body.message;
+    if (typeof body.error?.message === 'string') return body.error.message;
+    if (typeof body.errors?.[0]?.message === 'string') return body.errors[0].message;
+    return JSON.stringify(data);
+  }
+  return undefined;
+}
+
+/**
+ * Convert anything thrown by axios into a typed error
+ *
+ * No response or 5xx → TransportError, 429 → RateLimitedError,
+ * 401 → AuthenticationError, other 4xx → classified from the response body.
+ */
+export function fromHttpError(error: unknown, context: ErrorContext = {}): LockTripError {
+  if (error instanceof LockTripError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new LockTripError((error as Error)?.message || String(error), { ...context, cause: error });
+  }
+
+  const status = error.response?.status;
+  const where = context.operation ? ` [${context.operation}]` : '';
+
+  if (!error.response) {
+    return new TransportError(`Network error${where}: ${error.code || error.message}`, { ...context, cause: error });
+  }
+
+  if (status === 429) {
+    return new RateLimitedError(
+      `Rate limited${where}`,
+      { ...context, status, cause: error },
+      retryAfterMs(error.response.headers?.['retry-after'])
+    );
+  }
+
+  const message = bodyMessage(error.response.data) || error.message;
+
+  if (status !== undefined && status >= 500) {
+    return new TransportError(`Server error ${status}${where}: ${message}`, { ...context, status, cause: error });
+  }
+
+  if (status === 401) {
+    return new AuthenticationError(`Unauthorized${where}: ${message}`, { ...context, status, cause: error });
+  }
+
+  return classifyApiError(`API error ${status}${where}: ${message}`, { ...context, status, cause: error });
+}
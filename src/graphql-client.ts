@@ -0,0 +1,538 @@
+/**
+ * LockTrip GraphQL API - Typed Client
+ *
+ * One typed method per documented operation. Query documents live here so
+ * backends and the e2e script share a single copy instead of pasting strings.
+ *
+ * Each method sends and reads the types generated from its document in
+ * ./graphql-operation-types, so a document that drifts from the schema
+ * snapshot or from ./graphql-types stops compiling (see graphql-schema.ts).
+ *
+ * Usage:
+ *
+ *   const client = new LockTripGraphQLClient({ token: process.env.BEARER_TOKEN });
+ *   const client = new LockTripGraphQLClient({ auth: createAuthProvider({ email, password }) });
+ *   const { locationData } = await client.locationSearch('bali, indonesia');
+ */
+
+import axios from 'axios';
+import { AuthProvider, withAuth } from './auth';
+import { classifyApiError, fromHttpError } from './errors';
+import { failedOutcome, traceRequest, TransportHooks } from './logger';
+import type {
+  CancelBookingRequestMutation,
+  CancelBookingRequestMutationVariables,
+  ConfirmB2bBookingMutation,
+  ConfirmB2bBookingMutationVariables,
+  GetBookingDetailsQuery,
+  GetBookingDetailsQueryVariables,
+  GetHotelRoomsQuery,
+  GetHotelRoomsQueryVariables,
+  GetUserBookingsQuery,
+  GetUserBookingsQueryVariables,
+  HotelBookingPrepareMutation,
+  HotelBookingPrepareMutationVariables,
+  HotelCancellationPoliciesQuery,
+  HotelCancellationPoliciesQueryVariables,
+  HotelSearchMutation,
+  HotelSearchMutationVariables,
+  HotelSearchResultsQuery,
+  HotelSearchResultsQueryVariables,
+  LocationSearchQuery,
+  LocationSearchQueryVariables,
+} from './graphql-operation-types';
+import type {
+  BookingConfirmInput,
+  BookingCreateInput,
+  BookingListingInput,
+  CancelBookingInput,
+  CancelBookingRequestResponse,
+  ConfirmB2bBookingResponse,
+  GetBookingDetailsResponse,
+  GetHotelRoomsResponse,
+  GetRoomsInput,
+  GetUserBookingsResponse,
+  HotelBookingPrepareResponse,
+  HotelCancellationPoliciesInput,
+  HotelCancellationPolicy,
+  HotelSearchResponse,
+  HotelSearchResultsResponse,
+  LocationSearchResponse,
+  SearchHotelsInput,
+  SearchResultsInput,
+} from './graphql-types';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+
+// =============================================================================
+// CONNECTION
+// =============================================================================
+// logger, onRequest and onResponse see every request (see ./logger)
+export interface GraphQLClientOptions extends TransportHooks {
+  // Base URL without the /graphql suffix (default: https://locktrip.com)
+  url?: string;
+
+  // Bearer token, with or without the "Bearer " prefix
+  token?: string;
+
+  // Token source with expiry handling and re-login on 401 - wins over token
+  auth?: AuthProvider;
+
+  // Request timeout - confirm can take a long time (default: 120000)
+  timeoutMs?: number;
+
+  // Retry policy for retry-safe operations - false disables retries
+  retry?: Partial<RetryPolicy> | false;
+}
+
+export const DEFAULT_GRAPHQL_URL = 'https://locktrip.com';
+
+/**
+ * Root fields that are safe to resend after a transient failure.
+ * Prepare, confirm and cancel are mutations with side effects - never retried.
+ */
+export const RETRY_SAFE_OPERATIONS: ReadonlySet<string> = new Set([
+  'locationSearch',
+  'hotelSearch',
+  'hotelSearchResults',
+  'getHotelRooms',
+  'hotelCancellationPolicies',
+  'getUserBookings',
+  'getBookingDetails',
+  '__schema',
+]);
+
+/**
+ * Root field of a query document, e.g. "locationSearch"
+ */
+export function rootFieldOf(query: string): string | undefined {
+  return /\{\s*(\w+)/.exec(query)?.[1];
+}
+
+/**
+ * Execute GraphQL query/mutation
+ *
+ * Throws a typed LockTripError (see ./errors). Transient failures are retried
+ * only for operations in RETRY_SAFE_OPERATIONS; a 401 is retried once with a
+ * new token when options.auth can provide one. Each attempt is traced
+ * through options.logger and the request hooks.
+ */
+export async function graphql<T>(
+  options: GraphQLClientOptions,
+  query: string,
+  variables: object = {}
+): Promise<T> {
+  const operation = rootFieldOf(query);
+  const context = { transport: 'graphql' as const, operation };
+
+  const send = async (authorization: string | undefined): Promise<T> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (authorization) {
+      headers['Authorization'] = authorization;
+    }
+
+    const url = `${options.url || DEFAULT_GRAPHQL_URL}/graphql`;
+    const done = traceRequest(options, { transport: 'graphql', operation: operation ?? 'graphql', url, body: variables });
+
+    let response;
+    try {
+      response = await axios.post(url, { query, variables }, { headers, timeout: options.timeoutMs ?? 120000 });
+    } catch (error) {
+      const failure = fromHttpError(error, context);
+      done(failedOutcome(error, failure));
+      throw failure;
+    }
+
+    if (response.data.errors) {
+      const message = response.data.errors[0]?.message || 'Unknown error';
+      const failure = classifyApiError(`GraphQL error: ${message}`, context);
+      done({ status: response.status, response: response.data, error: failure });
+      throw failure;
+    }
+
+    done({ status: response.status, response: response.data });
+    return response.data.data;
+  };
+
+  return withAuth(options, authorization => withRetry(
+    () => send(authorization),
+    resolveRetryPolicy(options.retry),
+    operation !== undefined && RETRY_SAFE_OPERATIONS.has(operation)
+  ));
+}
+
+// =============================================================================
+// OPERATIONS
+// =============================================================================
+export const LOCATION_SEARCH_QUERY = `
+  query LocationSearch($query: String!) {
+    locationSearch(query: $query) {
+      locationData
+    }
+  }
+`;
+
+export const HOTEL_SEARCH_MUTATION = `
+  mutation HotelSearch($searchHotelsInput: searchHotelsInput!, $isAsyncSearch: Boolean) {
+    hotelSearch(searchHotelsInput: $searchHotelsInput, isAsyncSearch: $isAsyncSearch) {
+      searchKey
+      sessionId
+    }
+  }
+`;
+
+export const HOTEL_SEARCH_RESULTS_QUERY = `
+  query HotelSearchResults($input: SearchResultsInput!) {
+    hotelSearchResults(input: $input) {
+      results {
+        externalId
+        name
+        star
+        address
+        latitude
+        longitude
+        price
+        lastBestPrice
+        discountScore
+        distance
+        boardType
+        payment
+        quality
+        reviewsScore
+        hasFreeCancellationOption
+        refundability
+        refundableUntil
+        availableBoards
+        reviews { scoreSummary reviewsCount }
+        hotelPhoto { url }
+        features
+      }
+      totalResults
+      page
+      size
+      hasNextPage
+      isResultCompleted
+      isSearchFinished
+    }
+  }
+`;
+
+export const GET_HOTEL_ROOMS_QUERY = `
+  query GetHotelRooms($input: GetRoomsInput) {
+    getHotelRooms(input: $input) {
+      searchKey
+      hotelRoomsResponse {
+        quoteId
+        refundable
+        finalPrice
+        mealType
+        roomType
+        originalName
+        payment
+        roomCount
+        roomContent {
+          amenities
+          images
+          descriptions
+        }
+      }
+    }
+  }
+`;
+
+export const HOTEL_CANCELLATION_POLICIES_QUERY = `
+  query HotelCancellationPolicies(
+    $searchKey: String!
+    $hotelId: String!
+    $packageIds: [String!]!
+  ) {
+    hotelCancellationPolicies(
+      searchKey: $searchKey
+      hotelId: $hotelId
+      packageIds: $packageIds
+    ) {
+      packageId
+      fallbackPolicy
+      cancellations {
+        nonRefundable
+        boardType
+        roomType
+        originalName
+        canxFees {
+          amount { amt }
+          from
+        }
+      }
+    }
+  }
+`;
+
+export const HOTEL_BOOKING_PREPARE_MUTATION = `
+  mutation HotelBookingPrepare($bookingCreateInput: BookingCreateInput!) {
+    hotelBookingPrepare(bookingCreateInput: $bookingCreateInput) {
+      preparedBookingId
+      fiatPrice
+      currency
+      isUpfrontPaid
+      essentialInformation
+      payment
+      discount {
+        amount
+        currency
+      }
+      taxes {
+        feeTitle
+        value
+        currency
+        isIncludedInPrice
+      }
+    }
+  }
+`;
+
+export const CONFIRM_B2B_BOOKING_MUTATION = `
+  mutation ConfirmB2bBooking($bookingConfirmInput: BookingConfirmInput!) {
+    confirmB2bBooking(bookingConfirmInput: $bookingConfirmInput) {
+      accepted
+      message
+    }
+  }
+`;
+
+export const CANCEL_BOOKING_REQUEST_MUTATION = `
+  mutation CancelBookingRequest($cancelBookingInput: CancelBookingInput!) {
+    cancelBookingRequest(cancelBookingInput: $cancelBookingInput) {
+      isCancellationRequested
+    }
+  }
+`;
+
+export const GET_USER_BOOKINGS_QUERY = `
+  query GetUserBookings($input: BookingListingInput!) {
+    getUserBookings(input: $input) {
+      bookings {
+        id
+        booking_id
+        hotel_name
+        hotel_id
+        arrival_date
+        nights
+        status
+        rooms_count
+        created_on
+        has_details
+        isB2B
+        hotel_photo
+      }
+    }
+  }
+`;
+
+export const GET_BOOKING_DETAILS_QUERY = `
+  query GetBookingDetails($bookingId: String!) {
+    getBookingDetails(bookingId: $bookingId) {
+      success
+      data {
+        bookingId
+        bookingReferenceId
+        providerReference
+        status
+        hotel {
+          id
+          name
+          address
+          city
+          country
+          phone
+          email
+          starRating
+        }
+        checkIn
+        checkOut
+        rooms {
+          roomName
+          mealType
+          guests {
+            firstName
+            lastName
+          }
+          price
+        }
+        contactPerson {
+          firstName
+          lastName
+          email
+          phone
+        }
+        totalPrice
+        currency
+        paymentStatus
+        cancellationPolicy {
+          isRefundable
+          freeCancellationUntil
+          fees {
+            fromDate
+            amount
+            currency
+          }
+        }
+        specialRequests
+        createdAt
+        confirmedAt
+      }
+    }
+  }
+`;
+
+/**
+ * Every document above - validated and typed by graphql-schema.ts
+ */
+export const GRAPHQL_OPERATIONS: readonly string[] = [
+  LOCATION_SEARCH_QUERY,
+  HOTEL_SEARCH_MUTATION,
+  HOTEL_SEARCH_RESULTS_QUERY,
+  GET_HOTEL_ROOMS_QUERY,
+  HOTEL_CANCELLATION_POLICIES_QUERY,
+  HOTEL_BOOKING_PREPARE_MUTATION,
+  CONFIRM_B2B_BOOKING_MUTATION,
+  CANCEL_BOOKING_REQUEST_MUTATION,
+  GET_USER_BOOKINGS_QUERY,
+  GET_BOOKING_DETAILS_QUERY,
+];
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+export class LockTripGraphQLClient {
+  constructor(private readonly options: GraphQLClientOptions = {}) {}
+
+  get url(): string {
+    return `${this.options.url || DEFAULT_GRAPHQL_URL}/graphql`;
+  }
+
+  /**
+   * Find the regionId for a destination - never hardcode regionId
+   */
+  async locationSearch(query: string): Promise<LocationSearchResponse> {
+    const variables: LocationSearchQueryVariables = { query };
+    const result = await graphql<LocationSearchQuery>(
+      this.options,
+      LOCATION_SEARCH_QUERY,
+      variables
+    );
+    return result.locationSearch;
+  }
+
+  /**
+   * Start an async search - returns immediately with a searchKey
+   */
+  async hotelSearch(searchHotelsInput: SearchHotelsInput, isAsyncSearch = true): Promise<HotelSearchResponse> {
+    const variables: HotelSearchMutationVariables = { searchHotelsInput, isAsyncSearch };
+    const result = await graphql<HotelSearchMutation>(
+      this.options,
+      HOTEL_SEARCH_MUTATION,
+      variables
+    );
+    return result.hotelSearch;
+  }
+
+  /**
+   * Fetch one page of results - poll until isResultCompleted=true
+   */
+  async hotelSearchResults(input: SearchResultsInput): Promise<HotelSearchResultsResponse> {
+    const variables: HotelSearchResultsQueryVariables = { input };
+    const result = await graphql<HotelSearchResultsQuery>(
+      this.options,
+      HOTEL_SEARCH_RESULTS_QUERY,
+      variables
+    );
+    return result.hotelSearchResults;
+  }
+
+  /**
+   * Get room packages (quoteIds) for a hotel
+   */
+  async getHotelRooms(input: GetRoomsInput): Promise<GetHotelRoomsResponse> {
+    const variables: GetHotelRoomsQueryVariables = { input };
+    const result = await graphql<GetHotelRoomsQuery>(
+      this.options,
+      GET_HOTEL_ROOMS_QUERY,
+      variables
+    );
+    return result.getHotelRooms;
+  }
+
+  /**
+   * Get cancellation terms - packageIds are quoteId.split('_')[0]
+   */
+  async hotelCancellationPolicies(input: HotelCancellationPoliciesInput): Promise<HotelCancellationPolicy[]> {
+    const variables: HotelCancellationPoliciesQueryVariables = { ...input };
+    const result = await graphql<HotelCancellationPoliciesQuery>(
+      this.options,
+      HOTEL_CANCELLATION_POLICIES_QUERY,
+      variables
+    );
+    return result.hotelCancellationPolicies;
+  }
+
+  /**
+   * Create a booking with guest details - does NOT charge
+   */
+  async hotelBookingPrepare(bookingCreateInput: BookingCreateInput): Promise<HotelBookingPrepareResponse> {
+    const variables: HotelBookingPrepareMutationVariables = { bookingCreateInput };
+    const result = await graphql<HotelBookingPrepareMutation>(
+      this.options,
+      HOTEL_BOOKING_PREPARE_MUTATION,
+      variables
+    );
+    return result.hotelBookingPrepare;
+  }
+
+  /**
+   * Confirm a prepared booking - CHARGES CREDIT LINE
+   */
+  async confirmB2bBooking(bookingConfirmInput: BookingConfirmInput): Promise<ConfirmB2bBookingResponse> {
+    const variables: ConfirmB2bBookingMutationVariables = { bookingConfirmInput };
+    const result = await graphql<ConfirmB2bBookingMutation>(
+      this.options,
+      CONFIRM_B2B_BOOKING_MUTATION,
+      variables
+    );
+    return result.confirmB2bBooking;
+  }
+
+  /**
+   * Cancel a booking - confirmed=false is a dry-run
+   */
+  async cancelBookingRequest(cancelBookingInput: CancelBookingInput): Promise<CancelBookingRequestResponse> {
+    const variables: CancelBookingRequestMutationVariables = { cancelBookingInput };
+    const result = await graphql<CancelBookingRequestMutation>(
+      this.options,
+      CANCEL_BOOKING_REQUEST_MUTATION,
+      variables
+    );
+    return result.cancelBookingRequest;
+  }
+
+  async getUserBookings(input: BookingListingInput): Promise<GetUserBookingsResponse> {
+    const variables: GetUserBookingsQueryVariables = { input };
+    const result = await graphql<GetUserBookingsQuery>(
+      this.options,
+      GET_USER_BOOKINGS_QUERY,
+      variables
+    );
+    return result.getUserBookings;
+  }
+
+  async getBookingDetails(bookingId: string): Promise<GetBookingDetailsResponse> {
+    const variables: GetBookingDetailsQueryVariables = { bookingId };
+    const result = await graphql<GetBookingDetailsQuery>(
+      this.options,
+      GET_BOOKING_DETAILS_QUERY,
+      variables
+    );
+    return result.getBookingDetails;
+  }
+}
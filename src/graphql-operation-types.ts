@@ -0,0 +1,327 @@
+/**
+ * LockTrip GraphQL API - Generated Operation Types
+ *
+ * GENERATED by graphql-schema.ts generate from src/graphql-schema.graphql - do not edit.
+ *
+ * The client methods in ./graphql-client send {Name}{Kind}Variables and
+ * read {Name}{Kind}, so when a query document or the schema changes in a way
+ * the hand-written ./graphql-types do not match, they stop compiling.
+ * Regenerate after changing a document or pulling a new snapshot:
+ *
+ *   npx tsx graphql-schema.ts generate
+ */
+
+// query LocationSearch
+export interface LocationSearchQueryVariables {
+  query: string;
+}
+
+export interface LocationSearchQuery {
+  locationSearch: {
+    locationData: any;  // Regions/cities carry externalId + hotelCount, properties carry displayName + score
+  };
+}
+
+// mutation HotelSearch
+export interface HotelSearchMutationVariables {
+  searchHotelsInput: {
+    regionId?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    radiusInMeters?: number | null;
+    startDate: string;  // DD/MM/YYYY
+    endDate: string;  // DD/MM/YYYY
+    currency: string;
+    rooms: Array<{
+      adults: number;
+      children: number[];  // Child ages
+    }>;
+    uuid: string;
+    nat?: string | null;
+  };
+  isAsyncSearch?: boolean | null;
+}
+
+export interface HotelSearchMutation {
+  hotelSearch: {
+    searchKey: string;
+    sessionId: string;
+  };
+}
+
+// query HotelSearchResults
+export interface HotelSearchResultsQueryVariables {
+  input: {
+    searchKey: string;
+    page: number;  // 1-based
+    size: number;
+    filters?: any | null;
+    sortParams?: string[] | null;
+    singleHotelId?: number | null;
+  };
+}
+
+export interface HotelSearchResultsQuery {
+  hotelSearchResults: {
+    results: Array<{
+      externalId: number;
+      name: string;
+      star: number;
+      address: string;
+      latitude: number;
+      longitude: number;
+      price: number;
+      lastBestPrice: number | null;  // Price before the current discount - null when the hotel has no price history
+      discountScore: number;
+      distance: number;
+      boardType: string | null;
+      payment: string;
+      quality: number;
+      reviewsScore: number;
+      hasFreeCancellationOption: boolean;
+      refundability: boolean;
+      refundableUntil: string | null;
+      availableBoards: string[];
+      reviews: {
+        scoreSummary: number | null;
+        reviewsCount: number | null;
+      };
+      hotelPhoto: {
+        url: string;
+      } | null;
+      features: string[];
+    }>;
+    totalResults: number;
+    page: number;
+    size: number;
+    hasNextPage: boolean;
+    isResultCompleted: boolean;
+    isSearchFinished: boolean;
+  };
+}
+
+// query GetHotelRooms
+export interface GetHotelRoomsQueryVariables {
+  input?: {
+    searchKey: string;
+    hotelId: number;  // MUST be a number
+    startDate: string;  // DD/MM/YYYY
+    endDate: string;  // DD/MM/YYYY
+    regionId: string;
+    rooms: Array<{
+      adults: number;
+      children: number[];  // Child ages
+    }>;
+    currency: string;
+    nat?: string | null;
+  } | null;
+}
+
+export interface GetHotelRoomsQuery {
+  getHotelRooms: {
+    searchKey: string;  // May be updated - always use the returned value
+    hotelRoomsResponse: Array<{
+      quoteId: string;  // {packageId}_{hotelId}
+      refundable: boolean;
+      finalPrice: number;
+      mealType: string;
+      roomType: string;
+      originalName: string;
+      payment: string;
+      roomCount: number;
+      roomContent: {
+        amenities: string[];
+        images: string[];
+        descriptions: string[];
+      } | null;
+    }>;
+  };
+}
+
+// query HotelCancellationPolicies
+export interface HotelCancellationPoliciesQueryVariables {
+  searchKey: string;
+  hotelId: string;
+  packageIds: string[];
+}
+
+export interface HotelCancellationPoliciesQuery {
+  hotelCancellationPolicies: Array<{
+    packageId: string;
+    fallbackPolicy: string | null;
+    cancellations: Array<{
+      nonRefundable: boolean;
+      boardType: string | null;
+      roomType: string | null;
+      originalName: string | null;
+      canxFees: Array<{
+        amount: {
+          amt: number;
+        };
+        from: number;  // Unix timestamp in milliseconds
+      }>;
+    }>;
+  }>;
+}
+
+// mutation HotelBookingPrepare
+export interface HotelBookingPrepareMutationVariables {
+  bookingCreateInput: {
+    quoteId: string;
+    rooms: Array<{
+      adults: Array<{
+        title: string;  // Mr, Mrs or Ms
+        firstName: string;
+        lastName: string;
+      }>;
+      children: Array<{
+        firstName: string;
+        lastName: string;
+        age: number;
+      }>;
+    }>;
+    contactPerson: {
+      title: string;  // Mr, Mrs or Ms
+      firstName: string;
+      lastName: string;
+      email: string;
+      phone: string;
+    };
+  };
+}
+
+export interface HotelBookingPrepareMutation {
+  hotelBookingPrepare: {
+    preparedBookingId: string;
+    fiatPrice: number;
+    currency: string;
+    isUpfrontPaid: boolean;
+    essentialInformation: string[];
+    payment: string;
+    discount: {
+      amount: number;
+      currency: string;
+    } | null;
+    taxes: Array<{
+      feeTitle: string;
+      value: string;
+      currency: string;
+      isIncludedInPrice: boolean;
+    }>;
+  };
+}
+
+// mutation ConfirmB2bBooking
+export interface ConfirmB2bBookingMutationVariables {
+  bookingConfirmInput: {
+    bookingInternalId: string;  // preparedBookingId from hotelBookingPrepare
+    quoteId: string;
+    paymentMethod: 'CREDIT_LINE' | 'STRIPE' | 'REVOLUT';
+  };
+}
+
+export interface ConfirmB2bBookingMutation {
+  confirmB2bBooking: {
+    accepted: boolean;
+    message: string | null;
+  };
+}
+
+// mutation CancelBookingRequest
+export interface CancelBookingRequestMutationVariables {
+  cancelBookingInput: {
+    bookingId: string;
+    confirmed: boolean;  // false is a dry-run
+  };
+}
+
+export interface CancelBookingRequestMutation {
+  cancelBookingRequest: {
+    isCancellationRequested: boolean;
+  };
+}
+
+// query GetUserBookings
+export interface GetUserBookingsQueryVariables {
+  input: {
+    type: 'UPCOMING' | 'COMPLETED' | 'CANCELLED' | 'PENDING';
+  };
+}
+
+export interface GetUserBookingsQuery {
+  getUserBookings: {
+    bookings: Array<{
+      id: string;
+      booking_id: string;
+      hotel_name: string;
+      hotel_id: string;
+      arrival_date: string;
+      nights: number;
+      status: string;
+      rooms_count: number;
+      created_on: string;
+      has_details: boolean;
+      isB2B: boolean;
+      hotel_photo: string | null;
+    }>;
+  };
+}
+
+// query GetBookingDetails
+export interface GetBookingDetailsQueryVariables {
+  bookingId: string;
+}
+
+export interface GetBookingDetailsQuery {
+  getBookingDetails: {
+    success: boolean;
+    data: {
+      bookingId: string;
+      bookingReferenceId: string;
+      providerReference: string | null;
+      status: string;
+      hotel: {
+        id: string;
+        name: string;
+        address: string;
+        city: string;
+        country: string;
+        phone: string | null;
+        email: string | null;
+        starRating: number;
+      };
+      checkIn: string;
+      checkOut: string;
+      rooms: Array<{
+        roomName: string;
+        mealType: string;
+        guests: Array<{
+          firstName: string;
+          lastName: string;
+        }>;
+        price: number;
+      }>;
+      contactPerson: {
+        firstName: string;
+        lastName: string;
+        email: string;
+        phone: string;
+      };
+      totalPrice: number;
+      currency: string;
+      paymentStatus: string;
+      cancellationPolicy: {
+        isRefundable: boolean;
+        freeCancellationUntil: string | null;
+        fees: Array<{
+          fromDate: string;
+          amount: number;
+          currency: string;
+        }>;
+      } | null;
+      specialRequests: string | null;
+      createdAt: string;
+      confirmedAt: string | null;
+    } | null;
+  };
+}
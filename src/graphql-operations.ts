@@ -0,0 +1,452 @@
+/**
+ * LockTrip GraphQL API - Operation Validation and Codegen
+ *
+ * Checks the query documents in ./graphql-client against a schema (see
+ * ./graphql-schema) the way the server would, and generates typed
+ * variables and results for each one:
+ *
+ * | Check                  | Example                                         |
+ * |------------------------|-------------------------------------------------|
+ * | Fields exist           | hotelSearchResults { results { lastBestPrice } }|
+ * | Arguments              | Unknown, missing required, wrong literal type   |
+ * | Variables              | Undefined, unused, $input: X vs argument type Y |
+ * | Selections             | Objects need { ... }, scalars must not have one |
+ * | Deprecation (warning)  | @deprecated fields still selected               |
+ *
+ * Fragments are not supported - the shipped operations do not use them.
+ *
+ * Generated types follow the schema, not the hand-written ./graphql-types:
+ * String/ID are string, Int/Float number, enums a union of their values,
+ * custom scalars (JSON) any. Nullable fields are `| null`, nullable
+ * variables and input fields are optional. See graphql-schema.ts generate.
+ *
+ * Usage:
+ *
+ *   const operation = parseOperation(HOTEL_SEARCH_RESULTS_QUERY);
+ *   const errors = validateOperation(schema, operation).filter(i => i.severity === 'error');
+ */
+
+import {
+  baseTypeName,
+  GraphQLParser,
+  GraphQLSchemaModel,
+  GraphQLSyntaxError,
+  lookupType,
+  NamedTypeDef,
+  printTypeRef,
+  printValue,
+  TypeRef,
+  ValueNode,
+} from './graphql-schema';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+export interface VariableDefinition {
+  name: string;
+  type: TypeRef;
+  defaultValue?: ValueNode;
+}
+
+export interface FieldSelection {
+  alias?: string;
+  name: string;
+  args: Array<{ name: string; value: ValueNode }>;
+  selections: FieldSelection[];
+  line: number;
+}
+
+export interface OperationDefinition {
+  kind: 'query' | 'mutation';
+  name?: string;
+  variables: VariableDefinition[];
+  selections: FieldSelection[];
+}
+
+function parseSelections(parser: GraphQLParser): FieldSelection[] {
+  const selections: FieldSelection[] = [];
+  parser.expect('{');
+  while (!parser.skip('}')) {
+    if (parser.at('...')) {
+      throw new GraphQLSyntaxError('Fragments are not supported', parser.line);
+    }
+    const line = parser.line;
+    let alias: string | undefined;
+    let name = parser.name();
+    if (parser.skip(':')) {
+      alias = name;
+      name = parser.name();
+    }
+    const args = parser.arguments();
+    parser.directives();
+    selections.push({ alias, name, args, selections: parser.at('{') ? parseSelections(parser) : [], line });
+  }
+  return selections;
+}
+
+/**
+ * The single operation in a query document - throws GraphQLSyntaxError
+ */
+export function parseOperation(source: string): OperationDefinition {
+  const parser = new GraphQLParser(source);
+  const operation: OperationDefinition = { kind: 'query', variables: [], selections: [] };
+
+  if (!parser.at('{')) {
+    const kind = parser.name();
+    if (kind !== 'query' && kind !== 'mutation') {
+      throw new GraphQLSyntaxError(`Unsupported operation "${kind}"`, parser.line);
+    }
+    operation.kind = kind;
+    if (parser.peek().kind === 'name') {
+      operation.name = parser.name();
+    }
+    if (parser.skip('(')) {
+      while (!parser.skip(')')) {
+        parser.expect('$');
+        const name = parser.name();
+        parser.expect(':');
+        const type = parser.typeRef();
+        const defaultValue = parser.skip('=') ? parser.value() : undefined;
+        operation.variables.push({ name, type, defaultValue });
+      }
+    }
+    parser.directives();
+  }
+
+  operation.selections = parseSelections(parser);
+  if (!parser.atEnd()) {
+    throw parser.unexpected('one operation per document');
+  }
+  return operation;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+export interface OperationIssue {
+  severity: 'error' | 'warning';
+  path: string;  // e.g. HotelSearchResults.hotelSearchResults.results.lastBestPrice
+  message: string;
+}
+
+/**
+ * Whether a variable of type `variable` may be passed where `location` is expected
+ */
+function variableFits(variable: TypeRef, location: TypeRef, hasDefault: boolean): boolean {
+  if (location.kind === 'NON_NULL') {
+    if (variable.kind !== 'NON_NULL') {
+      return hasDefault && variableFits(variable, location.ofType, false);
+    }
+    return variableFits(variable.ofType, location.ofType, false);
+  }
+  if (variable.kind === 'NON_NULL') {
+    return variableFits(variable.ofType, location, false);
+  }
+  if (location.kind === 'LIST' || variable.kind === 'LIST') {
+    return location.kind === 'LIST' && variable.kind === 'LIST' && variableFits(variable.ofType, location.ofType, false);
+  }
+  return variable.name === location.name;
+}
+
+const SCALAR_LITERALS: Record<string, RegExp> = {
+  Int: /^-?\d+$/,
+  Float: /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/,
+  Boolean: /^(true|false)$/,
+};
+
+class OperationValidator {
+  readonly issues: OperationIssue[] = [];
+  private readonly variables: Map<string, VariableDefinition>;
+  private readonly used = new Set<string>();
+
+  constructor(private readonly schema: GraphQLSchemaModel, private readonly operation: OperationDefinition) {
+    this.variables = new Map(operation.variables.map(v => [v.name, v]));
+  }
+
+  private error(path: string, message: string) {
+    this.issues.push({ severity: 'error', path, message });
+  }
+
+  run(): OperationIssue[] {
+    const { schema, operation } = this;
+    const root = operation.name || `anonymous ${operation.kind}`;
+    if (!operation.name) {
+      this.error(root, 'operation has no name - codegen needs one');
+    }
+
+    for (const variable of operation.variables) {
+      const type = lookupType(schema, baseTypeName(variable.type));
+      if (!type) {
+        this.error(`${root}($${variable.name})`, `unknown type ${baseTypeName(variable.type)}`);
+      } else if (!['SCALAR', 'ENUM', 'INPUT_OBJECT'].includes(type.kind)) {
+        this.error(`${root}($${variable.name})`, `${type.name} is not an input type`);
+      } else if (variable.defaultValue) {
+        this.checkValue(variable.defaultValue, variable.type, `${root}($${variable.name})`);
+      }
+    }
+
+    const rootType = operation.kind === 'query' ? schema.queryType : schema.mutationType;
+    const parent = rootType ? schema.types.get(rootType) : undefined;
+    if (!parent) {
+      this.error(root, `schema has no ${operation.kind} type`);
+    } else {
+      this.checkSelections(parent, operation.selections, root);
+    }
+
+    for (const variable of operation.variables.filter(v => !this.used.has(v.name))) {
+      this.error(`${root}($${variable.name})`, 'variable is never used');
+    }
+    return this.issues;
+  }
+
+  private checkSelections(parent: NamedTypeDef, selections: FieldSelection[], path: string) {
+    for (const selection of selections) {
+      const where = `${path}.${selection.alias ?? selection.name}`;
+      if (selection.name === '__typename') {
+        continue;
+      }
+
+      const field = parent.fields.find(f => f.name === selection.name);
+      if (!field) {
+        this.error(where, `Cannot query field "${selection.name}" on type "${parent.name}" (line ${selection.line})`);
+        continue;
+      }
+      if (field.deprecationReason !== undefined) {
+        this.issues.push({ severity: 'warning', path: where, message: `deprecated: ${field.deprecationReason}` });
+      }
+
+      for (const arg of selection.args) {
+        const definition = field.args.find(a => a.name === arg.name);
+        if (!definition) {
+          this.error(`${where}(${arg.name})`, `unknown argument - expected ${field.args.map(a => a.name).join(', ') || 'none'}`);
+        } else {
+          this.checkValue(arg.value, definition.type, `${where}(${arg.name})`);
+        }
+      }
+      for (const definition of field.args) {
+        if (definition.type.kind === 'NON_NULL' && definition.defaultValue === undefined &&
+            !selection.args.some(a => a.name === definition.name)) {
+          this.error(`${where}(${definition.name})`, `required argument ${printTypeRef(definition.type)} missing`);
+        }
+      }
+
+      const type = lookupType(this.schema, baseTypeName(field.type));
+      if (!type) {
+        this.error(where, `unknown type ${baseTypeName(field.type)}`);
+      } else if (type.kind === 'SCALAR' || type.kind === 'ENUM') {
+        if (selection.selections.length > 0) {
+          this.error(where, `${type.name} is a leaf type - remove the { ... }`);
+        }
+      } else if (selection.selections.length === 0) {
+        this.error(where, `${type.name} needs a selection of fields`);
+      } else if (type.kind === 'OBJECT' || type.kind === 'INTERFACE') {
+        this.checkSelections(type, selection.selections, where);
+      }
+    }
+  }
+
+  private checkValue(value: ValueNode, type: TypeRef, path: string) {
+    if (value.kind === 'variable') {
+      const variable = this.variables.get(value.name);
+      this.used.add(value.name);
+      if (!variable) {
+        this.error(path, `variable $${value.name} is not defined`);
+      } else if (!variableFits(variable.type, type, variable.defaultValue !== undefined)) {
+        this.error(path, `$${value.name} is ${printTypeRef(variable.type)}, expected ${printTypeRef(type)}`);
+      }
+      return;
+    }
+
+    const isNull = value.kind === 'scalar' && value.text === 'null';
+    if (type.kind === 'NON_NULL') {
+      if (isNull) {
+        this.error(path, `null for ${printTypeRef(type)}`);
+      } else {
+        this.checkValue(value, type.ofType, path);
+      }
+      return;
+    }
+    if (isNull) {
+      return;
+    }
+    if (type.kind === 'LIST') {
+      // A single value is coerced to a list of one
+      const items = value.kind === 'list' ? value.values : [value];
+      items.forEach((item, i) => this.checkValue(item, type.ofType, `${path}[${i}]`));
+      return;
+    }
+
+    const named = lookupType(this.schema, type.name);
+    if (!named) {
+      return;  // Reported where the type is declared
+    }
+    const wrong = () => this.error(path, `${printValue(value)} is not a valid ${named.name}`);
+
+    switch (named.kind) {
+      case 'INPUT_OBJECT': {
+        if (value.kind !== 'object') {
+          wrong();
+          return;
+        }
+        for (const field of value.fields) {
+          const definition = named.inputFields.find(f => f.name === field.name);
+          if (!definition) {
+            this.error(`${path}.${field.name}`, `unknown field of ${named.name}`);
+          } else {
+            this.checkValue(field.value, definition.type, `${path}.${field.name}`);
+          }
+        }
+        for (const definition of named.inputFields) {
+          if (definition.type.kind === 'NON_NULL' && definition.defaultValue === undefined &&
+              !value.fields.some(f => f.name === definition.name)) {
+            this.error(`${path}.${definition.name}`, `required field ${printTypeRef(definition.type)} missing`);
+          }
+        }
+        return;
+      }
+      case 'ENUM':
+        if (value.kind !== 'scalar' || !named.enumValues.some(v => v.name === value.text)) {
+          wrong();
+        }
+        return;
+      case 'SCALAR':
+        if (named.name === 'String' || named.name === 'ID') {
+          if (value.kind !== 'string' && !(named.name === 'ID' && value.kind === 'scalar' && SCALAR_LITERALS.Int.test(value.text))) {
+            wrong();
+          }
+        } else if (SCALAR_LITERALS[named.name] && (value.kind !== 'scalar' || !SCALAR_LITERALS[named.name].test(value.text))) {
+          wrong();
+        }
+        return;
+      default:
+        wrong();
+    }
+  }
+}
+
+/**
+ * Everything the server would reject (errors) or flag (warnings) - empty when valid
+ */
+export function validateOperation(schema: GraphQLSchemaModel, operation: OperationDefinition): OperationIssue[] {
+  return new OperationValidator(schema, operation).run();
+}
+
+// =============================================================================
+// TYPESCRIPT GENERATION
+// =============================================================================
+const TS_SCALARS: Record<string, string> = {
+  String: 'string',
+  ID: 'string',
+  Int: 'number',
+  Float: 'number',
+  Boolean: 'boolean',
+};
+
+const comment = (description: string | undefined) =>
+  description && !description.includes('\n') ? `  // ${description}` : '';
+
+function renderNamed(schema: GraphQLSchemaModel, name: string, indent: string, seen: string[]): string {
+  const type = lookupType(schema, name);
+  if (!type) {
+    return 'unknown';
+  }
+  switch (type.kind) {
+    case 'SCALAR':
+      return TS_SCALARS[name] ?? 'any';
+    case 'ENUM':
+      return type.enumValues.map(v => `'${v.name}'`).join(' | ');
+    case 'INPUT_OBJECT': {
+      if (seen.includes(name)) {
+        return 'unknown';  // Recursive input
+      }
+      const lines = type.inputFields.map(field => {
+        const optional = field.type.kind !== 'NON_NULL' || field.defaultValue !== undefined;
+        const rendered = renderInput(schema, field.type, `${indent}  `, [...seen, name]);
+        return `${indent}  ${field.name}${optional ? '?' : ''}: ${rendered};${comment(field.description)}`;
+      });
+      return `{\n${lines.join('\n')}\n${indent}}`;
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function wrapList(item: string): string {
+  return /^[A-Za-z]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+}
+
+function renderInput(schema: GraphQLSchemaModel, type: TypeRef, indent: string, seen: string[] = []): string {
+  switch (type.kind) {
+    case 'NON_NULL':
+      return renderInput(schema, type.ofType, indent, seen).replace(/ \| null$/, '');
+    case 'LIST':
+      return `${wrapList(renderInput(schema, type.ofType, indent, seen))} | null`;
+    case 'NAMED':
+      return `${renderNamed(schema, type.name, indent, seen)} | null`;
+  }
+}
+
+function renderOutput(schema: GraphQLSchemaModel, type: TypeRef, selections: FieldSelection[], indent: string): string {
+  switch (type.kind) {
+    case 'NON_NULL':
+      return renderOutput(schema, type.ofType, selections, indent).replace(/ \| null$/, '');
+    case 'LIST':
+      return `${wrapList(renderOutput(schema, type.ofType, selections, indent))} | null`;
+    case 'NAMED': {
+      const named = lookupType(schema, type.name);
+      if (!named || (named.kind !== 'OBJECT' && named.kind !== 'INTERFACE')) {
+        return `${renderNamed(schema, type.name, indent, [])} | null`;
+      }
+      return `${renderSelections(schema, named, selections, indent)} | null`;
+    }
+  }
+}
+
+function renderSelections(schema: GraphQLSchemaModel, parent: NamedTypeDef, selections: FieldSelection[], indent: string): string {
+  const lines = selections.map(selection => {
+    const key = selection.alias ?? selection.name;
+    if (selection.name === '__typename') {
+      return `${indent}  ${key}: string;`;
+    }
+    const field = parent.fields.find(f => f.name === selection.name);
+    const rendered = field ? renderOutput(schema, field.type, selection.selections, `${indent}  `) : 'unknown';
+    return `${indent}  ${key}: ${rendered};${comment(field?.description)}`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Source of src/graphql-operation-types.ts - e.g. HotelSearchMutation and HotelSearchMutationVariables
+ */
+export function generateOperationTypes(schema: GraphQLSchemaModel, operations: OperationDefinition[], source: string): string {
+  const blocks = operations.map(operation => {
+    const name = `${operation.name}${operation.kind === 'query' ? 'Query' : 'Mutation'}`;
+    const variables = operation.variables.map(variable => {
+      const optional = variable.type.kind !== 'NON_NULL' || variable.defaultValue !== undefined;
+      return `  ${variable.name}${optional ? '?' : ''}: ${renderInput(schema, variable.type, '  ')};`;
+    });
+    const rootType = schema.types.get((operation.kind === 'query' ? schema.queryType : schema.mutationType) ?? '');
+    const result = rootType ? renderSelections(schema, rootType, operation.selections, '') : '{}';
+
+    return `// ${operation.kind} ${operation.name}
+export interface ${name}Variables ${variables.length > 0 ? `{\n${variables.join('\n')}\n}` : '{}'}
+
+export interface ${name} ${result}`;
+  });
+
+  return `/**
+ * LockTrip GraphQL API - Generated Operation Types
+ *
+ * GENERATED by graphql-schema.ts generate from ${source} - do not edit.
+ *
+ * The client methods in ./graphql-client send {Name}{Kind}Variables and
+ * read {Name}{Kind}, so when a query document or the schema changes in a way
+ * the hand-written ./graphql-types do not match, they stop compiling.
+ * Regenerate after changing a document or pulling a new snapshot:
+ *
+ *   npx tsx graphql-schema.ts generate
+ */
+
+${blocks.join('\n\n')}
+`;
+}
@@ -0,0 +1,909 @@
+/**
+ * LockTrip GraphQL API - Schema Model, Introspection and Drift
+ *
+ * Dependency-free handling of the /graphql schema, so the operations in
+ * ./graphql-client can be checked against it (see ./graphql-operations):
+ *
+ * | Source                       | Read with                              |
+ * |------------------------------|----------------------------------------|
+ * | src/graphql-schema.graphql   | parseSdl() - the checked-in snapshot   |
+ * | POST /graphql { __schema }   | introspectSchema() - the live server   |
+ *
+ * printSchema() writes either back as SDL in a stable order, so snapshots
+ * diff cleanly in git. diffSchemas() classifies every change between two
+ * snapshots the way a client sees it:
+ *
+ * | Severity  | Examples                                                   |
+ * |-----------|------------------------------------------------------------|
+ * | breaking  | Type/field/enum value removed, output made nullable,       |
+ * |           | input or argument made required, field type changed       |
+ * | dangerous | Enum value added, field deprecated, default changed        |
+ * | safe      | Type/field added, output made non-null, input made optional|
+ *
+ * The SDL subset covers what introspection returns: type, input, enum,
+ * scalar, interface, union, schema, descriptions and @deprecated. Other
+ * directives are read and dropped.
+ *
+ * Usage:
+ *
+ *   const snapshot = parseSdl(readFileSync(GRAPHQL_SCHEMA_SNAPSHOT, 'utf8'));
+ *   const live = await introspectSchema({ url, auth });
+ *   const breaking = diffSchemas(snapshot, live).filter(c => c.severity === 'breaking');
+ */
+
+import path from 'path';
+import { graphql, GraphQLClientOptions } from './graphql-client';
+
+export const GRAPHQL_SCHEMA_SNAPSHOT = path.join(__dirname, 'graphql-schema.graphql');
+
+// =============================================================================
+// MODEL
+// =============================================================================
+export type TypeRef =
+  | { kind: 'NAMED'; name: string }
+  | { kind: 'LIST'; ofType: TypeRef }
+  | { kind: 'NON_NULL'; ofType: TypeRef };
+
+export type TypeKind = 'SCALAR' | 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT';
+
+export interface InputValueDef {
+  name: string;
+  description?: string;
+  type: TypeRef;
+  defaultValue?: string;  // As GraphQL source, e.g. 30000 or "EUR"
+}
+
+export interface FieldDef {
+  name: string;
+  description?: string;
+  args: InputValueDef[];
+  type: TypeRef;
+  deprecationReason?: string;
+}
+
+export interface EnumValueDef {
+  name: string;
+  description?: string;
+  deprecationReason?: string;
+}
+
+export interface NamedTypeDef {
+  kind: TypeKind;
+  name: string;
+  description?: string;
+  fields: FieldDef[];             // OBJECT, INTERFACE
+  interfaces: string[];           // OBJECT
+  inputFields: InputValueDef[];   // INPUT_OBJECT
+  enumValues: EnumValueDef[];     // ENUM
+  possibleTypes: string[];        // UNION
+}
+
+export interface GraphQLSchemaModel {
+  queryType: string;
+  mutationType?: string;
+  types: Map<string, NamedTypeDef>;  // Without the built-in scalars and __ types
+}
+
+export const BUILT_IN_SCALARS: readonly string[] = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+
+const namedType = (kind: TypeKind, name: string, description?: string): NamedTypeDef =>
+  ({ kind, name, description, fields: [], interfaces: [], inputFields: [], enumValues: [], possibleTypes: [] });
+
+/**
+ * Type definition by name - built-in scalars included
+ */
+export function lookupType(schema: GraphQLSchemaModel, name: string): NamedTypeDef | undefined {
+  return schema.types.get(name) ?? (BUILT_IN_SCALARS.includes(name) ? namedType('SCALAR', name) : undefined);
+}
+
+/**
+ * Name under the list and non-null wrappers, e.g. String for [String!]!
+ */
+export function baseTypeName(type: TypeRef): string {
+  return type.kind === 'NAMED' ? type.name : baseTypeName(type.ofType);
+}
+
+export function printTypeRef(type: TypeRef): string {
+  switch (type.kind) {
+    case 'NAMED':
+      return type.name;
+    case 'LIST':
+      return `[${printTypeRef(type.ofType)}]`;
+    case 'NON_NULL':
+      return `${printTypeRef(type.ofType)}!`;
+  }
+}
+
+// =============================================================================
+// LEXER AND PARSER
+// =============================================================================
+
+/**
+ * SDL or operation text that cannot be parsed - line is 1-based
+ */
+export class GraphQLSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'GraphQLSyntaxError';
+  }
+}
+
+interface Token {
+  kind: 'name' | 'punct' | 'string' | 'number' | 'eof';
+  value: string;
+  line: number;
+}
+
+const PUNCTUATORS = '!$&()[]{}:=@|';
+
+/**
+ * Common indentation and blank first/last lines removed, like the spec's block strings
+ */
+function blockStringValue(raw: string): string {
+  const lines = raw.replace(/\\"""/g, '"""').split(/\r?\n/);
+  const indents = lines.slice(1).filter(l => l.trim()).map(l => l.length - l.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  const dedented = [lines[0], ...lines.slice(1).map(l => l.slice(indent))];
+  while (dedented.length > 0 && !dedented[0].trim()) dedented.shift();
+  while (dedented.length > 0 && !dedented[dedented.length - 1].trim()) dedented.pop();
+  return dedented.join('\n');
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const name = /[_A-Za-z][_0-9A-Za-z]*/y;
+  const number = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (c === ' ' || c === '\t' || c === '\r' || c === ',' || c === '﻿') {
+      i++;
+    } else if (c === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punct', value: '...', line });
+      i += 3;
+    } else if (PUNCTUATORS.includes(c)) {
+      tokens.push({ kind: 'punct', value: c, line });
+      i++;
+    } else if (source.startsWith('"""', i)) {
+      let end = source.indexOf('"""', i + 3);
+      while (end > 0 && source[end - 1] === '\\') end = source.indexOf('"""', end + 3);
+      if (end < 0) {
+        throw new GraphQLSyntaxError('Unterminated block string', line);
+      }
+      const raw = source.slice(i + 3, end);
+      tokens.push({ kind: 'string', value: blockStringValue(raw), line });
+      line += raw.split('\n').length - 1;
+      i = end + 3;
+    } else if (c === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"' && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      if (source[end] !== '"') {
+        throw new GraphQLSyntaxError('Unterminated string', line);
+      }
+      tokens.push({ kind: 'string', value: JSON.parse(source.slice(i, end + 1)), line });
+      i = end + 1;
+    } else {
+      name.lastIndex = number.lastIndex = i;
+      const word = name.exec(source);
+      const digits = word ? null : number.exec(source);
+      if (!word && !digits) {
+        throw new GraphQLSyntaxError(`Unexpected character ${JSON.stringify(c)}`, line);
+      }
+      tokens.push({ kind: word ? 'name' : 'number', value: (word || digits)![0], line });
+      i += (word || digits)![0].length;
+    }
+  }
+
+  tokens.push({ kind: 'eof', value: '', line });
+  return tokens;
+}
+
+export type ValueNode =
+  | { kind: 'variable'; name: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'scalar'; text: string }  // Number, boolean, null or enum value, as written
+  | { kind: 'list'; values: ValueNode[] }
+  | { kind: 'object'; fields: Array<{ name: string; value: ValueNode }> };
+
+export function printValue(value: ValueNode): string {
+  switch (value.kind) {
+    case 'variable':
+      return `$${value.name}`;
+    case 'string':
+      return JSON.stringify(value.value);
+    case 'scalar':
+      return value.text;
+    case 'list':
+      return `[${value.values.map(printValue).join(', ')}]`;
+    case 'object':
+      return `{ ${value.fields.map(f => `${f.name}: ${printValue(f.value)}`).join(', ')} }`;
+  }
+}
+
+/**
+ * Recursive-descent parser shared by parseSdl() and parseOperation()
+ */
+export class GraphQLParser {
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  get line(): number {
+    return this.peek().line;
+  }
+
+  peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  at(value: string): boolean {
+    const token = this.peek();
+    return token.kind !== 'string' && token.value === value;
+  }
+
+  atEnd(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  /**
+   * Consume the token if it is `value` - whether it was
+   */
+  skip(value: string): boolean {
+    if (this.at(value)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  expect(value: string): void {
+    if (!this.skip(value)) {
+      throw this.unexpected(`"${value}"`);
+    }
+  }
+
+  name(): string {
+    const token = this.peek();
+    if (token.kind !== 'name') {
+      throw this.unexpected('a name');
+    }
+    this.position++;
+    return token.value;
+  }
+
+  unexpected(expected: string): GraphQLSyntaxError {
+    const token = this.peek();
+    return new GraphQLSyntaxError(`Expected ${expected}, found ${token.kind === 'eof' ? 'end of input' : JSON.stringify(token.value)}`, token.line);
+  }
+
+  description(): string | undefined {
+    const token = this.peek();
+    if (token.kind !== 'string') {
+      return undefined;
+    }
+    this.position++;
+    return token.value;
+  }
+
+  typeRef(): TypeRef {
+    let type: TypeRef;
+    if (this.skip('[')) {
+      type = { kind: 'LIST', ofType: this.typeRef() };
+      this.expect(']');
+    } else {
+      type = { kind: 'NAMED', name: this.name() };
+    }
+    return this.skip('!') ? { kind: 'NON_NULL', ofType: type } : type;
+  }
+
+  value(): ValueNode {
+    const token = this.peek();
+    if (this.skip('$')) {
+      return { kind: 'variable', name: this.name() };
+    }
+    if (this.skip('[')) {
+      const values: ValueNode[] = [];
+      while (!this.skip(']')) values.push(this.value());
+      return { kind: 'list', values };
+    }
+    if (this.skip('{')) {
+      const fields: Array<{ name: string; value: ValueNode }> = [];
+      while (!this.skip('}')) {
+        const name = this.name();
+        this.expect(':');
+        fields.push({ name, value: this.value() });
+      }
+      return { kind: 'object', fields };
+    }
+    if (token.kind === 'string') {
+      this.position++;
+      return { kind: 'string', value: token.value };
+    }
+    if (token.kind === 'name' || token.kind === 'number') {
+      this.position++;
+      return { kind: 'scalar', text: token.value };
+    }
+    throw this.unexpected('a value');
+  }
+
+  /**
+   * (name: value, ...) - empty when there is no "("
+   */
+  arguments(): Array<{ name: string; value: ValueNode }> {
+    const args: Array<{ name: string; value: ValueNode }> = [];
+    if (this.skip('(')) {
+      while (!this.skip(')')) {
+        const name = this.name();
+        this.expect(':');
+        args.push({ name, value: this.value() });
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Directives after a definition - returns the @deprecated reason, if any
+   */
+  directives(): string | undefined {
+    let deprecationReason: string | undefined;
+    while (this.skip('@')) {
+      const name = this.name();
+      const args = this.arguments();
+      if (name === 'deprecated') {
+        const reason = args.find(a => a.name === 'reason')?.value;
+        deprecationReason = reason?.kind === 'string' ? reason.value : 'No longer supported';
+      }
+    }
+    return deprecationReason;
+  }
+
+  inputValues(open: string, close: string): InputValueDef[] {
+    const values: InputValueDef[] = [];
+    this.expect(open);
+    while (!this.skip(close)) {
+      const description = this.description();
+      const name = this.name();
+      this.expect(':');
+      const type = this.typeRef();
+      const defaultValue = this.skip('=') ? printValue(this.value()) : undefined;
+      this.directives();
+      values.push({ name, description, type, defaultValue });
+    }
+    return values;
+  }
+
+  fields(): FieldDef[] {
+    const fields: FieldDef[] = [];
+    this.expect('{');
+    while (!this.skip('}')) {
+      const description = this.description();
+      const name = this.name();
+      const args = this.at('(') ? this.inputValues('(', ')') : [];
+      this.expect(':');
+      const type = this.typeRef();
+      fields.push({ name, description, args, type, deprecationReason: this.directives() });
+    }
+    return fields;
+  }
+}
+
+// =============================================================================
+// SDL
+// =============================================================================
+
+/**
+ * Schema from SDL text - throws GraphQLSyntaxError
+ */
+export function parseSdl(source: string): GraphQLSchemaModel {
+  const parser = new GraphQLParser(source);
+  const types = new Map<string, NamedTypeDef>();
+  let queryType = 'Query';
+  let mutationType: string | undefined;
+
+  const add = (type: NamedTypeDef, line: number) => {
+    if (types.has(type.name)) {
+      throw new GraphQLSyntaxError(`Type ${type.name} is defined twice`, line);
+    }
+    types.set(type.name, type);
+  };
+
+  while (!parser.atEnd()) {
+    const description = parser.description();
+    const line = parser.line;
+    const keyword = parser.name();
+
+    switch (keyword) {
+      case 'schema':
+        parser.directives();
+        parser.expect('{');
+        while (!parser.skip('}')) {
+          const operation = parser.name();
+          parser.expect(':');
+          const name = parser.name();
+          if (operation === 'query') {
+            queryType = name;
+          } else if (operation === 'mutation') {
+            mutationType = name;
+          }
+        }
+        break;
+
+      case 'scalar': {
+        add(namedType('SCALAR', parser.name(), description), line);
+        parser.directives();
+        break;
+      }
+
+      case 'type':
+      case 'interface': {
+        const type = namedType(keyword === 'type' ? 'OBJECT' : 'INTERFACE', parser.name(), description);
+        if (parser.skip('implements')) {
+          parser.skip('&');
+          do {
+            type.interfaces.push(parser.name());
+          } while (parser.skip('&'));
+        }
+        parser.directives();
+        type.fields = parser.fields();
+        add(type, line);
+        break;
+      }
+
+      case 'input': {
+        const type = namedType('INPUT_OBJECT', parser.name(), description);
+        parser.directives();
+        type.inputFields = parser.inputValues('{', '}');
+        add(type, line);
+        break;
+      }
+
+      case 'enum': {
+        const type = namedType('ENUM', parser.name(), description);
+        parser.directives();
+        parser.expect('{');
+        while (!parser.skip('}')) {
+          const valueDescription = parser.description();
+          const name = parser.name();
+          type.enumValues.push({ name, description: valueDescription, deprecationReason: parser.directives() });
+        }
+        add(type, line);
+        break;
+      }
+
+      case 'union': {
+        const type = namedType('UNION', parser.name(), description);
+        parser.directives();
+        parser.expect('=');
+        parser.skip('|');
+        do {
+          type.possibleTypes.push(parser.name());
+        } while (parser.skip('|'));
+        add(type, line);
+        break;
+      }
+
+      default:
+        throw new GraphQLSyntaxError(`Unsupported definition "${keyword}"`, line);
+    }
+  }
+
+  if (!mutationType && types.has('Mutation')) {
+    mutationType = 'Mutation';
+  }
+  return { queryType, mutationType, types };
+}
+
+function printDescription(description: string | undefined, indent: string): string {
+  if (!description) {
+    return '';
+  }
+  if (!description.includes('\n')) {
+    return `${indent}${JSON.stringify(description)}\n`;
+  }
+  return `${indent}"""\n${description.split('\n').map(l => (l ? indent + l : l)).join('\n')}\n${indent}"""\n`;
+}
+
+const printDeprecation = (reason: string | undefined) =>
+  reason === undefined ? '' : ` @deprecated(reason: ${JSON.stringify(reason)})`;
+
+function printInputValue(value: InputValueDef): string {
+  const defaultValue = value.defaultValue === undefined ? '' : ` = ${value.defaultValue}`;
+  return `${value.name}: ${printTypeRef(value.type)}${defaultValue}`;
+}
+
+function printArgs(args: InputValueDef[]): string {
+  if (args.length === 0) {
+    return '';
+  }
+  if (args.every(a => !a.description)) {
+    return `(${args.map(printInputValue).join(', ')})`;
+  }
+  return `(\n${args.map(a => `${printDescription(a.description, '    ')}    ${printInputValue(a)}`).join('\n')}\n  )`;
+}
+
+function printType(type: NamedTypeDef): string {
+  const head = printDescription(type.description, '');
+  const block = (lines: string[]) => `{\n${lines.join('\n')}\n}`;
+
+  switch (type.kind) {
+    case 'SCALAR':
+      return `${head}scalar ${type.name}`;
+    case 'UNION':
+      return `${head}union ${type.name} = ${type.possibleTypes.join(' | ')}`;
+    case 'ENUM':
+      return `${head}enum ${type.name} ${block(type.enumValues.map(v =>
+        `${printDescription(v.description, '  ')}  ${v.name}${printDeprecation(v.deprecationReason)}`
+      ))}`;
+    case 'INPUT_OBJECT':
+      return `${head}input ${type.name} ${block(type.inputFields.map(f =>
+        `${printDescription(f.description, '  ')}  ${printInputValue(f)}`
+      ))}`;
+    case 'OBJECT':
+    case 'INTERFACE': {
+      const keyword = type.kind === 'OBJECT' ? 'type' : 'interface';
+      const implementing = type.interfaces.length > 0 ? ` implements ${type.interfaces.join(' & ')}` : '';
+      return `${head}${keyword} ${type.name}${implementing} ${block(type.fields.map(f =>
+        `${printDescription(f.description, '  ')}  ${f.name}${printArgs(f.args)}: ${printTypeRef(f.type)}${printDeprecation(f.deprecationReason)}`
+      ))}`;
+    }
+  }
+}
+
+/**
+ * SDL with the root types first and the rest by name - stable for snapshots
+ */
+export function printSchema(schema: GraphQLSchemaModel): string {
+  const blocks: string[] = [];
+  if (schema.queryType !== 'Query' || (schema.mutationType && schema.mutationType !== 'Mutation')) {
+    const mutation = schema.mutationType ? `\n  mutation: ${schema.mutationType}` : '';
+    blocks.push(`schema {\n  query: ${schema.queryType}${mutation}\n}`);
+  }
+
+  const roots = [schema.queryType, schema.mutationType].filter((name): name is string => !!name && schema.types.has(name));
+  const rest = [...schema.types.keys()].filter(name => !roots.includes(name)).sort();
+  for (const name of [...roots, ...rest]) {
+    blocks.push(printType(schema.types.get(name)!));
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// =============================================================================
+// INTROSPECTION
+// =============================================================================
+export const INTROSPECTION_QUERY = `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      mutationType { name }
+      types {
+        kind
+        name
+        description
+        fields(includeDeprecated: true) {
+          name
+          description
+          args { name description type { ...TypeRef } defaultValue }
+          type { ...TypeRef }
+          isDeprecated
+          deprecationReason
+        }
+        interfaces { name }
+        inputFields { name description type { ...TypeRef } defaultValue }
+        enumValues(includeDeprecated: true) { name description isDeprecated deprecationReason }
+        possibleTypes { name }
+      }
+    }
+  }
+
+  fragment TypeRef on __Type {
+    kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } }
+  }
+`;
+
+export interface IntrospectionTypeRef {
+  kind: string;
+  name: string | null;
+  ofType: IntrospectionTypeRef | null;
+}
+
+export interface IntrospectionInputValue {
+  name: string;
+  description: string | null;
+  type: IntrospectionTypeRef;
+  defaultValue: string | null;
+}
+
+export interface IntrospectionType {
+  kind: TypeKind;
+  name: string;
+  description: string | null;
+  fields: Array<{
+    name: string;
+    description: string | null;
+    args: IntrospectionInputValue[];
+    type: IntrospectionTypeRef;
+    isDeprecated: boolean;
+    deprecationReason: string | null;
+  }> | null;
+  interfaces: Array<{ name: string }> | null;
+  inputFields: IntrospectionInputValue[] | null;
+  enumValues: Array<{ name: string; description: string | null; isDeprecated: boolean; deprecationReason: string | null }> | null;
+  possibleTypes: Array<{ name: string }> | null;
+}
+
+export interface IntrospectionSchema {
+  queryType: { name: string };
+  mutationType: { name: string } | null;
+  types: IntrospectionType[];
+}
+
+function fromIntrospectionRef(ref: IntrospectionTypeRef): TypeRef {
+  switch (ref.kind) {
+    case 'LIST':
+      return { kind: 'LIST', ofType: fromIntrospectionRef(ref.ofType!) };
+    case 'NON_NULL':
+      return { kind: 'NON_NULL', ofType: fromIntrospectionRef(ref.ofType!) };
+    default:
+      return { kind: 'NAMED', name: ref.name! };
+  }
+}
+
+function toIntrospectionRef(type: TypeRef): IntrospectionTypeRef {
+  return type.kind === 'NAMED'
+    ? { kind: '', name: type.name, ofType: null }  // kind filled in by toIntrospection()
+    : { kind: type.kind, name: null, ofType: toIntrospectionRef(type.ofType) };
+}
+
+const orUndefined = <T>(value: T | null): T | undefined => value ?? undefined;
+
+const fromInputValue = (value: IntrospectionInputValue): InputValueDef => ({
+  name: value.name,
+  description: orUndefined(value.description),
+  type: fromIntrospectionRef(value.type),
+  defaultValue: orUndefined(value.defaultValue),
+});
+
+/**
+ * Schema from the __schema result - built-in scalars and __ types are dropped
+ */
+export function fromIntrospection(result: IntrospectionSchema): GraphQLSchemaModel {
+  const types = new Map<string, NamedTypeDef>();
+  for (const type of result.types) {
+    if (type.name.startsWith('__') || BUILT_IN_SCALARS.includes(type.name)) {
+      continue;
+    }
+    types.set(type.name, {
+      ...namedType(type.kind, type.name, orUndefined(type.description)),
+      fields: (type.fields ?? []).map(f => ({
+        name: f.name,
+        description: orUndefined(f.description),
+        args: f.args.map(fromInputValue),
+        type: fromIntrospectionRef(f.type),
+        deprecationReason: f.isDeprecated ? (f.deprecationReason ?? 'No longer supported') : undefined,
+      })),
+      interfaces: (type.interfaces ?? []).map(i => i.name),
+      inputFields: (type.inputFields ?? []).map(fromInputValue),
+      enumValues: (type.enumValues ?? []).map(v => ({
+        name: v.name,
+        description: orUndefined(v.description),
+        deprecationReason: v.isDeprecated ? (v.deprecationReason ?? 'No longer supported') : undefined,
+      })),
+      possibleTypes: (type.possibleTypes ?? []).map(t => t.name),
+    });
+  }
+  return { queryType: result.queryType.name, mutationType: result.mutationType?.name, types };
+}
+
+/**
+ * The __schema result a server with this schema returns - for the mock server
+ */
+export function toIntrospection(schema: GraphQLSchemaModel): IntrospectionSchema {
+  const kindOf = (name: string) => lookupType(schema, name)?.kind ?? 'SCALAR';
+  const ref = (type: TypeRef): IntrospectionTypeRef => {
+    const result = toIntrospectionRef(type);
+    let named = result;
+    while (named.ofType) named = named.ofType;
+    named.kind = kindOf(named.name!);
+    return result;
+  };
+  const inputValue = (value: InputValueDef): IntrospectionInputValue => ({
+    name: value.name,
+    description: value.description ?? null,
+    type: ref(value.type),
+    defaultValue: value.defaultValue ?? null,
+  });
+  const isKind = (type: NamedTypeDef, ...kinds: TypeKind[]) => kinds.includes(type.kind);
+
+  const types = [...BUILT_IN_SCALARS.map(name => namedType('SCALAR', name)), ...schema.types.values()];
+  return {
+    queryType: { name: schema.queryType },
+    mutationType: schema.mutationType ? { name: schema.mutationType } : null,
+    types: types.map(type => ({
+      kind: type.kind,
+      name: type.name,
+      description: type.description ?? null,
+      fields: isKind(type, 'OBJECT', 'INTERFACE')
+        ? type.fields.map(f => ({
+          name: f.name,
+          description: f.description ?? null,
+          args: f.args.map(inputValue),
+          type: ref(f.type),
+          isDeprecated: f.deprecationReason !== undefined,
+          deprecationReason: f.deprecationReason ?? null,
+        }))
+        : null,
+      interfaces: isKind(type, 'OBJECT') ? type.interfaces.map(name => ({ name })) : null,
+      inputFields: isKind(type, 'INPUT_OBJECT') ? type.inputFields.map(inputValue) : null,
+      enumValues: isKind(type, 'ENUM')
+        ? type.enumValues.map(v => ({
+          name: v.name,
+          description: v.description ?? null,
+          isDeprecated: v.deprecationReason !== undefined,
+          deprecationReason: v.deprecationReason ?? null,
+        }))
+        : null,
+      possibleTypes: isKind(type, 'UNION') ? type.possibleTypes.map(name => ({ name })) : null,
+    })),
+  };
+}
+
+/**
+ * Introspect the live /graphql endpoint - fails if the server disables introspection
+ */
+export async function introspectSchema(options: GraphQLClientOptions): Promise<GraphQLSchemaModel> {
+  const result = await graphql<{ __schema: IntrospectionSchema }>(options, INTROSPECTION_QUERY);
+  return fromIntrospection(result.__schema);
+}
+
+// =============================================================================
+// DRIFT
+// =============================================================================
+export type ChangeSeverity = 'breaking' | 'dangerous' | 'safe';
+
+export interface SchemaChange {
+  severity: ChangeSeverity;
+  path: string;  // e.g. HotelSearchResult.lastBestPrice or Query.getHotelRooms(input)
+  message: string;
+}
+
+/**
+ * Whether an output field of type `before` may now return `after` - non-null may be added
+ */
+function outputCompatible(before: TypeRef, after: TypeRef): boolean {
+  if (after.kind === 'NON_NULL') {
+    return outputCompatible(before.kind === 'NON_NULL' ? before.ofType : before, after.ofType);
+  }
+  if (before.kind === 'NON_NULL') {
+    return false;
+  }
+  if (before.kind === 'LIST' || after.kind === 'LIST') {
+    return before.kind === 'LIST' && after.kind === 'LIST' && outputCompatible(before.ofType, after.ofType);
+  }
+  return after.kind === 'NAMED' && before.name === after.name;
+}
+
+/**
+ * Whether an input of type `before` still accepts every value sent so far - non-null may be dropped
+ */
+function inputCompatible(before: TypeRef, after: TypeRef): boolean {
+  if (before.kind === 'NON_NULL') {
+    return inputCompatible(before.ofType, after.kind === 'NON_NULL' ? after.ofType : after);
+  }
+  if (after.kind === 'NON_NULL') {
+    return false;
+  }
+  if (before.kind === 'LIST' || after.kind === 'LIST') {
+    return before.kind === 'LIST' && after.kind === 'LIST' && inputCompatible(before.ofType, after.ofType);
+  }
+  return after.kind === 'NAMED' && before.name === after.name;
+}
+
+const isRequired = (value: InputValueDef) => value.type.kind === 'NON_NULL' && value.defaultValue === undefined;
+
+function diffInputValues(path: string, before: InputValueDef[], after: InputValueDef[], what: string, changes: SchemaChange[]) {
+  for (const old of before) {
+    const now = after.find(v => v.name === old.name);
+    const where = `${path}${what === 'argument' ? `(${old.name})` : `.${old.name}`}`;
+    if (!now) {
+      changes.push({ severity: 'breaking', path: where, message: `${what} removed` });
+    } else if (!inputCompatible(old.type, now.type)) {
+      changes.push({ severity: 'breaking', path: where, message: `${printTypeRef(old.type)} → ${printTypeRef(now.type)}` });
+    } else if (printTypeRef(old.type) !== printTypeRef(now.type)) {
+      changes.push({ severity: 'safe', path: where, message: `${printTypeRef(old.type)} → ${printTypeRef(now.type)}` });
+    } else if (old.defaultValue !== now.defaultValue) {
+      changes.push({ severity: 'dangerous', path: where, message: `default ${old.defaultValue ?? 'none'} → ${now.defaultValue ?? 'none'}` });
+    }
+  }
+  for (const now of after.filter(v => !before.some(old => old.name === v.name))) {
+    const where = `${path}${what === 'argument' ? `(${now.name})` : `.${now.name}`}`;
+    changes.push(isRequired(now)
+      ? { severity: 'breaking', path: where, message: `required ${what} added: ${printTypeRef(now.type)}` }
+      : { severity: 'safe', path: where, message: `optional ${what} added: ${printTypeRef(now.type)}` });
+  }
+}
+
+/**
+ * Every change from `before` to `after`, breaking first
+ */
+export function diffSchemas(before: GraphQLSchemaModel, after: GraphQLSchemaModel): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  if (before.queryType !== after.queryType || before.mutationType !== after.mutationType) {
+    changes.push({ severity: 'breaking', path: 'schema', message: 'root types renamed' });
+  }
+
+  for (const [name, old] of before.types) {
+    const now = after.types.get(name);
+    if (!now) {
+      changes.push({ severity: 'breaking', path: name, message: `${old.kind.toLowerCase()} removed` });
+      continue;
+    }
+    if (now.kind !== old.kind) {
+      changes.push({ severity: 'breaking', path: name, message: `${old.kind} → ${now.kind}` });
+      continue;
+    }
+
+    for (const field of old.fields) {
+      const path = `${name}.${field.name}`;
+      const current = now.fields.find(f => f.name === field.name);
+      if (!current) {
+        changes.push({ severity: 'breaking', path, message: 'field removed' });
+        continue;
+      }
+      if (!outputCompatible(field.type, current.type)) {
+        changes.push({ severity: 'breaking', path, message: `${printTypeRef(field.type)} → ${printTypeRef(current.type)}` });
+      } else if (printTypeRef(field.type) !== printTypeRef(current.type)) {
+        changes.push({ severity: 'safe', path, message: `${printTypeRef(field.type)} → ${printTypeRef(current.type)}` });
+      }
+      if (current.deprecationReason !== undefined && field.deprecationReason === undefined) {
+        changes.push({ severity: 'dangerous', path, message: `deprecated: ${current.deprecationReason}` });
+      }
+      diffInputValues(path, field.args, current.args, 'argument', changes);
+    }
+    for (const field of now.fields.filter(f => !old.fields.some(o => o.name === f.name))) {
+      changes.push({ severity: 'safe', path: `${name}.${field.name}`, message: `field added: ${printTypeRef(field.type)}` });
+    }
+
+    diffInputValues(name, old.inputFields, now.inputFields, 'input field', changes);
+
+    for (const value of old.enumValues) {
+      const current = now.enumValues.find(v => v.name === value.name);
+      if (!current) {
+        changes.push({ severity: 'breaking', path: `${name}.${value.name}`, message: 'enum value removed' });
+      } else if (current.deprecationReason !== undefined && value.deprecationReason === undefined) {
+        changes.push({ severity: 'dangerous', path: `${name}.${value.name}`, message: `deprecated: ${current.deprecationReason}` });
+      }
+    }
+    for (const value of now.enumValues.filter(v => !old.enumValues.some(o => o.name === v.name))) {
+      changes.push({ severity: 'dangerous', path: `${name}.${value.name}`, message: 'enum value added - switch statements may miss it' });
+    }
+
+    for (const member of old.possibleTypes.filter(t => !now.possibleTypes.includes(t))) {
+      changes.push({ severity: 'breaking', path: name, message: `union member ${member} removed` });
+    }
+    for (const member of now.possibleTypes.filter(t => !old.possibleTypes.includes(t))) {
+      changes.push({ severity: 'dangerous', path: name, message: `union member ${member} added` });
+    }
+  }
+
+  for (const [name, type] of after.types) {
+    if (!before.types.has(name)) {
+      changes.push({ severity: 'safe', path: name, message: `${type.kind.toLowerCase()} added` });
+    }
+  }
+
+  const order: ChangeSeverity[] = ['breaking', 'dangerous', 'safe'];
+  return changes.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+}
@@ -0,0 +1,331 @@
+/**
+ * LockTrip GraphQL API - Request/Response Types
+ *
+ * Typed shapes for every operation documented in INTEGRATION.md.
+ * Field names and nullability follow the documented sample responses.
+ *
+ * CRITICAL: GraphQL dates are DD/MM/YYYY, pages are 1-based and
+ * getHotelRooms takes hotelId as a NUMBER.
+ */
+
+// =============================================================================
+// LOCATION SEARCH
+// =============================================================================
+
+/**
+ * Entry of locationSearch.locationData
+ * Regions/cities carry externalId + hotelCount, properties carry displayName + score
+ */
+export interface LocationData {
+  id: string;
+  type: string;
+  query: string;
+  name?: string;
+  externalId?: string;
+  hotelCount?: number;
+  displayName?: string;
+  score?: number;
+}
+
+export interface LocationSearchResponse {
+  locationData: LocationData[];
+}
+
+// =============================================================================
+// HOTEL SEARCH
+// =============================================================================
+
+export interface SearchRoomInput {
+  adults: number;
+  children: number[];
+}
+
+/**
+ * Either regionId OR latitude+longitude must be provided
+ */
+export interface SearchHotelsInput {
+  regionId?: string;
+  latitude?: number;
+  longitude?: number;
+  radiusInMeters?: number;
+  startDate: string;  // DD/MM/YYYY
+  endDate: string;    // DD/MM/YYYY
+  currency: string;
+  rooms: SearchRoomInput[];
+  uuid: string;
+  nat: string | null;
+}
+
+export interface HotelSearchResponse {
+  searchKey: string;
+  sessionId: string;
+}
+
+// =============================================================================
+// SEARCH RESULTS
+// =============================================================================
+
+export interface SearchResultsInput {
+  searchKey: string;
+  page: number;  // 1-based
+  size: number;
+  filters: Record<string, unknown>;
+  sortParams: string[];
+  singleHotelId: number;
+}
+
+export interface HotelSearchResult {
+  externalId: number;
+  name: string;
+  star: number;
+  address: string;
+  latitude: number;
+  longitude: number;
+  price: number;
+  lastBestPrice: number | null;  // Price before the current discount
+  discountScore: number;
+  distance: number;
+  boardType: string | null;
+  payment: string;
+  quality: number;
+  reviewsScore: number;
+  hasFreeCancellationOption: boolean;
+  refundability: boolean;
+  refundableUntil: string | null;
+  availableBoards: string[];
+  reviews: {
+    scoreSummary: number | null;
+    reviewsCount: number | null;
+  };
+  hotelPhoto: { url: string } | null;
+  features: string[];
+}
+
+export interface HotelSearchResultsResponse {
+  results: HotelSearchResult[];
+  totalResults: number;
+  page: number;
+  size: number;
+  hasNextPage: boolean;
+  isResultCompleted: boolean;
+  isSearchFinished: boolean;
+}
+
+// =============================================================================
+// HOTEL ROOMS
+// =============================================================================
+
+export interface GetRoomsInput {
+  searchKey: string;
+  hotelId: number;  // MUST be number for GraphQL
+  startDate: string;
+  endDate: string;
+  regionId: string;
+  rooms: SearchRoomInput[];
+  currency: string;
+  nat: string | null;
+}
+
+export interface HotelRoomPackage {
+  quoteId: string;  // {packageId}_{hotelId}
+  refundable: boolean;
+  finalPrice: number;
+  mealType: string;
+  roomType: string;
+  originalName: string;
+  payment: string;
+  roomCount: number;
+  roomContent: {
+    amenities: string[];
+    images: string[];
+    descriptions: string[];
+  } | null;
+}
+
+export interface GetHotelRoomsResponse {
+  searchKey: string;  // May be updated - always use the returned value
+  hotelRoomsResponse: HotelRoomPackage[];
+}
+
+// =============================================================================
+// CANCELLATION POLICIES
+// =============================================================================
+
+export interface HotelCancellationPoliciesInput {
+  searchKey: string;
+  hotelId: string;
+  packageIds: string[];  // quoteId.split('_')[0], NOT full quoteId
+}
+
+export interface CancellationFee {
+  amount: { amt: number };
+  from: number;  // Unix timestamp in milliseconds
+}
+
+export interface CancellationTerms {
+  nonRefundable: boolean;
+  boardType: string | null;
+  roomType: string | null;
+  originalName: string | null;
+  canxFees: CancellationFee[];
+}
+
+export interface HotelCancellationPolicy {
+  packageId: string;
+  fallbackPolicy: string | null;
+  cancellations: CancellationTerms[];
+}
+
+// =============================================================================
+// BOOKING
+// =============================================================================
+
+export type GuestTitle = 'Mr' | 'Mrs' | 'Ms';
+
+export interface AdultGuestInput {
+  title: GuestTitle;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ChildGuestInput {
+  firstName: string;
+  lastName: string;
+  age: number;
+}
+
+export interface ContactPersonInput {
+  title: GuestTitle;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+}
+
+/**
+ * GraphQL uses rooms[].adults[] structure (NOT rooms[].guests[])
+ */
+export interface BookingCreateInput {
+  quoteId: string;
+  rooms: Array<{
+    adults: AdultGuestInput[];
+    children: ChildGuestInput[];
+  }>;
+  contactPerson: ContactPersonInput;
+}
+
+export interface BookingTax {
+  feeTitle: string;
+  value: string;
+  currency: string;
+  isIncludedInPrice: boolean;
+}
+
+export interface HotelBookingPrepareResponse {
+  preparedBookingId: string;
+  fiatPrice: number;
+  currency: string;
+  isUpfrontPaid: boolean;
+  essentialInformation: string[];
+  payment: string;
+  discount: { amount: number; currency: string } | null;
+  taxes: BookingTax[];
+}
+
+export type PaymentMethod = 'CREDIT_LINE' | 'STRIPE' | 'REVOLUT';
+
+export interface BookingConfirmInput {
+  bookingInternalId: string;  // preparedBookingId from hotelBookingPrepare
+  quoteId: string;
+  paymentMethod: PaymentMethod;
+}
+
+export interface ConfirmB2bBookingResponse {
+  accepted: boolean;
+  message: string | null;
+}
+
+export interface CancelBookingInput {
+  bookingId: string;
+  confirmed: boolean;  // false is a dry-run
+}
+
+export interface CancelBookingRequestResponse {
+  isCancellationRequested: boolean;
+}
+
+// =============================================================================
+// BOOKING MANAGEMENT
+// =============================================================================
+
+export type BookingListingType = 'UPCOMING' | 'COMPLETED' | 'CANCELLED' | 'PENDING';
+
+export interface BookingListingInput {
+  type: BookingListingType;
+}
+
+export interface UserBooking {
+  id: string;
+  booking_id: string;
+  hotel_name: string;
+  hotel_id: string;
+  arrival_date: string;
+  nights: number;
+  status: string;
+  rooms_count: number;
+  created_on: string;
+  has_details: boolean;
+  isB2B: boolean;
+  hotel_photo: string | null;
+}
+
+export interface GetUserBookingsResponse {
+  bookings: UserBooking[];
+}
+
+export interface BookingDetails {
+  bookingId: string;
+  bookingReferenceId: string;
+  providerReference: string | null;
+  status: string;
+  hotel: {
+    id: string;
+    name: string;
+    address: string;
+    city: string;
+    country: string;
+    phone: string | null;
+    email: string | null;
+    starRating: number;
+  };
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{
+    roomName: string;
+    mealType: string;
+    guests: Array<{ firstName: string; lastName: string }>;
+    price: number;
+  }>;
+  contactPerson: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+  };
+  totalPrice: number;
+  currency: string;
+  paymentStatus: string;
+  cancellationPolicy: {
+    isRefundable: boolean;
+    freeCancellationUntil: string | null;
+    fees: Array<{ fromDate: string; amount: number; currency: string }>;
+  } | null;
+  specialRequests: string | null;
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface GetBookingDetailsResponse {
+  success: boolean;
+  data: BookingDetails | null;
+}
@@ -0,0 +1,185 @@
+/**
+ * LockTrip API - Guest Manifest Pre-flight
+ *
+ * "Guest count mismatch" is one of the most common prepare errors, and the
+ * API reports only the first problem it finds. validateManifest() checks the
+ * whole manifest against the searched Occupancy locally and returns every
+ * violation at once, before anything is sent:
+ *
+ * | Check          | Rule                                                      |
+ * |----------------|-----------------------------------------------------------|
+ * | Rooms          | Same number of rooms as searched                          |
+ * | Adults         | Exactly the searched adults in each room                  |
+ * | Children       | Child ages per room match the search, each 0-17           |
+ * | Guest counts   | As many adult and child names as were searched            |
+ * | Lead guest     | Exactly one isLeadGuest                                   |
+ * | Titles         | Mr, Mrs or Ms (omitted = Mr)                              |
+ * | Names          | Non-empty, Latin letters only (transliterate others)      |
+ * | Contact        | Valid email and E.164 phone, e.g. +1234567890 (no spaces) |
+ *
+ * Usage:
+ *
+ *   // Hands the names out per room (Occupancy.distribute), then validates
+ *   const { rooms } = assertValidGuestList({ guests, children, contact }, occupancy);  // throws GuestManifestError
+ *   await client.prepareBooking({ quoteId, rooms, contact });
+ */
+
+import type { BookingRoom, ContactPerson, Guest } from './booking-client';
+import { GuestManifestError } from './errors';
+import type { GuestTitle } from './graphql-types';
+import { ChildName, MAX_CHILD_AGE, Occupancy } from './occupancy';
+
+export interface GuestManifest {
+  rooms: BookingRoom[];
+  contact: ContactPerson;
+}
+
+/**
+ * Names not yet handed out to rooms - e.g. from the config or --guest flags
+ */
+export interface GuestList {
+  guests: Guest[];  // Adults, in room order
+  children?: ChildName[];  // Ages come from the occupancy
+  contact: ContactPerson;
+}
+
+export interface ManifestViolation {
+  path: string;  // e.g. rooms[0].adults[1].firstName
+  message: string;
+}
+
+export const GUEST_TITLES: GuestTitle[] = ['Mr', 'Mrs', 'Ms'];
+
+// Latin script letters (accents included), plus the usual separators in names
+const LATIN_NAME = /^\p{Script=Latin}[\p{Script=Latin}\p{M} .'-]*$/u;
+
+/**
+ * user@domain.tld - no spaces
+ */
+export function isEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+/**
+ * E.164: "+", country code, up to 15 digits - no spaces or dashes, the value is sent as-is
+ */
+export function isE164Phone(value: string): boolean {
+  return /^\+[1-9]\d{6,14}$/.test(value);
+}
+
+function checkName(value: unknown, path: string, violations: ManifestViolation[]): void {
+  if (typeof value !== 'string' || value.trim() === '') {
+    violations.push({ path, message: 'must not be empty' });
+  } else if (!LATIN_NAME.test(value.trim())) {
+    violations.push({ path, message: `must use Latin letters, got "${value}" - transliterate it, e.g. Иван → Ivan` });
+  }
+}
+
+function checkTitle(value: unknown, path: string, violations: ManifestViolation[]): void {
+  if (value !== undefined && !GUEST_TITLES.includes(value as GuestTitle)) {
+    violations.push({ path, message: `must be one of ${GUEST_TITLES.join(', ')}, got "${value}"` });
+  }
+}
+
+const sortedAges = (ages: number[]) => [...ages].sort((a, b) => a - b).join(',');
+
+/**
+ * Every problem with the manifest - an empty list means it is safe to send
+ */
+export function validateManifest(manifest: GuestManifest, occupancy: Occupancy): ManifestViolation[] {
+  const violations: ManifestViolation[] = [];
+  const { rooms, contact } = manifest;
+
+  // Per-room counts only line up when the room count does
+  const roomsMatch = rooms.length === occupancy.rooms.length;
+  if (!roomsMatch) {
+    violations.push({ path: 'rooms', message: `has ${rooms.length} room(s) but ${occupancy.rooms.length} were searched` });
+  }
+
+  rooms.forEach((room, r) => {
+    const searched = roomsMatch ? occupancy.rooms[r] : undefined;
+
+    if (room.adults.length === 0) {
+      violations.push({ path: `rooms[${r}].adults`, message: 'every room needs at least one adult' });
+    } else if (searched && room.adults.length !== searched.adults) {
+      violations.push({
+        path: `rooms[${r}].adults`,
+        message: `names ${room.adults.length} adult(s) but ${searched.adults} were searched`,
+      });
+    }
+
+    room.adults.forEach((guest, g) => {
+      checkTitle(guest.title, `rooms[${r}].adults[${g}].title`, violations);
+      checkName(guest.firstName, `rooms[${r}].adults[${g}].firstName`, violations);
+      checkName(guest.lastName, `rooms[${r}].adults[${g}].lastName`, violations);
+    });
+
+    room.children.forEach((child, c) => {
+      checkName(child.firstName, `rooms[${r}].children[${c}].firstName`, violations);
+      checkName(child.lastName, `rooms[${r}].children[${c}].lastName`, violations);
+      if (!Number.isInteger(child.age) || child.age < 0 || child.age > MAX_CHILD_AGE) {
+        violations.push({ path: `rooms[${r}].children[${c}].age`, message: `must be 0-${MAX_CHILD_AGE}, got ${child.age}` });
+      }
+    });
+
+    const ages = room.children.map(c => c.age);
+    if (searched && sortedAges(ages) !== sortedAges(searched.childrenAges)) {
+      violations.push({
+        path: `rooms[${r}].children`,
+        message: `has ages [${ages.join(', ')}] but [${searched.childrenAges.join(', ')}] were searched`,
+      });
+    }
+  });
+
+  const leads = rooms.flatMap((room, r) =>
+    room.adults.flatMap((guest, g) => (guest.isLeadGuest ? [`rooms[${r}].adults[${g}]`] : []))
+  );
+  if (leads.length === 0 && rooms.some(room => room.adults.length > 0)) {
+    violations.push({ path: 'isLeadGuest', message: 'no lead guest is marked - set isLeadGuest on one adult' });
+  } else if (leads.length > 1) {
+    violations.push({ path: 'isLeadGuest', message: `exactly one lead guest is allowed, ${leads.length} are marked: ${leads.join(', ')}` });
+  }
+
+  checkTitle(contact.title, 'contact.title', violations);
+  checkName(contact.firstName, 'contact.firstName', violations);
+  checkName(contact.lastName, 'contact.lastName', violations);
+  if (typeof contact.email !== 'string' || !isEmail(contact.email)) {
+    violations.push({ path: 'contact.email', message: `is not a valid email address, got "${contact.email}"` });
+  }
+  if (typeof contact.phone !== 'string' || !isE164Phone(contact.phone)) {
+    violations.push({ path: 'contact.phone', message: `must be E.164 without spaces, e.g. +1234567890, got "${contact.phone}"` });
+  }
+
+  return violations;
+}
+
+/**
+ * validateManifest, throwing GuestManifestError with every violation
+ */
+export function assertValidManifest(manifest: GuestManifest, occupancy: Occupancy): void {
+  const violations = validateManifest(manifest, occupancy);
+  if (violations.length > 0) {
+    throw new GuestManifestError(violations);
+  }
+}
+
+/**
+ * Hand the names out over the searched rooms and validate the result - count
+ * mismatches are listed with every other violation instead of thrown first
+ */
+export function validateGuestList(list: GuestList, occupancy: Occupancy): { manifest: GuestManifest; violations: ManifestViolation[] } {
+  const { rooms, issues } = occupancy.distribute(list.guests, list.children);
+  const manifest = { rooms, contact: list.contact };
+  return { manifest, violations: [...issues, ...validateManifest(manifest, occupancy)] };
+}
+
+/**
+ * validateGuestList, throwing GuestManifestError with every violation
+ */
+export function assertValidGuestList(list: GuestList, occupancy: Occupancy): GuestManifest {
+  const { manifest, violations } = validateGuestList(list, occupancy);
+  if (violations.length > 0) {
+    throw new GuestManifestError(violations);
+  }
+  return manifest;
+}
@@ -0,0 +1,272 @@
+/**
+ * LockTrip API - Hotel Filter & Sort
+ *
+ * Declarative selection over the canonical Hotel fields. Neither transport
+ * documents server-side `filters` (always {}), so criteria run locally; the
+ * primary sort goes to the server only where SERVER_SORTS lists it, and the
+ * full sort is always re-applied locally so selection is reproducible
+ * (ties broken by hotelId).
+ *
+ * Usage:
+ *
+ *   const filter = new HotelFilter()
+ *     .priceBetween(0, 50)
+ *     .minStars(3)
+ *     .freeCancellation()
+ *     .sortBy('reviewScore', 'desc')
+ *     .thenBy('price');
+ *
+ *   // Ask the server for the primary sort where it can, then select locally
+ *   for await (const hotel of client.iterateResults(searchKey, { sort: filter.serverSort(client.transport) ?? undefined })) {
+ *     hotels.push(hotel);
+ *   }
+ *   const { hotel, explanation } = filter.select(hotels);
+ *   explanation.forEach(line => console.log(line));
+ */
+
+import { Hotel, ResultsSort, SERVER_SORTS, Transport } from './booking-client';
+
+export type SortField = 'price' | 'stars' | 'reviewScore' | 'distance' | 'discountScore' | 'refundableUntil' | 'name';
+export type SortDirection = 'asc' | 'desc';
+
+interface Criterion {
+  name: string;
+  test: (hotel: Hotel) => boolean;
+  actual: (hotel: Hotel) => string;
+}
+
+interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export interface CriterionResult {
+  criterion: string;
+  passed: boolean;
+  actual: string;
+}
+
+export interface HotelExplanation {
+  hotelId: string;
+  name: string;
+  passed: boolean;
+  checks: CriterionResult[];
+}
+
+export interface Selection {
+  hotel: Hotel | null;
+  candidates: number;   // Hotels considered
+  matched: Hotel[];     // Hotels passing every criterion, in sort order
+  rejectedBy: Record<string, number>;  // Failures per criterion (a hotel can fail several)
+  explanation: string[];
+}
+
+/**
+ * Sort value for a field - nulls sort last in either direction
+ */
+function sortValue(hotel: Hotel, field: SortField): number | string | null {
+  switch (field) {
+    case 'refundableUntil':
+      return hotel.refundableUntil ? hotel.refundableUntil.getTime() : null;
+    case 'name':
+      return hotel.name.toLowerCase();
+    default:
+      return hotel[field];
+  }
+}
+
+const SORT_FOR_SERVER: Partial<Record<string, ResultsSort>> = {
+  'price:asc': 'PRICE_ASC',
+  'price:desc': 'PRICE_DESC',
+  'reviewScore:desc': 'RATING_DESC',
+  'distance:asc': 'DISTANCE',
+};
+
+const lower = (values: string[]) => values.map(v => v.toLowerCase());
+
+export class HotelFilter {
+  private readonly criteria: Criterion[] = [];
+  private readonly order: SortKey[] = [];
+
+  // ===========================================================================
+  // CRITERIA
+  // ===========================================================================
+  priceBetween(min: number, max: number): this {
+    return this.where(`price ${min}-${max}`, h => h.price >= min && h.price <= max, h => String(h.price));
+  }
+
+  maxPrice(max: number): this {
+    return this.where(`price <= ${max}`, h => h.price <= max, h => String(h.price));
+  }
+
+  minStars(stars: number): this {
+    return this.where(`stars >= ${stars}`, h => h.stars >= stars, h => String(h.stars));
+  }
+
+  freeCancellation(): this {
+    return this.where('free cancellation', h => h.hasFreeCancellation, h => String(h.hasFreeCancellation));
+  }
+
+  /**
+   * Refundable with a free-cancellation deadline after `date`
+   */
+  refundableUntilAfter(date: Date): this {
+    return this.where(
+      `refundable until after ${date.toISOString().split('T')[0]}`,
+      h => h.refundableUntil !== null && h.refundableUntil.getTime() > date.getTime(),
+      h => h.refundableUntil?.toISOString() ?? 'none'
+    );
+  }
+
+  /**
+   * At least one of the given meal types in availableBoards (case-insensitive)
+   */
+  board(...mealTypes: string[]): this {
+    const wanted = lower(mealTypes);
+    return this.where(
+      `board in [${mealTypes.join(', ')}]`,
+      h => lower(h.boards).some(b => wanted.includes(b)),
+      h => `[${h.boards.join(', ')}]`
+    );
+  }
+
+  minReviewScore(score: number): this {
+    return this.where(
+      `review score >= ${score}`,
+      h => h.reviewScore !== null && h.reviewScore >= score,
+      h => String(h.reviewScore)
+    );
+  }
+
+  /**
+   * Distance from the search center, in the API's units
+   */
+  maxDistance(distance: number): this {
+    return this.where(`distance <= ${distance}`, h => h.distance <= distance, h => String(h.distance));
+  }
+
+  /**
+   * Every given feature/amenity must be present (case-insensitive)
+   */
+  requireFeatures(...features: string[]): this {
+    const wanted = lower(features);
+    return this.where(
+      `features include [${features.join(', ')}]`,
+      h => wanted.every(f => lower(h.features).includes(f)),
+      h => `[${h.features.join(', ')}]`
+    );
+  }
+
+  minDiscountScore(score: number): this {
+    return this.where(`discount score >= ${score}`, h => h.discountScore >= score, h => String(h.discountScore));
+  }
+
+  /**
+   * Custom criterion - `name` appears in explanations
+   */
+  where(name: string, test: (hotel: Hotel) => boolean, actual: (hotel: Hotel) => string = () => ''): this {
+    this.criteria.push({ name, test, actual });
+    return this;
+  }
+
+  // ===========================================================================
+  // SORTING
+  // ===========================================================================
+  sortBy(field: SortField, direction: SortDirection = 'asc'): this {
+    this.order.length = 0;
+    this.order.push({ field, direction });
+    return this;
+  }
+
+  thenBy(field: SortField, direction: SortDirection = 'asc'): this {
+    this.order.push({ field, direction });
+    return this;
+  }
+
+  /**
+   * Server-side sort for the primary key, or null if the transport lacks it
+   */
+  serverSort(transport: Transport): ResultsSort | null {
+    const primary = this.order[0];
+    const sort = primary ? SORT_FOR_SERVER[`${primary.field}:${primary.direction}`] : undefined;
+    return sort && SERVER_SORTS[transport].includes(sort) ? sort : null;
+  }
+
+  compare(a: Hotel, b: Hotel): number {
+    for (const { field, direction } of this.order) {
+      const x = sortValue(a, field);
+      const y = sortValue(b, field);
+      if (x === y) continue;
+      if (x === null) return 1;
+      if (y === null) return -1;
+      const result = x < y ? -1 : 1;
+      return direction === 'asc' ? result : -result;
+    }
+    return a.hotelId.localeCompare(b.hotelId);
+  }
+
+  // ===========================================================================
+  // EVALUATION
+  // ===========================================================================
+  matches(hotel: Hotel): boolean {
+    return this.criteria.every(c => c.test(hotel));
+  }
+
+  /**
+   * Matching hotels in sort order
+   */
+  apply(hotels: Hotel[]): Hotel[] {
+    return hotels.filter(h => this.matches(h)).sort((a, b) => this.compare(a, b));
+  }
+
+  explain(hotel: Hotel): HotelExplanation {
+    const checks = this.criteria.map(c => ({ criterion: c.name, passed: c.test(hotel), actual: c.actual(hotel) }));
+    return {
+      hotelId: hotel.hotelId,
+      name: hotel.name,
+      passed: checks.every(c => c.passed),
+      checks,
+    };
+  }
+
+  /**
+   * Pick the best match and say why
+   */
+  select(hotels: Hotel[]): Selection {
+    const rejectedBy: Record<string, number> = {};
+    for (const hotel of hotels) {
+      for (const c of this.criteria) {
+        if (!c.test(hotel)) {
+          rejectedBy[c.name] = (rejectedBy[c.name] || 0) + 1;
+        }
+      }
+    }
+
+    const matched = this.apply(hotels);
+    const hotel = matched[0] || null;
+
+    const explanation = [
+      `Criteria: ${this.criteria.map(c => c.name).join(', ') || '(none)'}`,
+      `Sort: ${this.order.map(o => `${o.field} ${o.direction}`).concat('hotelId asc').join(', ')}`,
+      `Matched ${matched.length} of ${hotels.length} hotels`,
+      ...Object.entries(rejectedBy).map(([name, count]) => `  rejected by "${name}": ${count}`),
+    ];
+    if (hotel) {
+      explanation.push(`Selected ${hotel.name} (${hotel.hotelId})`);
+      explanation.push(...this.explain(hotel).checks.map(c => `  ✓ ${c.criterion} (${c.actual})`));
+    }
+
+    return { hotel, candidates: hotels.length, matched, rejectedBy, explanation };
+  }
+
+  /**
+   * Which parts run server-side vs locally for a transport
+   */
+  describe(transport: Transport): string[] {
+    const server = this.serverSort(transport);
+    return [
+      `Server: sort ${server ?? 'PRICE_ASC (default)'}, filters {} (not documented)`,
+      `Local: ${this.criteria.length} criteria, sort ${this.order.map(o => `${o.field} ${o.direction}`).join(', ') || 'hotelId'}`,
+    ];
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * LockTrip API - Structured Logging
+ *
+ * Levelled log records, written as JSON lines for a log pipeline or as
+ * pretty lines for a terminal. Every record goes through a Redactor before
+ * it reaches the sink:
+ *
+ * | Redacted                  | Matched by                                                |
+ * |---------------------------|-----------------------------------------------------------|
+ * | Bearer token, passwords   | authorization/token/password keys, "Bearer ..." and JWTs  |
+ * | Contact email and phone   | email/phone keys, email addresses inside strings          |
+ * | Guest names               | firstName/lastName/guestName keys                         |
+ * | Configured values         | secrets - token, contact and guest names from the config, |
+ * |                           | wherever they appear (error messages, free text)          |
+ *
+ * Both transports call traceRequest() around every request: onRequest /
+ * onResponse hooks get the raw exchange, the logger gets it redacted -
+ * requests and responses at debug, failures at warn.
+ *
+ * Usage:
+ *
+ *   const logger = createLogger({ level: 'debug', format: 'json', secrets: [token, contact.email] })
+ *     .child({ correlationId: newCorrelationId() });
+ *   const client = new LockTripGraphQLClient({ auth, logger });
+ *   logger.info('step', { step: 1, title: 'LOCATION SEARCH' });
+ */
+
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { TransportName } from './errors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogRecord {
+  time: string;  // ISO 8601
+  level: LogLevel;
+  message: string;
+  [field: string]: unknown;  // correlationId, transport, operation, durationMs, ...
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+  // Records below this level are dropped - 'silent' drops all (default: info)
+  level?: LogLevel | 'silent';
+
+  format?: LogFormat;  // default: pretty
+
+  // Append to this file instead of writing to stderr
+  file?: string;
+
+  // Where records go - wins over format and file
+  sink?: LogSink;
+
+  // Values redacted wherever they appear, e.g. the token and guest names
+  secrets?: string[];
+
+  // Fields on every record, e.g. { correlationId }
+  fields?: Record<string, unknown>;
+}
+
+// =============================================================================
+// REDACTION
+// =============================================================================
+export const REDACTED = '[REDACTED]';
+
+// Keys whose value is always replaced, at any depth
+const SENSITIVE_KEYS = /^(authorization|cookie|password|secret|(access|refresh|bearer)?token|email|phone|first_?name|last_?name|guest_?name)$/i;
+
+const STRING_PATTERNS = [
+  /Bearer\s+[\w.~+/=-]+/gi,
+  /eyJ[\w-]+\.[\w-]+\.[\w-]*/g,  // JWT
+  /[\w.+-]+@[\w-]+(\.[\w-]+)+/g,  // Email address
+];
+
+// Shorter values would match inside unrelated text
+const MIN_SECRET_LENGTH = 3;
+
+export class Redactor {
+  private readonly secrets = new Set<string>();
+
+  constructor(secrets: Iterable<string | null | undefined> = []) {
+    this.add(...secrets);
+  }
+
+  /**
+   * Redact these values from now on - e.g. a token obtained by login
+   */
+  add(...values: Array<string | null | undefined>): void {
+    for (const value of values) {
+      const trimmed = value?.trim();
+      if (trimmed && trimmed.length >= MIN_SECRET_LENGTH) {
+        this.secrets.add(trimmed);
+      }
+    }
+  }
+
+  redactString(text: string): string {
+    let result = text;
+    // Longest first, so "John Doe" goes before "John"
+    for (const secret of [...this.secrets].sort((a, b) => b.length - a.length)) {
+      result = result.split(secret).join(REDACTED);
+    }
+    for (const pattern of STRING_PATTERNS) {
+      result = result.replace(pattern, REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Copy of value with sensitive keys and strings replaced - the original is untouched
+   */
+  redact(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactString(value.message) };
+    }
+    if (value instanceof Date || value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, seen));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEYS.test(key) && item !== null && item !== undefined && item !== '' ? REDACTED : this.redact(item, seen),
+    ]));
+  }
+}
+
+// =============================================================================
+// SINKS
+// =============================================================================
+function writer(file?: string): (line: string) => void {
+  if (!file) {
+    return line => process.stderr.write(line);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return line => fs.appendFileSync(file, line);
+}
+
+/**
+ * One JSON object per line
+ */
+export function jsonSink(file?: string): LogSink {
+  const write = writer(file);
+  return record => write(`${JSON.stringify(record)}\n`);
+}
+
+function prettyValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  return value instanceof Date ? value.toISOString() : JSON.stringify(value);
+}
+
+/**
+ * "12:00:01.250 WARN  [3f2a9c1e] message key=value ..."
+ */
+export function prettySink(file?: string): LogSink {
+  const write = writer(file);
+  return ({ time, level, message, correlationId, ...fields }) => {
+    const clock = time.slice(11, 23);
+    const id = correlationId ? ` [${String(correlationId).slice(0, 8)}]` : '';
+    const rest = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}=${prettyValue(value)}`)
+      .join('');
+    write(`${clock} ${level.toUpperCase().padEnd(5)}${id} ${message}${rest}\n`);
+  };
+}
+
+// =============================================================================
+// LOGGER
+// =============================================================================
+export class Logger {
+  constructor(
+    private readonly sink: LogSink,
+    readonly level: LogLevel | 'silent' = 'info',
+    readonly redactor: Redactor = new Redactor(),
+    private readonly fields: Record<string, unknown> = {}
+  ) {}
+
+  /**
+   * Same sink, level and secrets, with extra fields on every record
+   */
+  child(fields: Record<string, unknown>): Logger {
+    return new Logger(this.sink, this.level, this.redactor, { ...this.fields, ...fields });
+  }
+
+  enabled(level: LogLevel): boolean {
+    return this.level !== 'silent' && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (!this.enabled(level)) {
+      return;
+    }
+    const redacted = this.redactor.redact({ ...this.fields, ...fields }) as Record<string, unknown>;
+    this.sink({ time: new Date().toISOString(), level, message: this.redactor.redactString(message), ...redacted });
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const sink = options.sink ?? (options.format === 'json' ? jsonSink(options.file) : prettySink(options.file));
+  return new Logger(sink, options.level ?? 'info', new Redactor(options.secrets), options.fields);
+}
+
+/**
+ * Id tying together every record of one flow - e.g. one e2e run
+ */
+export function newCorrelationId(): string {
+  return randomUUID();
+}
+
+// Clients without a logger - failures on stderr, as before structured logging
+export const DEFAULT_LOGGER = createLogger({ level: 'warn' });
+
+// =============================================================================
+// TRANSPORT HOOKS
+// =============================================================================
+export interface TransportRequest {
+  transport: TransportName;
+  operation: string;  // GraphQL root field or MCP tool name
+  url: string;
+  body: unknown;  // GraphQL variables or tool input - not redacted
+}
+
+export interface TransportResponse extends TransportRequest {
+  durationMs: number;
+  status?: number;  // HTTP status, when there was a response
+  response?: unknown;  // Response body - not redacted
+  error?: Error;
+}
+
+export interface TransportHooks {
+  // Default: DEFAULT_LOGGER
+  logger?: Logger;
+
+  // Called with the raw exchange - redact before shipping it anywhere
+  onRequest?: (request: TransportRequest) => void;
+  onResponse?: (response: TransportResponse) => void;
+}
+
+export type RequestOutcome = Pick<TransportResponse, 'status' | 'response' | 'error'>;
+
+/**
+ * Report the request to the hooks and logger - call the returned function with the outcome
+ */
+export function traceRequest(hooks: TransportHooks, request: TransportRequest): (outcome: RequestOutcome) => void {
+  const logger = hooks.logger ?? DEFAULT_LOGGER;
+  const { transport, operation, url } = request;
+  const started = Date.now();
+  hooks.onRequest?.(request);
+  logger.debug(`→ ${transport} ${operation}`, { transport, operation, url, body: request.body });
+
+  return outcome => {
+    const durationMs = Date.now() - started;
+    hooks.onResponse?.({ ...request, ...outcome, durationMs });
+    const fields = { transport, operation, status: outcome.status, durationMs };
+    if (outcome.error) {
+      logger.warn(`✗ ${transport} ${operation} failed`, { ...fields, error: outcome.error.message, response: outcome.response });
+    } else {
+      logger.debug(`← ${transport} ${operation}`, { ...fields, response: outcome.response });
+    }
+  };
+}
+
+/**
+ * Outcome of a request that threw - status and body when the server answered
+ */
+export function failedOutcome(thrown: unknown, error: Error): RequestOutcome {
+  const response = axios.isAxiosError(thrown) ? thrown.response : undefined;
+  return { status: response?.status, response: response?.data, error };
+}
@@ -0,0 +1,629 @@
+/**
+ * LockTrip MCP Server - Typed Client
+ *
+ * One typed method per documented tool, over either protocol - the results
+ * are the same:
+ *
+ * | Protocol | Endpoint           | Request                              |
+ * |----------|--------------------|--------------------------------------|
+ * | rest     | POST /tools/:name  | The tool input as the body (default) |
+ * | rpc      | POST /rpc          | JSON-RPC 2.0 tools/call with an id   |
+ * | sse      | GET /sse + POST    | MCP session, like Claude Desktop     |
+ *
+ * The sse session (see ./mcp-sse) is opened on the first call and shared by
+ * every call through the same client; close() ends it.
+ * Arguments are checked against each tool's inputSchema from GET /tools
+ * before sending (see ./mcp-schema) - a bad field throws ToolInputError
+ * without a request. Argument and result types come from ./mcp-tool-types,
+ * generated from the same schemas.
+ * JSON-RPC also allows batches: client.batch() queues read-only calls and
+ * sends them in one round trip, each settling on its own.
+ *
+ * Usage:
+ *
+ *   const client = new LockTripMcpClient({ token: process.env.BEARER_TOKEN });
+ *   const client = new LockTripMcpClient({ auth: createAuthProvider({ email, password }), protocol: 'rpc' });
+ *   const { locations } = await client.searchLocation({ query: 'bali, indonesia' });
+ *
+ *   const batch = client.batch();
+ *   const policy = batch.checkCancellationPolicy({ searchKey, hotelId, packageIds });
+ *   const details = batch.getHotelDetails({ hotelId: Number(hotelId) });
+ *   await batch.send();
+ *   const [{ policies }, { hotel }] = await Promise.all([policy, details]);
+ */
+
+import axios from 'axios';
+import { AuthProvider, withAuth } from './auth';
+import { classifyApiError, fromHttpError, fromRpcError, LockTripError, ToolInputError } from './errors';
+import { failedOutcome, traceRequest, TransportHooks } from './logger';
+import { validateSchema } from './mcp-schema';
+import type {
+  CancelBookingInput,
+  CancelBookingOutput,
+  CheckCancellationPolicyInput,
+  CheckCancellationPolicyOutput,
+  ConfirmBookingInput,
+  ConfirmBookingOutput,
+  GetBookingDetailsInput,
+  GetBookingDetailsOutput,
+  GetHotelDetailsInput,
+  GetHotelDetailsOutput,
+  GetHotelRoomsInput,
+  GetHotelRoomsOutput,
+  GetPaymentUrlInput,
+  GetPaymentUrlOutput,
+  GetSearchResultsInput,
+  GetSearchResultsOutput,
+  HotelSearchInput,
+  HotelSearchOutput,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  ListBookingsInput,
+  ListBookingsOutput,
+  McpInitializeResult,
+  McpToolCallResult,
+  McpToolDescriptor,
+  PrepareBookingInput,
+  PrepareBookingOutput,
+  SearchLocationInput,
+  SearchLocationOutput,
+} from './mcp-types';
+import { McpSseSession } from './mcp-sse';
+import type { McpToolInputs, McpToolName, McpToolOutputs } from './mcp-tool-types';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+
+// =============================================================================
+// CONNECTION
+// =============================================================================
+export type McpProtocol = 'rest' | 'rpc' | 'sse';
+
+// logger, onRequest and onResponse see every request (see ./logger)
+export interface McpClientOptions extends TransportHooks {
+  // MCP base URL including the /mcp suffix (default: https://locktrip.com/mcp)
+  baseUrl?: string;
+
+  // Bearer token, with or without the "Bearer " prefix
+  token?: string;
+
+  // Token source with expiry handling and re-login on 401 - wins over token
+  auth?: AuthProvider;
+
+  // Request timeout - confirm can take a long time (default: 120000)
+  timeoutMs?: number;
+
+  // Retry policy for retry-safe tools - false disables retries
+  retry?: Partial<RetryPolicy> | false;
+
+  // How tools are called - see the table above (default: rest)
+  protocol?: McpProtocol;
+
+  // Messages without an id from /rpc responses or the SSE stream, e.g. progress
+  onNotification?: (notification: JsonRpcNotification) => void;
+
+  // Check arguments against the tools' inputSchemas before sending (default: true)
+  validate?: boolean;
+}
+
+export const DEFAULT_MCP_BASE_URL = 'https://locktrip.com/mcp';
+
+// The 12 tools documented in MCP_INTEGRATION.md
+export const MCP_TOOL_NAMES: readonly McpToolName[] = [
+  'search_location',
+  'hotel_search',
+  'get_search_results',
+  'get_hotel_rooms',
+  'check_cancellation_policy',
+  'prepare_booking',
+  'confirm_booking',
+  'list_bookings',
+  'get_booking_details',
+  'cancel_booking',
+  'get_hotel_details',
+  'get_payment_url',
+];
+
+/**
+ * Tools that are safe to resend after a transient failure. prepare_booking,
+ * confirm_booking, cancel_booking and get_payment_url are never retried.
+ */
+export const RETRY_SAFE_TOOLS: ReadonlySet<string> = new Set([
+  'search_location',
+  'hotel_search',
+  'get_search_results',
+  'get_hotel_rooms',
+  'check_cancellation_policy',
+  'list_bookings',
+  'get_booking_details',
+  'get_hotel_details',
+]);
+
+function authHeaders(authorization: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (authorization) {
+    headers['Authorization'] = authorization;
+  }
+
+  return headers;
+}
+
+type ToolSender = <T>(options: McpClientOptions, toolName: string, input: object, authorization: string | undefined) => Promise<T>;
+
+/**
+ * POST /tools/:name - the response body is the tool output
+ */
+const sendRest: ToolSender = async (options, toolName, input, authorization) => {
+  const url = `${options.baseUrl || DEFAULT_MCP_BASE_URL}/tools/${toolName}`;
+  const done = traceRequest(options, { transport: 'mcp', operation: toolName, url, body: input });
+  try {
+    const response = await axios.post(url, input, {
+      headers: authHeaders(authorization),
+      timeout: options.timeoutMs ?? 120000,
+    });
+
+    done({ status: response.status, response: response.data });
+    return response.data;
+  } catch (error) {
+    const failure = fromHttpError(error, { transport: 'mcp', operation: toolName });
+    done(failedOutcome(error, failure));
+    throw failure;
+  }
+};
+
+/**
+ * POST /rpc with a single tools/call request
+ */
+const sendRpc: ToolSender = async (options, toolName, input, authorization) => {
+  const request = toolCallRequest(toolName, input);
+  const responses = await postRpc(options, request, toolName, authorization);
+  return toolResult(responses.find(r => r.id === request.id), toolName);
+};
+
+// One SSE session per options object, i.e. per LockTripMcpClient
+const sseSessions = new WeakMap<McpClientOptions, McpSseSession>();
+
+function sseSession(options: McpClientOptions): McpSseSession {
+  let session = sseSessions.get(options);
+  if (!session) {
+    session = new McpSseSession({
+      baseUrl: options.baseUrl || DEFAULT_MCP_BASE_URL,
+      timeoutMs: options.timeoutMs,
+      reconnect: options.retry,
+      onNotification: options.onNotification,
+    });
+    sseSessions.set(options, session);
+  }
+  return session;
+}
+
+/**
+ * tools/call over the SSE session - a new token re-opens the session with it
+ */
+const sendSse: ToolSender = async (options, toolName, input, authorization) => {
+  const url = `${options.baseUrl || DEFAULT_MCP_BASE_URL}/sse`;
+  const done = traceRequest(options, { transport: 'mcp', operation: toolName, url, body: input });
+  let response;
+  try {
+    response = await sseSession(options).request('tools/call', { name: toolName, arguments: input }, authorization);
+  } catch (error) {
+    done({ error: error as Error });
+    throw error;
+  }
+  done({ response });
+  return toolResult(response, toolName);
+};
+
+const SENDERS: Record<McpProtocol, ToolSender> = { rest: sendRest, rpc: sendRpc, sse: sendSse };
+
+/**
+ * Call MCP tool endpoint
+ *
+ * Throws a typed LockTripError (see ./errors) - ToolInputError before
+ * sending if the input breaks the tool's schema. Transient failures are
+ * retried only for tools in RETRY_SAFE_TOOLS; a 401 is retried once with a
+ * new token when options.auth can provide one.
+ */
+export async function mcpTool<K extends McpToolName>(
+  options: McpClientOptions,
+  toolName: K,
+  input: McpToolInputs[K]
+): Promise<McpToolOutputs[K]> {
+  const send = SENDERS[options.protocol || 'rest'];
+  await validateToolInput(options, toolName, input);
+
+  return withAuth(options, authorization =>
+    withRetry(
+      () => send<McpToolOutputs[K]>(options, toolName, input, authorization),
+      resolveRetryPolicy(options.retry),
+      RETRY_SAFE_TOOLS.has(toolName)
+    )
+  );
+}
+
+// =============================================================================
+// TOOL SCHEMAS
+// =============================================================================
+
+/**
+ * GET /tools - tools/list over the session with protocol 'sse'
+ */
+async function fetchTools(options: McpClientOptions): Promise<McpToolDescriptor[]> {
+  if (options.protocol === 'sse') {
+    const response = await withAuth(options, authorization => sseSession(options).request('tools/list', {}, authorization));
+    if (response.error) {
+      throw fromRpcError(response.error, { transport: 'mcp', operation: 'tools/list' });
+    }
+    return (response.result as { tools: McpToolDescriptor[] }).tools;
+  }
+
+  const data = await withRetry(async () => {
+    const url = `${options.baseUrl || DEFAULT_MCP_BASE_URL}/tools`;
+    const done = traceRequest(options, { transport: 'mcp', operation: 'tools', url, body: undefined });
+    try {
+      const response = await axios.get(url, { timeout: options.timeoutMs ?? 120000 });
+      done({ status: response.status, response: response.data });
+      return response.data;
+    } catch (error) {
+      const failure = fromHttpError(error, { transport: 'mcp', operation: 'tools' });
+      done(failedOutcome(error, failure));
+      throw failure;
+    }
+  }, resolveRetryPolicy(options.retry), true);
+  return Array.isArray(data) ? data : data.tools || [];
+}
+
+// One tool list per options object, fetched by the first validated call
+const toolCatalogs = new WeakMap<McpClientOptions, Promise<Map<string, McpToolDescriptor>>>();
+
+/**
+ * Throw ToolInputError if input breaks the tool's inputSchema - tools listed
+ * without a schema pass unchecked
+ */
+async function validateToolInput(options: McpClientOptions, toolName: string, input: unknown): Promise<void> {
+  if (options.validate === false) {
+    return;
+  }
+
+  let catalog = toolCatalogs.get(options);
+  if (!catalog) {
+    catalog = fetchTools(options).then(tools => new Map(tools.map(tool => [tool.name, tool])));
+    // A failed fetch is not kept - the next call asks again
+    catalog.catch(() => toolCatalogs.delete(options));
+    toolCatalogs.set(options, catalog);
+  }
+
+  const tool = (await catalog).get(toolName);
+  const context = { transport: 'mcp' as const, operation: toolName };
+  if (!tool) {
+    throw new ToolInputError([{ path: toolName, message: 'not in the server\'s tool list (GET /tools)' }], context);
+  }
+  const violations = tool.inputSchema ? validateSchema(input, tool.inputSchema) : [];
+  if (violations.length > 0) {
+    throw new ToolInputError(violations, context);
+  }
+}
+
+// =============================================================================
+// JSON-RPC 2.0
+// =============================================================================
+let nextRpcId = 1;
+
+function toolCallRequest(toolName: string, input: object): JsonRpcRequest & { id: number } {
+  return { jsonrpc: '2.0', id: nextRpcId++, method: 'tools/call', params: { name: toolName, arguments: input } };
+}
+
+/**
+ * POST /rpc - returns the responses; notifications go to options.onNotification
+ *
+ * An error response with a null id rejects the whole message (parse error,
+ * invalid request) and is thrown.
+ */
+async function postRpc(
+  options: McpClientOptions,
+  body: JsonRpcRequest | JsonRpcRequest[],
+  operation: string,
+  authorization: string | undefined
+): Promise<JsonRpcResponse[]> {
+  const context = { transport: 'mcp' as const, operation };
+  const url = `${options.baseUrl || DEFAULT_MCP_BASE_URL}/rpc`;
+  const done = traceRequest(options, { transport: 'mcp', operation, url, body });
+  let data: unknown;
+  try {
+    const response = await axios.post(url, body, {
+      headers: authHeaders(authorization),
+      timeout: options.timeoutMs ?? 120000,
+    });
+    data = response.data;
+    done({ status: response.status, response: data });
+  } catch (error) {
+    const failure = fromHttpError(error, context);
+    done(failedOutcome(error, failure));
+    throw failure;
+  }
+
+  // 204 / empty body when only notifications were sent
+  const messages = (data === '' || data == null ? [] : Array.isArray(data) ? data : [data]) as Array<
+    Partial<JsonRpcResponse & JsonRpcNotification>
+  >;
+  const responses: JsonRpcResponse[] = [];
+  for (const message of messages) {
+    if (message.id === undefined && typeof message.method === 'string') {
+      options.onNotification?.(message as JsonRpcNotification);
+    } else if (message.id === null && message.error) {
+      throw fromRpcError(message.error, context);
+    } else {
+      responses.push(message as JsonRpcResponse);
+    }
+  }
+  return responses;
+}
+
+/**
+ * Tool output from a tools/call response - the same shape the REST endpoint returns
+ */
+function toolResult<T>(response: JsonRpcResponse | undefined, toolName: string): T {
+  const context = { transport: 'mcp' as const, operation: toolName };
+  if (!response) {
+    throw new LockTripError(`JSON-RPC [${toolName}]: no response to the request`, context);
+  }
+  if (response.error) {
+    throw fromRpcError(response.error, context);
+  }
+
+  const result = response.result as McpToolCallResult;
+  const text = result?.content?.find(c => c.type === 'text')?.text ?? '';
+  if (result?.isError) {
+    throw classifyApiError(`Tool error [${toolName}]: ${text}`, context);
+  }
+  if (result?.structuredContent !== undefined) {
+    return result.structuredContent as T;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new LockTripError(`JSON-RPC [${toolName}]: tool output is not JSON: ${text.slice(0, 100)}`, { ...context, cause: error });
+  }
+}
+
+/**
+ * Several read-only tool calls in one /rpc round trip
+ *
+ * Each method queues a call and returns its promise; send() posts them as one
+ * JSON-RPC batch and settles every promise with its own result or typed
+ * error - one failed call does not fail the others; a call whose input
+ * breaks its schema is rejected with ToolInputError and left out. All queued
+ * tools are retry-safe, so a batch that fails in transit is resent whole.
+ */
+export class McpBatch {
+  private queued: Array<{
+    toolName: McpToolName;
+    input: object;
+    request: JsonRpcRequest & { id: number };
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  constructor(private readonly options: McpClientOptions) {}
+
+  get size(): number {
+    return this.queued.length;
+  }
+
+  searchLocation(input: SearchLocationInput): Promise<SearchLocationOutput> {
+    return this.add('search_location', input);
+  }
+
+  getSearchResults(input: GetSearchResultsInput): Promise<GetSearchResultsOutput> {
+    return this.add('get_search_results', input);
+  }
+
+  getHotelRooms(input: GetHotelRoomsInput): Promise<GetHotelRoomsOutput> {
+    return this.add('get_hotel_rooms', input);
+  }
+
+  checkCancellationPolicy(input: CheckCancellationPolicyInput): Promise<CheckCancellationPolicyOutput> {
+    return this.add('check_cancellation_policy', input);
+  }
+
+  listBookings(input: ListBookingsInput): Promise<ListBookingsOutput> {
+    return this.add('list_bookings', input);
+  }
+
+  getBookingDetails(input: GetBookingDetailsInput): Promise<GetBookingDetailsOutput> {
+    return this.add('get_booking_details', input);
+  }
+
+  getHotelDetails(input: GetHotelDetailsInput): Promise<GetHotelDetailsOutput> {
+    return this.add('get_hotel_details', input);
+  }
+
+  /**
+   * Post every queued call - throws (and rejects them all) only if the batch itself fails
+   */
+  async send(): Promise<void> {
+    const queued = this.queued;
+    this.queued = [];
+    if (queued.length === 0) {
+      return;
+    }
+
+    // Calls with bad input are rejected on their own; failing to fetch the schemas fails the batch
+    const invalid = await Promise.all(queued.map(q =>
+      validateToolInput(this.options, q.toolName, q.input).then(() => undefined, (error: unknown) => error)
+    ));
+    const fatal = invalid.find(error => error && !(error instanceof ToolInputError));
+    if (fatal) {
+      queued.forEach(q => q.reject(fatal));
+      throw fatal;
+    }
+    const valid = queued.filter((q, i) => (invalid[i] ? (q.reject(invalid[i]), false) : true));
+    if (valid.length === 0) {
+      return;
+    }
+
+    const requests = valid.map(q => q.request);
+    const operation = `batch(${valid.map(q => q.toolName).join(', ')})`;
+    let responses: JsonRpcResponse[];
+    try {
+      responses = await withAuth(this.options, authorization =>
+        withRetry(() => postRpc(this.options, requests, operation, authorization), resolveRetryPolicy(this.options.retry), true)
+      );
+    } catch (error) {
+      valid.forEach(q => q.reject(error));
+      throw error;
+    }
+
+    for (const { toolName, request, resolve, reject } of valid) {
+      try {
+        resolve(toolResult(responses.find(r => r.id === request.id), toolName));
+      } catch (error) {
+        reject(error);
+      }
+    }
+  }
+
+  private add<K extends McpToolName>(toolName: K, input: McpToolInputs[K]): Promise<McpToolOutputs[K]> {
+    const promise = new Promise<McpToolOutputs[K]>((resolve, reject) => {
+      this.queued.push({
+        toolName,
+        input,
+        request: toolCallRequest(toolName, input),
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+    // Settled during send(), usually before the caller awaits it - not an unhandled rejection
+    promise.catch(() => {});
+    return promise;
+  }
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+export class LockTripMcpClient {
+  constructor(private readonly options: McpClientOptions = {}) {}
+
+  get baseUrl(): string {
+    return this.options.baseUrl || DEFAULT_MCP_BASE_URL;
+  }
+
+  /**
+   * GET /health - public, no auth
+   */
+  async health(): Promise<Record<string, unknown>> {
+    const response = await axios.get(`${this.baseUrl}/health`, {
+      timeout: this.options.timeoutMs ?? 120000,
+    });
+    return response.data;
+  }
+
+  /**
+   * Open the SSE session (protocol 'sse') and return the server's initialize result
+   */
+  async initialize(): Promise<McpInitializeResult> {
+    if (this.options.protocol !== 'sse') {
+      throw new LockTripError('initialize() needs protocol "sse" - REST and JSON-RPC calls are stateless', { transport: 'mcp' });
+    }
+    return withAuth(this.options, authorization => sseSession(this.options).connect(authorization));
+  }
+
+  /**
+   * GET /tools - public, no auth; tools/list over the session with protocol 'sse'.
+   * Always asks the server - validation keeps its own copy from the first call.
+   */
+  async listTools(): Promise<McpToolDescriptor[]> {
+    return fetchTools(this.options);
+  }
+
+  async searchLocation(input: SearchLocationInput): Promise<SearchLocationOutput> {
+    return mcpTool(this.options, 'search_location', input);
+  }
+
+  async hotelSearch(input: HotelSearchInput): Promise<HotelSearchOutput> {
+    return mcpTool(this.options, 'hotel_search', input);
+  }
+
+  /**
+   * Fetch one page of results - poll until searchStatus=COMPLETED
+   */
+  async getSearchResults(input: GetSearchResultsInput): Promise<GetSearchResultsOutput> {
+    return mcpTool(this.options, 'get_search_results', input);
+  }
+
+  async getHotelRooms(input: GetHotelRoomsInput): Promise<GetHotelRoomsOutput> {
+    return mcpTool(this.options, 'get_hotel_rooms', input);
+  }
+
+  async checkCancellationPolicy(input: CheckCancellationPolicyInput): Promise<CheckCancellationPolicyOutput> {
+    return mcpTool(this.options, 'check_cancellation_policy', input);
+  }
+
+  /**
+   * Create a booking with guest details - does NOT charge
+   */
+  async prepareBooking(input: PrepareBookingInput): Promise<PrepareBookingOutput> {
+    return mcpTool(this.options, 'prepare_booking', input);
+  }
+
+  /**
+   * Confirm a prepared booking - CHARGES CREDIT LINE
+   */
+  async confirmBooking(input: ConfirmBookingInput): Promise<ConfirmBookingOutput> {
+    return mcpTool(this.options, 'confirm_booking', input);
+  }
+
+  async listBookings(input: ListBookingsInput): Promise<ListBookingsOutput> {
+    return mcpTool(this.options, 'list_bookings', input);
+  }
+
+  async getBookingDetails(input: GetBookingDetailsInput): Promise<GetBookingDetailsOutput> {
+    return mcpTool(this.options, 'get_booking_details', input);
+  }
+
+  /**
+   * Cancel a booking - confirmed=false is a dry-run
+   */
+  async cancelBooking(input: CancelBookingInput): Promise<CancelBookingOutput> {
+    return mcpTool(this.options, 'cancel_booking', input);
+  }
+
+  async getHotelDetails(input: GetHotelDetailsInput): Promise<GetHotelDetailsOutput> {
+    return mcpTool(this.options, 'get_hotel_details', input);
+  }
+
+  async getPaymentUrl(input: GetPaymentUrlInput): Promise<GetPaymentUrlOutput> {
+    return mcpTool(this.options, 'get_payment_url', input);
+  }
+
+  /**
+   * Queue read-only calls for one /rpc round trip - whatever the protocol option
+   */
+  batch(): McpBatch {
+    return new McpBatch(this.options);
+  }
+
+  /**
+   * End the SSE session, if one was opened
+   */
+  close(): void {
+    sseSessions.get(this.options)?.close();
+  }
+
+  /**
+   * Send a JSON-RPC notification, e.g. notifications/cancelled - no response.
+   * Goes over the session with protocol 'sse', to /rpc otherwise.
+   */
+  async notify(method: string, params?: object): Promise<void> {
+    await withAuth(this.options, async authorization => {
+      if (this.options.protocol === 'sse') {
+        await sseSession(this.options).notify(method, params, authorization);
+      } else {
+        await postRpc(this.options, { jsonrpc: '2.0', method, params }, method, authorization);
+      }
+    });
+  }
+}
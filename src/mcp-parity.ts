@@ -0,0 +1,201 @@
+/**
+ * LockTrip MCP Server - Protocol Parity Check
+ *
+ * Sends the same read-only tool calls over REST, JSON-RPC and SSE and
+ * compares the outputs, so a difference in the path AI clients use (SSE)
+ * shows up before they do:
+ *
+ * | Call                      | Input                                        |
+ * |---------------------------|----------------------------------------------|
+ * | tools                     | Tool names: GET /tools vs tools/list on SSE  |
+ * | search_location           | The destination                              |
+ * | get_search_results        | Page 0 of one completed search               |
+ * | get_hotel_rooms           | The cheapest hotel of that page              |
+ * | check_cancellation_policy | Its first package                            |
+ * | get_hotel_details         | The same hotel                               |
+ * | list_bookings             | UPCOMING                                     |
+ *
+ * hotel_search runs once, over REST - every call would start a new search
+ * with a new searchKey. Errors count as equal when they are the same class.
+ * Nothing is booked.
+ *
+ * Usage:
+ *
+ *   const results = await checkParity({ mcpUrl, auth, search }, r => console.log(r.tool, r.matches));
+ *   if (results.some(r => !r.matches)) process.exitCode = 1;
+ */
+
+import type { AuthProvider } from './auth';
+import type { Logger } from './logger';
+import { DEFAULT_MCP_BASE_URL, LockTripMcpClient, McpProtocol } from './mcp-client';
+import type { McpRoomOccupancy } from './mcp-types';
+import { pollSearch } from './search-poller';
+
+export interface ParityOptions {
+  mcpUrl?: string;  // With /mcp (default: https://locktrip.com/mcp)
+  auth: AuthProvider;
+  search: {
+    destination: string;
+    startDate: string;  // YYYY-MM-DD
+    endDate: string;
+    rooms: McpRoomOccupancy[];
+    currency: string;
+    nationality: string;
+  };
+  timeoutMs?: number;
+
+  // Requests of each protocol, tagged with it
+  logger?: Logger;
+}
+
+export interface ProtocolOutcome {
+  durationMs: number;
+  error?: string;  // Class and message, when the call threw
+  difference?: string;  // First difference from REST, e.g. "$.hotels[0].price: 10 ≠ 12"
+}
+
+export interface ParityResult {
+  tool: string;
+  outcomes: Record<McpProtocol, ProtocolOutcome>;
+  matches: boolean;
+}
+
+export const PARITY_PROTOCOLS: McpProtocol[] = ['rest', 'rpc', 'sse'];
+
+const show = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? 'undefined' : text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+/**
+ * Path and values of the first difference between two JSON values - null if equal
+ */
+export function firstDifference(expected: unknown, actual: unknown, path = '$'): string | null {
+  if (Object.is(expected, actual)) {
+    return null;
+  }
+  if (typeof expected !== 'object' || typeof actual !== 'object' || expected === null || actual === null ||
+      Array.isArray(expected) !== Array.isArray(actual)) {
+    return `${path}: ${show(expected)} ≠ ${show(actual)}`;
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      const difference = firstDifference(expected[i], actual[i], `${path}[${i}]`);
+      if (difference) {
+        return difference;
+      }
+    }
+    return null;
+  }
+
+  const a = expected as Record<string, unknown>;
+  const b = actual as Record<string, unknown>;
+  for (const key of [...new Set([...Object.keys(a), ...Object.keys(b)])].sort()) {
+    const difference = firstDifference(a[key], b[key], `${path}.${key}`);
+    if (difference) {
+      return difference;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run every call over each protocol - onResult sees each result as soon as it is known
+ */
+export async function checkParity(options: ParityOptions, onResult?: (result: ParityResult) => void): Promise<ParityResult[]> {
+  const clients = Object.fromEntries(PARITY_PROTOCOLS.map(protocol => [protocol, new LockTripMcpClient({
+    baseUrl: options.mcpUrl || DEFAULT_MCP_BASE_URL,
+    auth: options.auth,
+    timeoutMs: options.timeoutMs,
+    protocol,
+    logger: options.logger?.child({ protocol }),
+  })])) as Record<McpProtocol, LockTripMcpClient>;
+  const results: ParityResult[] = [];
+
+  // REST's output is the reference the others are compared with
+  const compare = async <T>(tool: string, call: (client: LockTripMcpClient) => Promise<T>): Promise<T | undefined> => {
+    const outputs: Partial<Record<McpProtocol, { value?: T; error?: Error }>> = {};
+    const outcomes = {} as Record<McpProtocol, ProtocolOutcome>;
+
+    for (const protocol of PARITY_PROTOCOLS) {
+      const started = Date.now();
+      try {
+        outputs[protocol] = { value: await call(clients[protocol]) };
+      } catch (error) {
+        outputs[protocol] = { error: error as Error };
+      }
+      const { error } = outputs[protocol]!;
+      outcomes[protocol] = { durationMs: Date.now() - started, error: error && `${error.name}: ${error.message}` };
+    }
+
+    const reference = outputs.rest!;
+    for (const protocol of PARITY_PROTOCOLS.filter(p => p !== 'rest')) {
+      const { value, error } = outputs[protocol]!;
+      outcomes[protocol].difference = reference.error || error
+        ? (reference.error?.name === error?.name ? undefined : `${reference.error?.name ?? 'result'} ≠ ${error?.name ?? 'result'}`)
+        : firstDifference(reference.value, value) ?? undefined;
+    }
+
+    const result = { tool, outcomes, matches: PARITY_PROTOCOLS.every(p => !outcomes[p].difference) };
+    results.push(result);
+    onResult?.(result);
+    return reference.value;
+  };
+
+  try {
+    await compare('tools', async client => (await client.listTools()).map(t => t.name).sort());
+
+    const { search } = options;
+    const found = await compare('search_location', client => client.searchLocation({ query: search.destination }));
+    const regionId = found?.locations.find(l => l.type === 'REGION' || l.type === 'CITY')?.id;
+    if (!regionId) {
+      return results;
+    }
+
+    const rest = clients.rest;
+    const { searchKey } = await rest.hotelSearch({
+      regionId,
+      startDate: search.startDate,
+      endDate: search.endDate,
+      rooms: search.rooms,
+      currency: search.currency,
+      nationality: search.nationality,
+    });
+    const page = { searchKey, page: 0, size: 20, sortBy: 'PRICE_ASC' as const, filters: {} };
+    await pollSearch(async () => {
+      const result = await rest.getSearchResults(page);
+      return { result, count: result.hotels.length, total: result.totalCount, completed: result.searchStatus === 'COMPLETED' };
+    });
+
+    const hotelId = (await compare('get_search_results', client => client.getSearchResults(page)))?.hotels[0]?.hotelId;
+    if (!hotelId) {
+      return results;
+    }
+
+    const rooms = await compare('get_hotel_rooms', client => client.getHotelRooms({
+      hotelId,
+      searchKey,
+      startDate: search.startDate,
+      endDate: search.endDate,
+      rooms: search.rooms,
+      nationality: search.nationality,
+      regionId,
+      currency: search.currency,
+    }));
+    const quoteId = rooms?.packages[0]?.quoteId;
+    if (quoteId) {
+      await compare('check_cancellation_policy', client => client.checkCancellationPolicy({
+        searchKey,
+        hotelId,
+        packageIds: [quoteId.split('_')[0]],
+      }));
+    }
+
+    await compare('get_hotel_details', client => client.getHotelDetails({ hotelId: Number(hotelId), includeImages: false }));
+    await compare('list_bookings', client => client.listBookings({ type: 'UPCOMING' }));
+    return results;
+  } finally {
+    clients.sse.close();
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * LockTrip MCP Server - Tool Schemas
+ *
+ * GET /mcp/tools lists every tool with a JSON Schema for its input (and, on
+ * newer servers, its output). The client checks each call's arguments
+ * against the input schema before sending, so a misspelt field or a
+ * DD/MM/YYYY date fails locally with the path at fault instead of as an
+ * opaque server error. Only the keywords the tool list uses are checked:
+ *
+ * | Keyword                     | Example                                   |
+ * |-----------------------------|-------------------------------------------|
+ * | type (or a list)            | ['string', 'null']; integer is whole only |
+ * | properties / required       | Nested, reported as $.rooms[0].guests     |
+ * | additionalProperties: false | "hotelID" instead of "hotelId"            |
+ * | items / minItems            | At least one room                         |
+ * | enum                        | sortBy, paymentMethod                     |
+ * | minimum / maximum           | latitude, child age 0-17                  |
+ * | minLength / pattern         | YYYY-MM-DD dates, packageId without "_"   |
+ * | anyOf                       | regionId OR latitude+longitude            |
+ *
+ * Other keywords are ignored. generateToolTypes() renders the same schemas
+ * as TypeScript - see generate-mcp-types.ts.
+ *
+ * Usage:
+ *
+ *   const violations = validateSchema(input, tool.inputSchema);
+ *   const source = generateToolTypes(await client.listTools(), client.baseUrl);
+ */
+
+import type { JsonSchema, McpToolDescriptor } from './mcp-types';
+
+export interface SchemaViolation {
+  path: string;  // e.g. $.rooms[0].guests[1].firstName
+  message: string;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const typesOf = (schema: JsonSchema): string[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+const show = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+/**
+ * Every way `value` breaks `schema` - empty when it is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  const types = typesOf(schema);
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    fail(`expected ${types.join(' or ')}, got ${typeOf(value)} ${show(value)}`);
+    return violations;
+  }
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    fail(`expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${show(value)}`);
+    return violations;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`${value} is below the minimum of ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`${value} is above the maximum of ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(value === '' ? 'must not be empty' : `shorter than ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail(`${show(value)} does not match ${schema.description || schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`needs at least ${schema.minItems} item(s), got ${value.length}`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => violations.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const fields = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (fields[key] === undefined) {
+        violations.push({ path: `${path}.${key}`, message: 'required' });
+      }
+    }
+    for (const [key, field] of Object.entries(fields)) {
+      const property = schema.properties?.[key];
+      if (property && field !== undefined) {
+        violations.push(...validateSchema(field, property, `${path}.${key}`));
+      } else if (!property && schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: `unknown field - expected ${Object.keys(schema.properties ?? {}).join(', ')}` });
+      }
+    }
+  }
+
+  // e.g. anyOf [{ required: [regionId] }, { required: [latitude, longitude] }]
+  if (schema.anyOf && !schema.anyOf.some(option => validateSchema(value, option, path).length === 0)) {
+    const needs = schema.anyOf.map(option => option.required?.join(' + ')).filter(Boolean);
+    fail(needs.length === schema.anyOf.length
+      ? `needs ${needs.join(' or ')}`
+      : `matches none of the ${schema.anyOf.length} allowed forms`);
+  }
+
+  return violations;
+}
+
+// =============================================================================
+// TYPESCRIPT GENERATION
+// =============================================================================
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Single-quoted like the rest of the code base
+const literal = (value: unknown) =>
+  typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const lines = properties.map(([key, property]) => {
+    const name = IDENTIFIER.test(key) ? key : literal(key);
+    const comment = property.description ? `  // ${property.description}` : '';
+    return `${indent}  ${name}${required.has(key) ? '' : '?'}: ${renderType(property, `${indent}  `)};${comment}`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * TypeScript type for a schema - unknown where the schema says nothing
+ */
+export function renderType(schema: JsonSchema | undefined, indent = ''): string {
+  if (!schema) {
+    return 'unknown';
+  }
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+
+  const types = typesOf(schema);
+  if (types.length === 0) {
+    // anyOf of typed alternatives is a union; anyOf of required-lists only constrains values
+    const typed = schema.anyOf?.filter(option => option.type || option.enum) ?? [];
+    return typed.length > 0 ? typed.map(option => renderType(option, indent)).join(' | ') : 'unknown';
+  }
+
+  return types.map(type => {
+    switch (type) {
+      case 'string':
+      case 'boolean':
+      case 'null':
+        return type;
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'array': {
+        const item = renderType(schema.items, indent);
+        return IDENTIFIER.test(item) ? `${item}[]` : `Array<${item}>`;
+      }
+      case 'object':
+        return renderObject(schema, indent);
+      default:
+        return 'unknown';
+    }
+  }).join(' | ');
+}
+
+/**
+ * Source of src/mcp-tool-types.ts - one input and one output entry per listed tool
+ */
+export function generateToolTypes(tools: McpToolDescriptor[], source: string): string {
+  const entries = (schemaOf: (tool: McpToolDescriptor) => JsonSchema | undefined) =>
+    tools.map(tool => {
+      const comment = schemaOf(tool) ? '' : '  // No schema published';
+      return `  ${tool.name}: ${renderType(schemaOf(tool), '  ')};${comment}`;
+    }).join('\n');
+
+  return `/**
+ * LockTrip MCP Server - Generated Tool Types
+ *
+ * GENERATED by generate-mcp-types.ts from GET ${source}/tools - do not edit.
+ *
+ * mcpTool() takes its argument and result types from here, so when the
+ * server's schemas drift from the hand-written types in ./mcp-types, the
+ * typed client methods stop compiling. Regenerate after a server change:
+ *
+ *   MCP_BASE_URL=${source} npx tsx generate-mcp-types.ts
+ */
+
+export interface McpToolInputs {
+${entries(tool => tool.inputSchema)}
+}
+
+export interface McpToolOutputs {
+${entries(tool => tool.outputSchema)}
+}
+
+export type McpToolName = keyof McpToolInputs & keyof McpToolOutputs;
+`;
+}
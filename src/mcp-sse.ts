@@ -0,0 +1,383 @@
+/**
+ * LockTrip MCP Server - SSE Session
+ *
+ * The transport Claude Desktop uses (MCP HTTP+SSE, protocol 2024-11-05).
+ * Requests and responses travel separately:
+ *
+ * | Step | Client                                 | Server                               |
+ * |------|----------------------------------------|--------------------------------------|
+ * | 1    | GET /sse (Accept: text/event-stream)   | event: endpoint, data: /messages?... |
+ * | 2    | POST initialize to the endpoint        | 202, then event: message (result)    |
+ * | 3    | POST notifications/initialized         | 202                                  |
+ * | 4    | POST tools/list, tools/call, ...       | 202, then event: message per answer  |
+ *
+ * Responses are matched to requests by JSON-RPC id. When the stream drops,
+ * pending requests fail with a retryable TransportError and the session
+ * reconnects with backoff, repeating the handshake. Server pings are
+ * answered; other server notifications go to onNotification.
+ *
+ * The open stream does not keep the process alive on its own - only
+ * requests waiting for an answer do - so close() is optional.
+ *
+ * Usage (normally through LockTripMcpClient with protocol: 'sse'):
+ *
+ *   const session = new McpSseSession({ baseUrl: 'https://locktrip.com/mcp' });
+ *   const { serverInfo } = await session.connect('Bearer eyJ...');
+ *   const response = await session.request('tools/list', {}, 'Bearer eyJ...');
+ *   session.close();
+ */
+
+import axios from 'axios';
+import type { IncomingMessage } from 'http';
+import { fromHttpError, fromRpcError, LockTripError, TransportError } from './errors';
+import type { JsonRpcNotification, JsonRpcRequest, JsonRpcResponse, McpInitializeResult } from './mcp-types';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+
+export interface McpSseOptions {
+  // MCP base URL including the /mcp suffix - the stream is {baseUrl}/sse
+  baseUrl: string;
+
+  // Per request and for the handshake (default: 120000)
+  timeoutMs?: number;
+
+  // Backoff between connection attempts - false tries once
+  reconnect?: Partial<RetryPolicy> | false;
+
+  // Sent with initialize (default: locktrip-client)
+  clientInfo?: { name: string; version: string };
+
+  // Server messages without an id, e.g. notifications/tools/list_changed
+  onNotification?: (notification: JsonRpcNotification) => void;
+}
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+// Versions whose SSE transport and tool calls this session understands
+const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+const DEFAULT_CLIENT_INFO = { name: 'locktrip-client', version: '1.0.0' };
+
+// =============================================================================
+// EVENT STREAM
+// =============================================================================
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * text/event-stream parser - feed it chunks, get back complete events
+ */
+class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+
+  push(chunk: string): SseEvent[] {
+    const lines = (this.buffer + chunk).split('\n');
+    this.buffer = lines.pop()!;  // Incomplete line - wait for the rest
+
+    const events: SseEvent[] = [];
+    for (const raw of lines) {
+      const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      if (line === '') {
+        if (this.data.length > 0) {
+          events.push({ event: this.event || 'message', data: this.data.join('\n') });
+        }
+        this.event = '';
+        this.data = [];
+      } else if (!line.startsWith(':')) {  // ":" lines are comments / keep-alives
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') {
+          this.event = value;
+        } else if (field === 'data') {
+          this.data.push(value);
+        }
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * Read a streamed error body so fromHttpError sees text, not a socket
+ */
+async function readErrorBody(error: unknown): Promise<unknown> {
+  if (!axios.isAxiosError(error) || !error.response || typeof error.response.data?.on !== 'function') {
+    return error;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of error.response.data as IncomingMessage) {
+    chunks.push(Buffer.from(chunk));
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    error.response.data = JSON.parse(text);
+  } catch {
+    error.response.data = text;
+  }
+  return error;
+}
+
+// =============================================================================
+// SESSION
+// =============================================================================
+interface Pending {
+  operation: string;
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: unknown) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class McpSseSession {
+  private ready: Promise<McpInitializeResult> | null = null;
+  private authorization: string | undefined;
+  private stream: AbortController | null = null;
+  private endpoint: string | null = null;
+  private live = false;  // Handshake done and the stream still open
+  private closed = false;
+  private connects = 0;
+  private nextId = 1;
+  private readonly pending = new Map<number, Pending>();
+
+  constructor(private readonly options: McpSseOptions) {}
+
+  /**
+   * How often the stream was re-opened after dropping
+   */
+  get reconnects(): number {
+    return Math.max(0, this.connects - 1);
+  }
+
+  /**
+   * Open the stream and run the handshake - a live session with the same token is reused
+   */
+  connect(authorization?: string): Promise<McpInitializeResult> {
+    if (this.closed) {
+      return Promise.reject(new LockTripError('SSE session is closed', { transport: 'mcp', operation: 'sse' }));
+    }
+    if (!this.ready || authorization !== this.authorization) {
+      this.authorization = authorization;
+      const ready = withRetry(() => this.open(authorization), resolveRetryPolicy(this.options.reconnect), true);
+      ready.catch(() => {
+        if (this.ready === ready) {
+          this.ready = null;
+        }
+      });
+      this.ready = ready;
+    }
+    return this.ready;
+  }
+
+  /**
+   * Send a request over the session and wait for its response on the stream
+   */
+  async request(method: string, params: object, authorization?: string): Promise<JsonRpcResponse> {
+    await this.connect(authorization);
+    return this.send(method, params, authorization);
+  }
+
+  /**
+   * Send a notification over the session - nothing comes back
+   */
+  async notify(method: string, params: object | undefined, authorization?: string): Promise<void> {
+    await this.connect(authorization);
+    await this.post({ jsonrpc: '2.0', method, params }, authorization, method);
+  }
+
+  /**
+   * Close the stream - pending requests fail, later calls throw
+   */
+  close(): void {
+    this.closed = true;
+    this.teardown(new LockTripError('SSE session closed', { transport: 'mcp', operation: 'sse' }));
+  }
+
+  private async open(authorization: string | undefined): Promise<McpInitializeResult> {
+    this.teardown(new TransportError('SSE session replaced', { transport: 'mcp', operation: 'sse' }));
+    const context = { transport: 'mcp' as const, operation: 'sse' };
+    const timeoutMs = this.options.timeoutMs ?? 120000;
+    const stream = new AbortController();
+    this.stream = stream;
+
+    // No axios timeout - it would cut the idle stream; the handshake is bounded instead
+    const timer = setTimeout(() => stream.abort(), timeoutMs);
+    try {
+      let response;
+      try {
+        response = await axios.get<IncomingMessage>(`${this.options.baseUrl}/sse`, {
+          headers: { Accept: 'text/event-stream', ...(authorization ? { Authorization: authorization } : {}) },
+          responseType: 'stream',
+          signal: stream.signal,
+        });
+      } catch (error) {
+        throw stream.signal.aborted
+          ? new TransportError(`No SSE stream within ${timeoutMs}ms`, { ...context, cause: error })
+          : fromHttpError(await readErrorBody(error), context);
+      }
+
+      const body = response.data;
+      body.setEncoding('utf8');
+      body.socket?.unref();
+
+      const parser = new SseParser();
+      this.endpoint = await new Promise<string>((resolve, reject) => {
+        body.on('data', (chunk: string) => {
+          for (const event of parser.push(chunk)) {
+            if (event.event === 'endpoint') {
+              resolve(new URL(event.data, this.options.baseUrl).href);
+            } else if (event.event === 'message') {
+              this.receive(event.data);
+            }
+          }
+        });
+        body.on('error', () => {});  // 'close' follows and handles it
+        body.on('close', () => {
+          reject(new TransportError('SSE stream closed before the endpoint event', context));
+          this.lost(stream);
+        });
+      });
+
+      const initialize = await this.send('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.options.clientInfo || DEFAULT_CLIENT_INFO,
+      }, authorization);
+      if (initialize.error) {
+        throw fromRpcError(initialize.error, { ...context, operation: 'initialize' });
+      }
+
+      const result = initialize.result as McpInitializeResult;
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new LockTripError(
+          `Server speaks MCP ${result.protocolVersion}, this client ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+          { ...context, operation: 'initialize' }
+        );
+      }
+      if (!result.capabilities?.tools) {
+        throw new LockTripError('Server does not offer the tools capability', { ...context, operation: 'initialize' });
+      }
+
+      await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' }, authorization, 'initialize');
+      this.live = true;
+      this.connects++;
+      return result;
+    } catch (error) {
+      if (this.stream === stream) {
+        this.teardown(error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private send(method: string, params: object, authorization: string | undefined): Promise<JsonRpcResponse> {
+    const id = this.nextId++;
+    const operation = method === 'tools/call' ? String((params as { name?: string }).name) : method;
+    const timeoutMs = this.options.timeoutMs ?? 120000;
+
+    const response = new Promise<JsonRpcResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TransportError(`No response on the SSE stream within ${timeoutMs}ms`, { transport: 'mcp', operation }));
+      }, timeoutMs);
+      this.pending.set(id, { operation, resolve, reject, timer });
+    });
+
+    this.post({ jsonrpc: '2.0', id, method, params }, authorization, operation).catch(error => {
+      const pending = this.pending.get(id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(id);
+        pending.reject(error);
+      }
+    });
+    return response;
+  }
+
+  /**
+   * POST a message to the session endpoint - the answer arrives on the stream
+   */
+  private async post(message: JsonRpcRequest | JsonRpcResponse, authorization: string | undefined, operation: string): Promise<void> {
+    const context = { transport: 'mcp' as const, operation };
+    if (!this.endpoint) {
+      throw new TransportError('SSE session is not connected', context);
+    }
+    try {
+      await axios.post(this.endpoint, message, {
+        headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+        timeout: this.options.timeoutMs ?? 120000,
+      });
+    } catch (error) {
+      // The server forgot the session (restart, idle timeout) - start a new one
+      if (axios.isAxiosError(error) && error.response?.status === 404 && this.stream) {
+        this.lost(this.stream);
+        throw new TransportError('SSE session expired on the server', { ...context, status: 404, cause: error });
+      }
+      throw fromHttpError(error, context);
+    }
+  }
+
+  /**
+   * One `message` event - a response, a server notification or a server request
+   */
+  private receive(data: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return;  // Not JSON-RPC
+    }
+
+    for (const message of (Array.isArray(parsed) ? parsed : [parsed]) as Array<Partial<JsonRpcResponse & JsonRpcRequest>>) {
+      if (message.method === undefined) {
+        const pending = this.pending.get(message.id as number);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pending.delete(message.id as number);
+          pending.resolve(message as JsonRpcResponse);
+        }
+      } else if (message.id === undefined) {
+        this.options.onNotification?.(message as JsonRpcNotification);
+      } else {
+        const answer: JsonRpcResponse = message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+        this.post(answer, this.authorization, message.method).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * The stream ended - fail what is pending and, if the session was up, reconnect
+   */
+  private lost(stream: AbortController): void {
+    if (this.stream !== stream) {
+      return;  // Already replaced or closed
+    }
+    const wasLive = this.live;
+    this.teardown(new TransportError('SSE stream closed', { transport: 'mcp', operation: 'sse' }));
+
+    if (wasLive && !this.closed) {
+      this.ready = null;
+      this.connect(this.authorization).catch(() => {});
+    }
+  }
+
+  private teardown(reason: unknown): void {
+    const stream = this.stream;
+    this.stream = null;
+    this.endpoint = null;
+    this.live = false;
+    stream?.abort();
+
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(reason);
+    }
+    this.pending.clear();
+  }
+}
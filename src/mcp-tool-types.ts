@@ -0,0 +1,342 @@
+/**
+ * LockTrip MCP Server - Generated Tool Types
+ *
+ * GENERATED by generate-mcp-types.ts from GET http://127.0.0.1:4600/mcp/tools - do not edit.
+ *
+ * mcpTool() takes its argument and result types from here, so when the
+ * server's schemas drift from the hand-written types in ./mcp-types, the
+ * typed client methods stop compiling. Regenerate after a server change:
+ *
+ *   MCP_BASE_URL=http://127.0.0.1:4600/mcp npx tsx generate-mcp-types.ts
+ */
+
+export interface McpToolInputs {
+  search_location: {
+    query: string;
+  };
+  hotel_search: {
+    regionId?: string;
+    latitude?: number;
+    longitude?: number;
+    radiusInMeters?: number;  // Default: 30000
+    startDate: string;  // YYYY-MM-DD
+    endDate: string;  // YYYY-MM-DD
+    rooms: Array<{
+      adults: number;
+      childrenAges: number[];
+    }>;
+    currency: string;  // ISO 4217, e.g. EUR
+    nationality: string;  // ISO 3166-1 alpha-2, e.g. US
+  };
+  get_search_results: {
+    searchKey: string;
+    page: number;  // 0-indexed
+    size: number;
+    sortBy: 'PRICE_ASC' | 'PRICE_DESC' | 'RATING_DESC' | 'DISTANCE';
+    filters: Record<string, unknown>;
+  };
+  get_hotel_rooms: {
+    hotelId: string;
+    searchKey: string;
+    startDate: string;  // YYYY-MM-DD
+    endDate: string;  // YYYY-MM-DD
+    rooms: Array<{
+      adults: number;
+      childrenAges: number[];
+    }>;
+    nationality: string;  // ISO 3166-1 alpha-2, e.g. US
+    regionId: string;
+    currency: string;  // ISO 4217, e.g. EUR
+  };
+  check_cancellation_policy: {
+    searchKey: string;
+    hotelId: string;
+    packageIds: string[];
+  };
+  prepare_booking: {
+    quoteId: string;
+    rooms: Array<{
+      roomIndex: number;
+      guests: Array<{
+        firstName: string;
+        lastName: string;
+        title?: 'Mr' | 'Mrs' | 'Ms';
+        isLeadGuest?: boolean;
+      }>;
+      children?: Array<{
+        firstName: string;
+        lastName: string;
+        age: number;
+      }>;
+    }>;
+    contactPerson: {
+      firstName: string;
+      lastName: string;
+      email: string;
+      phone: string;
+      title?: 'Mr' | 'Mrs' | 'Ms';
+    };
+  };
+  confirm_booking: {
+    bookingInternalId: string;
+    quoteId: string;
+    paymentMethod: 'CREDIT_LINE';
+  };
+  list_bookings: {
+    type: 'UPCOMING' | 'COMPLETED' | 'CANCELLED' | 'PENDING' | 'ALL';
+  };
+  get_booking_details: {
+    bookingId: string;
+  };
+  cancel_booking: {
+    bookingId: string;
+    confirmed: boolean;  // false is a dry-run
+    reason?: string;
+  };
+  get_hotel_details: {
+    hotelId: number;  // A NUMBER here - externalId from search results
+    language?: string;
+    includeImages?: boolean;
+    imageLimit?: number;
+  };
+  get_payment_url: {
+    bookingId: string;
+    currency: string;  // ISO 4217, e.g. EUR
+    backUrl: string;
+    successUrl?: string;
+  };
+}
+
+export interface McpToolOutputs {
+  search_location: {
+    locations: Array<{
+      id: string;
+      name: string;
+      country: string;
+      type: string;
+      fullName: string;
+    }>;
+  };
+  hotel_search: {
+    searchKey: string;
+    sessionId: string;
+    status: string;
+  };
+  get_search_results: {
+    hotels: Array<{
+      hotelId: string;
+      name: string;
+      starRating: number;
+      address: string;
+      latitude: number;
+      longitude: number;
+      images: string[];
+      amenities: string[];
+      minPrice: number;
+      originalPrice: number | null;
+      currency: string;
+      discountScore: number;
+      distance: number;
+      boardType: string | null;
+      payment: string;
+      quality: number;
+      reviewScore: number | null;
+      reviewCount: number | null;
+      hasFreeCancellation: boolean;
+      isRefundable: boolean;
+      refundableUntil: string | null;
+      availableMealTypes: string[];
+    }>;
+    totalCount: number;
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+    searchStatus: string;  // IN_PROGRESS or COMPLETED
+  };
+  get_hotel_rooms: {
+    hotelId: string;
+    hotelName: string;
+    searchKey: string;
+    packages: Array<{
+      quoteId: string;
+      packageId: string;
+      roomName: string;
+      roomDescription: string;
+      mealType: string;
+      mealDescription: string;
+      bedType: string | null;
+      maxOccupancy: number;
+      amenities: string[];
+      price: number;
+      currency: string;
+      pricePerNight: number;
+      totalNights: number;
+      isRefundable: boolean;
+      cancellationDeadline: string | null;
+      provider: string | null;
+    }>;
+    checkIn: string;
+    checkOut: string;
+  };
+  check_cancellation_policy: {
+    hotelId: string;
+    policies: Array<{
+      packageId: string;
+      isRefundable: boolean;
+      freeCancellationUntil?: string | null;
+      fees: Array<{
+        fromDate: string;
+        toDate?: string | null;
+        amount: number;
+        currency: string;
+        percentage?: number;
+        description?: string;
+      }>;
+      remarks?: string[];
+    }>;
+  };
+  prepare_booking: {
+    preparedBookingId: string;
+    bookingInternalId: string;
+    price: number;
+    currency: string;
+    payment: string;
+    discount: {
+      amount: number;
+      currency: string;
+    } | null;
+    taxes: Array<{
+      feeTitle: string;
+      value: string;
+      currency: string;
+      isIncludedInPrice: boolean;
+    }>;
+    essentialInformation: string[];
+  };
+  confirm_booking: {
+    accepted: boolean;
+    message?: string | null;
+    voucherUrl?: string;
+  };
+  list_bookings: {
+    bookings: Array<{
+      bookingId: string;
+      bookingReferenceId: string;
+      hotelName: string;
+      hotelCity: string;
+      checkIn: string;
+      checkOut: string;
+      status: string;
+      totalPrice: number;
+      currency: string;
+      guestName: string;
+      roomCount: number;
+      createdAt: string;
+    }>;
+    totalCount: number;
+    page: number;
+    pageSize: number;
+  };
+  get_booking_details: {
+    bookingId: string;
+    bookingReferenceId: string;
+    providerReference: string | null;
+    status: string;
+    hotel: {
+      id: string;
+      name: string;
+      address: string;
+      city: string;
+      country: string;
+      phone: string | null;
+      email: string | null;
+      starRating: number;
+    };
+    checkIn: string;
+    checkOut: string;
+    rooms: Array<{
+      roomName: string;
+      mealType: string;
+      guests: Array<{
+        firstName: string;
+        lastName: string;
+      }>;
+      price: number;
+    }>;
+    contactPerson: {
+      firstName: string;
+      lastName: string;
+      email: string;
+      phone: string;
+    };
+    totalPrice: number;
+    currency: string;
+    paymentStatus: string;
+    cancellationPolicy: {
+      isRefundable: boolean;
+      freeCancellationUntil: string | null;
+      fees: Array<{
+        fromDate: string;
+        amount: number;
+        currency: string;
+      }>;
+    } | null;
+    specialRequests: string | null;
+    createdAt: string;
+    confirmedAt: string | null;
+  };
+  cancel_booking: {
+    success: boolean;
+    refundAmount?: number;
+    refundCurrency?: string;
+    cancellationFee?: number;
+    message: string;
+    cancellationReference?: string;
+  };
+  get_hotel_details: {
+    hotel: {
+      id: number;
+      name: string;
+      country: string;
+      city: string;
+      star: number;
+      address: string;
+      latitude: number;
+      longitude: number;
+      description: string;
+      phone: string | null;
+      countryCode: string;
+      hotelPhotos: Array<{
+        url: string;
+      }>;
+      reviews: {
+        scoreSummary: string | null;
+        commentSummary: string | null;
+        reviewsCount: number | null;
+        keyWords: Array<{
+          name: string;
+          reviewsCount: number;
+          score: number;
+          comments: string[];
+        }>;
+      } | null;
+      hotelAmenities: Array<{
+        hotelId: number;
+        categoryName: string;
+        features: Array<{
+          _id: string;
+          name: string;
+        }>;
+      }>;
+    };
+    additionalImages: Array<{
+      url: string;
+    }>;
+  };
+  get_payment_url: {
+    url: string;
+    sessionId: string;
+  };
+}
+
+export type McpToolName = keyof McpToolInputs & keyof McpToolOutputs;
@@ -0,0 +1,470 @@
+/**
+ * LockTrip MCP Server - Tool Input/Output Types
+ *
+ * Typed shapes for the 12 tools documented in MCP_INTEGRATION.md.
+ *
+ * CRITICAL: MCP dates are YYYY-MM-DD (ISO), pages are 0-indexed and
+ * hotelId is a STRING (except get_hotel_details, which takes a NUMBER).
+ *
+ * The client checks these against ./mcp-tool-types, generated from the
+ * server's schemas - a field that drifts from the server fails to compile.
+ */
+
+// =============================================================================
+// SHARED
+// =============================================================================
+export type McpGuestTitle = 'Mr' | 'Mrs' | 'Ms';
+
+export interface McpRoomOccupancy {
+  adults: number;
+  childrenAges: number[];
+}
+
+// =============================================================================
+// search_location
+// =============================================================================
+export interface SearchLocationInput {
+  query: string;
+}
+
+export interface McpLocation {
+  id: string;
+  name: string;
+  country: string;
+  type: 'REGION' | 'CITY' | 'HOTEL' | string;
+  fullName: string;
+}
+
+export interface SearchLocationOutput {
+  locations: McpLocation[];
+}
+
+// =============================================================================
+// hotel_search
+// =============================================================================
+
+/**
+ * Either regionId OR latitude+longitude must be provided
+ */
+export interface HotelSearchInput {
+  regionId?: string;
+  latitude?: number;
+  longitude?: number;
+  radiusInMeters?: number;
+  startDate: string;  // YYYY-MM-DD
+  endDate: string;    // YYYY-MM-DD
+  rooms: McpRoomOccupancy[];
+  currency: string;
+  nationality: string;
+}
+
+export interface HotelSearchOutput {
+  searchKey: string;
+  sessionId: string;
+  status: string;
+}
+
+// =============================================================================
+// get_search_results
+// =============================================================================
+export type McpSortBy = 'PRICE_ASC' | 'PRICE_DESC' | 'RATING_DESC' | 'DISTANCE';
+
+export interface GetSearchResultsInput {
+  searchKey: string;
+  page: number;  // 0-indexed
+  size: number;
+  sortBy: McpSortBy;
+  filters: Record<string, unknown>;
+}
+
+export interface McpHotel {
+  hotelId: string;
+  name: string;
+  starRating: number;
+  address: string;
+  latitude: number;
+  longitude: number;
+  images: string[];
+  amenities: string[];
+  minPrice: number;
+  originalPrice: number | null;
+  currency: string;
+  discountScore: number;
+  distance: number;
+  boardType: string | null;
+  payment: string;
+  quality: number;
+  reviewScore: number | null;
+  reviewCount: number | null;
+  hasFreeCancellation: boolean;
+  isRefundable: boolean;
+  refundableUntil: string | null;
+  availableMealTypes: string[];
+}
+
+export interface GetSearchResultsOutput {
+  hotels: McpHotel[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  searchStatus: 'IN_PROGRESS' | 'COMPLETED' | string;
+}
+
+// =============================================================================
+// get_hotel_rooms
+// =============================================================================
+export interface GetHotelRoomsInput {
+  hotelId: string;  // MCP accepts string
+  searchKey: string;
+  startDate: string;
+  endDate: string;
+  rooms: McpRoomOccupancy[];
+  nationality: string;
+  regionId: string;
+  currency: string;
+}
+
+export interface McpRoomPackage {
+  quoteId: string;
+  packageId: string;  // Same as quoteId - use quoteId.split('_')[0] for policies
+  roomName: string;
+  roomDescription: string;
+  mealType: string;
+  mealDescription: string;
+  bedType: string | null;
+  maxOccupancy: number;
+  amenities: string[];
+  price: number;
+  currency: string;
+  pricePerNight: number;
+  totalNights: number;
+  isRefundable: boolean;
+  cancellationDeadline: string | null;
+  provider: string | null;
+}
+
+export interface GetHotelRoomsOutput {
+  hotelId: string;
+  hotelName: string;  // May be empty - use name from search results
+  searchKey: string;  // May be updated - always use the returned value
+  packages: McpRoomPackage[];
+  checkIn: string;
+  checkOut: string;
+}
+
+// =============================================================================
+// check_cancellation_policy
+// =============================================================================
+export interface CheckCancellationPolicyInput {
+  searchKey: string;
+  hotelId: string;
+  packageIds: string[];  // quoteId.split('_')[0], NOT full quoteId
+}
+
+export interface McpCancellationFee {
+  fromDate: string;
+  toDate?: string | null;
+  amount: number;
+  currency: string;
+  percentage?: number;
+  description?: string;
+}
+
+export interface McpCancellationPolicy {
+  packageId: string;
+  isRefundable: boolean;
+  freeCancellationUntil?: string | null;
+  fees: McpCancellationFee[];
+  remarks?: string[];
+}
+
+export interface CheckCancellationPolicyOutput {
+  hotelId: string;
+  policies: McpCancellationPolicy[];
+}
+
+// =============================================================================
+// prepare_booking
+// =============================================================================
+export interface McpGuest {
+  firstName: string;
+  lastName: string;
+  title?: McpGuestTitle;  // Defaults to Mr
+  isLeadGuest?: boolean;
+}
+
+export interface McpChildGuest {
+  firstName: string;
+  lastName: string;
+  age: number;  // 0-17, must match childrenAges from the search
+}
+
+export interface McpContactPerson {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  title?: McpGuestTitle;
+}
+
+/**
+ * MCP uses rooms[].guests[] structure (NOT rooms[].adults[])
+ */
+export interface PrepareBookingInput {
+  quoteId: string;
+  rooms: Array<{
+    roomIndex: number;
+    guests: McpGuest[];
+    children?: McpChildGuest[];
+  }>;
+  contactPerson: McpContactPerson;
+}
+
+export interface PrepareBookingOutput {
+  preparedBookingId: string;
+  bookingInternalId: string;
+  price: number;
+  currency: string;
+  payment: string;
+  discount: { amount: number; currency: string } | null;
+  taxes: Array<{
+    feeTitle: string;
+    value: string;
+    currency: string;
+    isIncludedInPrice: boolean;
+  }>;
+  essentialInformation: string[];
+}
+
+// =============================================================================
+// confirm_booking
+// =============================================================================
+export interface ConfirmBookingInput {
+  bookingInternalId: string;
+  quoteId: string;
+  paymentMethod: 'CREDIT_LINE';
+}
+
+export interface ConfirmBookingOutput {
+  accepted: boolean;
+  message?: string | null;
+  voucherUrl?: string;  // Only returned when accepted
+}
+
+// =============================================================================
+// list_bookings / get_booking_details / cancel_booking
+// =============================================================================
+export type McpBookingListType = 'UPCOMING' | 'COMPLETED' | 'CANCELLED' | 'PENDING' | 'ALL';
+
+export interface ListBookingsInput {
+  type: McpBookingListType;
+}
+
+export interface McpBookingSummary {
+  bookingId: string;
+  bookingReferenceId: string;
+  hotelName: string;
+  hotelCity: string;
+  checkIn: string;
+  checkOut: string;
+  status: string;
+  totalPrice: number;
+  currency: string;
+  guestName: string;
+  roomCount: number;
+  createdAt: string;
+}
+
+export interface ListBookingsOutput {
+  bookings: McpBookingSummary[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface GetBookingDetailsInput {
+  bookingId: string;
+}
+
+export interface GetBookingDetailsOutput {
+  bookingId: string;
+  bookingReferenceId: string;
+  providerReference: string | null;
+  status: string;
+  hotel: {
+    id: string;
+    name: string;
+    address: string;
+    city: string;
+    country: string;
+    phone: string | null;
+    email: string | null;
+    starRating: number;
+  };
+  checkIn: string;
+  checkOut: string;
+  rooms: Array<{
+    roomName: string;
+    mealType: string;
+    guests: Array<{ firstName: string; lastName: string }>;
+    price: number;
+  }>;
+  contactPerson: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+  };
+  totalPrice: number;
+  currency: string;
+  paymentStatus: string;
+  cancellationPolicy: {
+    isRefundable: boolean;
+    freeCancellationUntil: string | null;
+    fees: Array<{ fromDate: string; amount: number; currency: string }>;
+  } | null;
+  specialRequests: string | null;
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface CancelBookingInput {
+  bookingId: string;
+  confirmed: boolean;  // false is a dry-run
+  reason?: string;
+}
+
+export interface CancelBookingOutput {
+  success: boolean;
+  refundAmount?: number;
+  refundCurrency?: string;
+  cancellationFee?: number;
+  message: string;
+  cancellationReference?: string;
+}
+
+// =============================================================================
+// get_hotel_details / get_payment_url
+// =============================================================================
+export interface GetHotelDetailsInput {
+  hotelId: number;  // NUMBER here, unlike every other tool
+  language?: string;
+  includeImages?: boolean;
+  imageLimit?: number;
+}
+
+export interface GetHotelDetailsOutput {
+  hotel: {
+    id: number;
+    name: string;
+    country: string;
+    city: string;
+    star: number;
+    address: string;
+    latitude: number;
+    longitude: number;
+    description: string;
+    phone: string | null;
+    countryCode: string;
+    hotelPhotos: Array<{ url: string }>;
+    reviews: {
+      scoreSummary: string | null;
+      commentSummary: string | null;
+      reviewsCount: number | null;
+      keyWords: Array<{ name: string; reviewsCount: number; score: number; comments: string[] }>;
+    } | null;
+    hotelAmenities: Array<{
+      hotelId: number;
+      categoryName: string;
+      features: Array<{ _id: string; name: string }>;
+    }>;
+  };
+  additionalImages: Array<{ url: string }>;
+}
+
+export interface GetPaymentUrlInput {
+  bookingId: string;
+  currency: string;
+  backUrl: string;
+  successUrl?: string;
+}
+
+export interface GetPaymentUrlOutput {
+  url: string;
+  sessionId: string;
+}
+
+// =============================================================================
+// SERVER ENDPOINTS
+// =============================================================================
+// The JSON Schema keywords the tool list uses - see ./mcp-schema
+export interface JsonSchema {
+  type?: string | string[];  // A list allows several, e.g. ['string', 'null']
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+}
+
+export interface McpToolDescriptor {
+  name: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;  // Newer servers only - structuredContent's shape
+}
+
+// =============================================================================
+// JSON-RPC 2.0 (/rpc)
+// =============================================================================
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;  // Omitted for notifications - the server sends no response
+  method: string;  // e.g. tools/call
+  params?: object;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;  // -32700 parse, -32600 invalid request, -32601 method, -32602 params, -32603 internal
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+// A message without an id - either direction, never answered
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Result of tools/call - the tool output is JSON in the first text item
+export interface McpToolCallResult {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+// Result of initialize - the first request of an SSE session
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: { tools?: { listChanged?: boolean }; [capability: string]: unknown };
+  serverInfo: { name: string; version?: string };
+  instructions?: string;
+}
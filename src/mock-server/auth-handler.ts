@@ -0,0 +1,67 @@
+/**
+ * Mock LockTrip Server - Login
+ *
+ * Stand-in for POST https://users.locktrip.com/api/auth/login. Issues
+ * unsigned JWTs with a real `exp`, so clients can be tested for expiry
+ * detection and re-login on 401 without a B2B account. The account's
+ * isB2B/hasCL flags ride along as claims.
+ *
+ * Request:  { "email": "...", "password": "..." }
+ * Response: { "token": "eyJ...", "expiresIn": 86400 }
+ */
+
+import { randomUUID } from 'crypto';
+import { MockApiError } from './backend';
+
+export interface MockLoginOptions {
+  // Accepted email/password - any non-empty pair is accepted when unset
+  email?: string;
+  password?: string;
+
+  // Lifetime of issued tokens in seconds (default: 86400, like production)
+  tokenTtlSeconds?: number;
+}
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Claims of a token issued here - null for anything else
+ */
+export function mockTokenClaims(token: string): { sub: string; exp: number } | null {
+  const [header, payload] = token.split('.');
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString('utf8')).kid !== 'locktrip-mock') {
+      return null;
+    }
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the credentials and issue a token - throws MockApiError(401) on a mismatch
+ */
+export function handleLogin(
+  options: MockLoginOptions,
+  account: { isB2B: boolean; hasCL: boolean },
+  body: { email?: unknown; password?: unknown }
+) {
+  const { email, password } = body;
+  if (typeof email !== 'string' || email === '' || typeof password !== 'string' || password === '') {
+    throw new MockApiError('email and password are required', 400);
+  }
+  if ((options.email && email !== options.email) || (options.password && password !== options.password)) {
+    throw new MockApiError('Invalid email or password', 401);
+  }
+
+  const expiresIn = options.tokenTtlSeconds ?? 86400;
+  const now = Math.floor(Date.now() / 1000);
+  const token = [
+    base64url({ alg: 'HS512', kid: 'locktrip-mock' }),
+    base64url({ sub: email, iat: now, exp: now + expiresIn, ...account }),
+    randomUUID().replace(/-/g, ''),
+  ].join('.');
+
+  return { token, expiresIn };
+}
@@ -0,0 +1,465 @@
+/**
+ * Mock LockTrip Server - Shared Backend State
+ *
+ * Transport-neutral inventory, search sessions, bookings and credit line.
+ * The GraphQL and MCP handlers translate their wire formats onto this.
+ *
+ * Failures throw MockApiError with the messages from the documented error
+ * tables, so clients see the same text they would get from production.
+ */
+
+import { randomUUID } from 'crypto';
+import { buildHotels, LOCATIONS, MockHotel, MockLocation, ROOM_TEMPLATES } from './fixtures';
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+export interface MockBackendOptions {
+  // Number of result polls before a search reports completion (default: 3)
+  pollsUntilComplete?: number;
+
+  // Hotels returned per search (default: 250)
+  hotelCount?: number;
+
+  // Search session lifetime (default: 30 minutes, like production)
+  sessionTtlMs?: number;
+
+  // Credit line available for confirmations (default: 10000)
+  creditLine?: number;
+
+  // Whether the account is B2B - false makes confirm fail (default: true)
+  isB2B?: boolean;
+}
+
+const DEFAULTS: Required<MockBackendOptions> = {
+  pollsUntilComplete: 3,
+  hotelCount: 250,
+  sessionTtlMs: 30 * 60 * 1000,
+  creditLine: 10000,
+  isB2B: true,
+};
+
+export class MockApiError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'MockApiError';
+  }
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+export interface StayRoom {
+  adults: number;
+  childrenAges: number[];
+}
+
+export interface SearchRequest {
+  regionId?: string;
+  latitude?: number;
+  longitude?: number;
+  startDate: Date;
+  endDate: Date;
+  currency: string;
+  rooms: StayRoom[];
+}
+
+export interface MockPackage {
+  quoteId: string;
+  packageId: string;
+  hotelId: number;
+  roomName: string;
+  roomType: string;
+  mealType: string;
+  price: number;
+  refundable: boolean;
+  amenities: string[];
+  images: string[];
+}
+
+interface MockSearch {
+  searchKey: string;
+  sessionId: string;
+  createdAt: number;
+  polls: number;
+  request: SearchRequest;
+  packages: Map<number, MockPackage[]>;
+}
+
+export interface MockPolicy {
+  packageId: string;
+  refundable: boolean;
+  freeCancellationUntil: Date | null;
+  fees: Array<{ from: Date; to: Date | null; amount: number; percentage: number }>;
+}
+
+export interface BookingGuest {
+  title?: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface BookingRequestRoom {
+  adults: BookingGuest[];
+  children: Array<BookingGuest & { age: number }>;
+}
+
+export interface MockBooking {
+  id: string;
+  referenceId: string;
+  providerReference: string | null;
+  quoteId: string;
+  status: 'PREPARED' | 'CONFIRMED' | 'CANCELLED';
+  hotel: MockHotel;
+  roomName: string;
+  mealType: string;
+  checkIn: Date;
+  checkOut: Date;
+  rooms: BookingRequestRoom[];
+  contact: { title?: string; firstName: string; lastName: string; email: string; phone: string };
+  price: number;
+  currency: string;
+  policy: MockPolicy;
+  createdAt: Date;
+  confirmedAt: Date | null;
+}
+
+export type SortOrder = 'PRICE_ASC' | 'PRICE_DESC' | 'RATING_DESC' | 'DISTANCE';
+
+const COMPARATORS: Record<SortOrder, (a: MockHotel, b: MockHotel) => number> = {
+  PRICE_ASC: (a, b) => a.price - b.price,
+  PRICE_DESC: (a, b) => b.price - a.price,
+  RATING_DESC: (a, b) => b.reviewsScore - a.reviewsScore,
+  DISTANCE: (a, b) => a.distance - b.distance,
+};
+
+export interface SearchPage {
+  hotels: MockHotel[];
+  total: number;
+  page: number;
+  size: number;
+  hasNextPage: boolean;
+  completed: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// =============================================================================
+// BACKEND
+// =============================================================================
+export class MockBackend {
+  readonly options: Required<MockBackendOptions>;
+  readonly hotels: MockHotel[];
+
+  private readonly searches = new Map<string, MockSearch>();
+  private readonly bookings = new Map<string, MockBooking>();
+  private creditUsed = 0;
+
+  constructor(options: MockBackendOptions = {}) {
+    const overrides = Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined));
+    this.options = { ...DEFAULTS, ...overrides };
+    this.hotels = buildHotels(this.options.hotelCount);
+  }
+
+  get creditAvailable(): number {
+    return round2(this.options.creditLine - this.creditUsed);
+  }
+
+  locations(query: string): MockLocation[] {
+    const words = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    const matches = LOCATIONS.filter(l => words.some(w => l.fullName.toLowerCase().includes(w)));
+
+    if (matches.length > 0) {
+      return matches;
+    }
+
+    // Unknown destination - synthesize a region so flows still work offline
+    const name = query.split(',')[0].trim();
+    return [{
+      id: Buffer.from(query.toLowerCase()).toString('hex').slice(0, 24).padEnd(24, '0'),
+      name: name.charAt(0).toUpperCase() + name.slice(1),
+      country: '',
+      type: 'REGION',
+      graphqlType: 'administrative_area_level_1',
+      fullName: query,
+    }];
+  }
+
+  startSearch(request: SearchRequest): { searchKey: string; sessionId: string } {
+    if (!request.regionId && (request.latitude === undefined || request.longitude === undefined)) {
+      throw new MockApiError('Either regionId or latitude+longitude must be provided');
+    }
+    if (request.endDate <= request.startDate) {
+      throw new MockApiError('endDate must be after startDate');
+    }
+
+    const search: MockSearch = {
+      searchKey: randomUUID().replace(/-/g, ''),
+      sessionId: `sess_${randomUUID().replace(/-/g, '').slice(0, 12)}`,
+      createdAt: Date.now(),
+      polls: 0,
+      request,
+      packages: new Map(),
+    };
+    this.searches.set(search.searchKey, search);
+
+    return { searchKey: search.searchKey, sessionId: search.sessionId };
+  }
+
+  /**
+   * One poll - results grow each poll until pollsUntilComplete is reached
+   */
+  results(searchKey: string, page: number, size: number, sort: SortOrder = 'PRICE_ASC'): SearchPage {
+    const search = this.session(searchKey);
+    search.polls++;
+
+    const completed = search.polls > this.options.pollsUntilComplete;
+    const found = completed
+      ? this.hotels
+      : this.hotels.slice(0, Math.floor(this.hotels.length * (search.polls - 1) / this.options.pollsUntilComplete));
+    const visible = [...found].sort((a, b) => COMPARATORS[sort](a, b) || a.id - b.id);
+
+    const start = page * size;
+    return {
+      hotels: visible.slice(start, start + size),
+      total: visible.length,
+      page,
+      size,
+      hasNextPage: start + size < visible.length,
+      completed,
+    };
+  }
+
+  rooms(searchKey: string, hotelId: number): MockPackage[] {
+    const search = this.session(searchKey);
+    const hotel = this.hotel(hotelId);
+
+    let packages = search.packages.get(hotelId);
+    if (!packages) {
+      const nights = this.nights(search.request);
+      packages = ROOM_TEMPLATES.map((t, i) => {
+        const packageId = randomUUID();
+        return {
+          quoteId: `${packageId}_${hotelId}`,
+          packageId,
+          hotelId,
+          roomName: t.roomName,
+          roomType: t.roomType,
+          mealType: t.mealType,
+          price: round2(hotel.price * t.priceFactor * nights),
+          refundable: hotel.refundable || i > 0,
+          amenities: t.amenities,
+          images: t.images,
+        };
+      });
+      search.packages.set(hotelId, packages);
+    }
+
+    return packages;
+  }
+
+  policies(searchKey: string, hotelId: number, packageIds: string[]): MockPolicy[] {
+    const search = this.session(searchKey);
+    const packages = this.rooms(searchKey, hotelId);
+
+    return packageIds.map(packageId => {
+      if (packageId.includes('_')) {
+        throw new MockApiError(`Invalid packageId "${packageId}" - use quoteId.split('_')[0]`);
+      }
+
+      const pkg = packages.find(p => p.packageId === packageId);
+      if (!pkg) {
+        throw new MockApiError(`Invalid packageId "${packageId}"`);
+      }
+
+      return this.policyFor(pkg, search.request.startDate);
+    });
+  }
+
+  prepare(quoteId: string, rooms: BookingRequestRoom[], contact: MockBooking['contact']): MockBooking {
+    const { search, pkg } = this.quote(quoteId);
+
+    if (rooms.length !== search.request.rooms.length) {
+      throw new MockApiError('Guest count mismatch');
+    }
+    rooms.forEach((room, i) => {
+      const searched = search.request.rooms[i];
+      if (room.adults.length !== searched.adults || room.children.length !== searched.childrenAges.length) {
+        throw new MockApiError('Guest count mismatch');
+      }
+    });
+
+    const booking: MockBooking = {
+      id: randomUUID().replace(/-/g, '').slice(0, 24),
+      referenceId: `LT-${new Date().getFullYear()}-${randomUUID().slice(0, 6).toUpperCase()}`,
+      providerReference: null,
+      quoteId,
+      status: 'PREPARED',
+      hotel: this.hotel(pkg.hotelId),
+      roomName: pkg.roomName,
+      mealType: pkg.mealType,
+      checkIn: search.request.startDate,
+      checkOut: search.request.endDate,
+      rooms,
+      contact,
+      price: pkg.price,
+      currency: search.request.currency,
+      policy: this.policyFor(pkg, search.request.startDate),
+      createdAt: new Date(),
+      confirmedAt: null,
+    };
+    this.bookings.set(booking.id, booking);
+
+    return booking;
+  }
+
+  confirm(bookingId: string, quoteId: string): { accepted: boolean; message: string | null } {
+    const booking = this.bookings.get(bookingId);
+    if (!booking) {
+      throw new MockApiError(`Booking not found: ${bookingId}`, 404);
+    }
+    if (booking.quoteId !== quoteId) {
+      throw new MockApiError('quoteId does not match prepared booking');
+    }
+    if (!this.options.isB2B) {
+      return { accepted: false, message: 'User is not b2b user' };
+    }
+    if (booking.status === 'CONFIRMED') {
+      return { accepted: true, message: 'Booking already confirmed' };
+    }
+    if (booking.status === 'CANCELLED') {
+      return { accepted: false, message: 'Booking is cancelled' };
+    }
+    if (booking.price > this.creditAvailable) {
+      return { accepted: false, message: 'Insufficient credit line' };
+    }
+
+    this.creditUsed = round2(this.creditUsed + booking.price);
+    booking.status = 'CONFIRMED';
+    booking.confirmedAt = new Date();
+    booking.providerReference = `HB-${randomUUID().slice(0, 8).toUpperCase()}`;
+
+    return { accepted: true, message: null };
+  }
+
+  cancel(bookingId: string, confirmed: boolean): { cancelled: boolean; fee: number; refund: number; message: string } {
+    const booking = this.bookings.get(bookingId);
+    if (!booking) {
+      throw new MockApiError(`Booking not found: ${bookingId}`, 404);
+    }
+    if (booking.status === 'CANCELLED') {
+      return { cancelled: false, fee: 0, refund: 0, message: 'Booking already cancelled' };
+    }
+
+    const now = Date.now();
+    const fee = booking.policy.fees
+      .filter(f => f.from.getTime() <= now)
+      .reduce((max, f) => Math.max(max, f.amount), 0);
+    const refund = booking.status === 'CONFIRMED' ? round2(booking.price - fee) : 0;
+
+    if (!confirmed) {
+      return { cancelled: false, fee, refund, message: 'Dry-run: booking not cancelled' };
+    }
+
+    if (booking.status === 'CONFIRMED') {
+      this.creditUsed = round2(this.creditUsed - refund);
+    }
+    booking.status = 'CANCELLED';
+
+    return {
+      cancelled: true,
+      fee,
+      refund,
+      message: fee === 0
+        ? 'Booking cancelled successfully. Full refund will be credited.'
+        : `Booking cancelled. Cancellation fee: ${fee} ${booking.currency}.`,
+    };
+  }
+
+  /**
+   * UPCOMING = confirmed, PENDING = prepared only, ALL = everything
+   */
+  listBookings(type: string): MockBooking[] {
+    const all = [...this.bookings.values()];
+    switch (type) {
+      case 'UPCOMING':
+        return all.filter(b => b.status === 'CONFIRMED' && b.checkIn.getTime() >= Date.now());
+      case 'COMPLETED':
+        return all.filter(b => b.status === 'CONFIRMED' && b.checkIn.getTime() < Date.now());
+      case 'CANCELLED':
+        return all.filter(b => b.status === 'CANCELLED');
+      case 'PENDING':
+        return all.filter(b => b.status === 'PREPARED');
+      default:
+        return all;
+    }
+  }
+
+  booking(bookingId: string): MockBooking | undefined {
+    return this.bookings.get(bookingId);
+  }
+
+  hotel(hotelId: number): MockHotel {
+    const hotel = this.hotels.find(h => h.id === hotelId);
+    if (!hotel) {
+      throw new MockApiError(`Hotel not found: ${hotelId}`, 404);
+    }
+    return hotel;
+  }
+
+  // ===========================================================================
+  // INTERNALS
+  // ===========================================================================
+  private session(searchKey: string): MockSearch {
+    const search = this.searches.get(searchKey);
+    if (!search || Date.now() - search.createdAt > this.options.sessionTtlMs) {
+      throw new MockApiError('Session expired');
+    }
+    return search;
+  }
+
+  private quote(quoteId: string): { search: MockSearch; pkg: MockPackage } {
+    for (const search of this.searches.values()) {
+      for (const packages of search.packages.values()) {
+        const pkg = packages.find(p => p.quoteId === quoteId);
+        if (pkg) {
+          this.session(search.searchKey);
+          return { search, pkg };
+        }
+      }
+    }
+    throw new MockApiError(`Invalid quoteId: ${quoteId}`);
+  }
+
+  private nights(request: SearchRequest): number {
+    return Math.max(1, Math.round((request.endDate.getTime() - request.startDate.getTime()) / DAY_MS));
+  }
+
+  /**
+   * Free until 3 days before check-in, 50% from then, 100% from the day before
+   */
+  private policyFor(pkg: MockPackage, checkIn: Date): MockPolicy {
+    if (!pkg.refundable) {
+      return {
+        packageId: pkg.packageId,
+        refundable: false,
+        freeCancellationUntil: null,
+        fees: [{ from: new Date(0), to: null, amount: pkg.price, percentage: 100 }],
+      };
+    }
+
+    const half = new Date(checkIn.getTime() - 3 * DAY_MS);
+    const full = new Date(checkIn.getTime() - DAY_MS);
+    return {
+      packageId: pkg.packageId,
+      refundable: true,
+      freeCancellationUntil: half,
+      fees: [
+        { from: half, to: full, amount: round2(pkg.price / 2), percentage: 50 },
+        { from: full, to: null, amount: pkg.price, percentage: 100 },
+      ],
+    };
+  }
+}
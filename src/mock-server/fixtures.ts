@@ -0,0 +1,563 @@
+/**
+ * Mock LockTrip Server - Seed Data
+ *
+ * Taken from the sample responses in INTEGRATION.md and MCP_INTEGRATION.md.
+ * Extra hotels are derived from the two documented ones so paging has
+ * something to walk through. The tool schemas served by GET /mcp/tools
+ * follow the documented inputs and sample responses field by field.
+ */
+
+// =============================================================================
+// LOCATIONS
+// =============================================================================
+export interface MockLocation {
+  id: string;
+  name: string;
+  country: string;
+  type: 'REGION' | 'CITY' | 'HOTEL';
+  graphqlType: string;
+  fullName: string;
+}
+
+export const LOCATIONS: MockLocation[] = [
+  {
+    id: '645f64dace586e4a12d943ed',
+    name: 'Bali',
+    country: 'Indonesia',
+    type: 'REGION',
+    graphqlType: 'administrative_area_level_1',
+    fullName: 'Bali, Indonesia',
+  },
+  {
+    id: '6089739c76290b7c193c17b6',
+    name: 'Kuta',
+    country: 'Indonesia',
+    type: 'CITY',
+    graphqlType: 'locality',
+    fullName: 'Kuta, Badung Regency, Bali, Indonesia',
+  },
+  {
+    id: '5f0f445cdef47f4cef6cc46f',
+    name: 'Ubud',
+    country: 'Indonesia',
+    type: 'CITY',
+    graphqlType: 'locality',
+    fullName: 'Ubud, Gianyar Regency, Bali, Indonesia',
+  },
+  {
+    id: '645f64dace586e4a12d943ed_5879110',
+    name: 'The Bali Bill Villa',
+    country: 'Indonesia',
+    type: 'HOTEL',
+    graphqlType: 'Apartment',
+    fullName: 'The Bali Bill Villa, Bali, Indonesia',
+  },
+];
+
+// =============================================================================
+// HOTELS
+// =============================================================================
+export interface MockHotel {
+  id: number;
+  name: string;
+  star: number;
+  address: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  price: number;
+  lastBestPrice: number;
+  discountScore: number;
+  distance: number;
+  boardType: string | null;
+  payment: string;
+  quality: number;
+  reviewsScore: number;
+  reviewsCount: number | null;
+  hasFreeCancellation: boolean;
+  refundable: boolean;
+  availableBoards: string[];
+  features: string[];
+  photo: string;
+}
+
+const DOCUMENTED_HOTELS: MockHotel[] = [
+  {
+    id: 17347136,
+    name: 'Collection O Bali near Terminal Ubung',
+    star: 2,
+    address: '132 Hotel Batukaru, Denpasar',
+    city: 'Denpasar',
+    country: 'Indonesia',
+    latitude: -8.632039,
+    longitude: 115.203478,
+    price: 2.98,
+    lastBestPrice: 2.98,
+    discountScore: 0,
+    distance: 24.79,
+    boardType: null,
+    payment: 'Cash',
+    quality: 0.14,
+    reviewsScore: 2.9,
+    reviewsCount: null,
+    hasFreeCancellation: false,
+    refundable: false,
+    availableBoards: [],
+    features: [],
+    photo: 'https://imagecontent.net/images/full/90597062-bebe-4495-8c6e-17b54604ae3c.jpeg',
+  },
+  {
+    id: 5948584,
+    name: 'The Kayon Jungle Resort',
+    star: 5,
+    address: 'Br. Bresela, Payangan, Gianyar',
+    city: 'Ubud',
+    country: 'Indonesia',
+    latitude: -8.4231,
+    longitude: 115.2134,
+    price: 127.50,
+    lastBestPrice: 195.00,
+    discountScore: 35,
+    distance: 12.4,
+    boardType: 'Breakfast',
+    payment: 'Cash',
+    quality: 92,
+    reviewsScore: 9.2,
+    reviewsCount: 1247,
+    hasFreeCancellation: true,
+    refundable: true,
+    availableBoards: ['Room Only', 'Breakfast', 'Half Board'],
+    features: ['Pool', 'Spa', 'WiFi', 'Restaurant', 'Gym'],
+    photo: 'https://imagecontent.net/images/full/hotel-5948584.jpeg',
+  },
+];
+
+/**
+ * Documented hotels first, then deterministic variations of them
+ */
+export function buildHotels(count: number): MockHotel[] {
+  const hotels = DOCUMENTED_HOTELS.slice(0, count);
+
+  for (let i = hotels.length; i < count; i++) {
+    const base = DOCUMENTED_HOTELS[i % DOCUMENTED_HOTELS.length];
+    const factor = 1 + ((i * 37) % 100) / 50;
+    const price = Math.round(base.price * factor * 100) / 100 + (i % 7);
+
+    hotels.push({
+      ...base,
+      id: 20000000 + i,
+      name: `${base.name} ${i}`,
+      star: ((base.star + i) % 5) + 1,
+      price,
+      lastBestPrice: Math.round(price * 1.2 * 100) / 100,
+      distance: Math.round(((i * 13) % 300) / 10 * 100) / 100,
+      reviewsScore: Math.round((((i * 7) % 90) / 10 + 1) * 10) / 10,
+      hasFreeCancellation: i % 2 === 0,
+      refundable: i % 2 === 0,
+      photo: `https://imagecontent.net/images/full/hotel-${20000000 + i}.jpeg`,
+    });
+  }
+
+  return hotels;
+}
+
+// =============================================================================
+// ROOMS
+// =============================================================================
+export interface MockRoomTemplate {
+  roomName: string;
+  roomType: string;
+  mealType: string;
+  priceFactor: number;
+  amenities: string[];
+  images: string[];
+}
+
+export const ROOM_TEMPLATES: MockRoomTemplate[] = [
+  {
+    roomName: 'Double Deluxe',
+    roomType: 'Deluxe Room, Double Or Twin Beds',
+    mealType: 'Room Only',
+    priceFactor: 1,
+    amenities: [
+      'Non-Smoking', 'Air conditioning', 'Private bathroom',
+      'Free WiFi', 'Flat-panel TV', 'Free bottled water',
+      'Daily housekeeping', 'Bathrobes', 'Free toiletries',
+    ],
+    images: [
+      'https://imagecontent.net/images/fullrm/a15e00fa-32ab-4d46-bd8f-04a08c2fc05e.jpeg',
+      'https://imagecontent.net/images/fullrm/40629a60-0e00-4c4d-8b5a-aaa5ca3f6656.jpeg',
+    ],
+  },
+  {
+    roomName: 'Double Deluxe',
+    roomType: 'Deluxe Room, Double Or Twin Beds',
+    mealType: 'Breakfast Included',
+    priceFactor: 1.83,
+    amenities: [
+      'Non-Smoking', 'Air conditioning', 'Private bathroom',
+      'Free WiFi', 'Flat-panel TV', 'Free bottled water',
+    ],
+    images: [
+      'https://imagecontent.net/images/fullrm/a15e00fa-32ab-4d46-bd8f-04a08c2fc05e.jpeg',
+    ],
+  },
+];
+
+// =============================================================================
+// BOOKING
+// =============================================================================
+export const ESSENTIAL_INFORMATION = [
+  'Check-in: 14:00',
+  'Check-out: 11:00',
+  'Photo ID required at check-in',
+];
+
+export const TAXES = [
+  {
+    feeTitle: 'City Tax',
+    value: '2.50',
+    currency: 'EUR',
+    isIncludedInPrice: false,
+  },
+];
+
+// =============================================================================
+// MCP TOOLS
+// =============================================================================
+
+// JSON Schema shorthands - inputs reject unknown fields, every listed
+// property is required unless named in `optional`
+type Schema = Record<string, unknown>;
+
+const string: Schema = { type: 'string' };
+const number: Schema = { type: 'number' };
+const integer: Schema = { type: 'integer' };
+const boolean: Schema = { type: 'boolean' };
+const nullable = (schema: Schema): Schema => ({ ...schema, type: [schema.type, 'null'] });
+const array = (items: Schema, minItems?: number): Schema => ({ type: 'array', items, ...(minItems ? { minItems } : {}) });
+
+const object = (properties: Record<string, Schema>, optional: string[] = []): Schema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties).filter(key => !optional.includes(key)),
+});
+const input = (properties: Record<string, Schema>, optional: string[] = []): Schema => ({
+  ...object(properties, optional),
+  additionalProperties: false,
+});
+
+const isoDate: Schema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'YYYY-MM-DD' };
+const currency: Schema = { type: 'string', pattern: '^[A-Z]{3}$', description: 'ISO 4217, e.g. EUR' };
+const nationality: Schema = { type: 'string', pattern: '^[A-Z]{2}$', description: 'ISO 3166-1 alpha-2, e.g. US' };
+const title: Schema = { enum: ['Mr', 'Mrs', 'Ms'] };
+
+const roomOccupancy = input({
+  adults: { type: 'integer', minimum: 1 },
+  childrenAges: array({ type: 'integer', minimum: 0, maximum: 17 }),
+});
+
+const hotel = object({
+  hotelId: string,
+  name: string,
+  starRating: number,
+  address: string,
+  latitude: number,
+  longitude: number,
+  images: array(string),
+  amenities: array(string),
+  minPrice: number,
+  originalPrice: nullable(number),
+  currency: string,
+  discountScore: number,
+  distance: number,
+  boardType: nullable(string),
+  payment: string,
+  quality: number,
+  reviewScore: nullable(number),
+  reviewCount: nullable(integer),
+  hasFreeCancellation: boolean,
+  isRefundable: boolean,
+  refundableUntil: nullable(string),
+  availableMealTypes: array(string),
+});
+
+const roomPackage = object({
+  quoteId: string,
+  packageId: string,
+  roomName: string,
+  roomDescription: string,
+  mealType: string,
+  mealDescription: string,
+  bedType: nullable(string),
+  maxOccupancy: integer,
+  amenities: array(string),
+  price: number,
+  currency: string,
+  pricePerNight: number,
+  totalNights: integer,
+  isRefundable: boolean,
+  cancellationDeadline: nullable(string),
+  provider: nullable(string),
+});
+
+const cancellationPolicy = object({
+  packageId: string,
+  isRefundable: boolean,
+  freeCancellationUntil: nullable(string),
+  fees: array(object({
+    fromDate: string,
+    toDate: nullable(string),
+    amount: number,
+    currency: string,
+    percentage: number,
+    description: string,
+  }, ['toDate', 'percentage', 'description'])),
+  remarks: array(string),
+}, ['freeCancellationUntil', 'remarks']);
+
+const guestName = { firstName: { type: 'string', minLength: 1 }, lastName: { type: 'string', minLength: 1 } };
+
+const bookingSummary = object({
+  bookingId: string,
+  bookingReferenceId: string,
+  hotelName: string,
+  hotelCity: string,
+  checkIn: string,
+  checkOut: string,
+  status: string,
+  totalPrice: number,
+  currency: string,
+  guestName: string,
+  roomCount: integer,
+  createdAt: string,
+});
+
+const bookingDetails = object({
+  bookingId: string,
+  bookingReferenceId: string,
+  providerReference: nullable(string),
+  status: string,
+  hotel: object({
+    id: string,
+    name: string,
+    address: string,
+    city: string,
+    country: string,
+    phone: nullable(string),
+    email: nullable(string),
+    starRating: number,
+  }),
+  checkIn: string,
+  checkOut: string,
+  rooms: array(object({
+    roomName: string,
+    mealType: string,
+    guests: array(object({ firstName: string, lastName: string })),
+    price: number,
+  })),
+  contactPerson: object({ firstName: string, lastName: string, email: string, phone: string }),
+  totalPrice: number,
+  currency: string,
+  paymentStatus: string,
+  cancellationPolicy: nullable(object({
+    isRefundable: boolean,
+    freeCancellationUntil: nullable(string),
+    fees: array(object({ fromDate: string, amount: number, currency: string })),
+  })),
+  specialRequests: nullable(string),
+  createdAt: string,
+  confirmedAt: nullable(string),
+});
+
+const hotelDetails = object({
+  hotel: object({
+    id: integer,
+    name: string,
+    country: string,
+    city: string,
+    star: number,
+    address: string,
+    latitude: number,
+    longitude: number,
+    description: string,
+    phone: nullable(string),
+    countryCode: string,
+    hotelPhotos: array(object({ url: string })),
+    reviews: nullable(object({
+      scoreSummary: nullable(string),
+      commentSummary: nullable(string),
+      reviewsCount: nullable(integer),
+      keyWords: array(object({ name: string, reviewsCount: integer, score: number, comments: array(string) })),
+    })),
+    hotelAmenities: array(object({
+      hotelId: integer,
+      categoryName: string,
+      features: array(object({ _id: string, name: string })),
+    })),
+  }),
+  additionalImages: array(object({ url: string })),
+});
+
+export const MCP_TOOLS = [
+  {
+    name: 'search_location',
+    description: 'Find the regionId for a destination',
+    inputSchema: input({ query: { type: 'string', minLength: 1 } }),
+    outputSchema: object({
+      locations: array(object({ id: string, name: string, country: string, type: string, fullName: string })),
+    }),
+  },
+  {
+    name: 'hotel_search',
+    description: 'Start an async hotel search',
+    inputSchema: {
+      ...input({
+        regionId: string,
+        latitude: { type: 'number', minimum: -90, maximum: 90 },
+        longitude: { type: 'number', minimum: -180, maximum: 180 },
+        radiusInMeters: { type: 'number', minimum: 1000, maximum: 100000, description: 'Default: 30000' },
+        startDate: isoDate,
+        endDate: isoDate,
+        rooms: array(roomOccupancy, 1),
+        currency,
+        nationality,
+      }, ['regionId', 'latitude', 'longitude', 'radiusInMeters']),
+      anyOf: [{ required: ['regionId'] }, { required: ['latitude', 'longitude'] }],
+    },
+    outputSchema: object({ searchKey: string, sessionId: string, status: string }),
+  },
+  {
+    name: 'get_search_results',
+    description: 'Poll search results (0-indexed pages)',
+    inputSchema: input({
+      searchKey: string,
+      page: { type: 'integer', minimum: 0, description: '0-indexed' },
+      size: { type: 'integer', minimum: 1, maximum: 5000 },
+      sortBy: { enum: ['PRICE_ASC', 'PRICE_DESC', 'RATING_DESC', 'DISTANCE'] },
+      filters: { type: 'object' },
+    }),
+    outputSchema: object({
+      hotels: array(hotel),
+      totalCount: integer,
+      page: integer,
+      pageSize: integer,
+      hasMore: boolean,
+      searchStatus: { type: 'string', description: 'IN_PROGRESS or COMPLETED' },
+    }),
+  },
+  {
+    name: 'get_hotel_rooms',
+    description: 'Get room packages for a hotel',
+    inputSchema: input({
+      hotelId: string,
+      searchKey: string,
+      startDate: isoDate,
+      endDate: isoDate,
+      rooms: array(roomOccupancy, 1),
+      nationality,
+      regionId: string,
+      currency,
+    }),
+    outputSchema: object({
+      hotelId: string,
+      hotelName: string,
+      searchKey: string,
+      packages: array(roomPackage),
+      checkIn: string,
+      checkOut: string,
+    }),
+  },
+  {
+    name: 'check_cancellation_policy',
+    description: 'Get cancellation terms for packages',
+    inputSchema: input({
+      searchKey: string,
+      hotelId: string,
+      packageIds: array({ type: 'string', pattern: '^[^_]+$', description: "quoteId.split('_')[0], not the full quoteId" }, 1),
+    }),
+    outputSchema: object({ hotelId: string, policies: array(cancellationPolicy) }),
+  },
+  {
+    name: 'prepare_booking',
+    description: 'Create a booking with guest details (no charge)',
+    inputSchema: input({
+      quoteId: string,
+      rooms: array(input({
+        roomIndex: { type: 'integer', minimum: 0 },
+        guests: array(input({ ...guestName, title, isLeadGuest: boolean }, ['title', 'isLeadGuest']), 1),
+        children: array(input({ ...guestName, age: { type: 'integer', minimum: 0, maximum: 17 } })),
+      }, ['children']), 1),
+      contactPerson: input({
+        ...guestName,
+        email: { type: 'string', pattern: '^[^@\\s]+@[^@\\s]+$' },
+        phone: { type: 'string', minLength: 1 },
+        title,
+      }, ['title']),
+    }),
+    outputSchema: object({
+      preparedBookingId: string,
+      bookingInternalId: string,
+      price: number,
+      currency: string,
+      payment: string,
+      discount: nullable(object({ amount: number, currency: string })),
+      taxes: array(object({ feeTitle: string, value: string, currency: string, isIncludedInPrice: boolean })),
+      essentialInformation: array(string),
+    }),
+  },
+  {
+    name: 'confirm_booking',
+    description: 'Confirm and pay via credit line',
+    inputSchema: input({ bookingInternalId: string, quoteId: string, paymentMethod: { enum: ['CREDIT_LINE'] } }),
+    outputSchema: object({ accepted: boolean, message: nullable(string), voucherUrl: string }, ['message', 'voucherUrl']),
+  },
+  {
+    name: 'list_bookings',
+    description: 'List bookings by type',
+    inputSchema: input({ type: { enum: ['UPCOMING', 'COMPLETED', 'CANCELLED', 'PENDING', 'ALL'] } }),
+    outputSchema: object({ bookings: array(bookingSummary), totalCount: integer, page: integer, pageSize: integer }),
+  },
+  {
+    name: 'get_booking_details',
+    description: 'Get full booking details',
+    inputSchema: input({ bookingId: string }),
+    outputSchema: bookingDetails,
+  },
+  {
+    name: 'cancel_booking',
+    description: 'Cancel a booking and request refund',
+    inputSchema: input({ bookingId: string, confirmed: { type: 'boolean', description: 'false is a dry-run' }, reason: string }, ['reason']),
+    outputSchema: object({
+      success: boolean,
+      refundAmount: number,
+      refundCurrency: string,
+      cancellationFee: number,
+      message: string,
+      cancellationReference: string,
+    }, ['refundAmount', 'refundCurrency', 'cancellationFee', 'cancellationReference']),
+  },
+  {
+    name: 'get_hotel_details',
+    description: 'Get hotel description, amenities and photos',
+    inputSchema: input({
+      hotelId: { type: 'integer', description: 'A NUMBER here - externalId from search results' },
+      language: string,
+      includeImages: boolean,
+      imageLimit: { type: 'integer', minimum: 0 },
+    }, ['language', 'includeImages', 'imageLimit']),
+    outputSchema: hotelDetails,
+  },
+  {
+    name: 'get_payment_url',
+    description: 'Get a Stripe checkout URL for a prepared booking',
+    inputSchema: input({
+      bookingId: string,
+      currency,
+      backUrl: { type: 'string', pattern: '^https?://' },
+      successUrl: { type: 'string', pattern: '^https?://' },
+    }, ['successUrl']),
+    outputSchema: object({ url: string, sessionId: string }),
+  },
+];
@@ -0,0 +1,326 @@
+/**
+ * Mock LockTrip Server - GraphQL Endpoint
+ *
+ * Resolves the operations in src/graphql-client.ts against MockBackend.
+ * The root field is picked out of the query text; full objects are returned
+ * regardless of the selection set, which clients simply ignore.
+ *
+ * GraphQL wire rules are enforced: DD/MM/YYYY dates, 1-based pages and a
+ * NUMBER hotelId for getHotelRooms.
+ *
+ * Every query is first validated against the server's schema, like
+ * production: selecting a field the schema lacks is an error, and
+ * { __schema } answers with the schema's introspection result.
+ */
+
+import { parseOperation, validateOperation } from '../graphql-operations';
+import { GraphQLSchemaModel, toIntrospection } from '../graphql-schema';
+import { MockApiError, MockBackend, MockBooking, MockPolicy, SortOrder, StayRoom } from './backend';
+import { ESSENTIAL_INFORMATION, MockHotel, TAXES } from './fixtures';
+
+type Variables = Record<string, any>;
+
+export interface GraphQLRequestBody {
+  query?: string;
+  variables?: Variables;
+  operationName?: string;
+}
+
+const ROOT_FIELDS = [
+  'locationSearch',
+  'hotelSearch',
+  'hotelSearchResults',
+  'getHotelRooms',
+  'hotelCancellationPolicies',
+  'hotelBookingPrepare',
+  'confirmB2bBooking',
+  'cancelBookingRequest',
+  'getUserBookings',
+  'getBookingDetails',
+];
+
+/**
+ * Strict DD/MM/YYYY - anything else is the documented "Invalid date format"
+ */
+function parseDate(value: unknown): Date {
+  const match = typeof value === 'string' ? /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value) : null;
+  if (!match) {
+    throw new MockApiError(`Invalid date format: "${value}" - use DD/MM/YYYY`);
+  }
+  return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+}
+
+function parseRooms(rooms: Array<{ adults: number; children?: number[] }> = []): StayRoom[] {
+  return rooms.map(r => ({ adults: r.adults, childrenAges: r.children || [] }));
+}
+
+const isoDay = (d: Date) => d.toISOString().split('T')[0];
+
+/**
+ * sortParams is [field, direction], e.g. ['price', 'asc']
+ */
+function toSortOrder(sortParams: string[] = []): SortOrder {
+  const [field, direction] = sortParams;
+  if (field === 'price') {
+    return direction === 'desc' ? 'PRICE_DESC' : 'PRICE_ASC';
+  }
+  if (field === 'reviewsScore' || field === 'rating') {
+    return 'RATING_DESC';
+  }
+  if (field === 'distance') {
+    return 'DISTANCE';
+  }
+  return 'PRICE_ASC';
+}
+
+function toResult(hotel: MockHotel) {
+  return {
+    externalId: hotel.id,
+    name: hotel.name,
+    star: hotel.star,
+    address: hotel.address,
+    latitude: hotel.latitude,
+    longitude: hotel.longitude,
+    price: hotel.price,
+    lastBestPrice: hotel.lastBestPrice,
+    discountScore: hotel.discountScore,
+    distance: hotel.distance,
+    boardType: hotel.boardType,
+    payment: hotel.payment,
+    quality: hotel.quality,
+    reviewsScore: hotel.reviewsScore,
+    hasFreeCancellationOption: hotel.hasFreeCancellation,
+    refundability: hotel.refundable,
+    refundableUntil: null,
+    availableBoards: hotel.availableBoards,
+    reviews: {
+      scoreSummary: hotel.reviewsCount ? hotel.reviewsScore : null,
+      reviewsCount: hotel.reviewsCount,
+    },
+    hotelPhoto: { url: hotel.photo },
+    features: hotel.features,
+  };
+}
+
+function toPolicy(policy: MockPolicy) {
+  return {
+    packageId: policy.packageId,
+    fallbackPolicy: null,
+    cancellations: [{
+      nonRefundable: !policy.refundable,
+      boardType: null,
+      roomType: null,
+      originalName: null,
+      canxFees: [
+        ...(policy.freeCancellationUntil ? [{ amount: { amt: 0 }, from: Date.now() }] : []),
+        ...policy.fees.map(f => ({ amount: { amt: f.amount }, from: f.from.getTime() })),
+      ],
+    }],
+  };
+}
+
+export function toBookingDetails(b: MockBooking) {
+  return {
+    bookingId: b.id,
+    bookingReferenceId: b.referenceId,
+    providerReference: b.providerReference,
+    status: b.status === 'PREPARED' ? 'PENDING' : b.status,
+    hotel: {
+      id: String(b.hotel.id),
+      name: b.hotel.name,
+      address: b.hotel.address,
+      city: b.hotel.city,
+      country: b.hotel.country,
+      phone: null,
+      email: null,
+      starRating: b.hotel.star,
+    },
+    checkIn: isoDay(b.checkIn),
+    checkOut: isoDay(b.checkOut),
+    rooms: b.rooms.map(r => ({
+      roomName: b.roomName,
+      mealType: b.mealType,
+      guests: r.adults.map(g => ({ firstName: g.firstName, lastName: g.lastName })),
+      price: b.price / b.rooms.length,
+    })),
+    contactPerson: {
+      firstName: b.contact.firstName,
+      lastName: b.contact.lastName,
+      email: b.contact.email,
+      phone: b.contact.phone,
+    },
+    totalPrice: b.price,
+    currency: b.currency,
+    paymentStatus: b.status === 'CONFIRMED' ? 'PAID' : 'UNPAID',
+    cancellationPolicy: {
+      isRefundable: b.policy.refundable,
+      freeCancellationUntil: b.policy.freeCancellationUntil?.toISOString() ?? null,
+      fees: b.policy.fees.map(f => ({ fromDate: isoDay(f.from), amount: f.amount, currency: b.currency })),
+    },
+    specialRequests: null,
+    createdAt: b.createdAt.toISOString(),
+    confirmedAt: b.confirmedAt?.toISOString() ?? null,
+  };
+}
+
+function resolve(backend: MockBackend, field: string, v: Variables): unknown {
+  switch (field) {
+    case 'locationSearch':
+      return {
+        locationData: backend.locations(v.query || '').map(l => (
+          l.type === 'HOTEL'
+            ? { id: l.id, displayName: l.name, query: l.fullName, type: l.graphqlType, score: 28.49 }
+            : { id: l.id, externalId: l.id, hotelCount: 0, type: l.graphqlType, query: l.fullName }
+        )),
+      };
+
+    case 'hotelSearch': {
+      const input = v.searchHotelsInput || {};
+      return backend.startSearch({
+        regionId: input.regionId,
+        latitude: input.latitude,
+        longitude: input.longitude,
+        startDate: parseDate(input.startDate),
+        endDate: parseDate(input.endDate),
+        currency: input.currency || 'EUR',
+        rooms: parseRooms(input.rooms),
+      });
+    }
+
+    case 'hotelSearchResults': {
+      const input = v.input || {};
+      const page = input.page ?? 1;
+      if (page < 1) {
+        throw new MockApiError('page must be >= 1 (GraphQL uses 1-based pagination)');
+      }
+      const result = backend.results(input.searchKey, page - 1, input.size ?? 100, toSortOrder(input.sortParams));
+      return {
+        results: result.hotels.map(toResult),
+        totalResults: result.total,
+        page,
+        size: result.size,
+        hasNextPage: result.hasNextPage,
+        isResultCompleted: result.completed,
+        isSearchFinished: result.completed,
+      };
+    }
+
+    case 'getHotelRooms': {
+      const input = v.input || {};
+      if (typeof input.hotelId !== 'number') {
+        throw new MockApiError('hotelId must be a number');
+      }
+      return {
+        searchKey: input.searchKey,
+        hotelRoomsResponse: backend.rooms(input.searchKey, input.hotelId).map(p => ({
+          quoteId: p.quoteId,
+          refundable: p.refundable,
+          finalPrice: p.price,
+          mealType: p.mealType,
+          roomType: p.roomType,
+          originalName: p.roomName,
+          payment: 'Cash',
+          roomCount: 1,
+          roomContent: { amenities: p.amenities, images: p.images, descriptions: [] },
+        })),
+      };
+    }
+
+    case 'hotelCancellationPolicies':
+      return backend
+        .policies(v.searchKey, parseInt(v.hotelId, 10), v.packageIds || [])
+        .map(toPolicy);
+
+    case 'hotelBookingPrepare': {
+      const input = v.bookingCreateInput || {};
+      const booking = backend.prepare(
+        input.quoteId,
+        (input.rooms || []).map((r: any) => ({ adults: r.adults || [], children: r.children || [] })),
+        input.contactPerson
+      );
+      return {
+        preparedBookingId: booking.id,
+        fiatPrice: booking.price,
+        currency: booking.currency,
+        isUpfrontPaid: false,
+        essentialInformation: ESSENTIAL_INFORMATION,
+        payment: 'Cash',
+        discount: null,
+        taxes: TAXES,
+      };
+    }
+
+    case 'confirmB2bBooking': {
+      const input = v.bookingConfirmInput || {};
+      return backend.confirm(input.bookingInternalId, input.quoteId);
+    }
+
+    case 'cancelBookingRequest': {
+      const input = v.cancelBookingInput || {};
+      return { isCancellationRequested: backend.cancel(input.bookingId, input.confirmed === true).cancelled };
+    }
+
+    case 'getUserBookings':
+      return {
+        bookings: backend.listBookings(v.input?.type || 'UPCOMING').map(b => ({
+          id: b.id,
+          booking_id: b.referenceId,
+          hotel_name: b.hotel.name,
+          hotel_id: String(b.hotel.id),
+          arrival_date: isoDay(b.checkIn),
+          nights: Math.round((b.checkOut.getTime() - b.checkIn.getTime()) / 86400000),
+          status: b.status === 'PREPARED' ? 'PENDING' : b.status,
+          rooms_count: b.rooms.length,
+          created_on: b.createdAt.toISOString(),
+          has_details: true,
+          isB2B: true,
+          hotel_photo: b.hotel.photo,
+        })),
+      };
+
+    case 'getBookingDetails': {
+      const booking = backend.booking(v.bookingId);
+      return booking ? { success: true, data: toBookingDetails(booking) } : { success: false, data: null };
+    }
+  }
+
+  throw new MockApiError(`Unsupported operation: ${field}`);
+}
+
+/**
+ * Handle one POST /graphql body - errors go in the errors array, HTTP 200
+ */
+export function handleGraphQL(
+  backend: MockBackend,
+  schema: GraphQLSchemaModel,
+  body: GraphQLRequestBody
+): { data: unknown; errors?: unknown[] } {
+  const query = body.query || '';
+  if (/\b__schema\b/.test(query)) {
+    return { data: { __schema: toIntrospection(schema) } };
+  }
+
+  try {
+    const invalid = validateOperation(schema, parseOperation(query)).filter(i => i.severity === 'error');
+    if (invalid.length > 0) {
+      return { data: null, errors: invalid.map(i => ({ message: `${i.path}: ${i.message}` })) };
+    }
+  } catch (error) {
+    return { data: null, errors: [{ message: `Syntax Error: ${(error as Error).message}` }] };
+  }
+
+  const field = ROOT_FIELDS.find(f => new RegExp(`\\b${f}\\s*\\(`).test(query));
+
+  if (!field) {
+    return { data: null, errors: [{ message: 'Unknown operation' }] };
+  }
+
+  try {
+    return { data: { [field]: resolve(backend, field, body.variables || {}) } };
+  } catch (error) {
+    return {
+      data: null,
+      errors: [{ message: (error as Error).message, path: [field] }],
+    };
+  }
+}
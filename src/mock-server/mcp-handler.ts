@@ -0,0 +1,346 @@
+/**
+ * Mock LockTrip Server - MCP Tools
+ *
+ * Implements the 12 documented tools against MockBackend, reachable through
+ * REST (/mcp/tools/:name), JSON-RPC 2.0 (/mcp/rpc) and SSE sessions (see ./sse-handler).
+ *
+ * MCP wire rules are enforced: YYYY-MM-DD dates, 0-indexed pages and
+ * rooms[].guests[] for prepare_booking.
+ */
+
+import { MockApiError, MockBackend, StayRoom } from './backend';
+import { ESSENTIAL_INFORMATION, MCP_TOOLS, TAXES } from './fixtures';
+import { toBookingDetails } from './graphql-handler';
+
+type Args = Record<string, any>;
+
+/**
+ * Strict YYYY-MM-DD - anything else is the documented "Invalid date format"
+ */
+function parseDate(value: unknown): Date {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) {
+    throw new MockApiError(`Invalid date format: "${value}" - use YYYY-MM-DD`);
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function parseRooms(rooms: Array<{ adults: number; childrenAges?: number[] }> = []): StayRoom[] {
+  return rooms.map(r => ({ adults: r.adults, childrenAges: r.childrenAges || [] }));
+}
+
+const isoDay = (d: Date) => d.toISOString().split('T')[0];
+
+/**
+ * Run one tool call - throws MockApiError on failure
+ */
+export function callTool(backend: MockBackend, name: string, args: Args): unknown {
+  switch (name) {
+    case 'search_location':
+      return {
+        locations: backend.locations(args.query || '').map(l => ({
+          id: l.id,
+          name: l.name,
+          country: l.country,
+          type: l.type,
+          fullName: l.fullName,
+        })),
+      };
+
+    case 'hotel_search':
+      return {
+        ...backend.startSearch({
+          regionId: args.regionId,
+          latitude: args.latitude,
+          longitude: args.longitude,
+          startDate: parseDate(args.startDate),
+          endDate: parseDate(args.endDate),
+          currency: args.currency || 'EUR',
+          rooms: parseRooms(args.rooms),
+        }),
+        status: 'PENDING',
+      };
+
+    case 'get_search_results': {
+      const page = args.page ?? 0;
+      if (page < 0) {
+        throw new MockApiError('page must be >= 0 (MCP uses 0-indexed pagination)');
+      }
+      const result = backend.results(args.searchKey, page, args.size ?? 5000, args.sortBy || 'PRICE_ASC');
+      return {
+        hotels: result.hotels.map(h => ({
+          hotelId: String(h.id),
+          name: h.name,
+          starRating: h.star,
+          address: h.address,
+          latitude: h.latitude,
+          longitude: h.longitude,
+          images: [h.photo],
+          amenities: h.features,
+          minPrice: h.price,
+          originalPrice: h.lastBestPrice,
+          currency: 'EUR',
+          discountScore: h.discountScore,
+          distance: h.distance,
+          boardType: h.boardType,
+          payment: h.payment,
+          quality: h.quality,
+          reviewScore: h.reviewsScore,
+          reviewCount: h.reviewsCount,
+          hasFreeCancellation: h.hasFreeCancellation,
+          isRefundable: h.refundable,
+          refundableUntil: null,
+          availableMealTypes: h.availableBoards,
+        })),
+        totalCount: result.total,
+        page,
+        pageSize: result.size,
+        hasMore: result.hasNextPage,
+        searchStatus: result.completed ? 'COMPLETED' : 'IN_PROGRESS',
+      };
+    }
+
+    case 'get_hotel_rooms': {
+      const hotelId = parseInt(args.hotelId, 10);
+      const startDate = parseDate(args.startDate);
+      const endDate = parseDate(args.endDate);
+      const nights = Math.max(1, Math.round((endDate.getTime() - startDate.getTime()) / 86400000));
+      return {
+        hotelId: String(hotelId),
+        hotelName: '',
+        searchKey: args.searchKey,
+        packages: backend.rooms(args.searchKey, hotelId).map(p => ({
+          quoteId: p.quoteId,
+          packageId: p.quoteId,
+          roomName: p.roomName,
+          roomDescription: '',
+          mealType: p.mealType,
+          mealDescription: p.mealType,
+          bedType: null,
+          maxOccupancy: 2,
+          amenities: p.amenities,
+          price: p.price,
+          currency: 'EUR',
+          pricePerNight: Math.round(p.price / nights * 100) / 100,
+          totalNights: nights,
+          isRefundable: p.refundable,
+          cancellationDeadline: null,
+          provider: null,
+        })),
+        checkIn: isoDay(startDate),
+        checkOut: isoDay(endDate),
+      };
+    }
+
+    case 'check_cancellation_policy':
+      return {
+        hotelId: String(args.hotelId),
+        policies: backend.policies(args.searchKey, parseInt(args.hotelId, 10), args.packageIds || []).map(p => ({
+          packageId: p.packageId,
+          isRefundable: p.refundable,
+          freeCancellationUntil: p.freeCancellationUntil?.toISOString() ?? null,
+          fees: p.fees.map(f => ({
+            fromDate: f.from.toISOString(),
+            toDate: f.to?.toISOString() ?? null,
+            amount: f.amount,
+            currency: 'EUR',
+            percentage: f.percentage,
+            description: f.percentage === 100 ? 'No refund' : `${f.percentage}% cancellation fee`,
+          })),
+          remarks: p.freeCancellationUntil
+            ? [`Free cancellation until ${p.freeCancellationUntil.toDateString()}`]
+            : ['Non-refundable'],
+        })),
+      };
+
+    case 'prepare_booking': {
+      const booking = backend.prepare(
+        args.quoteId,
+        (args.rooms || []).map((r: any) => ({ adults: r.guests || [], children: r.children || [] })),
+        args.contactPerson
+      );
+      return {
+        preparedBookingId: booking.id,
+        bookingInternalId: booking.id,
+        price: booking.price,
+        currency: booking.currency,
+        payment: 'Cash',
+        discount: null,
+        taxes: TAXES,
+        essentialInformation: ESSENTIAL_INFORMATION,
+      };
+    }
+
+    case 'confirm_booking': {
+      const result = backend.confirm(args.bookingInternalId, args.quoteId);
+      return result.accepted
+        ? { ...result, voucherUrl: `https://locktrip.com/booking/hotel/voucher/${args.bookingInternalId}` }
+        : result;
+    }
+
+    case 'list_bookings': {
+      const bookings = backend.listBookings(args.type || 'UPCOMING');
+      return {
+        bookings: bookings.map(b => ({
+          bookingId: b.id,
+          bookingReferenceId: b.referenceId,
+          hotelName: b.hotel.name,
+          hotelCity: b.hotel.city,
+          checkIn: isoDay(b.checkIn),
+          checkOut: isoDay(b.checkOut),
+          status: b.status === 'PREPARED' ? 'PENDING' : b.status,
+          totalPrice: b.price,
+          currency: b.currency,
+          guestName: `${b.rooms[0]?.adults[0]?.firstName ?? ''} ${b.rooms[0]?.adults[0]?.lastName ?? ''}`.trim(),
+          roomCount: b.rooms.length,
+          createdAt: b.createdAt.toISOString(),
+        })),
+        totalCount: bookings.length,
+        page: 0,
+        pageSize: 20,
+      };
+    }
+
+    case 'get_booking_details': {
+      const booking = backend.booking(args.bookingId);
+      if (!booking) {
+        throw new MockApiError(`Booking not found: ${args.bookingId}`, 404);
+      }
+      return toBookingDetails(booking);
+    }
+
+    case 'cancel_booking': {
+      const booking = backend.booking(args.bookingId);
+      const result = backend.cancel(args.bookingId, args.confirmed === true);
+      return {
+        success: result.cancelled,
+        refundAmount: result.refund,
+        refundCurrency: booking?.currency ?? 'EUR',
+        cancellationFee: result.fee,
+        message: result.message,
+        cancellationReference: result.cancelled ? `CXL-${args.bookingId.slice(0, 8).toUpperCase()}` : undefined,
+      };
+    }
+
+    case 'get_hotel_details': {
+      if (typeof args.hotelId !== 'number') {
+        throw new MockApiError('hotelId must be a number');
+      }
+      const hotel = backend.hotel(args.hotelId);
+      return {
+        hotel: {
+          id: hotel.id,
+          name: hotel.name,
+          country: hotel.country,
+          city: hotel.city,
+          star: hotel.star,
+          address: hotel.address,
+          latitude: hotel.latitude,
+          longitude: hotel.longitude,
+          description: `${hotel.name} in ${hotel.city}.`,
+          phone: null,
+          countryCode: 'ID',
+          hotelPhotos: [{ url: hotel.photo }],
+          reviews: null,
+          hotelAmenities: [{
+            hotelId: hotel.id,
+            categoryName: 'General',
+            features: hotel.features.map(f => ({ _id: f.toLowerCase(), name: f })),
+          }],
+        },
+        additionalImages: [],
+      };
+    }
+
+    case 'get_payment_url': {
+      if (!backend.booking(args.bookingId)) {
+        throw new MockApiError(`Booking not found: ${args.bookingId}`, 404);
+      }
+      return {
+        url: `https://checkout.stripe.com/c/pay/cs_test_${args.bookingId}`,
+        sessionId: `cs_test_${args.bookingId}`,
+      };
+    }
+  }
+
+  throw new MockApiError(`Unknown tool: ${name}`, 404);
+}
+
+export function listTools() {
+  return { tools: MCP_TOOLS };
+}
+
+// =============================================================================
+// JSON-RPC 2.0
+// =============================================================================
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Args;
+}
+
+/**
+ * Handle one JSON-RPC request - returns null for notifications (no id)
+ */
+export function handleRpc(backend: MockBackend, request: JsonRpcRequest): object | null {
+  const id = request?.id ?? null;
+
+  if (request?.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+  }
+
+  let result: unknown;
+  try {
+    switch (request.method) {
+      case 'initialize':
+        result = {
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'locktrip-mock', version: '1.0.0' },
+        };
+        break;
+
+      case 'ping':
+        result = {};
+        break;
+
+      case 'tools/list':
+        result = listTools();
+        break;
+
+      case 'tools/call': {
+        const output = callTool(backend, request.params?.name, request.params?.arguments || {});
+        result = { content: [{ type: 'text', text: JSON.stringify(output) }] };
+        break;
+      }
+
+      default:
+        if (request.id === undefined) {
+          return null;
+        }
+        return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+    }
+  } catch (error) {
+    result = {
+      content: [{ type: 'text', text: (error as Error).message }],
+      isError: true,
+    };
+  }
+
+  return request.id === undefined ? null : { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * Handle a request or a batch - null when nothing needs answering (notifications only)
+ */
+export function handleRpcMessage(backend: MockBackend, message: JsonRpcRequest | JsonRpcRequest[]): object | null {
+  if (!Array.isArray(message)) {
+    return handleRpc(backend, message);
+  }
+  if (message.length === 0) {
+    return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+  }
+  const responses = message.map(request => handleRpc(backend, request)).filter(r => r !== null);
+  return responses.length > 0 ? responses : null;
+}
@@ -0,0 +1,242 @@
+/**
+ * Mock LockTrip Server - HTTP Routing
+ *
+ * | Endpoint               | Method | Auth | Description              |
+ * |------------------------|--------|------|--------------------------|
+ * | /graphql               | POST   | Yes  | GraphQL API              |
+ * | /mcp/health            | GET    | No   | Health check             |
+ * | /mcp/tools             | GET    | No   | List available tools     |
+ * | /mcp/tools/:name       | POST   | Yes  | Call a tool directly     |
+ * | /mcp/rpc               | POST   | Yes  | JSON-RPC 2.0, batches    |
+ * | /mcp/sse               | GET    | Yes  | MCP session event stream |
+ * | /mcp/messages          | POST   | Yes  | Requests of a session    |
+ * | /api/auth/login        | POST   | No   | Log in - issues a JWT    |
+ * | /__mock/state          | GET    | No   | Credit line + bookings   |
+ *
+ * Tokens from /api/auth/login are always accepted until their `exp`; after
+ * that every call gets 401 "jwt expired", like production.
+ */
+
+import { readFileSync } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GRAPHQL_SCHEMA_SNAPSHOT, parseSdl } from '../graphql-schema';
+import { handleLogin, MockLoginOptions, mockTokenClaims } from './auth-handler';
+import { MockApiError, MockBackend, MockBackendOptions } from './backend';
+import { handleGraphQL } from './graphql-handler';
+import { callTool, handleRpcMessage, listTools } from './mcp-handler';
+import { SseSessions } from './sse-handler';
+
+export interface MockServerOptions extends MockBackendOptions {
+  // Required bearer token - any non-empty token is accepted when unset
+  token?: string;
+
+  // Credentials and token lifetime for /api/auth/login
+  login?: MockLoginOptions;
+
+  // Close each SSE stream after this many messages - tests client reconnection
+  sseDropAfter?: number;
+
+  // SDL served by /graphql - simulates upstream drift (default: the checked-in snapshot)
+  graphqlSchema?: string;
+}
+
+export interface RunningMockServer {
+  url: string;
+  backend: MockBackend;
+  server: http.Server;
+  close(): Promise<void>;
+}
+
+type Handler = (req: http.IncomingMessage, body: any) => { status: number; body: unknown } | null;
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new MockApiError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+export function createMockServer(options: MockServerOptions = {}): { server: http.Server; backend: MockBackend; sse: SseSessions } {
+  const backend = new MockBackend(options);
+  const sse = new SseSessions(backend, options.sseDropAfter);
+  const schema = parseSdl(options.graphqlSchema ?? readFileSync(GRAPHQL_SCHEMA_SNAPSHOT, 'utf8'));
+
+  // Why the request is rejected - null when the token is accepted
+  const rejection = (req: http.IncomingMessage): string | null => {
+    const header = req.headers['authorization'] || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const claims = mockTokenClaims(token);
+    if (claims) {
+      return claims.exp * 1000 > Date.now() ? null : 'Unauthorized: jwt expired';
+    }
+    const accepted = options.token ? token === options.token : token.length > 0;
+    return accepted ? null : 'Unauthorized: Bearer token required';
+  };
+
+  const authorized = (req: http.IncomingMessage): boolean => rejection(req) === null;
+
+  const unauthorized = (req: http.IncomingMessage) => ({ status: 401, body: { error: rejection(req) } });
+
+  const routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [
+    {
+      method: 'POST',
+      pattern: /^\/graphql$/,
+      handler: (req, body) => (authorized(req)
+        ? { status: 200, body: handleGraphQL(backend, schema, body) }
+        : unauthorized(req)),
+    },
+    {
+      method: 'GET',
+      pattern: /^\/mcp\/health$/,
+      handler: () => ({ status: 200, body: { status: 'ok', server: 'locktrip-mock', tools: listTools().tools.length } }),
+    },
+    {
+      method: 'GET',
+      pattern: /^\/mcp\/tools$/,
+      handler: () => ({ status: 200, body: listTools() }),
+    },
+    {
+      method: 'POST',
+      pattern: /^\/mcp\/tools\/([a-z_]+)$/,
+      handler: (req, body) => {
+        if (!authorized(req)) {
+          return unauthorized(req);
+        }
+        const name = /^\/mcp\/tools\/([a-z_]+)$/.exec(req.url!.split('?')[0])![1];
+        return { status: 200, body: callTool(backend, name, body) };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/mcp\/rpc$/,
+      handler: (req, body) => {
+        if (!authorized(req)) {
+          return unauthorized(req);
+        }
+        const response = handleRpcMessage(backend, body);
+        return response ? { status: 200, body: response } : { status: 204, body: null };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/mcp\/messages$/,
+      handler: (req, body) => {
+        if (!authorized(req)) {
+          return unauthorized(req);
+        }
+        const sessionId = new URL(req.url!, 'http://mock').searchParams.get('sessionId') || '';
+        return sse.receive(sessionId, body)
+          ? { status: 202, body: null }
+          : { status: 404, body: { error: `Unknown session: ${sessionId}` } };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/auth\/login$/,
+      handler: (req, body) => ({
+        status: 200,
+        body: handleLogin(
+          options.login || {},
+          { isB2B: backend.options.isB2B, hasCL: backend.options.creditLine > 0 },
+          body
+        ),
+      }),
+    },
+    {
+      method: 'GET',
+      pattern: /^\/__mock\/state$/,
+      handler: () => ({
+        status: 200,
+        body: {
+          creditLine: backend.options.creditLine,
+          creditAvailable: backend.creditAvailable,
+          bookings: backend.listBookings('ALL').map(b => ({ id: b.id, status: b.status, price: b.price })),
+        },
+      }),
+    },
+  ];
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    // The event stream stays open - it cannot go through the route table
+    if (req.method === 'GET' && path === '/mcp/sse') {
+      if (authorized(req)) {
+        sse.open(req, res);
+      } else {
+        const { status, body } = unauthorized(req);
+        send(res, status, body);
+      }
+      return;
+    }
+
+    const route = routes.find(r => r.method === req.method && r.pattern.test(path));
+
+    if (!route) {
+      send(res, 404, { error: `Not found: ${req.method} ${path}` });
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await readBody(req) : {};
+      const result = route.handler(req, body);
+      if (result && result.body === null) {
+        res.writeHead(result.status);
+        res.end();
+      } else if (result) {
+        send(res, result.status, result.body);
+      }
+    } catch (error) {
+      const status = error instanceof MockApiError ? error.status : 500;
+      send(res, status, { error: (error as Error).message });
+    }
+  });
+
+  return { server, backend, sse };
+}
+
+/**
+ * Start listening - port 0 picks a free port
+ */
+export function startMockServer(port = 0, options: MockServerOptions = {}): Promise<RunningMockServer> {
+  const { server, backend, sse } = createMockServer(options);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${address.port}`,
+        backend,
+        server,
+        close: () => new Promise(done => {
+          sse.closeAll();  // Open streams would keep close() waiting
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Mock LockTrip Server - MCP over SSE
+ *
+ * GET /mcp/sse opens a session: the first event names the endpoint for its
+ * requests, and every answer is sent back as a `message` event:
+ *
+ *   event: endpoint
+ *   data: /mcp/messages?sessionId=...
+ *
+ *   event: message
+ *   data: {"jsonrpc":"2.0","id":1,"result":{...}}
+ *
+ * dropAfter closes each stream after that many messages (the initialize
+ * answer included), so clients can be tested for reconnection.
+ */
+
+import { randomUUID } from 'crypto';
+import http from 'http';
+import { MockBackend } from './backend';
+import { handleRpcMessage, JsonRpcRequest } from './mcp-handler';
+
+interface Session {
+  res: http.ServerResponse;
+  sent: number;
+}
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_MS = 15000;
+
+export class SseSessions {
+  private readonly sessions = new Map<string, Session>();
+
+  constructor(private readonly backend: MockBackend, private readonly dropAfter?: number) {}
+
+  /**
+   * Start the event stream for GET /mcp/sse
+   */
+  open(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const id = randomUUID();
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(`event: endpoint\ndata: /mcp/messages?sessionId=${id}\n\n`);
+    this.sessions.set(id, { res, sent: 0 });
+
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+    keepalive.unref();
+    req.on('close', () => {
+      clearInterval(keepalive);
+      this.sessions.delete(id);
+    });
+  }
+
+  /**
+   * Handle a POSTed message - false when the session is unknown (→ 404)
+   */
+  receive(sessionId: string, message: JsonRpcRequest | JsonRpcRequest[]): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    const response = handleRpcMessage(this.backend, message);
+    for (const item of response === null ? [] : Array.isArray(response) ? response : [response]) {
+      session.res.write(`event: message\ndata: ${JSON.stringify(item)}\n\n`);
+      session.sent++;
+      if (this.dropAfter && session.sent >= this.dropAfter) {
+        this.sessions.delete(sessionId);
+        session.res.end();
+        break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * End every open stream - lets server.close() finish
+   */
+  closeAll(): void {
+    for (const session of this.sessions.values()) {
+      session.res.end();
+    }
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * LockTrip API - Occupancy
+ *
+ * N rooms, each with its own adults and child ages. The same Occupancy
+ * drives the search, the room quote and booking preparation, and the
+ * booking must name exactly the guests that were searched, room by room:
+ *
+ * | Step             | GraphQL                    | MCP                           |
+ * |------------------|----------------------------|-------------------------------|
+ * | Search / rooms   | rooms[].{adults, children} | rooms[].{adults, childrenAges}|
+ * | Prepare booking  | rooms[].adults[]           | rooms[].guests[]              |
+ * | Children         | rooms[].children[] (age)   | rooms[].children[] (age)      |
+ *
+ * Text form (config files, env, --occupancy): rooms separated by ";", each
+ * "adults[:age,age...]" - e.g. "2:5,9;1" is two adults with children of 5
+ * and 9 in the first room and one adult in the second.
+ *
+ * Usage:
+ *
+ *   const occupancy = Occupancy.parse('2:5,9;1');
+ *   await client.searchHotels({ regionId, checkIn, checkOut, currency, rooms: occupancy.rooms });
+ *
+ *   // Guests are handed out in room order - children get the searched ages
+ *   const rooms = occupancy.assign(
+ *     [john, jane, bob],
+ *     [{ firstName: 'Amy', lastName: 'Doe' }, { firstName: 'Max', lastName: 'Doe' }]
+ *   );
+ */
+
+import type { BookingRoom, ChildGuest, Guest, RoomOccupancy } from './booking-client';
+import { GuestCountMismatchError } from './errors';
+
+export type ChildName = Omit<ChildGuest, 'age'>;
+
+export interface AssignmentIssue {
+  path: 'adults' | 'children';
+  message: string;
+}
+
+export interface Assignment {
+  rooms: BookingRoom[];
+  issues: AssignmentIssue[];  // Empty when the counts match the occupancy
+}
+
+export const MAX_CHILD_AGE = 17;
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : word === 'child' ? 'ren' : 's'}`;
+
+export class Occupancy {
+  readonly rooms: RoomOccupancy[];
+
+  private constructor(rooms: RoomOccupancy[]) {
+    this.rooms = rooms.map(r => ({ adults: r.adults, childrenAges: [...r.childrenAges] }));
+  }
+
+  /**
+   * Validate and wrap rooms - every room needs an adult, ages are 0-17
+   */
+  static of(rooms: RoomOccupancy[]): Occupancy {
+    if (rooms.length === 0) {
+      throw new Error('Occupancy needs at least one room');
+    }
+    rooms.forEach((room, index) => {
+      if (!Number.isInteger(room.adults) || room.adults < 1) {
+        throw new Error(`Room ${index + 1}: adults must be a whole number of at least 1, got ${room.adults}`);
+      }
+      for (const age of room.childrenAges) {
+        if (!Number.isInteger(age) || age < 0 || age > MAX_CHILD_AGE) {
+          throw new Error(`Room ${index + 1}: child age must be 0-${MAX_CHILD_AGE}, got ${age}`);
+        }
+      }
+    });
+    return new Occupancy(rooms);
+  }
+
+  /**
+   * `count` identical rooms
+   */
+  static uniform(count: number, adults: number, childrenAges: number[] = []): Occupancy {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Room count must be a whole number of at least 1, got ${count}`);
+    }
+    return Occupancy.of(Array.from({ length: count }, () => ({ adults, childrenAges })));
+  }
+
+  /**
+   * Parse the text form, e.g. "2:5,9;1"
+   */
+  static parse(text: string): Occupancy {
+    const rooms = text.split(';').map(part => part.trim()).map((part, index) => {
+      const match = /^(\d+)(?::\s*(\d+(?:\s*,\s*\d+)*))?$/.exec(part);
+      if (!match) {
+        throw new Error(`Invalid occupancy "${text}": room ${index + 1} must be "adults[:age,age...]", got "${part}"`);
+      }
+      return {
+        adults: Number(match[1]),
+        childrenAges: match[2] ? match[2].split(',').map(age => Number(age.trim())) : [],
+      };
+    });
+    return Occupancy.of(rooms);
+  }
+
+  get adults(): number {
+    return this.rooms.reduce((sum, r) => sum + r.adults, 0);
+  }
+
+  get children(): number {
+    return this.rooms.reduce((sum, r) => sum + r.childrenAges.length, 0);
+  }
+
+  /**
+   * Text form - Occupancy.parse(o.toString()) round-trips
+   */
+  toString(): string {
+    return this.rooms.map(r => (r.childrenAges.length > 0 ? `${r.adults}:${r.childrenAges.join(',')}` : `${r.adults}`)).join(';');
+  }
+
+  /**
+   * Human-readable, e.g. "2 rooms: 2 adults + 2 children (5, 9); 1 adult"
+   */
+  describe(): string {
+    const rooms = this.rooms.map(r => {
+      const children = r.childrenAges.length > 0
+        ? ` + ${plural(r.childrenAges.length, 'child')} (${r.childrenAges.join(', ')})`
+        : '';
+      return `${plural(r.adults, 'adult')}${children}`;
+    });
+    return `${plural(this.rooms.length, 'room')}: ${rooms.join('; ')}`;
+  }
+
+  /**
+   * Hand out guests in room order - children get the ages that were searched.
+   * Counts must match exactly; extra names are an error, not silently dropped.
+   */
+  assign(adults: Guest[], children: ChildName[] = []): BookingRoom[] {
+    const { rooms, issues } = this.distribute(adults, children);
+    if (issues.length > 0) {
+      throw new GuestCountMismatchError(issues.map(i => i.message).join('; '));
+    }
+    return rooms;
+  }
+
+  /**
+   * assign() without throwing - count mismatches come back as issues and the
+   * rooms are filled as far as the names go. Without an explicit isLeadGuest,
+   * the first adult of the first room is marked as the lead.
+   */
+  distribute(adults: Guest[], children: ChildName[] = []): Assignment {
+    const issues: AssignmentIssue[] = [];
+    if (adults.length !== this.adults) {
+      issues.push({
+        path: 'adults',
+        message: `Occupancy has ${plural(this.adults, 'adult')} but ${adults.length} adult guest(s) were given`,
+      });
+    }
+    if (children.length !== this.children) {
+      issues.push({
+        path: 'children',
+        message: `Occupancy has ${plural(this.children, 'child')} but ${children.length} child guest(s) were given`,
+      });
+    }
+
+    const named = adults.slice(0, this.adults);
+    const withLead = named.some(g => g.isLeadGuest) ? named : named.map((g, i) => (i === 0 ? { ...g, isLeadGuest: true } : g));
+
+    let nextAdult = 0;
+    let nextChild = 0;
+    const rooms = this.rooms.map(room => ({
+      adults: withLead.slice(nextAdult, (nextAdult += room.adults)),
+      children: room.childrenAges.flatMap(age => (nextChild < children.length ? [{ ...children[nextChild++], age }] : [])),
+    }));
+    return { rooms, issues };
+  }
+
+  /**
+   * Check explicitly assigned rooms against the searched occupancy
+   */
+  check(rooms: BookingRoom[]): void {
+    if (rooms.length !== this.rooms.length) {
+      throw new GuestCountMismatchError(`Searched ${plural(this.rooms.length, 'room')} but booking has ${rooms.length}`);
+    }
+    rooms.forEach((room, index) => {
+      const searched = this.rooms[index];
+      if (room.adults.length !== searched.adults) {
+        throw new GuestCountMismatchError(
+          `Room ${index + 1}: searched ${plural(searched.adults, 'adult')} but booking names ${room.adults.length}`
+        );
+      }
+      const ages = room.children.map(c => c.age).sort((a, b) => a - b).join(',');
+      if (ages !== [...searched.childrenAges].sort((a, b) => a - b).join(',')) {
+        throw new GuestCountMismatchError(
+          `Room ${index + 1}: searched child ages [${searched.childrenAges.join(', ')}] but booking has [${room.children.map(c => c.age).join(', ')}]`
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * LockTrip API - Price Guard
+ *
+ * The price is seen three times before confirm charges the credit line:
+ *
+ * | Stage    | GraphQL                       | MCP                         |
+ * |----------|-------------------------------|-----------------------------|
+ * | search   | hotelSearchResults price      | get_search_results minPrice |
+ * | quote    | getHotelRooms finalPrice      | get_hotel_rooms price       |
+ * | prepared | hotelBookingPrepare fiatPrice | prepare_booking price       |
+ *
+ * PriceGuard records each stage and blocks confirm when the prepared price
+ * exceeds the quote by more than the tolerance, or the currency changed.
+ * The caller gets a PriceChanged result and must accept() it explicitly.
+ *
+ * Usage:
+ *
+ *   const guard = new PriceGuard({ absolute: 1, percent: 2 });
+ *   guard.record('quote', room.finalPrice, 'EUR');
+ *   guard.record('prepared', prepared.fiatPrice, prepared.currency);
+ *
+ *   const result = await guard.confirm(() => client.confirmB2bBooking(input));
+ *   if (isPriceChanged(result)) {
+ *     // show result.reason, then guard.accept(result) and confirm again
+ *   }
+ */
+
+export type PriceStage = 'search' | 'quote' | 'prepared';
+
+export interface PriceObservation {
+  stage: PriceStage;
+  amount: number;
+  currency: string;
+  at: Date;
+}
+
+/**
+ * Allowed increase from quote to prepared price. With both set, both must
+ * hold. Decreases are always allowed. Default: no increase at all.
+ */
+export interface PriceTolerance {
+  absolute?: number;  // In the quote currency
+  percent?: number;   // Of the quoted price, e.g. 2 = 2%
+}
+
+export interface PriceChanged {
+  kind: 'PriceChanged';
+  quoted: PriceObservation;
+  prepared: PriceObservation;
+  difference: number;        // prepared - quoted (same currency only)
+  percent: number;           // difference as % of quoted
+  currencyChanged: boolean;
+  reason: string;
+}
+
+export interface PriceOk {
+  kind: 'PriceOk';
+  quoted: PriceObservation;
+  prepared: PriceObservation;
+  difference: number;
+  percent: number;
+}
+
+export type PriceCheck = PriceOk | PriceChanged;
+
+export function isPriceChanged(value: unknown): value is PriceChanged {
+  return typeof value === 'object' && value !== null && (value as PriceChanged).kind === 'PriceChanged';
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export class PriceGuard {
+  private readonly observations = new Map<PriceStage, PriceObservation>();
+  private accepted: PriceChanged | null = null;
+
+  constructor(readonly tolerance: PriceTolerance = {}) {}
+
+  /**
+   * Record the price seen at a stage - re-recording a stage replaces it
+   */
+  record(stage: PriceStage, amount: number, currency: string): PriceObservation {
+    const observation = { stage, amount, currency: currency.toUpperCase(), at: new Date() };
+    this.observations.set(stage, observation);
+    if (stage !== 'search') {
+      this.accepted = null;  // A new quote or prepared price needs a new decision
+    }
+    return observation;
+  }
+
+  get(stage: PriceStage): PriceObservation | undefined {
+    return this.observations.get(stage);
+  }
+
+  history(): PriceObservation[] {
+    return (['search', 'quote', 'prepared'] as PriceStage[])
+      .map(stage => this.observations.get(stage))
+      .filter((o): o is PriceObservation => o !== undefined);
+  }
+
+  /**
+   * Compare the prepared price against the quote
+   */
+  check(): PriceCheck {
+    const quoted = this.observations.get('quote');
+    const prepared = this.observations.get('prepared');
+    if (!quoted || !prepared) {
+      throw new Error('PriceGuard needs both a quote and a prepared price before confirm');
+    }
+
+    const currencyChanged = quoted.currency !== prepared.currency;
+    const difference = round(prepared.amount - quoted.amount);
+    const percent = quoted.amount > 0 ? round(difference / quoted.amount * 100) : 0;
+
+    const reasons: string[] = [];
+    if (currencyChanged) {
+      reasons.push(`currency changed from ${quoted.currency} to ${prepared.currency}`);
+    } else if (difference > 0) {
+      const limits: number[] = [];
+      if (this.tolerance.absolute !== undefined) {
+        limits.push(this.tolerance.absolute);
+      }
+      if (this.tolerance.percent !== undefined) {
+        limits.push(quoted.amount * this.tolerance.percent / 100);
+      }
+      if (difference > (limits.length > 0 ? Math.min(...limits) : 0)) {
+        reasons.push(
+          `price rose from ${quoted.amount} to ${prepared.amount} ${prepared.currency} ` +
+          `(+${difference}, +${percent}%)`
+        );
+      }
+    }
+
+    if (reasons.length === 0) {
+      return { kind: 'PriceOk', quoted, prepared, difference, percent };
+    }
+
+    return {
+      kind: 'PriceChanged',
+      quoted,
+      prepared,
+      difference: currencyChanged ? NaN : difference,
+      percent: currencyChanged ? NaN : percent,
+      currencyChanged,
+      reason: reasons.join('; '),
+    };
+  }
+
+  /**
+   * Explicitly accept a change - only valid for the exact prices it reports
+   */
+  accept(change: PriceChanged): void {
+    this.accepted = change;
+  }
+
+  /**
+   * True if confirm may proceed now
+   */
+  allows(check: PriceCheck = this.check()): boolean {
+    if (check.kind === 'PriceOk') {
+      return true;
+    }
+    return this.accepted !== null &&
+      this.accepted.quoted === check.quoted &&
+      this.accepted.prepared === check.prepared;
+  }
+
+  /**
+   * Run the confirm call only if the price check passes (or was accepted)
+   */
+  async confirm<T>(confirmFn: () => Promise<T>): Promise<T | PriceChanged> {
+    const check = this.check();
+    if (!this.allows(check)) {
+      return check as PriceChanged;
+    }
+    return confirmFn();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * LockTrip API - Result Iterator
+ *
+ * Walks every page of a completed search via hasNextPage instead of asking
+ * for one huge page. Pages are 0-based here; the adapters convert to the
+ * transport's numbering (GraphQL 1-based, MCP 0-based).
+ *
+ * Usage:
+ *
+ *   for await (const hotel of client.iterateResults(searchKey, { pageSize: 100, concurrency: 4 })) {
+ *     console.log(hotel.name, hotel.price);
+ *   }
+ */
+
+import type { Hotel, HotelBookingClient, ResultsSort } from './booking-client';
+
+export interface ResultPage<T> {
+  items: T[];
+  hasNextPage: boolean;
+  total: number;
+}
+
+export interface IterateOptions {
+  // Results per request (default: transport default, 100)
+  pageSize?: number;
+
+  // Pages requested in parallel after the first one (default: 1)
+  concurrency?: number;
+
+  // Start from this 0-based page (default: 0)
+  startPage?: number;
+}
+
+export interface ResultsIterateOptions extends IterateOptions {
+  // Server-side sort order (default: PRICE_ASC)
+  sort?: ResultsSort;
+}
+
+/**
+ * Yield every item of every page, in page order
+ *
+ * The first page is fetched alone to learn `total`; later pages are fetched
+ * `concurrency` at a time without requesting past the last page.
+ */
+export async function* iteratePages<T>(
+  fetchPage: (page: number) => Promise<ResultPage<T>>,
+  options: IterateOptions = {}
+): AsyncGenerator<T> {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  let page = options.startPage ?? 0;
+
+  const first = await fetchPage(page);
+  yield* first.items;
+  if (!first.hasNextPage || first.items.length === 0) {
+    return;
+  }
+
+  const pageSize = options.pageSize ?? first.items.length;
+  const lastPage = Math.max(page + 1, Math.ceil(first.total / pageSize) - 1);
+  page++;
+
+  while (page <= lastPage) {
+    const batch: number[] = [];
+    for (let p = page; p < page + concurrency && p <= lastPage; p++) {
+      batch.push(p);
+    }
+
+    const results = await Promise.all(batch.map(p => fetchPage(p)));
+    for (const result of results) {
+      yield* result.items;
+      if (!result.hasNextPage || result.items.length === 0) {
+        return;
+      }
+    }
+    page += batch.length;
+  }
+
+  // total may have been an underestimate - keep following hasNextPage
+  for (;;) {
+    const result = await fetchPage(page++);
+    yield* result.items;
+    if (!result.hasNextPage || result.items.length === 0) {
+      return;
+    }
+  }
+}
+
+/**
+ * Every hotel of a search, through HotelBookingClient.getResults
+ */
+export function iterateResults(
+  client: HotelBookingClient,
+  searchKey: string,
+  options: ResultsIterateOptions = {}
+): AsyncGenerator<Hotel> {
+  return iteratePages(async page => {
+    const result = await client.getResults(searchKey, { page, size: options.pageSize, sort: options.sort });
+    return { items: result.hotels, hasNextPage: result.hasNextPage, total: result.total };
+  }, options);
+}
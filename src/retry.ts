@@ -0,0 +1,90 @@
+/**
+ * LockTrip API - Retry Policy
+ *
+ * Exponential backoff with full jitter for transient failures (network
+ * errors, 5xx, 429). Only operations marked retry-safe are ever retried:
+ *
+ * | Retry-safe                                  | Never retried                    |
+ * |---------------------------------------------|----------------------------------|
+ * | locationSearch, hotelSearch, results, rooms | hotelBookingPrepare              |
+ * | cancellation policies, bookings, details    | confirmB2bBooking (charges)      |
+ * |                                             | cancelBookingRequest             |
+ *
+ * A timed-out confirm may still have charged the credit line - check
+ * getBookingDetails before trying again instead of resending it.
+ */
+
+import { LockTripError, RateLimitedError } from './errors';
+
+export interface RetryPolicy {
+  // Total attempts including the first one (1 disables retries)
+  maxAttempts: number;
+
+  // Delay before the first retry, doubled (× multiplier) each time
+  baseDelayMs: number;
+
+  // Upper bound for a single delay
+  maxDelayMs: number;
+
+  multiplier: number;
+
+  // Full jitter: pick a random delay in [0, backoff] to spread out retries
+  jitter: boolean;
+
+  // Called before each retry - e.g. for logging
+  onRetry?: (error: LockTripError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  multiplier: 2,
+  jitter: true,
+};
+
+/**
+ * Merge user overrides onto the defaults - false disables retries
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy> | false): RetryPolicy {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Delay before retry number `attempt` (1-based) - honours Retry-After on 429,
+ * capped at maxDelayMs so a large or far-future value cannot stall the caller
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, error?: LockTripError): number {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(policy.multiplier, attempt - 1));
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Run fn, retrying retryable errors when the operation is retry-safe
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  retrySafe: boolean
+): Promise<T> {
+  const maxAttempts = retrySafe ? Math.max(1, policy.maxAttempts) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof LockTripError) || !error.retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+      const delayMs = retryDelay(policy, attempt, error);
+      policy.onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * LockTrip API - Run Reports
+ *
+ * Per-step timing and request metrics of one flow run, written as a JSON
+ * report and as JUnit XML so the e2e script can run as synthetic monitors:
+ *
+ * | Per step      | Source                                                       |
+ * |---------------|--------------------------------------------------------------|
+ * | durationMs    | startStep() to the next startStep() or finish()              |
+ * | requests      | onResponse - one per HTTP request, polls and retries included |
+ * | requestMs     | Time spent waiting on those requests                         |
+ * | statuses      | HTTP status → count ("error" when there was no response)     |
+ * | retries       | onRetry - attempts resent by the retry policy (./retry)      |
+ * | metrics       | metric() - e.g. polls, timeToFirstResultMs, hotels           |
+ *
+ * Error messages go through the run logger's Redactor (see ./logger) before
+ * they are stored, so reports are as safe to ship as the logs.
+ *
+ * Usage:
+ *
+ *   const run = new RunRecorder({ name: 'e2e-graphql', transport: 'graphql', runId: correlationId });
+ *   const client = new LockTripGraphQLClient({ auth, onResponse: run.onResponse, retry: { onRetry: run.onRetry } });
+ *
+ *   run.startStep(1, 'locationSearch');  // ends the previous step as passed
+ *   run.metric('polls', outcome.attempts);
+ *   const report = run.finish(error);    // fails the open step when error is set
+ *   writeRunReport(report, { json: 'reports/run.json', junit: 'reports/junit.xml' });
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { TransportName } from './errors';
+import type { Redactor, TransportResponse } from './logger';
+
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface RequestTotals {
+  requests: number;
+  requestMs: number;
+  retries: number;
+  statuses: Record<string, number>;  // e.g. { "200": 7, "502": 1 }
+}
+
+export interface StepReport extends RequestTotals {
+  step: number;
+  name: string;
+  status: StepStatus;
+  startedAt: string;  // ISO 8601
+  durationMs: number;
+  metrics: Record<string, number>;
+  message?: string;  // Failure or skip reason
+}
+
+export interface RunReport {
+  name: string;  // e.g. "e2e-graphql"
+  runId: string;  // The correlationId of the run's log records
+  transport: TransportName;
+  status: 'passed' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  labels: Record<string, string>;  // Endpoint, destination, ... - JUnit properties
+  steps: StepReport[];
+  totals: RequestTotals;  // Every request of the run, also those outside a step
+  error?: string;
+}
+
+export interface RunRecorderOptions {
+  name: string;
+  runId: string;
+  transport: TransportName;
+  labels?: Record<string, string>;
+
+  // Applied to error messages before they are stored
+  redactor?: Redactor;
+}
+
+const emptyTotals = (): RequestTotals => ({ requests: 0, requestMs: 0, retries: 0, statuses: {} });
+
+// =============================================================================
+// RECORDER
+// =============================================================================
+export class RunRecorder {
+  private readonly started = new Date();
+  private readonly steps: StepReport[] = [];
+  private readonly totals = emptyTotals();
+  private current: { report: StepReport; started: number } | null = null;
+  private report: RunReport | null = null;
+
+  constructor(private readonly options: RunRecorderOptions) {}
+
+  /**
+   * End the open step as passed and start timing the next one
+   */
+  startStep(step: number, name: string): void {
+    this.endStep('passed');
+    this.current = {
+      started: Date.now(),
+      report: { step, name, status: 'passed', startedAt: new Date().toISOString(), durationMs: 0, ...emptyTotals(), metrics: {} },
+    };
+  }
+
+  /**
+   * Mark the open step as skipped - e.g. nothing was booked to confirm
+   */
+  skipStep(reason: string): void {
+    this.endStep('skipped', reason);
+  }
+
+  /**
+   * Stop timing the open step - e.g. before a deliberate pause
+   */
+  endStep(status: StepStatus = 'passed', message?: string): void {
+    if (!this.current) {
+      return;
+    }
+    const { report, started } = this.current;
+    report.status = status;
+    report.durationMs = Date.now() - started;
+    if (message) {
+      report.message = this.redact(message);
+    }
+    this.steps.push(report);
+    this.current = null;
+  }
+
+  metric(name: string, value: number): void {
+    if (this.current) {
+      this.current.report.metrics[name] = value;
+    }
+  }
+
+  // Pass as onResponse to a client - arrow functions, so they can be handed over unbound
+  readonly onResponse = (response: TransportResponse): void => {
+    const status = response.status !== undefined ? String(response.status) : response.error ? 'error' : 'ok';
+    for (const totals of this.targets()) {
+      totals.requests++;
+      totals.requestMs += response.durationMs;
+      totals.statuses[status] = (totals.statuses[status] ?? 0) + 1;
+    }
+  };
+
+  // Pass as retry.onRetry to a client
+  readonly onRetry = (): void => {
+    for (const totals of this.targets()) {
+      totals.retries++;
+    }
+  };
+
+  /**
+   * End the run - an error fails the open step and the run
+   */
+  finish(error?: unknown): RunReport {
+    if (this.report) {
+      return this.report;
+    }
+    const message = error === undefined ? undefined : this.redact((error as Error)?.message ?? String(error));
+    this.endStep(error === undefined ? 'passed' : 'failed', message);
+
+    const finished = new Date();
+    this.report = {
+      name: this.options.name,
+      runId: this.options.runId,
+      transport: this.options.transport,
+      status: error === undefined && this.steps.every(s => s.status !== 'failed') ? 'passed' : 'failed',
+      startedAt: this.started.toISOString(),
+      finishedAt: finished.toISOString(),
+      durationMs: finished.getTime() - this.started.getTime(),
+      labels: this.options.labels ?? {},
+      steps: this.steps,
+      totals: this.totals,
+      error: message,
+    };
+    return this.report;
+  }
+
+  private targets(): RequestTotals[] {
+    return this.current ? [this.totals, this.current.report] : [this.totals];
+  }
+
+  private redact(text: string): string {
+    return this.options.redactor ? this.options.redactor.redactString(text) : text;
+  }
+}
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+const xml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function properties(values: Record<string, string | number>, indent: string): string[] {
+  const entries = Object.entries(values);
+  if (entries.length === 0) {
+    return [];
+  }
+  return [
+    `${indent}<properties>`,
+    ...entries.map(([name, value]) => `${indent}  <property name="${xml(name)}" value="${xml(String(value))}"/>`),
+    `${indent}</properties>`,
+  ];
+}
+
+/**
+ * One testsuite per run, one testcase per step - metrics become testcase properties
+ */
+export function toJUnitXml(report: RunReport): string {
+  // A run that failed outside any step still needs a failing testcase
+  const steps = report.status === 'failed' && !report.steps.some(s => s.status === 'failed')
+    ? [...report.steps, { ...emptyTotals(), step: 0, name: 'run', status: 'failed' as const, startedAt: report.startedAt, durationMs: 0, metrics: {}, message: report.error }]
+    : report.steps;
+  const count = (status: StepStatus) => steps.filter(s => s.status === status).length;
+  const suite = `name="${xml(report.name)}" tests="${steps.length}" failures="${count('failed')}" skipped="${count('skipped')}"`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${suite} time="${seconds(report.durationMs)}">`,
+    `  <testsuite ${suite} time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ...properties({ runId: report.runId, transport: report.transport, ...report.labels }, '    '),
+  ];
+
+  for (const step of steps) {
+    const name = `STEP ${step.step}: ${step.name}`;
+    lines.push(`    <testcase classname="${xml(report.name)}" name="${xml(name)}" time="${seconds(step.durationMs)}">`);
+    lines.push(...properties({
+      requests: step.requests,
+      requestMs: step.requestMs,
+      retries: step.retries,
+      ...Object.fromEntries(Object.entries(step.statuses).map(([status, n]) => [`status.${status}`, n])),
+      ...step.metrics,
+    }, '      '));
+    if (step.status === 'failed') {
+      lines.push(`      <failure message="${xml(step.message ?? 'failed')}"/>`);
+    } else if (step.status === 'skipped') {
+      lines.push(`      <skipped message="${xml(step.message ?? 'skipped')}"/>`);
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
+
+export interface ReportPaths {
+  json?: string;
+  junit?: string;
+}
+
+/**
+ * Write the report to each configured path - missing directories are created
+ */
+export function writeRunReport(report: RunReport, paths: ReportPaths): string[] {
+  const written: string[] = [];
+  const write = (file: string | undefined, content: string) => {
+    if (!file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    written.push(file);
+  };
+  write(paths.json, `${JSON.stringify(report, null, 2)}\n`);
+  write(paths.junit, toJUnitXml(report));
+  return written;
+}
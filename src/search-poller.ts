@@ -0,0 +1,147 @@
+/**
+ * LockTrip API - Search Poller
+ *
+ * hotelSearch is async: results start empty and grow until the search is
+ * complete (isResultCompleted=true / searchStatus=COMPLETED). Hotels seen
+ * before that are PARTIAL - prices and availability may still change - so
+ * progress events carry a `partial` flag and only the final event is complete.
+ *
+ * Usage:
+ *
+ *   const outcome = await pollSearch(
+ *     async () => {
+ *       const page = await client.getResults(searchKey);
+ *       return { result: page, count: page.hotels.length, total: page.total, completed: page.completed };
+ *     },
+ *     {
+ *       deadlineMs: 60000,
+ *       signal: controller.signal,
+ *       onProgress: p => render(p.result.hotels, { partial: p.partial }),
+ *     }
+ *   );
+ */
+
+import type { HotelBookingClient, ResultsPage } from './booking-client';
+
+export interface PollSnapshot<T> {
+  result: T;
+  count: number;      // Results returned by this poll
+  total: number;      // Total results reported by the API so far
+  completed: boolean;
+}
+
+export interface PollProgress<T> extends PollSnapshot<T> {
+  attempt: number;    // 1-based
+  elapsedMs: number;
+  partial: boolean;   // true until the search reports completion
+}
+
+export interface PollSchedule {
+  // Explicit delays between polls; the last entry repeats (overrides intervalMs)
+  schedule?: number[];
+
+  // Delay between polls, multiplied by `multiplier` each time (default: 1000)
+  intervalMs?: number;
+  multiplier?: number;      // default: 1 (fixed interval)
+  maxIntervalMs?: number;   // default: 10000
+}
+
+export interface PollOptions<T> extends PollSchedule {
+  // Wait before the first poll - results are always empty right away (default: 2000)
+  initialDelayMs?: number;
+
+  // Stop polling after this long, returning the latest partial result (default: 60000)
+  deadlineMs?: number;
+
+  // Stop polling after this many polls (default: unlimited)
+  maxAttempts?: number;
+
+  // Cancel polling - rejects with the signal's reason
+  signal?: AbortSignal;
+
+  onProgress?: (progress: PollProgress<T>) => void;
+}
+
+export interface PollOutcome<T> {
+  result: T;
+  completed: boolean;   // false = deadline/maxAttempts reached with partial results
+  attempts: number;
+  elapsedMs: number;
+}
+
+/**
+ * Sleep that rejects as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before poll number `attempt + 1`
+ */
+export function pollDelay(options: PollSchedule, attempt: number): number {
+  if (options.schedule && options.schedule.length > 0) {
+    return options.schedule[Math.min(attempt - 1, options.schedule.length - 1)];
+  }
+  const interval = options.intervalMs ?? 1000;
+  const multiplier = options.multiplier ?? 1;
+  return Math.min(options.maxIntervalMs ?? 10000, interval * Math.pow(multiplier, attempt - 1));
+}
+
+/**
+ * Poll until the search completes, the deadline passes or the signal aborts
+ */
+export async function pollSearch<T>(
+  fetch: () => Promise<PollSnapshot<T>>,
+  options: PollOptions<T> = {}
+): Promise<PollOutcome<T>> {
+  const startedAt = Date.now();
+  const deadline = startedAt + (options.deadlineMs ?? 60000);
+  const maxAttempts = options.maxAttempts ?? Infinity;
+
+  await sleep(options.initialDelayMs ?? 2000, options.signal);
+
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+
+    const snapshot = await fetch();
+    const elapsedMs = Date.now() - startedAt;
+
+    options.onProgress?.({ ...snapshot, attempt, elapsedMs, partial: !snapshot.completed });
+
+    const delay = pollDelay(options, attempt);
+    if (snapshot.completed || attempt >= maxAttempts || Date.now() + delay > deadline) {
+      return { result: snapshot.result, completed: snapshot.completed, attempts: attempt, elapsedMs };
+    }
+
+    await sleep(delay, options.signal);
+  }
+}
+
+/**
+ * pollSearch over HotelBookingClient.getResults (first page)
+ */
+export function pollResults(
+  client: HotelBookingClient,
+  searchKey: string,
+  options: PollOptions<ResultsPage> & { size?: number } = {}
+): Promise<PollOutcome<ResultsPage>> {
+  return pollSearch(async () => {
+    const page = await client.getResults(searchKey, { page: 0, size: options.size });
+    return { result: page, count: page.hotels.length, total: page.total, completed: page.completed };
+  }, options);
+}
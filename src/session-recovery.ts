@@ -0,0 +1,245 @@
+/**
+ * LockTrip API - Session Recovery
+ *
+ * Search sessions expire after ~30 minutes and the only documented remedy
+ * is to restart from hotelSearch. RecoverableSearch remembers the search
+ * parameters and the chosen package so it can do that transparently:
+ *
+ *   1. Re-run hotelSearch with the same parameters
+ *   2. Poll until the new search completes
+ *   3. Re-fetch rooms for the same hotelId
+ *   4. Re-match the package (room name, meal type, refundability)
+ *   5. Report any price change, then continue with the fresh quoteId
+ *
+ * Usage:
+ *
+ *   const search = new RecoverableSearch(client, params, {
+ *     onPriceChange: change => change.current.price <= change.previous.price * 1.05,
+ *   });
+ *   await search.start();
+ *   const { packages } = await search.getRooms(hotelId);
+ *   const booking = await search.prepareBooking(hotelId, packages[0], rooms, contact);
+ */
+
+import type {
+  BookingRoom,
+  ContactPerson,
+  HotelBookingClient,
+  PackagePolicy,
+  PreparedBooking,
+  ResultsPage,
+  RoomPackage,
+  RoomsResult,
+  SearchParams,
+  SearchSession,
+} from './booking-client';
+import { PackageUnavailableError, PriceChangeRejectedError, SessionExpiredError } from './errors';
+import { PollOptions, PollOutcome, pollResults } from './search-poller';
+
+export interface PriceChange {
+  hotelId: string;
+  previous: RoomPackage;
+  current: RoomPackage;
+  difference: number;  // current.price - previous.price
+}
+
+export interface RecoveryOptions {
+  // Polling for the initial search and every re-search
+  poll?: PollOptions<ResultsPage>;
+
+  // Re-searches allowed per call before the error is rethrown (default: 1)
+  maxRecoveries?: number;
+
+  // Called when the re-matched package has a different price - return false to abort
+  onPriceChange?: (change: PriceChange) => boolean | void | Promise<boolean | void>;
+
+  // Called after every re-search with the new searchKey
+  onRecovered?: (searchKey: string, previousSearchKey: string) => void;
+
+  // Called when a package is re-matched on a new search - current holds the fresh quoteId
+  onRematch?: (hotelId: string, previous: RoomPackage, current: RoomPackage) => void;
+}
+
+/**
+ * Find the package matching a previous choice - closest price wins on ties
+ */
+export function matchPackage(previous: RoomPackage, candidates: RoomPackage[]): RoomPackage | null {
+  const matches = candidates.filter(p =>
+    p.roomName === previous.roomName &&
+    p.mealType === previous.mealType &&
+    p.refundable === previous.refundable
+  );
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return matches.reduce((best, p) =>
+    Math.abs(p.price - previous.price) < Math.abs(best.price - previous.price) ? p : best
+  );
+}
+
+export class RecoverableSearch {
+  private currentKey: string | null = null;
+
+  constructor(
+    private readonly client: HotelBookingClient,
+    readonly params: SearchParams,
+    private readonly options: RecoveryOptions = {}
+  ) {}
+
+  /**
+   * Current searchKey - changes after every recovery
+   */
+  get searchKey(): string {
+    if (!this.currentKey) {
+      throw new Error('Search not started - call start() first');
+    }
+    return this.currentKey;
+  }
+
+  /**
+   * Run hotelSearch and poll until the results are complete
+   */
+  async start(): Promise<ResultsPage> {
+    await this.search();
+    const outcome = await this.poll();
+    return outcome.result;
+  }
+
+  /**
+   * Run hotelSearch without waiting for results - poll() does that
+   */
+  async search(): Promise<SearchSession> {
+    const session = await this.client.searchHotels(this.params);
+    this.currentKey = session.searchKey;
+    return session;
+  }
+
+  /**
+   * Poll the current search until it completes - options replace `poll` for this call
+   */
+  poll(options: PollOptions<ResultsPage> = this.options.poll ?? {}): Promise<PollOutcome<ResultsPage>> {
+    return pollResults(this.client, this.searchKey, options);
+  }
+
+  async getRooms(hotelId: string): Promise<RoomsResult> {
+    return this.withRecovery(async () => {
+      const result = await this.client.getRooms({
+        searchKey: this.searchKey,
+        hotelId,
+        regionId: this.params.regionId || '',
+        checkIn: this.params.checkIn,
+        checkOut: this.params.checkOut,
+        currency: this.params.currency,
+        rooms: this.params.rooms,
+        nationality: this.params.nationality,
+      });
+      this.currentKey = result.searchKey;
+      return result;
+    });
+  }
+
+  /**
+   * Policies of the selected packages - on expiry, re-search and ask again with
+   * the re-matched packageIds (the old ones belong to the expired session)
+   */
+  async getCancellationPolicies(hotelId: string, selected: RoomPackage[]): Promise<PackagePolicy[]> {
+    let packageIds = selected.map(p => p.packageId);
+
+    return this.withRecovery(
+      () => this.client.getCancellationPolicies(this.searchKey, hotelId, packageIds),
+      async () => {
+        const { packages } = await this.getRooms(hotelId);
+        packageIds = selected.map(p => {
+          const current = this.findMatch(hotelId, p, packages);
+          this.options.onRematch?.(hotelId, p, current);
+          return current.packageId;
+        });
+      }
+    );
+  }
+
+  /**
+   * Prepare a booking - on expiry, re-search and retry with a fresh quoteId
+   */
+  async prepareBooking(
+    hotelId: string,
+    selected: RoomPackage,
+    rooms: BookingRoom[],
+    contact: ContactPerson
+  ): Promise<PreparedBooking> {
+    let quoteId = selected.quoteId;
+
+    return this.withRecovery(
+      () => this.client.prepareBooking({ quoteId, rooms, contact }),
+      async () => {
+        quoteId = (await this.rematch(hotelId, selected)).quoteId;
+      }
+    );
+  }
+
+  /**
+   * Re-fetch rooms for hotelId and find the package matching `selected`
+   */
+  async rematch(hotelId: string, selected: RoomPackage): Promise<RoomPackage> {
+    const { packages } = await this.getRooms(hotelId);
+    const current = this.findMatch(hotelId, selected, packages);
+
+    if (current.price !== selected.price && this.options.onPriceChange) {
+      const change: PriceChange = {
+        hotelId,
+        previous: selected,
+        current,
+        difference: current.price - selected.price,
+      };
+      if (await this.options.onPriceChange(change) === false) {
+        throw new PriceChangeRejectedError(
+          `Price changed from ${selected.price} to ${current.price} - rejected by caller`
+        );
+      }
+    }
+
+    this.options.onRematch?.(hotelId, selected, current);
+    return current;
+  }
+
+  /**
+   * Restart from hotelSearch with the original parameters
+   */
+  async recover(): Promise<void> {
+    const previous = this.currentKey || '';
+    await this.start();
+    this.options.onRecovered?.(this.searchKey, previous);
+  }
+
+  private findMatch(hotelId: string, selected: RoomPackage, packages: RoomPackage[]): RoomPackage {
+    const current = matchPackage(selected, packages);
+    if (!current) {
+      throw new PackageUnavailableError(
+        `Package no longer available: ${selected.roomName} / ${selected.mealType} ` +
+        `(${selected.refundable ? 'refundable' : 'non-refundable'}) at hotel ${hotelId}`
+      );
+    }
+    return current;
+  }
+
+  /**
+   * Run fn; on SessionExpired re-search, run `refresh`, then try again
+   */
+  private async withRecovery<T>(fn: () => Promise<T>, refresh?: () => Promise<void>): Promise<T> {
+    const maxRecoveries = this.options.maxRecoveries ?? 1;
+
+    for (let recoveries = 0; ; recoveries++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (!(error instanceof SessionExpiredError) || recoveries >= maxRecoveries) {
+          throw error;
+        }
+        await this.recover();
+        await refresh?.();
+      }
+    }
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * LockTrip API - Cross-Transport Parity
+ *
+ * Runs one search through GraphQL and MCP and compares what each returns,
+ * through the canonical model of ./booking-client so field names and page
+ * numbering are already aligned (price vs minPrice, externalId vs hotelId):
+ *
+ * | Compared            | Mismatch when                                        |
+ * |---------------------|------------------------------------------------------|
+ * | region              | searchLocations picks different regions              |
+ * | count               | Hotel totals differ by more than countPercent        |
+ * | hotel               | A hotel is listed by one transport only              |
+ * | price               | A hotel's minimum price differs beyond the tolerance |
+ * | package             | A package is offered by one transport only, or its   |
+ * |                     | meal, refundability or price differ                  |
+ * | policy              | Refundability, free-cancellation deadline or a fee   |
+ * |                     | step differs, both read by ./cancellation-policy     |
+ * | error               | A call fails on one transport only                   |
+ *
+ * Rooms and policies are compared for the `sampleHotels` cheapest hotels
+ * that both transports list - one getRooms and one policy call per hotel and
+ * transport. Nothing is booked. quoteIds belong to a search session and the
+ * two transports search separately, so packages are paired by quoteId first
+ * and otherwise by room, meal and refundability as ./session-recovery does.
+ *
+ * Usage:
+ *
+ *   const report = await compareTransports({ clients, search, tolerances, sampleHotels: 5 });
+ *   if (report.mismatches.length > 0) process.exitCode = 1;
+ */
+
+import type { Hotel, HotelBookingClient, PackagePolicy, ResultsPage, RoomOccupancy, RoomPackage, Transport } from './booking-client';
+import { CancellationPolicy } from './cancellation-policy';
+import type { PriceTolerance } from './price-guard';
+import type { IterateOptions } from './result-iterator';
+import { PollOptions, pollResults } from './search-poller';
+import { matchPackage } from './session-recovery';
+
+export interface ParityTolerances {
+  // Allowed difference in hotel totals, as % of the larger total
+  countPercent: number;
+
+  // Allowed difference in minimum, package and fee prices - with both set, both must hold
+  price: PriceTolerance;
+
+  // Allowed difference in deadlines and fee dates
+  dateMinutes: number;
+}
+
+export interface TransportParityOptions {
+  clients: Record<Transport, HotelBookingClient>;
+  search: {
+    destination: string;
+    checkIn: Date;
+    checkOut: Date;
+    rooms: RoomOccupancy[];
+    currency: string;
+    nationality: string;
+  };
+  tolerances: ParityTolerances;
+
+  // Hotels whose rooms and policies are compared, cheapest first (default: 5)
+  sampleHotels?: number;
+
+  polling?: PollOptions<ResultsPage>;
+  paging?: IterateOptions;
+
+  // Progress lines, e.g. "graphql: 250 hotel(s)"
+  onProgress?: (message: string) => void;
+}
+
+export type MismatchKind = 'region' | 'count' | 'hotel' | 'price' | 'package' | 'policy' | 'error';
+
+export interface ParityMismatch {
+  kind: MismatchKind;
+  subject: string;  // e.g. "hotel 17347136" or "package Double Deluxe, Room only mealType"
+  graphql: string;  // Value on each side, "-" when missing
+  mcp: string;
+}
+
+export interface TransportParityReport {
+  regionId: Record<Transport, string | null>;
+  completed: Record<Transport, boolean>;
+  hotels: Record<Transport, number>;
+  compared: { hotels: number; prices: number; packages: number; policies: number };
+  mismatches: ParityMismatch[];
+}
+
+export const PARITY_TRANSPORTS: Transport[] = ['graphql', 'mcp'];
+
+// =============================================================================
+// TOLERANCES
+// =============================================================================
+
+/**
+ * Whether two prices are equal within the tolerance - relative to the larger one
+ */
+export function pricesMatch(a: number, b: number, tolerance: PriceTolerance): boolean {
+  const limits: number[] = [];
+  if (tolerance.absolute !== undefined) {
+    limits.push(tolerance.absolute);
+  }
+  if (tolerance.percent !== undefined) {
+    limits.push(Math.max(Math.abs(a), Math.abs(b)) * tolerance.percent / 100);
+  }
+  return Math.abs(a - b) <= (limits.length > 0 ? Math.min(...limits) : 0) + 1e-9;
+}
+
+function datesMatch(a: Date | null, b: Date | null, minutes: number): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return Math.abs(a.getTime() - b.getTime()) <= minutes * 60000;
+}
+
+const showDate = (date: Date | null) => (date ? date.toISOString() : '-');
+
+const showError = (error: unknown) => `${(error as Error).name}: ${(error as Error).message}`;
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Search both transports and compare inventory, prices, packages and policies
+ */
+export async function compareTransports(options: TransportParityOptions): Promise<TransportParityReport> {
+  const { clients, search, tolerances } = options;
+  const progress = options.onProgress ?? (() => {});
+  const mismatches: ParityMismatch[] = [];
+  const report: TransportParityReport = {
+    regionId: { graphql: null, mcp: null },
+    completed: { graphql: false, mcp: false },
+    hotels: { graphql: 0, mcp: 0 },
+    compared: { hotels: 0, prices: 0, packages: 0, policies: 0 },
+    mismatches,
+  };
+
+  // Both sides of one call - a failure on one side only is a mismatch, on both it is thrown
+  const both = async <T>(subject: string, call: (client: HotelBookingClient, transport: Transport) => Promise<T>) => {
+    const settled = await Promise.allSettled(PARITY_TRANSPORTS.map(t => call(clients[t], t)));
+    const [graphql, mcp] = settled;
+    if (graphql.status === 'rejected' && mcp.status === 'rejected') {
+      throw graphql.reason;
+    }
+    if (graphql.status === 'rejected' || mcp.status === 'rejected') {
+      mismatches.push({
+        kind: 'error',
+        subject,
+        graphql: graphql.status === 'rejected' ? showError(graphql.reason) : 'ok',
+        mcp: mcp.status === 'rejected' ? showError(mcp.reason) : 'ok',
+      });
+      return null;
+    }
+    return { graphql: graphql.value, mcp: (mcp as PromiseFulfilledResult<T>).value };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Region - each transport searches the region it resolves
+  // ---------------------------------------------------------------------------
+  const locations = await both('searchLocations', client => client.searchLocations(search.destination));
+  if (!locations) {
+    return report;
+  }
+  for (const transport of PARITY_TRANSPORTS) {
+    const region = locations[transport].find(l => l.type === 'REGION' || l.type === 'CITY') ?? locations[transport][0];
+    report.regionId[transport] = region?.id ?? null;
+  }
+  if (report.regionId.graphql !== report.regionId.mcp) {
+    mismatches.push({ kind: 'region', subject: search.destination, graphql: report.regionId.graphql ?? '-', mcp: report.regionId.mcp ?? '-' });
+  }
+  if (!report.regionId.graphql || !report.regionId.mcp) {
+    return report;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Inventory - every hotel of a completed search on each side
+  // ---------------------------------------------------------------------------
+  const searches = await both('searchHotels', async (client, transport) => {
+    const session = await client.searchHotels({
+      regionId: report.regionId[transport]!,
+      checkIn: search.checkIn,
+      checkOut: search.checkOut,
+      currency: search.currency,
+      rooms: search.rooms,
+      nationality: search.nationality,
+    });
+    const outcome = await pollResults(client, session.searchKey, options.polling);
+    report.completed[transport] = outcome.completed;
+
+    const hotels: Hotel[] = [];
+    for await (const hotel of client.iterateResults(session.searchKey, options.paging)) {
+      hotels.push(hotel);
+    }
+    progress(`${transport}: ${hotels.length} hotel(s)${outcome.completed ? '' : ' - search did not complete'}`);
+    return { searchKey: session.searchKey, hotels: new Map(hotels.map(h => [h.hotelId, h])) };
+  });
+  if (!searches) {
+    return report;
+  }
+
+  const { graphql, mcp } = searches;
+  report.hotels = { graphql: graphql.hotels.size, mcp: mcp.hotels.size };
+  const largest = Math.max(graphql.hotels.size, mcp.hotels.size);
+  if (Math.abs(graphql.hotels.size - mcp.hotels.size) > largest * tolerances.countPercent / 100) {
+    mismatches.push({ kind: 'count', subject: 'hotels', graphql: String(graphql.hotels.size), mcp: String(mcp.hotels.size) });
+  }
+
+  const shared: Array<{ graphql: Hotel; mcp: Hotel }> = [];
+  for (const [hotelId, hotel] of graphql.hotels) {
+    const other = mcp.hotels.get(hotelId);
+    if (other) {
+      shared.push({ graphql: hotel, mcp: other });
+    } else {
+      mismatches.push({ kind: 'hotel', subject: `hotel ${hotelId}`, graphql: hotel.name, mcp: '-' });
+    }
+  }
+  for (const [hotelId, hotel] of mcp.hotels) {
+    if (!graphql.hotels.has(hotelId)) {
+      mismatches.push({ kind: 'hotel', subject: `hotel ${hotelId}`, graphql: '-', mcp: hotel.name });
+    }
+  }
+  report.compared.hotels = shared.length;
+
+  for (const pair of shared) {
+    report.compared.prices++;
+    if (!pricesMatch(pair.graphql.price, pair.mcp.price, tolerances.price)) {
+      mismatches.push({ kind: 'price', subject: `hotel ${pair.graphql.hotelId}`, graphql: String(pair.graphql.price), mcp: String(pair.mcp.price) });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Packages and policies of the cheapest shared hotels
+  // ---------------------------------------------------------------------------
+  const sample = [...shared]
+    .sort((a, b) => a.graphql.price - b.graphql.price)
+    .slice(0, options.sampleHotels ?? 5);
+
+  for (const pair of sample) {
+    const hotelId = pair.graphql.hotelId;
+    const rooms = await both(`getRooms hotel ${hotelId}`, (client, transport) => client.getRooms({
+      searchKey: searches[transport].searchKey,
+      hotelId,
+      regionId: report.regionId[transport]!,
+      checkIn: search.checkIn,
+      checkOut: search.checkOut,
+      currency: search.currency,
+      rooms: search.rooms,
+      nationality: search.nationality,
+    }));
+    if (!rooms) {
+      continue;
+    }
+    progress(`hotel ${hotelId}: ${rooms.graphql.packages.length} / ${rooms.mcp.packages.length} package(s)`);
+
+    const matched = comparePackages(rooms.graphql.packages, rooms.mcp.packages, tolerances, mismatches);
+    report.compared.packages += matched.length;
+    if (matched.length === 0) {
+      continue;
+    }
+
+    // Each transport is asked about its own packageIds - they differ between two searches
+    const policies = await both(`getCancellationPolicies hotel ${hotelId}`, (client, transport) =>
+      client.getCancellationPolicies(rooms[transport].searchKey, hotelId, matched.map(p => p[transport].packageId)));
+    if (policies) {
+      report.compared.policies += comparePolicies(matched, policies, tolerances, mismatches);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * The counterpart of `pkg` on the other transport - same quoteId, else the session-independent
+ * match of ./session-recovery, else the same room at the closest price so meal and refundability
+ * differences are still reported
+ */
+function counterpart(pkg: RoomPackage, candidates: RoomPackage[]): RoomPackage | null {
+  const sameRoom = candidates.filter(p => p.roomName === pkg.roomName);
+  return candidates.find(p => p.quoteId === pkg.quoteId)
+    ?? matchPackage(pkg, candidates)
+    ?? (sameRoom.length > 0 ? sameRoom.reduce((best, p) => (Math.abs(p.price - pkg.price) < Math.abs(best.price - pkg.price) ? p : best)) : null);
+}
+
+/**
+ * Mismatches of the packages of one hotel - returns the matched pairs
+ */
+function comparePackages(
+  graphql: RoomPackage[],
+  mcp: RoomPackage[],
+  tolerances: ParityTolerances,
+  mismatches: ParityMismatch[]
+): Array<Record<Transport, RoomPackage>> {
+  const unmatched = [...mcp];
+  const matched: Array<Record<Transport, RoomPackage>> = [];
+
+  for (const pkg of graphql) {
+    const other = counterpart(pkg, unmatched);
+    const subject = `package ${pkg.roomName}, ${pkg.mealType}`;
+    if (!other) {
+      mismatches.push({ kind: 'package', subject, graphql: pkg.quoteId, mcp: '-' });
+      continue;
+    }
+    unmatched.splice(unmatched.indexOf(other), 1);
+    matched.push({ graphql: pkg, mcp: other });
+
+    if (pkg.mealType !== other.mealType) {
+      mismatches.push({ kind: 'package', subject: `${subject} mealType`, graphql: pkg.mealType, mcp: other.mealType });
+    }
+    if (pkg.refundable !== other.refundable) {
+      mismatches.push({ kind: 'package', subject: `${subject} refundable`, graphql: String(pkg.refundable), mcp: String(other.refundable) });
+    }
+    if (!pricesMatch(pkg.price, other.price, tolerances.price)) {
+      mismatches.push({ kind: 'package', subject: `${subject} price`, graphql: String(pkg.price), mcp: String(other.price) });
+    }
+  }
+  for (const pkg of unmatched) {
+    mismatches.push({ kind: 'package', subject: `package ${pkg.roomName}, ${pkg.mealType}`, graphql: '-', mcp: pkg.quoteId });
+  }
+  return matched;
+}
+
+/**
+ * Mismatches of the normalized policies of each package - returns how many were compared
+ */
+function comparePolicies(
+  packages: Array<Record<Transport, RoomPackage>>,
+  policies: Record<Transport, PackagePolicy[]>,
+  tolerances: ParityTolerances,
+  mismatches: ParityMismatch[]
+): number {
+  let compared = 0;
+  for (const pair of packages) {
+    const [graphql, mcp] = PARITY_TRANSPORTS.map(t => {
+      const policy = policies[t].find(p => p.packageId === pair[t].packageId);
+      return policy ? CancellationPolicy.fromPackagePolicy(policy) : null;
+    });
+    const subject = `policy ${pair.graphql.roomName}, ${pair.graphql.mealType}`;
+    if (!graphql || !mcp) {
+      mismatches.push({ kind: 'policy', subject, graphql: graphql ? 'listed' : '-', mcp: mcp ? 'listed' : '-' });
+      continue;
+    }
+    compared++;
+
+    if (graphql.refundable !== mcp.refundable) {
+      mismatches.push({ kind: 'policy', subject: `${subject} refundable`, graphql: String(graphql.refundable), mcp: String(mcp.refundable) });
+      continue;
+    }
+    const deadlines = [graphql.freeCancellationDeadline(), mcp.freeCancellationDeadline()];
+    if (!datesMatch(deadlines[0], deadlines[1], tolerances.dateMinutes)) {
+      mismatches.push({ kind: 'policy', subject: `${subject} free cancellation until`, graphql: showDate(deadlines[0]), mcp: showDate(deadlines[1]) });
+    }
+
+    // Fee steps after the free window - GraphQL's leading amt=0 entry is that window
+    const [a, b] = [graphql, mcp].map(p => p.timeline().filter(e => e.penalty !== 0));
+    const steps = Math.max(a.length, b.length);
+    for (let i = 0; i < steps; i++) {
+      const [x, y] = [a[i], b[i]];
+      const show = (entry: typeof x) => (entry ? `${entry.penalty ?? '?'} from ${showDate(entry.from)}` : '-');
+      if (!x || !y || !datesMatch(x.from, y.from, tolerances.dateMinutes) ||
+          (x.penalty !== null && y.penalty !== null && !pricesMatch(x.penalty, y.penalty, tolerances.price))) {
+        mismatches.push({ kind: 'policy', subject: `${subject} fee ${i + 1}`, graphql: show(x), mcp: show(y) });
+      }
+    }
+  }
+  return compared;
+}
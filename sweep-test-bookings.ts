@@ -0,0 +1,101 @@
+/**
+ * LockTrip - Orphan Test Booking Sweeper
+ *
+ * Lists bookings prepared by earlier e2e runs (matched on the booking
+ * journal) that were never cancelled - e.g. the run was killed between
+ * confirm and cancel - and cancels them.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * # Report leftovers only (safe - nothing is cancelled):
+ * BEARER_TOKEN="eyJ..." npx tsx sweep-test-bookings.ts
+ *
+ * # Cancel them (also sweeps PENDING, i.e. prepared-only, bookings):
+ * BEARER_TOKEN="eyJ..." npx tsx sweep-test-bookings.ts --cancel --include-pending
+ *
+ * # Also report bookings with the configured contact email that are not in
+ * # the journal - e.g. the journal was deleted - and cancel those too:
+ * BEARER_TOKEN="eyJ..." npx tsx sweep-test-bookings.ts --by-email
+ * BEARER_TOKEN="eyJ..." npx tsx sweep-test-bookings.ts --cancel --by-email --cancel-email-matches
+ *
+ * # Against the mock server, over MCP:
+ * LOCKTRIP_URL=http://127.0.0.1:4000 BEARER_TOKEN=test npx tsx sweep-test-bookings.ts --mcp --cancel
+ *
+ * Settings come from the layered config (see README "Configuration"): the
+ * journal is journalPath (--journal), the contact email for --by-email is
+ * booking.contact.email (--email, LOCKTRIP_CONTACT_EMAIL). On a shared B2B
+ * account other people may use the same contact, so email-only matches are
+ * never cancelled without --cancel-email-matches.
+ */
+
+import { createAuthProvider } from './src/auth';
+import { BookingListType, createBookingClient } from './src/booking-client';
+import { BookingJournal } from './src/booking-journal';
+import { sweepTestBookings } from './src/booking-sweeper';
+import { parseArgs } from './src/cli/args';
+import { createRunLogger, loadConfigOrExit } from './src/config/load';
+
+const args = parseArgs(process.argv.slice(2), ['cancel', 'include-pending', 'by-email', 'cancel-email-matches', 'graphql', 'mcp']);
+const settings = loadConfigOrExit({ args });
+
+async function main() {
+  const dryRun = !args.has('cancel');
+  const byEmail = args.has('by-email') || args.has('cancel-email-matches');
+  const types: BookingListType[] = args.has('include-pending') ? ['UPCOMING', 'PENDING'] : ['UPCOMING'];
+  const journal = new BookingJournal(settings.journalPath);
+  const contactEmail = settings.booking.contact.email;
+
+  console.log(`Transport: ${settings.transport} (${settings.transport === 'mcp' ? settings.mcpUrl : settings.graphqlUrl})`);
+  console.log(`Marker:    journal ${settings.journalPath}${byEmail ? `, contact email ${contactEmail}` : ''}`);
+  console.log(`Lists:     ${types.join(', ')}`);
+  console.log(dryRun ? 'Mode:      DRY-RUN (add --cancel to cancel)' : 'Mode:      CANCEL');
+
+  const client = createBookingClient({
+    transport: settings.transport,
+    graphqlUrl: settings.graphqlUrl,
+    mcpUrl: settings.mcpUrl,
+    mcpProtocol: settings.mcpProtocol,
+    auth: createAuthProvider({ token: settings.token, ...settings.auth }),
+    logger: createRunLogger(settings),
+  });
+
+  const swept = await sweepTestBookings(client, {
+    journal,
+    contactEmail: byEmail ? contactEmail : undefined,
+    cancelEmailMatches: args.has('cancel-email-matches'),
+    types,
+    dryRun,
+  });
+
+  if (swept.length === 0) {
+    console.log('\n✅ No leftover test bookings');
+    return;
+  }
+
+  console.log(`\nFound ${swept.length} leftover test booking(s):`);
+  swept.forEach(b => {
+    const mark = dryRun ? '•' : b.cancelled ? '✓' : '✗';
+    const match = b.matchedBy === 'journal' ? `flow ${b.flowId!.slice(0, 8)}` : 'email only';
+    console.log(`  ${mark} ${b.bookingId}  ${b.status.padEnd(10)} ${b.checkIn}  ${match.padEnd(13)} ${b.hotelName}`);
+    if (!dryRun && b.message) {
+      console.log(`      ${b.message}`);
+    }
+  });
+
+  const emailOnly = swept.filter(b => b.matchedBy === 'email' && !b.cancelled);
+  if (emailOnly.length > 0 && !args.has('cancel-email-matches')) {
+    console.log(`\n⚠️  ${emailOnly.length} booking(s) match only by contact email - check they are yours, then add --cancel-email-matches`);
+  }
+
+  if (!dryRun && swept.some(b => !b.cancelled && (b.matchedBy === 'journal' || args.has('cancel-email-matches')))) {
+    console.error('\n❌ Some bookings could not be cancelled');
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ SWEEP FAILED:', (error as Error).message);
+  process.exit(1);
+});
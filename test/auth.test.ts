@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { AuthProvider, LoginProvider, StaticTokenProvider, TokenCache, tokenExpiry, withAuth } from '../src/auth';
+import { AuthenticationError, TransportError } from '../src/errors';
+
+const base64url = (text: string) => Buffer.from(text).toString('base64url');
+const jwt = (claims: Record<string, unknown>) => `${base64url('{"alg":"none"}')}.${base64url(JSON.stringify(claims))}.sig`;
+
+const inSeconds = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+
+// Login endpoint handing out token-1, token-2... - expiresIn comes from `lifetime`
+let server: http.Server;
+let loginUrl: string;
+let logins = 0;
+let lifetime = 3600;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { password } = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      if (password !== 's3cret') {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: 'Invalid credentials' }));
+        return;
+      }
+      logins++;
+      res.end(JSON.stringify({ token: `token-${logins}`, expiresIn: lifetime }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  loginUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  logins = 0;
+  lifetime = 3600;
+});
+
+describe('tokenExpiry', () => {
+  it('reads the exp claim of a JWT', () => {
+    assert.equal(tokenExpiry(jwt({ exp: 1724284800 }))?.toISOString(), '2024-08-22T00:00:00.000Z');
+    assert.equal(tokenExpiry(`Bearer ${jwt({ sub: 'a' })}`), null);
+    assert.equal(tokenExpiry('not-a-jwt'), null);
+  });
+});
+
+describe('withAuth', () => {
+  const unauthorized = () => new AuthenticationError('Unauthorized', { status: 401 });
+
+  it('sends once more with a fresh token after a 401', async () => {
+    const sent: Array<string | undefined> = [];
+    const auth: AuthProvider = { name: 'test', token: async () => 'old', reauthenticate: async () => 'new' };
+
+    const result = await withAuth({ auth }, async authorization => {
+      sent.push(authorization);
+      if (authorization === 'Bearer old') throw unauthorized();
+      return 'ok';
+    });
+
+    assert.equal(result, 'ok');
+    assert.deepEqual(sent, ['Bearer old', 'Bearer new']);
+  });
+
+  it('rethrows the 401 when the provider cannot get a new token', async () => {
+    let calls = 0;
+    await assert.rejects(withAuth({ auth: new StaticTokenProvider('abc') }, async () => {
+      calls++;
+      throw unauthorized();
+    }), AuthenticationError);
+    assert.equal(calls, 1);
+  });
+
+  it('leaves other errors alone', async () => {
+    let reauthenticated = false;
+    const auth: AuthProvider = {
+      name: 'test',
+      token: async () => 'old',
+      reauthenticate: async () => {
+        reauthenticated = true;
+        return 'new';
+      },
+    };
+    await assert.rejects(withAuth({ auth }, async () => {
+      throw new TransportError('ECONNRESET');
+    }), TransportError);
+    assert.equal(reauthenticated, false);
+  });
+});
+
+describe('LoginProvider', () => {
+  it('shares one login between concurrent requests and reuses the token', async () => {
+    const auth = new LoginProvider('qa@test.dev', 's3cret', { loginUrl, cache: null });
+    assert.deepEqual(await Promise.all([auth.token(), auth.token()]), ['token-1', 'token-1']);
+    assert.equal(await auth.token(), 'token-1');
+    assert.equal(logins, 1);
+  });
+
+  it('logs in again on 401 and replaces the cached token', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locktrip-auth-'));
+    try {
+      const cache = new TokenCache(path.join(dir, 'tokens.json'));
+      const auth = new LoginProvider('qa@test.dev', 's3cret', { loginUrl, cache });
+
+      const sent: Array<string | undefined> = [];
+      const result = await withAuth({ auth }, async authorization => {
+        sent.push(authorization);
+        if (authorization === 'Bearer token-1') throw new AuthenticationError('Unauthorized');
+        return 'ok';
+      });
+
+      assert.equal(result, 'ok');
+      assert.deepEqual(sent, ['Bearer token-1', 'Bearer token-2']);
+      assert.equal(cache.get(`${loginUrl}|qa@test.dev`)?.token, 'token-2');
+
+      // A new provider starts from the cache instead of logging in
+      assert.equal(await new LoginProvider('qa@test.dev', 's3cret', { loginUrl, cache }).token(), 'token-2');
+      assert.equal(logins, 2);
+      assert.equal((fs.statSync(cache.path).mode & 0o777).toString(8), '600');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('replaces a token before it expires', async () => {
+    lifetime = 60;
+    const auth = new LoginProvider('qa@test.dev', 's3cret', { loginUrl, cache: null, expirySkewMs: 120_000 });
+    assert.equal(await auth.token(), 'token-1');
+    assert.equal(await auth.token(), 'token-2');
+  });
+
+  it('reports a rejected login as an AuthenticationError', async () => {
+    const auth = new LoginProvider('qa@test.dev', 'wrong', { loginUrl, cache: null });
+    await assert.rejects(auth.token(), /Login failed for qa@test.dev: Invalid credentials/);
+  });
+});
+
+describe('StaticTokenProvider', () => {
+  it('fails early on an expired JWT', async () => {
+    await assert.rejects(new StaticTokenProvider(jwt({ exp: inSeconds(-60) })).token(), /static token expired at/);
+    const valid = jwt({ exp: inSeconds(3600) });
+    assert.equal(await new StaticTokenProvider(valid).token(), valid);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { BookingJournal, confirmOnce, wasConfirmed } from '../src/booking-journal';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locktrip-journal-'));
+  file = path.join(dir, 'nested', 'journal.jsonl');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('BookingJournal', () => {
+  it('folds entries into one state per flow', () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared', { transport: 'mcp', preparedBookingId: 'b1', price: 100 });
+    journal.append('a', 'confirm-started');
+    journal.append('b', 'prepared', { transport: 'graphql' });
+    journal.append('a', 'confirmed', { message: 'ok' });
+
+    const flow = journal.flow('a');
+    assert.equal(flow?.stage, 'confirmed');
+    assert.equal(flow?.preparedBookingId, 'b1');
+    assert.equal(flow?.entries.length, 3);
+    assert.deepEqual(journal.unfinished('graphql').map(f => f.flowId), ['b']);
+  });
+
+  it('skips a torn last line and starts the next entry on a fresh line', () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared', { preparedBookingId: 'b1' });
+    journal.append('a', 'confirm-started');
+    // A crash mid-write leaves half a line without a newline
+    fs.appendFileSync(file, '{"flowId":"a","stage":"confi');
+
+    assert.deepEqual(journal.read().map(e => e.stage), ['prepared', 'confirm-started']);
+
+    journal.append('a', 'confirm-unknown', { message: 'timeout' });
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    assert.equal(lines[2], '{"flowId":"a","stage":"confi');
+    assert.equal(JSON.parse(lines[3]).stage, 'confirm-unknown');
+    assert.deepEqual(journal.read().map(e => e.stage), ['prepared', 'confirm-started', 'confirm-unknown']);
+  });
+
+  it('treats a released flow as finished', () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared', { transport: 'mcp' });
+    journal.append('b', 'prepared', { transport: 'mcp' });
+    journal.append('b', 'released');
+
+    assert.deepEqual(journal.unfinished('mcp').map(f => f.flowId), ['a']);
+  });
+
+  it('reads a missing journal as empty', () => {
+    assert.deepEqual(new BookingJournal(file).flows(), []);
+  });
+});
+
+describe('confirmOnce', () => {
+  it('checks the status instead of re-sending a started confirm', async () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared');
+    journal.append('a', 'confirm-started');
+    journal.append('a', 'confirm-unknown');
+
+    let sent = 0;
+    const result = await confirmOnce(journal, 'a', {
+      status: async () => 'confirmed',
+      send: async () => {
+        sent++;
+        return { accepted: true };
+      },
+    });
+
+    assert.equal(sent, 0);
+    assert.deepEqual(result, { accepted: true, message: 'Already confirmed (status CONFIRMED)', alreadyDone: true });
+    assert.equal(journal.flow('a')?.stage, 'confirmed');
+  });
+});
+
+describe('wasConfirmed', () => {
+  const never = async (): Promise<string | null> => {
+    throw new Error('status must not be checked');
+  };
+
+  it('is false for a prepared-only or rejected flow without asking', async () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared');
+    journal.append('b', 'prepared');
+    journal.append('b', 'confirm-started');
+    journal.append('b', 'confirm-failed');
+
+    assert.equal(await wasConfirmed(journal, 'a', never), false);
+    assert.equal(await wasConfirmed(journal, 'b', never), false);
+  });
+
+  it('settles an unknown confirm with a status check', async () => {
+    const journal = new BookingJournal(file);
+    journal.append('a', 'prepared');
+    journal.append('a', 'confirm-started');
+    journal.append('a', 'confirm-unknown');
+
+    assert.equal(await wasConfirmed(journal, 'a', async () => 'PENDING'), false);
+    assert.equal(await wasConfirmed(journal, 'a', async () => 'CONFIRMED'), true);
+    assert.equal(journal.flow('a')?.stage, 'confirmed');
+    assert.equal(await wasConfirmed(journal, 'a', never), true);
+  });
+});
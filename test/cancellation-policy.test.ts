@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mergeCanxFees, parsePolicyDate } from '../src/cancellation-policy';
+import type { CancellationTerms } from '../src/graphql-types';
+
+describe('parsePolicyDate', () => {
+  it('reads epoch milliseconds and seconds', () => {
+    assert.equal(parsePolicyDate(1724284800000).toISOString(), '2024-08-22T00:00:00.000Z');
+    assert.equal(parsePolicyDate(1724284800).toISOString(), '2024-08-22T00:00:00.000Z');
+    assert.equal(parsePolicyDate('1724284800000').toISOString(), '2024-08-22T00:00:00.000Z');
+  });
+
+  it('reads a bare day and an ISO string without offset as UTC', () => {
+    assert.equal(parsePolicyDate('2026-08-21').toISOString(), '2026-08-21T00:00:00.000Z');
+    assert.equal(parsePolicyDate('2026-08-21T12:30:00').toISOString(), '2026-08-21T12:30:00.000Z');
+    assert.equal(parsePolicyDate('2026-08-21T12:30').toISOString(), '2026-08-21T12:30:00.000Z');
+  });
+
+  it('keeps an explicit offset', () => {
+    assert.equal(parsePolicyDate('2026-08-21T12:00:00+08:00').toISOString(), '2026-08-21T04:00:00.000Z');
+    assert.equal(parsePolicyDate('2026-08-21T12:00:00Z').toISOString(), '2026-08-21T12:00:00.000Z');
+  });
+
+  it('rejects anything else', () => {
+    assert.throws(() => parsePolicyDate('next tuesday'), /Invalid policy date: next tuesday/);
+  });
+});
+
+describe('mergeCanxFees', () => {
+  const day = (n: number) => 1724284800000 + n * 86400000;  // Unix ms, as the API sends them
+  const terms = (fees: Array<[number, number]>): CancellationTerms => ({
+    nonRefundable: false,
+    boardType: null,
+    roomType: null,
+    originalName: null,
+    canxFees: fees.map(([from, amt]) => ({ from, amount: { amt } })),
+  });
+
+  it('adds up the fees every room charges from each date', () => {
+    const steps = mergeCanxFees([
+      terms([[day(0), 0], [day(2), 100]]),
+      terms([[day(0), 0], [day(1), 50], [day(3), 200]]),
+    ]);
+
+    assert.deepEqual(steps.map(s => [s.from.getTime(), s.amount]), [[day(0), 0], [day(1), 50], [day(2), 150], [day(3), 300]]);
+  });
+
+  it('keeps a single room as it is', () => {
+    const steps = mergeCanxFees([terms([[day(0), 0], [day(2), 127.5]])]);
+    assert.deepEqual(steps.map(s => [s.from.getTime(), s.amount]), [[day(0), 0], [day(2), 127.5]]);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseArgs, UsageError } from '../src/cli/args';
+import { BOOLEAN_FLAGS, findCommand } from '../src/cli/commands';
+
+describe('parseArgs', () => {
+  it('splits positionals, value flags and boolean flags', () => {
+    const args = parseArgs(['rooms', 'key1', '--nights', '2', '--json', 'h1', '--guest', 'A B', '--guest=C D'], BOOLEAN_FLAGS);
+
+    assert.deepEqual(args.positionals, ['rooms', 'key1', 'h1']);
+    assert.equal(args.number('nights'), 2);
+    assert.equal(args.has('json'), true);
+    assert.deepEqual(args.all('guest'), ['A B', 'C D']);
+    assert.equal(args.string('guest'), 'C D');
+    assert.deepEqual(args.drop(1).positionals, ['key1', 'h1']);
+  });
+
+  it('takes values starting with "-" only after "="', () => {
+    const args = parseArgs(['--offset=-5', '--', '--not-a-flag'], []);
+    assert.equal(args.number('offset'), -5);
+    assert.deepEqual(args.positionals, ['--not-a-flag']);
+  });
+
+  it('reports bad command lines as a UsageError', () => {
+    assert.throws(() => parseArgs(['--nights'], BOOLEAN_FLAGS), new UsageError('--nights needs a value'));
+    assert.throws(() => parseArgs(['--nights', '--json'], BOOLEAN_FLAGS), new UsageError('--nights needs a value'));
+    assert.throws(() => parseArgs(['--json=yes'], BOOLEAN_FLAGS), new UsageError('--json takes no value'));
+    assert.throws(() => parseArgs(['--nights', 'two'], []).number('nights'), new UsageError('--nights must be a number, got: two'));
+    assert.throws(() => parseArgs(['--children', '5,x'], []).numbers('children'), /--children must be comma-separated numbers/);
+    assert.throws(
+      () => parseArgs(['--check-in', 'tomorrow'], []).date('check-in'),
+      (error: Error) => error instanceof UsageError && error.message.startsWith('--check-in: Invalid date format')
+    );
+    assert.throws(() => parseArgs([], []).positional(0, 'quoteId'), new UsageError('Missing argument: <quoteId>'));
+  });
+
+  it('rejects flags that are not known', () => {
+    const args = parseArgs(['--json', '--adlts', '2'], BOOLEAN_FLAGS);
+    assert.throws(() => args.assertKnown(['json', 'adults']), new UsageError('Unknown flag: --adlts'));
+    assert.doesNotThrow(() => args.assertKnown(['json', 'adlts']));
+  });
+});
+
+describe('findCommand', () => {
+  it('prefers two-word command names', () => {
+    assert.equal(findCommand(['bookings', 'show', 'b1'])?.name, 'bookings show');
+    assert.equal(findCommand(['confirm', 'b1', 'q1'])?.name, 'confirm');
+    assert.equal(findCommand(['bookings']), undefined);
+  });
+});
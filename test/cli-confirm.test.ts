@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { StaticTokenProvider } from '../src/auth';
+import type { HotelBookingClient } from '../src/booking-client';
+import { BookingJournal } from '../src/booking-journal';
+import { parseArgs, UsageError } from '../src/cli/args';
+import { BOOLEAN_FLAGS, findCommand } from '../src/cli/commands';
+import { DEFAULT_CONFIG, LockTripConfig } from '../src/config/schema';
+
+let dir: string;
+let journal: BookingJournal;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locktrip-confirm-'));
+  journal = new BookingJournal(path.join(dir, 'journal.jsonl'));
+  mock.method(console, 'log', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Booking b1 at `price` EUR in `status` - confirm sets it to CONFIRMED
+ */
+function fakeClient(status: string, price = 100) {
+  const confirms: string[] = [];
+  const client = {
+    transport: 'graphql',
+    async getBookingDetails(bookingId: string) {
+      return { bookingId, status, totalPrice: price, currency: 'EUR' };
+    },
+    async confirmBooking(bookingId: string, quoteId: string) {
+      confirms.push(`${bookingId} ${quoteId}`);
+      status = 'CONFIRMED';
+      return { accepted: true, message: null, voucherUrl: null };
+    },
+  };
+  return { client: client as unknown as HotelBookingClient, confirms };
+}
+
+function confirm(client: HotelBookingClient, argv: string[]) {
+  const config = { ...DEFAULT_CONFIG, graphqlUrl: '', mcpUrl: '', journalPath: journal.file } as LockTripConfig;
+  const args = parseArgs(['confirm', 'b1', 'q1_h1', '--yes', ...argv], BOOLEAN_FLAGS).drop(1);
+  return findCommand(['confirm'])!.run({ client, auth: new StaticTokenProvider('test'), config, args, json: true });
+}
+
+describe('confirm command', () => {
+  it('confirms through the journal flow prepare wrote', async () => {
+    journal.append('f1', 'prepared', { transport: 'graphql', preparedBookingId: 'b1', quotedPrice: 100, price: 100, currency: 'EUR' });
+    const { client, confirms } = fakeClient('PENDING');
+
+    await confirm(client, []);
+
+    assert.deepEqual(confirms, ['b1 q1_h1']);
+    assert.deepEqual(journal.flow('f1')?.entries.map(e => e.stage), ['prepared', 'confirm-started', 'confirmed']);
+  });
+
+  it('refuses a booking that is already confirmed', async () => {
+    const { client, confirms } = fakeClient('CONFIRMED');
+    await assert.rejects(confirm(client, ['--price', '100']), /Booking b1 is already CONFIRMED - not confirming it again/);
+    assert.deepEqual(confirms, []);
+  });
+
+  it('stops on a price rise unless it is accepted', async () => {
+    journal.append('f1', 'prepared', { preparedBookingId: 'b1', quotedPrice: 90, price: 100, currency: 'EUR' });
+    const { client, confirms } = fakeClient('PENDING');
+
+    await assert.rejects(confirm(client, []), /Price changed: price rose from 90 to 100 EUR .* --accept-price-change/);
+    assert.deepEqual(confirms, []);
+    assert.equal(journal.flow('f1')?.stage, 'prepared');
+
+    await confirm(client, ['--accept-price-change']);
+    assert.deepEqual(confirms, ['b1 q1_h1']);
+  });
+
+  it('journals a booking prepared elsewhere and needs its quote', async () => {
+    const { client, confirms } = fakeClient('PENDING');
+    await assert.rejects(confirm(client, []), UsageError);
+    assert.deepEqual(journal.flows(), []);
+
+    await confirm(client, ['--price', '100']);
+    assert.deepEqual(confirms, ['b1 q1_h1']);
+    const flows = journal.flows();
+    assert.equal(flows.length, 1);
+    assert.equal(flows[0].preparedBookingId, 'b1');
+    assert.equal(flows[0].stage, 'confirmed');
+  });
+});
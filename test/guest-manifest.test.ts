@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { BookingRoom, ContactPerson } from '../src/booking-client';
+import { GuestManifestError } from '../src/errors';
+import { assertValidGuestList, isE164Phone, validateGuestList, validateManifest } from '../src/guest-manifest';
+import { Occupancy } from '../src/occupancy';
+
+const contact: ContactPerson = { firstName: 'John', lastName: 'Doe', email: 'john@test.dev', phone: '+447700900123' };
+const guest = (firstName: string, isLeadGuest?: boolean) => ({ firstName, lastName: 'Doe', isLeadGuest });
+const paths = (violations: Array<{ path: string }>) => violations.map(v => v.path);
+
+describe('validateManifest', () => {
+  const occupancy = Occupancy.parse('2:5');
+
+  it('accepts a manifest matching the search', () => {
+    const rooms: BookingRoom[] = [{ adults: [guest('John', true), guest('Jane')], children: [{ ...guest('Amy'), age: 5 }] }];
+    assert.deepEqual(validateManifest({ rooms, contact }, occupancy), []);
+  });
+
+  it('reports every violation at once', () => {
+    const rooms: BookingRoom[] = [{
+      adults: [{ ...guest('Иван', true), title: 'Dr' as 'Mr' }, guest('', true), guest('Jane')],
+      children: [{ ...guest('Amy'), age: 19 }],
+    }];
+    const violations = validateManifest({ rooms, contact: { ...contact, email: 'john@', phone: '+44 7700 900123' } }, occupancy);
+
+    assert.deepEqual(paths(violations), [
+      'rooms[0].adults',
+      'rooms[0].adults[0].title',
+      'rooms[0].adults[0].firstName',
+      'rooms[0].adults[1].firstName',
+      'rooms[0].children[0].age',
+      'rooms[0].children',
+      'isLeadGuest',
+      'contact.email',
+      'contact.phone',
+    ]);
+    assert.match(violations[2].message, /transliterate it/);
+    assert.match(violations[6].message, /exactly one lead guest is allowed, 2 are marked/);
+  });
+
+  it('requires a lead guest', () => {
+    const rooms: BookingRoom[] = [{ adults: [guest('John'), guest('Jane')], children: [{ ...guest('Amy'), age: 5 }] }];
+    assert.deepEqual(paths(validateManifest({ rooms, contact }, occupancy)), ['isLeadGuest']);
+  });
+
+  it('accepts accented Latin names', () => {
+    const rooms: BookingRoom[] = [{ adults: [guest('José', true), { firstName: 'Zoë', lastName: "O'Brien-Núñez" }], children: [{ ...guest('Amy'), age: 5 }] }];
+    assert.deepEqual(validateManifest({ rooms, contact }, occupancy), []);
+  });
+});
+
+describe('validateGuestList', () => {
+  it('lists count mismatches with the other violations', () => {
+    const { violations } = validateGuestList(
+      { guests: [guest('John'), guest('Jane'), guest('Bob')], contact: { ...contact, phone: '07700900123' } },
+      Occupancy.parse('2')
+    );
+    assert.deepEqual(paths(violations), ['adults', 'contact.phone']);
+  });
+
+  it('throws GuestManifestError or returns the filled rooms', () => {
+    const occupancy = Occupancy.uniform(2, 1);
+    assert.throws(() => assertValidGuestList({ guests: [guest('John')], contact }, occupancy), GuestManifestError);
+
+    const { rooms } = assertValidGuestList({ guests: [guest('John'), guest('Jane')], contact }, occupancy);
+    assert.deepEqual(rooms.map(r => r.adults.map(a => a.firstName)), [['John'], ['Jane']]);
+  });
+});
+
+describe('isE164Phone', () => {
+  it('takes the number exactly as it is sent', () => {
+    assert.equal(isE164Phone('+447700900123'), true);
+    assert.equal(isE164Phone('+44 7700 900123'), false);
+    assert.equal(isE164Phone('447700900123'), false);
+    assert.equal(isE164Phone('+0447700900'), false);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Hotel } from '../src/booking-client';
+import { HotelFilter } from '../src/hotel-filter';
+
+const hotel = (hotelId: string, overrides: Partial<Hotel> = {}): Hotel => ({
+  hotelId,
+  name: `Hotel ${hotelId}`,
+  stars: 3,
+  address: '',
+  latitude: 0,
+  longitude: 0,
+  price: 50,
+  originalPrice: null,
+  discountScore: 0,
+  distance: 1,
+  boardType: null,
+  payment: 'Cash',
+  reviewScore: null,
+  reviewCount: null,
+  hasFreeCancellation: false,
+  refundable: false,
+  refundableUntil: null,
+  boards: [],
+  features: [],
+  imageUrl: null,
+  ...overrides,
+});
+
+const ids = (hotels: Hotel[]) => hotels.map(h => h.hotelId);
+
+describe('HotelFilter', () => {
+  it('sorts by every key in turn, then by hotelId', () => {
+    const hotels = [
+      hotel('d', { price: 40, stars: 4 }),
+      hotel('c', { price: 40, stars: 5 }),
+      hotel('b', { price: 30, stars: 3 }),
+      hotel('a', { price: 40, stars: 5 }),
+    ];
+    const filter = new HotelFilter().sortBy('price').thenBy('stars', 'desc');
+    assert.deepEqual(ids(filter.apply(hotels)), ['b', 'a', 'c', 'd']);
+  });
+
+  it('sorts nulls last in either direction', () => {
+    const hotels = [hotel('a'), hotel('b', { reviewScore: 7 }), hotel('c', { reviewScore: 9 })];
+    assert.deepEqual(ids(new HotelFilter().sortBy('reviewScore', 'desc').apply(hotels)), ['c', 'b', 'a']);
+    assert.deepEqual(ids(new HotelFilter().sortBy('reviewScore', 'asc').apply(hotels)), ['b', 'c', 'a']);
+  });
+
+  it('selects the same hotel whatever the input order', () => {
+    const hotels = [hotel('b', { price: 40 }), hotel('a', { price: 40 }), hotel('c', { price: 45 })];
+    const filter = new HotelFilter().sortBy('price');
+    assert.equal(filter.select(hotels).hotel?.hotelId, 'a');
+    assert.equal(filter.select([...hotels].reverse()).hotel?.hotelId, 'a');
+  });
+
+  it('counts rejections per criterion and explains the pick', () => {
+    const hotels = [
+      hotel('a', { price: 80, stars: 2 }),
+      hotel('b', { price: 45, stars: 4, hasFreeCancellation: true }),
+      hotel('c', { price: 30, stars: 2 }),
+    ];
+    const selection = new HotelFilter().maxPrice(50).minStars(3).sortBy('price').select(hotels);
+
+    assert.equal(selection.hotel?.hotelId, 'b');
+    assert.deepEqual(selection.rejectedBy, { 'price <= 50': 1, 'stars >= 3': 2 });
+    assert.ok(selection.explanation.includes('Matched 1 of 3 hotels'));
+    assert.ok(selection.explanation.includes('  ✓ stars >= 3 (4)'));
+  });
+
+  it('matches boards and features case-insensitively', () => {
+    const hotels = [
+      hotel('a', { boards: ['Breakfast Included'], features: ['WiFi', 'Pool'] }),
+      hotel('b', { boards: ['Room Only'], features: ['wifi'] }),
+    ];
+    const filter = new HotelFilter().board('breakfast included').requireFeatures('wifi', 'pool');
+    assert.deepEqual(ids(filter.apply(hotels)), ['a']);
+  });
+
+  it('asks the server only for a sort the transport documents', () => {
+    assert.equal(new HotelFilter().sortBy('price', 'desc').serverSort('graphql'), 'PRICE_DESC');
+    assert.equal(new HotelFilter().sortBy('reviewScore', 'desc').serverSort('graphql'), null);
+    assert.equal(new HotelFilter().sortBy('reviewScore', 'desc').serverSort('mcp'), 'RATING_DESC');
+    assert.equal(new HotelFilter().sortBy('stars').serverSort('mcp'), null);
+    assert.equal(new HotelFilter().serverSort('mcp'), null);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GuestCountMismatchError } from '../src/errors';
+import { Occupancy } from '../src/occupancy';
+
+const guest = (firstName: string) => ({ firstName, lastName: 'Doe' });
+
+describe('Occupancy', () => {
+  it('parses the text form and round-trips it', () => {
+    const occupancy = Occupancy.parse('2:5, 9; 1');
+    assert.deepEqual(occupancy.rooms, [{ adults: 2, childrenAges: [5, 9] }, { adults: 1, childrenAges: [] }]);
+    assert.equal(occupancy.toString(), '2:5,9;1');
+    assert.equal(occupancy.describe(), '2 rooms: 2 adults + 2 children (5, 9); 1 adult');
+  });
+
+  it('rejects rooms without an adult and out-of-range ages', () => {
+    assert.throws(() => Occupancy.parse('2;x'), /room 2 must be "adults\[:age,age\.\.\.\]", got "x"/);
+    assert.throws(() => Occupancy.parse('0'), /Room 1: adults must be a whole number of at least 1/);
+    assert.throws(() => Occupancy.parse('2:18'), /Room 1: child age must be 0-17, got 18/);
+  });
+
+  it('hands out guests in room order with the searched child ages', () => {
+    const rooms = Occupancy.parse('2:5,9;1').assign(
+      [guest('John'), guest('Jane'), guest('Bob')],
+      [guest('Amy'), guest('Max')]
+    );
+
+    assert.deepEqual(rooms.map(r => r.adults.map(a => a.firstName)), [['John', 'Jane'], ['Bob']]);
+    assert.deepEqual(rooms.map(r => r.children.map(c => `${c.firstName} ${c.age}`)), [['Amy 5', 'Max 9'], []]);
+    assert.equal(rooms[0].adults[0].isLeadGuest, true);
+    assert.equal(rooms[1].adults[0].isLeadGuest, undefined);
+  });
+
+  it('keeps an explicit lead guest', () => {
+    const rooms = Occupancy.uniform(2, 1).assign([guest('John'), { ...guest('Jane'), isLeadGuest: true }]);
+    assert.deepEqual(rooms.map(r => r.adults[0].isLeadGuest), [undefined, true]);
+  });
+
+  it('refuses extra or missing names instead of dropping them', () => {
+    const occupancy = Occupancy.parse('1:4');
+    assert.throws(
+      () => occupancy.assign([guest('John'), guest('Jane')]),
+      (error: Error) => error instanceof GuestCountMismatchError &&
+        error.message === 'Occupancy has 1 adult but 2 adult guest(s) were given; Occupancy has 1 child but 0 child guest(s) were given'
+    );
+  });
+
+  it('reports count issues from distribute without throwing', () => {
+    const { rooms, issues } = Occupancy.uniform(2, 2).distribute([guest('John'), guest('Jane'), guest('Bob')]);
+    assert.deepEqual(rooms.map(r => r.adults.length), [2, 1]);
+    assert.deepEqual(issues.map(i => i.path), ['adults']);
+  });
+
+  it('checks explicitly assigned rooms against the search', () => {
+    const occupancy = Occupancy.parse('2:5');
+    const adults = [guest('John'), guest('Jane')];
+    assert.doesNotThrow(() => occupancy.check([{ adults, children: [{ ...guest('Amy'), age: 5 }] }]));
+    assert.throws(() => occupancy.check([{ adults, children: [{ ...guest('Amy'), age: 6 }] }]), /searched child ages \[5\] but booking has \[6\]/);
+    assert.throws(() => occupancy.check([{ adults: adults.slice(1), children: [] }]), /searched 2 adults but booking names 1/);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isPriceChanged, PriceGuard } from '../src/price-guard';
+
+describe('PriceGuard', () => {
+  it('allows a rise within the tolerance and any decrease', () => {
+    const guard = new PriceGuard({ absolute: 1, percent: 2 });
+    guard.record('quote', 100, 'eur');
+    guard.record('prepared', 100.9, 'EUR');
+    assert.equal(guard.check().kind, 'PriceOk');
+
+    guard.record('prepared', 80, 'EUR');
+    assert.equal(guard.check().kind, 'PriceOk');
+  });
+
+  it('blocks a rise past the tighter of both limits', () => {
+    const guard = new PriceGuard({ absolute: 5, percent: 1 });
+    guard.record('quote', 100, 'EUR');
+    guard.record('prepared', 101.5, 'EUR');
+
+    const check = guard.check();
+    assert.ok(isPriceChanged(check));
+    assert.equal(check.difference, 1.5);
+    assert.equal(check.reason, 'price rose from 100 to 101.5 EUR (+1.5, +1.5%)');
+  });
+
+  it('blocks any rise without a tolerance', () => {
+    const guard = new PriceGuard();
+    guard.record('quote', 100, 'EUR');
+    guard.record('prepared', 100.01, 'EUR');
+    assert.equal(guard.check().kind, 'PriceChanged');
+  });
+
+  it('blocks a currency change', () => {
+    const guard = new PriceGuard({ percent: 100 });
+    guard.record('quote', 100, 'EUR');
+    guard.record('prepared', 90, 'USD');
+
+    const check = guard.check();
+    assert.ok(isPriceChanged(check));
+    assert.equal(check.currencyChanged, true);
+    assert.ok(Number.isNaN(check.difference));
+  });
+
+  it('needs a quote and a prepared price', () => {
+    const guard = new PriceGuard();
+    guard.record('quote', 100, 'EUR');
+    assert.throws(() => guard.check(), /needs both a quote and a prepared price/);
+  });
+
+  it('does not call confirm until the change is accepted', async () => {
+    const guard = new PriceGuard();
+    guard.record('quote', 100, 'EUR');
+    guard.record('prepared', 120, 'EUR');
+
+    let calls = 0;
+    const confirm = async () => ++calls;
+
+    const blocked = await guard.confirm(confirm);
+    assert.ok(isPriceChanged(blocked));
+    assert.equal(calls, 0);
+
+    guard.accept(blocked);
+    assert.equal(await guard.confirm(confirm), 1);
+  });
+
+  it('drops an acceptance when a new price is recorded', async () => {
+    const guard = new PriceGuard();
+    guard.record('quote', 100, 'EUR');
+    guard.record('prepared', 120, 'EUR');
+    const change = guard.check();
+    assert.ok(isPriceChanged(change));
+    guard.accept(change);
+
+    guard.record('prepared', 130, 'EUR');
+    assert.equal(guard.allows(), false);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { REDACTED, Redactor } from '../src/logger';
+
+describe('Redactor', () => {
+  it('replaces sensitive keys at any depth', () => {
+    const redactor = new Redactor();
+    const value = {
+      headers: { Authorization: 'Bearer abc', accept: 'application/json' },
+      rooms: [{ adults: [{ title: 'Mr', firstName: 'John', last_name: 'Doe' }] }],
+      contactPerson: { email: 'john@example.com', phone: '+1234567890' },
+      password: '',
+    };
+
+    assert.deepEqual(redactor.redact(value), {
+      headers: { Authorization: REDACTED, accept: 'application/json' },
+      rooms: [{ adults: [{ title: 'Mr', firstName: REDACTED, last_name: REDACTED }] }],
+      contactPerson: { email: REDACTED, phone: REDACTED },
+      password: '',
+    });
+    assert.equal(value.contactPerson.email, 'john@example.com');
+  });
+
+  it('replaces bearer tokens, JWTs and email addresses inside strings', () => {
+    const redactor = new Redactor();
+    assert.equal(redactor.redactString('sent Bearer abc.def-123 to api'), `sent ${REDACTED} to api`);
+    assert.equal(redactor.redactString('token eyJhbGciOi.eyJzdWIiOi.sig expired'), `token ${REDACTED} expired`);
+    assert.equal(redactor.redactString('no booking for qa+e2e@test.dev'), `no booking for ${REDACTED}`);
+  });
+
+  it('replaces configured secrets, longest first', () => {
+    const redactor = new Redactor(['John', 'John Doe', undefined, null]);
+    redactor.add('  Jane  ');
+    assert.equal(redactor.redactString('Lead guest John Doe, then John and Jane'), `Lead guest ${REDACTED}, then ${REDACTED} and ${REDACTED}`);
+  });
+
+  it('ignores secrets too short to match safely', () => {
+    const redactor = new Redactor(['Al']);
+    assert.equal(redactor.redactString('Also Al'), 'Also Al');
+  });
+
+  it('redacts error messages and survives cycles', () => {
+    const redactor = new Redactor(['s3cret']);
+    const value: Record<string, unknown> = { error: new Error('login failed for s3cret'), at: new Date(0) };
+    value.self = value;
+
+    assert.deepEqual(redactor.redact(value), {
+      error: { name: 'Error', message: `login failed for ${REDACTED}` },
+      at: new Date(0),
+      self: '[Circular]',
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { iteratePages, ResultPage } from '../src/result-iterator';
+
+/**
+ * `count` items split into pages of `size` - reports `reportedTotal` as the total
+ */
+function pages(count: number, size: number, reportedTotal = count) {
+  const requested: number[] = [];
+  const fetchPage = async (page: number): Promise<ResultPage<number>> => {
+    requested.push(page);
+    const items = Array.from({ length: Math.max(0, Math.min(size, count - page * size)) }, (_, i) => page * size + i);
+    return { items, hasNextPage: (page + 1) * size < count, total: reportedTotal };
+  };
+  return { fetchPage, requested };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('iteratePages', () => {
+  it('yields every item in page order', async () => {
+    const { fetchPage, requested } = pages(7, 3);
+    assert.deepEqual(await collect(iteratePages(fetchPage)), [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(requested, [0, 1, 2]);
+  });
+
+  it('keeps page order with concurrent requests and never asks past the last page', async () => {
+    const { fetchPage, requested } = pages(10, 2);
+    assert.deepEqual(await collect(iteratePages(fetchPage, { concurrency: 3 })), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual([...requested].sort(), [0, 1, 2, 3, 4]);
+  });
+
+  it('follows hasNextPage when total was an underestimate', async () => {
+    const { fetchPage } = pages(9, 2, 4);
+    assert.deepEqual(await collect(iteratePages(fetchPage, { concurrency: 2 })), [0, 1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('stops after a single page', async () => {
+    const { fetchPage, requested } = pages(2, 5);
+    assert.deepEqual(await collect(iteratePages(fetchPage)), [0, 1]);
+    assert.deepEqual(requested, [0]);
+  });
+
+  it('starts from startPage', async () => {
+    const { fetchPage } = pages(6, 2);
+    assert.deepEqual(await collect(iteratePages(fetchPage, { startPage: 1 })), [2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyApiError, InvalidPackageIdError, LockTripError, RateLimitedError, TransportError } from '../src/errors';
+import { resolveRetryPolicy, retryDelay, withRetry } from '../src/retry';
+
+const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+
+describe('retryDelay', () => {
+  it('doubles the backoff up to maxDelayMs', () => {
+    assert.deepEqual([1, 2, 3, 4, 5].map(attempt => retryDelay(policy, attempt)), [100, 200, 400, 800, 1000]);
+  });
+
+  it('picks a jittered delay within the backoff', () => {
+    const jittered = { ...policy, jitter: true };
+    for (let i = 0; i < 20; i++) {
+      const delay = retryDelay(jittered, 3);
+      assert.ok(delay >= 0 && delay <= 400, `${delay} outside [0, 400]`);
+    }
+  });
+
+  it('honours Retry-After, capped at maxDelayMs', () => {
+    assert.equal(retryDelay(policy, 1, new RateLimitedError('slow down', {}, 300)), 300);
+    assert.equal(retryDelay(policy, 1, new RateLimitedError('slow down', {}, 3_600_000)), 1000);
+    assert.equal(retryDelay(policy, 2, new RateLimitedError('slow down')), 200);
+  });
+});
+
+describe('withRetry', () => {
+  const fast = resolveRetryPolicy({ baseDelayMs: 0, jitter: false });
+
+  it('retries a retryable error until it succeeds', async () => {
+    let calls = 0;
+    const retries: number[] = [];
+    const result = await withRetry(async () => {
+      if (++calls < 3) throw new TransportError('ECONNRESET');
+      return 'ok';
+    }, { ...fast, onRetry: (_error, attempt) => retries.push(attempt) }, true);
+
+    assert.equal(result, 'ok');
+    assert.equal(calls, 3);
+    assert.deepEqual(retries, [1, 2]);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => {
+      calls++;
+      throw new TransportError('ECONNRESET');
+    }, fast, true), TransportError);
+    assert.equal(calls, 3);
+  });
+
+  it('never retries an operation that is not retry-safe', async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => {
+      calls++;
+      throw new TransportError('timeout');
+    }, fast, false), TransportError);
+    assert.equal(calls, 1);
+  });
+
+  it('never retries a non-retryable error', async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => {
+      calls++;
+      throw new LockTripError('Invalid date format');
+    }, fast, true), LockTripError);
+    assert.equal(calls, 1);
+  });
+
+  it('runs once with retries disabled', async () => {
+    let calls = 0;
+    await assert.rejects(withRetry(async () => {
+      calls++;
+      throw new TransportError('ECONNRESET');
+    }, resolveRetryPolicy(false), true));
+    assert.equal(calls, 1);
+  });
+});
+
+describe('classifyApiError', () => {
+  it('matches only the documented invalid packageId message', () => {
+    assert.ok(classifyApiError('Invalid packageId') instanceof InvalidPackageIdError);
+    assert.equal(classifyApiError('packageId is required').constructor, LockTripError);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PollSnapshot, pollDelay, pollSearch } from '../src/search-poller';
+
+/**
+ * Snapshots with 1, 2, 3... results - completed from poll `completeAt` on
+ */
+function growing(completeAt = Infinity) {
+  let polls = 0;
+  return async (): Promise<PollSnapshot<number>> => {
+    polls++;
+    return { result: polls, count: polls, total: polls, completed: polls >= completeAt };
+  };
+}
+
+describe('pollDelay', () => {
+  it('repeats the last entry of a schedule', () => {
+    assert.deepEqual([1, 2, 3, 4].map(attempt => pollDelay({ schedule: [500, 1000, 2000] }, attempt)), [500, 1000, 2000, 2000]);
+  });
+
+  it('multiplies the interval up to maxIntervalMs', () => {
+    const options = { intervalMs: 1000, multiplier: 2, maxIntervalMs: 5000 };
+    assert.deepEqual([1, 2, 3, 4].map(attempt => pollDelay(options, attempt)), [1000, 2000, 4000, 5000]);
+  });
+
+  it('defaults to a fixed one-second interval', () => {
+    assert.deepEqual([1, 5].map(attempt => pollDelay({}, attempt)), [1000, 1000]);
+  });
+});
+
+describe('pollSearch', () => {
+  it('polls until completed, flagging earlier results as partial', async () => {
+    const partial: boolean[] = [];
+    const outcome = await pollSearch(growing(3), {
+      initialDelayMs: 0,
+      intervalMs: 1,
+      onProgress: p => partial.push(p.partial),
+    });
+
+    assert.equal(outcome.result, 3);
+    assert.equal(outcome.completed, true);
+    assert.equal(outcome.attempts, 3);
+    assert.deepEqual(partial, [true, true, false]);
+  });
+
+  it('returns the latest partial result after maxAttempts', async () => {
+    const outcome = await pollSearch(growing(), { initialDelayMs: 0, intervalMs: 1, maxAttempts: 2 });
+    assert.deepEqual([outcome.result, outcome.completed, outcome.attempts], [2, false, 2]);
+  });
+
+  it('stops before a delay that would pass the deadline', async () => {
+    const outcome = await pollSearch(growing(), { initialDelayMs: 0, intervalMs: 1000, deadlineMs: 500 });
+    assert.deepEqual([outcome.result, outcome.completed, outcome.attempts], [1, false, 1]);
+  });
+
+  it('rejects with the abort reason', async () => {
+    const controller = new AbortController();
+    const polling = pollSearch(growing(), { initialDelayMs: 0, intervalMs: 1000, signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('user cancelled')), 10);
+
+    await assert.rejects(polling, /user cancelled/);
+  });
+});
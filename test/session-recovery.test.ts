@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { HotelBookingClient, RoomPackage } from '../src/booking-client';
+import { PackageUnavailableError, PriceChangeRejectedError, SessionExpiredError } from '../src/errors';
+import { matchPackage, RecoverableSearch } from '../src/session-recovery';
+
+const pkg = (quoteId: string, price: number, overrides: Partial<RoomPackage> = {}): RoomPackage => ({
+  quoteId,
+  packageId: quoteId.split('_')[0],
+  roomName: 'Double Deluxe',
+  mealType: 'Breakfast Included',
+  price,
+  refundable: true,
+  ...overrides,
+});
+
+describe('matchPackage', () => {
+  const previous = pkg('old_1', 100);
+
+  it('matches room name, meal type and refundability, closest price first', () => {
+    const match = matchPackage(previous, [
+      pkg('a_1', 90, { mealType: 'Room Only' }),
+      pkg('b_1', 120),
+      pkg('c_1', 104),
+      pkg('d_1', 101, { refundable: false }),
+    ]);
+    assert.equal(match?.quoteId, 'c_1');
+  });
+
+  it('returns null when nothing matches', () => {
+    assert.equal(matchPackage(previous, [pkg('a_1', 100, { roomName: 'Twin' })]), null);
+  });
+});
+
+/**
+ * Search n gets key n and packages costing `prices[n - 1]`; a request for
+ * any other search, or after expire(), fails as expired
+ */
+function fakeClient(prices: number[]) {
+  let searches = 0;
+  let live = '';
+  const calls: string[] = [];
+  const current = () => `key${searches}`;
+  const expireOld = (key: string) => {
+    if (key !== live) throw new SessionExpiredError('Session expired');
+  };
+
+  const client = {
+    transport: 'graphql',
+    async searchHotels() {
+      searches++;
+      live = current();
+      calls.push(`search ${live}`);
+      return { searchKey: current(), sessionId: `s${searches}` };
+    },
+    async getResults() {
+      return { hotels: [], page: 0, size: 100, total: 0, hasNextPage: false, completed: true };
+    },
+    async getRooms({ searchKey }: { searchKey: string }) {
+      calls.push(`rooms ${searchKey}`);
+      return { searchKey, packages: [pkg(`p${searches}_h1`, prices[searches - 1])] };
+    },
+    async getCancellationPolicies(_searchKey: string, _hotelId: string, packageIds: string[]) {
+      calls.push(`policies ${packageIds.join(',')}`);
+      expireOld(`key${packageIds[0].slice(1)}`);
+      return packageIds.map(packageId => ({ packageId, refundable: true, freeCancellationUntil: null, fees: [] }));
+    },
+    async prepareBooking({ quoteId }: { quoteId: string }) {
+      calls.push(`prepare ${quoteId}`);
+      expireOld(`key${quoteId.slice(1).split('_')[0]}`);
+      return { bookingId: 'b1', price: prices[searches - 1], currency: 'EUR', payment: 'Cash' };
+    },
+  };
+
+  return { client: client as unknown as HotelBookingClient, calls, expire: () => { live = ''; } };
+}
+
+const params = { checkIn: new Date('2026-12-10'), checkOut: new Date('2026-12-12'), currency: 'EUR', rooms: [{ adults: 2, childrenAges: [] }] };
+const poll = { initialDelayMs: 0 };
+const contact = { firstName: 'Ann', lastName: 'Lee', email: 'ann@test.dev', phone: '+447700900123' };
+
+describe('RecoverableSearch', () => {
+  it('re-searches and prepares with the re-matched quoteId', async () => {
+    const { client, calls, expire } = fakeClient([100, 100]);
+    const recovered: string[] = [];
+    const rematched: string[] = [];
+    const search = new RecoverableSearch(client, params, {
+      poll,
+      onRecovered: (key, previous) => recovered.push(`${previous} → ${key}`),
+      onRematch: (_hotelId, previous, current) => rematched.push(`${previous.quoteId} → ${current.quoteId}`),
+    });
+
+    await search.start();
+    const { packages } = await search.getRooms('h1');
+    expire();
+    const booking = await search.prepareBooking('h1', packages[0], [], contact);
+
+    assert.equal(booking.bookingId, 'b1');
+    assert.deepEqual(recovered, ['key1 → key2']);
+    assert.deepEqual(rematched, ['p1_h1 → p2_h1']);
+    assert.deepEqual(calls.filter(c => c.startsWith('prepare')), ['prepare p1_h1', 'prepare p2_h1']);
+    assert.equal(search.searchKey, 'key2');
+  });
+
+  it('asks again for policies with the re-matched packageIds', async () => {
+    const { client, calls, expire } = fakeClient([100, 100]);
+    const search = new RecoverableSearch(client, params, { poll });
+
+    await search.start();
+    const { packages } = await search.getRooms('h1');
+    expire();
+    const policies = await search.getCancellationPolicies('h1', packages);
+
+    assert.deepEqual(policies.map(p => p.packageId), ['p2']);
+    assert.deepEqual(calls.filter(c => c.startsWith('policies')), ['policies p1', 'policies p2']);
+  });
+
+  it('stops when the caller rejects a price change', async () => {
+    const { client, expire } = fakeClient([100, 120]);
+    const changes: number[] = [];
+    const search = new RecoverableSearch(client, params, {
+      poll,
+      onPriceChange: change => {
+        changes.push(change.difference);
+        return false;
+      },
+    });
+
+    await search.start();
+    const { packages } = await search.getRooms('h1');
+    expire();
+    await assert.rejects(
+      search.prepareBooking('h1', packages[0], [], contact),
+      PriceChangeRejectedError
+    );
+    assert.deepEqual(changes, [20]);
+  });
+
+  it('fails when the package is gone from the new search', async () => {
+    const { client, expire } = fakeClient([100, 100]);
+    const search = new RecoverableSearch(client, params, { poll });
+
+    await search.start();
+    const { packages } = await search.getRooms('h1');
+    expire();
+    await assert.rejects(
+      search.prepareBooking('h1', { ...packages[0], roomName: 'Suite' }, [], contact),
+      PackageUnavailableError
+    );
+  });
+
+  it('rethrows once maxRecoveries is used up', async () => {
+    const { client } = fakeClient([100, 100]);
+    const search = new RecoverableSearch(client, params, { poll, maxRecoveries: 0 });
+
+    await search.start();
+    await assert.rejects(search.prepareBooking('h1', pkg('p0_h1', 100), [], contact), SessionExpiredError);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseYaml } from '../src/config/yaml';
+
+describe('parseYaml', () => {
+  it('reads nested mappings and scalars', () => {
+    const config = parseYaml([
+      'transport: mcp',
+      'search:',
+      '  destination: "bali, indonesia"',
+      '  adults: 2',
+      '  maxPrice: 49.5',
+      'booking:',
+      '  contact:',
+      "    lastName: 'O''Brien'",
+      '    phone: "+1234567890"',
+      'debug: false',
+      'journalPath: ~',
+    ].join('\n'));
+
+    assert.deepEqual(config, {
+      transport: 'mcp',
+      search: { destination: 'bali, indonesia', adults: 2, maxPrice: 49.5 },
+      booking: { contact: { lastName: "O'Brien", phone: '+1234567890' } },
+      debug: false,
+      journalPath: null,
+    });
+  });
+
+  it('reads block and flow sequences', () => {
+    const config = parseYaml([
+      'childrenAges: [5, 9]',
+      'guests:',
+      '- firstName: John',
+      '  lastName: Doe',
+      '- firstName: Jane',
+      '  lastName: Doe',
+      'tags:',
+      '  - a',
+      '  - b',
+      'empty: []',
+    ].join('\n'));
+
+    assert.deepEqual(config, {
+      childrenAges: [5, 9],
+      guests: [{ firstName: 'John', lastName: 'Doe' }, { firstName: 'Jane', lastName: 'Doe' }],
+      tags: ['a', 'b'],
+      empty: [],
+    });
+  });
+
+  it('drops comments but keeps # inside quotes and words', () => {
+    const config = parseYaml([
+      '# LockTrip config',
+      'url: "http://localhost#anchor"  # trailing comment',
+      'tag: a#b',
+    ].join('\n'));
+
+    assert.deepEqual(config, { url: 'http://localhost#anchor', tag: 'a#b' });
+  });
+
+  it('reads an unquoted phone number as a number, like YAML', () => {
+    assert.deepEqual(parseYaml('phone: +1234567890'), { phone: 1234567890 });
+  });
+
+  it('returns null for an empty document', () => {
+    assert.equal(parseYaml('# nothing here\n\n'), null);
+  });
+
+  it('reports the line of unsupported or broken input', () => {
+    assert.throws(() => parseYaml('a: 1\n\tb: 2'), /YAML line 2: tabs are not allowed/);
+    assert.throws(() => parseYaml('a: 1\na: 2'), /YAML line 2: duplicate key: a/);
+    assert.throws(() => parseYaml('a: { b: 1 }'), /flow mappings/);
+    assert.throws(() => parseYaml('a: "open'), /unterminated "string"/);
+    assert.throws(() => parseYaml('a: 1\n    b: 2'), /YAML line 2: unexpected indentation/);
+  });
+});
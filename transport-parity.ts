@@ -0,0 +1,130 @@
+/**
+ * LockTrip API - GraphQL vs MCP Parity Check
+ *
+ * Runs the same region, dates and occupancy through both transports and
+ * reports every difference in hotel counts, per-hotel minimum prices, room
+ * packages and normalized cancellation policies. Nothing is booked.
+ *
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ *
+ * BEARER_TOKEN="eyJ..." npx tsx transport-parity.ts
+ *
+ * # Against the mock server:
+ * LOCKTRIP_URL=http://127.0.0.1:4000 BEARER_TOKEN=test npx tsx transport-parity.ts
+ *
+ * # Another search, more hotels sampled, full report as JSON:
+ * BEARER_TOKEN="eyJ..." npx tsx transport-parity.ts --destination "paris, france" --occupancy "2:5" \
+ *   --sample-hotels 10 --json > parity.json
+ *
+ * Tolerances live in the `parity` section of locktrip.config.yaml. Exits
+ * with 1 on any mismatch. Production prices move between two searches;
+ * raise parity.priceTolerance before reporting a small price difference.
+ */
+
+import { createAuthProvider } from './src/auth';
+import { createBookingClient, HotelBookingClient, Transport } from './src/booking-client';
+import { parseArgs } from './src/cli/args';
+import { createRunLogger, loadConfigOrExit } from './src/config/load';
+import { searchOccupancy } from './src/config/schema';
+import { toIsoDate } from './src/dates';
+import { compareTransports, MismatchKind, PARITY_TRANSPORTS, TransportParityReport } from './src/transport-parity';
+
+const args = parseArgs(process.argv.slice(2), ['json']);
+const settings = loadConfigOrExit({ args });
+
+// Mismatches shown per kind - the rest are counted
+const SHOWN_PER_KIND = 10;
+
+function printReport(report: TransportParityReport) {
+  const { compared, hotels, completed } = report;
+  console.log(`\nHotels:    graphql ${hotels.graphql}${completed.graphql ? '' : ' (partial)'}, mcp ${hotels.mcp}${completed.mcp ? '' : ' (partial)'}`);
+  console.log(`Compared:  ${compared.hotels} shared hotel(s), ${compared.prices} price(s), ${compared.packages} package(s), ${compared.policies} policy(ies)`);
+
+  const kinds = [...new Set(report.mismatches.map(m => m.kind))] as MismatchKind[];
+  for (const kind of kinds) {
+    const mismatches = report.mismatches.filter(m => m.kind === kind);
+    console.log(`\n✗ ${kind} (${mismatches.length})`);
+    for (const m of mismatches.slice(0, SHOWN_PER_KIND)) {
+      console.log(`    ${m.subject}: graphql ${m.graphql} ≠ mcp ${m.mcp}`);
+    }
+    if (mismatches.length > SHOWN_PER_KIND) {
+      console.log(`    ... ${mismatches.length - SHOWN_PER_KIND} more (--json for all)`);
+    }
+  }
+}
+
+async function main() {
+  const json = args.has('json');
+  const log = json ? () => {} : (message: string) => console.log(message);
+
+  const checkIn = new Date();
+  checkIn.setMonth(checkIn.getMonth() + 6);
+  const checkOut = new Date(checkIn);
+  checkOut.setDate(checkOut.getDate() + 1);
+  const occupancy = searchOccupancy(settings.search);
+  const { parity } = settings;
+
+  log(`GraphQL:     ${settings.graphqlUrl}/graphql`);
+  log(`MCP:         ${settings.mcpUrl} (${settings.mcpProtocol})`);
+  log(`Destination: ${settings.search.destination}, ${toIsoDate(checkIn)}, ${occupancy.describe()}`);
+  log(`Tolerances:  count ${parity.countTolerancePercent}%, price ±${parity.priceTolerance.absolute} and ±${parity.priceTolerance.percent}%, dates ±${parity.dateToleranceMinutes} min\n`);
+
+  const auth = createAuthProvider({ token: settings.token, ...settings.auth });
+  const logger = createRunLogger(settings);
+  const clients = Object.fromEntries(PARITY_TRANSPORTS.map(transport => [transport, createBookingClient({
+    transport,
+    graphqlUrl: settings.graphqlUrl,
+    mcpUrl: settings.mcpUrl,
+    mcpProtocol: settings.mcpProtocol,
+    auth,
+    logger,
+  })])) as Record<Transport, HotelBookingClient>;
+
+  const report = await compareTransports({
+    clients,
+    search: {
+      destination: settings.search.destination,
+      checkIn,
+      checkOut,
+      rooms: occupancy.rooms.map(r => ({ adults: r.adults, childrenAges: r.childrenAges })),
+      currency: settings.search.currency,
+      nationality: settings.search.nationality,
+    },
+    tolerances: {
+      countPercent: parity.countTolerancePercent,
+      price: parity.priceTolerance,
+      dateMinutes: parity.dateToleranceMinutes,
+    },
+    sampleHotels: parity.sampleHotels,
+    polling: {
+      initialDelayMs: settings.polling.initialWaitMs,
+      intervalMs: settings.polling.intervalMs,
+      multiplier: settings.polling.backoff,
+      maxIntervalMs: settings.polling.maxIntervalMs,
+      deadlineMs: settings.polling.deadlineMs,
+    },
+    paging: { pageSize: settings.paging.pageSize, concurrency: settings.paging.concurrency },
+    onProgress: log,
+  });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.mismatches.length > 0) {
+    if (!json) {
+      console.error(`\n❌ ${report.mismatches.length} mismatch(es) between graphql and mcp`);
+    }
+    process.exit(1);
+  }
+  log('\n✅ GraphQL and MCP agree on every compared value');
+}
+
+main().catch(error => {
+  console.error('❌ PARITY CHECK FAILED:', (error as Error).message);
+  process.exit(1);
+});